@@ -14,8 +14,16 @@ import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { Send, Save, Trash2, ClipboardPaste, CheckCircle2, XCircle } from 'lucide-react';
+import SendCalendar from '@/components/queue/SendCalendar';
+import { Send, Save, Trash2, ClipboardPaste, CheckCircle2, XCircle, CalendarClock } from 'lucide-react';
+
+type AttachmentKind = 'media' | 'document' | 'audio' | 'poll' | 'location';
+
+// WhatsApp has no caption on these; the message text is not sent with them.
+const UNCAPTIONED_ATTACHMENTS: AttachmentKind[] = ['audio', 'poll', 'location'];
+const POLL_MAX_OPTIONS = 12;
 
 type ManualDraft = {
   id: string;
@@ -28,6 +36,20 @@ type ManualDraft = {
     disableLinkPreview: boolean;
     includeCaption: boolean;
     target_ids: string[];
+    attachmentKind?: AttachmentKind;
+    documentUrl?: string;
+    documentName?: string;
+    audioUrl?: string;
+    voiceNote?: boolean;
+    pollQuestion?: string;
+    pollOptions?: string;
+    pollMultiSelect?: boolean;
+    latitude?: string;
+    longitude?: string;
+    locationName?: string;
+    locationAddress?: string;
+    scheduledFor?: string;
+    scheduleTimezone?: string;
   };
 };
 
@@ -39,11 +61,17 @@ type ManualBlock = {
 };
 
 type SettingsShape = {
+  default_timezone?: string;
   manual_drafts?: ManualDraft[] | null;
   manual_blocks?: ManualBlock[] | null;
 };
 
 const normalizeUrlInput = (value: unknown) => String(value ?? '').trim();
+const readPollOptions = (value: string) =>
+  value
+    .split('\n')
+    .map((option) => option.trim())
+    .filter(Boolean);
 const makeId = () => {
   try {
     if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
@@ -83,6 +111,20 @@ const ComposeInner = () => {
   const [videoUrl, setVideoUrl] = useState('');
   const [disableLinkPreview, setDisableLinkPreview] = useState(false);
   const [includeCaption, setIncludeCaption] = useState(true);
+  const [attachmentKind, setAttachmentKind] = useState<AttachmentKind>('media');
+  const [documentUrl, setDocumentUrl] = useState('');
+  const [documentName, setDocumentName] = useState('');
+  const [audioUrl, setAudioUrl] = useState('');
+  const [voiceNote, setVoiceNote] = useState(true);
+  const [pollQuestion, setPollQuestion] = useState('');
+  const [pollOptions, setPollOptions] = useState('');
+  const [pollMultiSelect, setPollMultiSelect] = useState(false);
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [locationName, setLocationName] = useState('');
+  const [locationAddress, setLocationAddress] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [scheduleTimezone, setScheduleTimezone] = useState('');
 
   const [blockName, setBlockName] = useState('');
   const [blockContent, setBlockContent] = useState('');
@@ -126,6 +168,15 @@ const ComposeInner = () => {
 
   const selectedCount = selectedTargetIds.length;
 
+  const localTimezone = useMemo(() => {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+      return 'UTC';
+    }
+  }, []);
+  const effectiveScheduleTimezone = scheduleTimezone.trim() || settings?.default_timezone || localTimezone;
+
   const updateDrafts = useMutation({
     mutationFn: (next: ManualDraft[]) => api.put('/api/settings', { manual_drafts: next }),
     onSuccess: () => {
@@ -140,18 +191,51 @@ const ComposeInner = () => {
     }
   });
 
+  const textAllowed = !UNCAPTIONED_ATTACHMENTS.includes(attachmentKind);
+
+  // Only the selected attachment is sent; the server rejects more than one.
+  const buildDispatchFields = () => ({
+    message: textAllowed ? message.trim() || null : null,
+    imageUrl: attachmentKind === 'media' ? normalizeUrlInput(imageUrl) || null : null,
+    videoUrl: attachmentKind === 'media' ? normalizeUrlInput(videoUrl) || null : null,
+    documentUrl: attachmentKind === 'document' ? normalizeUrlInput(documentUrl) || null : null,
+    documentName: attachmentKind === 'document' ? documentName.trim() || null : null,
+    audioUrl: attachmentKind === 'audio' ? normalizeUrlInput(audioUrl) || null : null,
+    voiceNote,
+    poll:
+      attachmentKind === 'poll'
+        ? { question: pollQuestion.trim(), options: readPollOptions(pollOptions), multiSelect: pollMultiSelect }
+        : null,
+    location:
+      attachmentKind === 'location'
+        ? {
+            latitude: Number(latitude),
+            longitude: Number(longitude),
+            name: locationName.trim() || null,
+            address: locationAddress.trim() || null
+          }
+        : null,
+    disableLinkPreview,
+    includeCaption
+  });
+
   const queueManual = useMutation({
     mutationFn: () =>
       api.post<{ queued?: number }>('/api/manual/queue', {
         target_ids: selectedTargetIds,
-        message: message.trim() || null,
-        imageUrl: normalizeUrlInput(imageUrl) || null,
-        videoUrl: normalizeUrlInput(videoUrl) || null,
-        disableLinkPreview,
-        includeCaption
+        ...buildDispatchFields(),
+        scheduledFor: scheduledFor || null,
+        timezone: scheduledFor ? effectiveScheduleTimezone : null
       }),
     onSuccess: (result: { queued?: number }) => {
-      setNotice({ type: 'success', message: `Queued ${Number(result?.queued || 0)} manual message(s).` });
+      const count = Number(result?.queued || 0);
+      setNotice({
+        type: 'success',
+        message: scheduledFor
+          ? `Scheduled ${count} manual message(s) for ${scheduledFor.replace('T', ' ')} (${effectiveScheduleTimezone}).`
+          : `Queued ${count} manual message(s).`
+      });
+      queryClient.invalidateQueries({ queryKey: ['send-calendar'] });
       queryClient.invalidateQueries({ queryKey: ['queue'] });
       queryClient.invalidateQueries({ queryKey: ['queue-stats'] });
       router.push('/queue?include_manual=true');
@@ -166,11 +250,7 @@ const ComposeInner = () => {
     mutationFn: () =>
       api.post<{ sent?: number; failed?: number; ok?: boolean }>('/api/manual/send', {
         target_ids: selectedTargetIds,
-        message: message.trim() || null,
-        imageUrl: normalizeUrlInput(imageUrl) || null,
-        videoUrl: normalizeUrlInput(videoUrl) || null,
-        disableLinkPreview,
-        includeCaption
+        ...buildDispatchFields()
       }),
     onSuccess: (result: { sent?: number; failed?: number; ok?: boolean }) => {
       const sent = Number(result?.sent || 0);
@@ -197,6 +277,54 @@ const ComposeInner = () => {
     }
 
     const hasText = Boolean(message.trim());
+    if (attachmentKind === 'document') {
+      if (!normalizeUrlInput(documentUrl)) {
+        setNotice({ type: 'error', message: 'Add a document URL (PDF, DOC or DOCX).' });
+        return false;
+      }
+      return true;
+    }
+    if (!textAllowed && hasText) {
+      setNotice({ type: 'error', message: 'Polls, audio and locations cannot carry message text; clear it or send it separately.' });
+      return false;
+    }
+    if (attachmentKind === 'audio') {
+      if (!normalizeUrlInput(audioUrl)) {
+        setNotice({ type: 'error', message: 'Add an audio URL (MP3, M4A, AAC or OGG).' });
+        return false;
+      }
+      return true;
+    }
+    if (attachmentKind === 'poll') {
+      const options = readPollOptions(pollOptions);
+      if (!pollQuestion.trim()) {
+        setNotice({ type: 'error', message: 'Add a poll question.' });
+        return false;
+      }
+      if (options.length < 2 || options.length > POLL_MAX_OPTIONS) {
+        setNotice({ type: 'error', message: `Polls need 2 to ${POLL_MAX_OPTIONS} options, one per line.` });
+        return false;
+      }
+      if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+        setNotice({ type: 'error', message: 'Poll options must be unique.' });
+        return false;
+      }
+      return true;
+    }
+    if (attachmentKind === 'location') {
+      const lat = Number(latitude);
+      const lng = Number(longitude);
+      if (!latitude.trim() || !longitude.trim() || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+        setNotice({ type: 'error', message: 'Add a latitude and longitude.' });
+        return false;
+      }
+      if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        setNotice({ type: 'error', message: 'Latitude must be within ±90 and longitude within ±180.' });
+        return false;
+      }
+      return true;
+    }
+
     const hasImage = Boolean(normalizeUrlInput(imageUrl));
     const hasVideo = Boolean(normalizeUrlInput(videoUrl));
     if (!hasText && !hasImage && !hasVideo) {
@@ -228,7 +356,21 @@ const ComposeInner = () => {
         videoUrl,
         disableLinkPreview,
         includeCaption,
-        target_ids: selectedTargetIds
+        target_ids: selectedTargetIds,
+        attachmentKind,
+        documentUrl,
+        documentName,
+        audioUrl,
+        voiceNote,
+        pollQuestion,
+        pollOptions,
+        pollMultiSelect,
+        latitude,
+        longitude,
+        locationName,
+        locationAddress,
+        scheduledFor,
+        scheduleTimezone
       }
     };
     return draft;
@@ -265,6 +407,20 @@ const ComposeInner = () => {
     setDisableLinkPreview(Boolean(draft.data?.disableLinkPreview));
     setIncludeCaption(draft.data?.includeCaption !== false);
     setSelectedTargetIds(Array.isArray(draft.data?.target_ids) ? draft.data.target_ids : []);
+    setAttachmentKind(draft.data?.attachmentKind || 'media');
+    setDocumentUrl(String(draft.data?.documentUrl || ''));
+    setDocumentName(String(draft.data?.documentName || ''));
+    setAudioUrl(String(draft.data?.audioUrl || ''));
+    setVoiceNote(draft.data?.voiceNote !== false);
+    setPollQuestion(String(draft.data?.pollQuestion || ''));
+    setPollOptions(String(draft.data?.pollOptions || ''));
+    setPollMultiSelect(Boolean(draft.data?.pollMultiSelect));
+    setLatitude(String(draft.data?.latitude || ''));
+    setLongitude(String(draft.data?.longitude || ''));
+    setLocationName(String(draft.data?.locationName || ''));
+    setLocationAddress(String(draft.data?.locationAddress || ''));
+    setScheduledFor(String(draft.data?.scheduledFor || ''));
+    setScheduleTimezone(String(draft.data?.scheduleTimezone || ''));
     setNotice(null);
   };
 
@@ -277,6 +433,20 @@ const ComposeInner = () => {
     setDisableLinkPreview(false);
     setIncludeCaption(true);
     setSelectedTargetIds([]);
+    setAttachmentKind('media');
+    setDocumentUrl('');
+    setDocumentName('');
+    setAudioUrl('');
+    setVoiceNote(true);
+    setPollQuestion('');
+    setPollOptions('');
+    setPollMultiSelect(false);
+    setLatitude('');
+    setLongitude('');
+    setLocationName('');
+    setLocationAddress('');
+    setScheduledFor('');
+    setScheduleTimezone('');
     setNotice(null);
   };
 
@@ -416,36 +586,168 @@ const ComposeInner = () => {
                   id="message"
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
-                  placeholder="Type your update..."
+                  placeholder={textAllowed ? 'Type your update...' : 'Not sent with this attachment type'}
                   className="min-h-[170px]"
+                  disabled={!textAllowed}
                 />
                 <p className="text-xs text-muted-foreground">
-                  {message.length}/4096 characters
+                  {textAllowed
+                    ? `${message.length}/4096 characters`
+                    : 'WhatsApp sends polls, audio and locations without text. Queue the text as a separate message.'}
                 </p>
               </div>
 
-              <div className="grid gap-3 sm:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="imageUrl">Image URL (optional)</Label>
-                  <Input
-                    id="imageUrl"
-                    value={imageUrl}
-                    onChange={(e) => setImageUrl(e.target.value)}
-                    placeholder="https://..."
-                    inputMode="url"
-                  />
+              <div className="space-y-2">
+                <Label>Attachment</Label>
+                <Select value={attachmentKind} onValueChange={(value) => setAttachmentKind(value as AttachmentKind)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Image or video" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="media">Image or video</SelectItem>
+                    <SelectItem value="document">Document (PDF, DOC, DOCX)</SelectItem>
+                    <SelectItem value="audio">Audio</SelectItem>
+                    <SelectItem value="poll">Poll</SelectItem>
+                    <SelectItem value="location">Location</SelectItem>
+                  </SelectContent>
+                </Select>
+                {attachmentKind === 'poll' || attachmentKind === 'audio' ? (
+                  <p className="text-xs text-muted-foreground">
+                    Channels only take single-answer polls and voice notes; statuses only take voice notes.
+                  </p>
+                ) : attachmentKind === 'document' || attachmentKind === 'location' ? (
+                  <p className="text-xs text-muted-foreground">Not supported for channels or status updates.</p>
+                ) : null}
+              </div>
+
+              {attachmentKind === 'document' ? (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="documentUrl">Document URL</Label>
+                    <Input
+                      id="documentUrl"
+                      value={documentUrl}
+                      onChange={(e) => setDocumentUrl(e.target.value)}
+                      placeholder="https://..."
+                      inputMode="url"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="documentName">File name (optional)</Label>
+                    <Input
+                      id="documentName"
+                      value={documentName}
+                      onChange={(e) => setDocumentName(e.target.value)}
+                      placeholder="Taken from the URL"
+                    />
+                  </div>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="videoUrl">Video URL (MP4, optional)</Label>
-                  <Input
-                    id="videoUrl"
-                    value={videoUrl}
-                    onChange={(e) => setVideoUrl(e.target.value)}
-                    placeholder="https://..."
-                    inputMode="url"
-                  />
+              ) : null}
+
+              {attachmentKind === 'audio' ? (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="audioUrl">Audio URL</Label>
+                    <Input
+                      id="audioUrl"
+                      value={audioUrl}
+                      onChange={(e) => setAudioUrl(e.target.value)}
+                      placeholder="https://..."
+                      inputMode="url"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-3 rounded-md border bg-background px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">Voice note</p>
+                      <p className="text-xs text-muted-foreground">Play inline instead of as an audio file.</p>
+                    </div>
+                    <Switch checked={voiceNote} onCheckedChange={setVoiceNote} />
+                  </div>
                 </div>
-              </div>
+              ) : null}
+
+              {attachmentKind === 'poll' ? (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="pollQuestion">Question</Label>
+                    <Input
+                      id="pollQuestion"
+                      value={pollQuestion}
+                      onChange={(e) => setPollQuestion(e.target.value)}
+                      maxLength={255}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pollOptions">Options (one per line)</Label>
+                    <Textarea
+                      id="pollOptions"
+                      value={pollOptions}
+                      onChange={(e) => setPollOptions(e.target.value)}
+                      className="min-h-[110px]"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {readPollOptions(pollOptions).length}/{POLL_MAX_OPTIONS} options
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-between gap-3 rounded-md border bg-background px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">Allow multiple answers</p>
+                      <p className="text-xs text-muted-foreground">Channels only accept single-answer polls.</p>
+                    </div>
+                    <Switch checked={pollMultiSelect} onCheckedChange={setPollMultiSelect} />
+                  </div>
+                </div>
+              ) : null}
+
+              {attachmentKind === 'location' ? (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="latitude">Latitude</Label>
+                    <Input id="latitude" value={latitude} onChange={(e) => setLatitude(e.target.value)} inputMode="decimal" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="longitude">Longitude</Label>
+                    <Input id="longitude" value={longitude} onChange={(e) => setLongitude(e.target.value)} inputMode="decimal" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="locationName">Place name (optional)</Label>
+                    <Input id="locationName" value={locationName} onChange={(e) => setLocationName(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="locationAddress">Address (optional)</Label>
+                    <Input
+                      id="locationAddress"
+                      value={locationAddress}
+                      onChange={(e) => setLocationAddress(e.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : null}
+
+              {attachmentKind === 'media' ? (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="imageUrl">Image URL (optional)</Label>
+                    <Input
+                      id="imageUrl"
+                      value={imageUrl}
+                      onChange={(e) => setImageUrl(e.target.value)}
+                      placeholder="https://..."
+                      inputMode="url"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="videoUrl">Video URL (MP4, optional)</Label>
+                    <Input
+                      id="videoUrl"
+                      value={videoUrl}
+                      onChange={(e) => setVideoUrl(e.target.value)}
+                      placeholder="https://..."
+                      inputMode="url"
+                    />
+                  </div>
+                </div>
+              ) : null}
 
               <div className="grid gap-3 sm:grid-cols-2">
                 <div className="flex items-center justify-between gap-3 rounded-md border bg-background px-3 py-2">
@@ -464,6 +766,28 @@ const ComposeInner = () => {
                 </div>
               </div>
 
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="scheduledFor">Send at (optional)</Label>
+                  <Input
+                    id="scheduledFor"
+                    type="datetime-local"
+                    value={scheduledFor}
+                    onChange={(e) => setScheduledFor(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">Queued posts with a time go out automatically once due.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleTimezone">Timezone</Label>
+                  <Input
+                    id="scheduleTimezone"
+                    value={scheduleTimezone}
+                    onChange={(e) => setScheduleTimezone(e.target.value)}
+                    placeholder={settings?.default_timezone || localTimezone}
+                  />
+                </div>
+              </div>
+
               <Separator />
 
               <div className="flex flex-wrap gap-2">
@@ -475,8 +799,8 @@ const ComposeInner = () => {
                   }}
                   disabled={queueManual.isPending}
                 >
-                  <ClipboardPaste className="mr-2 h-4 w-4" />
-                  Queue
+                  {scheduledFor ? <CalendarClock className="mr-2 h-4 w-4" /> : <ClipboardPaste className="mr-2 h-4 w-4" />}
+                  {scheduledFor ? 'Schedule' : 'Queue'}
                 </Button>
                 <Button
                   type="button"
@@ -485,7 +809,8 @@ const ComposeInner = () => {
                     if (!validateBeforeDispatch()) return;
                     sendManualNow.mutate();
                   }}
-                  disabled={sendManualNow.isPending}
+                  disabled={sendManualNow.isPending || Boolean(scheduledFor)}
+                  title={scheduledFor ? 'Clear the send time to send right away' : undefined}
                 >
                   <Send className="mr-2 h-4 w-4" />
                   Send now
@@ -677,6 +1002,8 @@ const ComposeInner = () => {
           </Card>
         </div>
       </div>
+
+      <SendCalendar />
     </div>
   );
 };
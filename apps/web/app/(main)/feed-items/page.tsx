@@ -5,12 +5,30 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { FeedItem } from '@/lib/types';
+import type { DedupeDecision, FeedItem } from '@/lib/types';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Table, TableHeader, TableBody, TableRow, TableCell, TableHeaderCell } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ClipboardList, ExternalLink, Loader2, PauseCircle, PlayCircle, PenSquare } from 'lucide-react';
+import { ClipboardList, CopyX, ExternalLink, Loader2, PauseCircle, PlayCircle, PenSquare } from 'lucide-react';
+
+const MATCH_TYPE_LABELS: Record<DedupeDecision['match_type'], string> = {
+  url: 'same URL',
+  hash: 'same title and URL hash',
+  'fuzzy-title': 'similar title'
+};
+
+const formatScore = (value?: number | null) => (value == null ? '-' : `${Math.round(value * 100)}%`);
+
+const explainDedupe = (decision: DedupeDecision) => {
+  const match = MATCH_TYPE_LABELS[decision.match_type] || decision.match_type;
+  const against = decision.matched_title ? ` as "${decision.matched_title}"` : '';
+  const score =
+    decision.match_type === 'fuzzy-title'
+      ? ` (similarity ${formatScore(decision.similarity)}, threshold ${formatScore(decision.threshold)})`
+      : '';
+  return `Skipped: ${match}${against}${score}`;
+};
 
 const buildComposeHref = (item: FeedItem) => {
   const params = new URLSearchParams();
@@ -51,7 +69,19 @@ const FeedItemsPage = () => {
     }
   });
 
+  const releaseDuplicate = useMutation({
+    mutationFn: (decisionId: string) => api.post(`/api/feed-items/duplicates/${decisionId}/release`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['feed-items'] });
+      queryClient.invalidateQueries({ queryKey: ['queue'] });
+    },
+    onError: (error: unknown) => alert(`Failed to release item: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  });
+
   const getStatus = (item: FeedItem) => {
+    if (item.delivery_status === 'duplicate') {
+      return { label: 'Skipped as duplicate', variant: 'secondary' as const };
+    }
     if (item.delivery_status === 'no_automation') {
       return { label: 'No active automation', variant: 'secondary' as const };
     }
@@ -192,10 +222,17 @@ const FeedItemsPage = () => {
                 <TableBody>
                   {items.map((item) => {
                     const paused = isStoryPaused(item);
+                    const isDuplicate = item.delivery_status === 'duplicate';
                     return (
-                    <TableRow key={item.id}>
-                      <TableCell className="max-w-xs truncate font-medium" title={item.title || undefined}>
-                        {item.title || 'Untitled'}
+                    <TableRow key={item.id} className={isDuplicate ? 'opacity-75' : undefined}>
+                      <TableCell className="max-w-xs font-medium" title={item.title || undefined}>
+                        <div className="truncate">{item.title || 'Untitled'}</div>
+                        {item.dedupe ? (
+                          <p className="truncate text-xs font-normal text-muted-foreground" title={explainDedupe(item.dedupe)}>
+                            {item.dedupe.released_at ? 'Released from dedupe. ' : ''}
+                            {explainDedupe(item.dedupe)}
+                          </p>
+                        ) : null}
                       </TableCell>
                       <TableCell className="hidden sm:table-cell">
                         <Badge variant="secondary">{item.feed?.name || 'Unknown'}</Badge>
@@ -253,23 +290,46 @@ const FeedItemsPage = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center justify-end gap-2">
-                          <Button size="sm" variant="outline" asChild title="Compose from story">
-                            <Link href={buildComposeHref(item)}>
+                          {isDuplicate ? (
+                            // Duplicate rows are dedupe decisions, not stored stories; release one to compose from it.
+                            <Button size="sm" variant="outline" disabled title="Release this duplicate to compose from it">
                               <PenSquare className="mr-1 h-3 w-3" />
                               <span className="hidden md:inline">Compose</span>
                               <span className="md:hidden sr-only">Compose</span>
-                            </Link>
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => (paused ? resumePost.mutate(item.id) : pausePost.mutate(item.id))}
-                            disabled={pausePost.isPending || resumePost.isPending}
-                          >
-                            {paused ? <PlayCircle className="mr-1 h-3 w-3" /> : <PauseCircle className="mr-1 h-3 w-3" />}
-                            <span className="hidden md:inline">{paused ? 'Resume story' : 'Pause story'}</span>
-                            <span className="md:hidden sr-only">{paused ? 'Resume story' : 'Pause story'}</span>
-                          </Button>
+                            </Button>
+                          ) : (
+                            <Button size="sm" variant="outline" asChild title="Compose from story">
+                              <Link href={buildComposeHref(item)}>
+                                <PenSquare className="mr-1 h-3 w-3" />
+                                <span className="hidden md:inline">Compose</span>
+                                <span className="md:hidden sr-only">Compose</span>
+                              </Link>
+                            </Button>
+                          )}
+                          {isDuplicate ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => releaseDuplicate.mutate(item.id)}
+                              disabled={releaseDuplicate.isPending}
+                              title="Not a duplicate: store and queue this story"
+                            >
+                              <CopyX className="mr-1 h-3 w-3" />
+                              <span className="hidden md:inline">Not a duplicate</span>
+                              <span className="md:hidden sr-only">Not a duplicate</span>
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => (paused ? resumePost.mutate(item.id) : pausePost.mutate(item.id))}
+                              disabled={pausePost.isPending || resumePost.isPending}
+                            >
+                              {paused ? <PlayCircle className="mr-1 h-3 w-3" /> : <PauseCircle className="mr-1 h-3 w-3" />}
+                              <span className="hidden md:inline">{paused ? 'Resume story' : 'Pause story'}</span>
+                              <span className="md:hidden sr-only">{paused ? 'Resume story' : 'Pause story'}</span>
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -5,30 +5,41 @@ import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api';
-import type { Feed, Schedule } from '@/lib/types';
+import { api, apiUrl } from '@/lib/api';
+import type { Feed, FeedFieldMapping, FeedImportResult, FeedRequestAuthSummary, Schedule } from '@/lib/types';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
-import { Rss, TestTube, Pencil, Trash2, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Rss, TestTube, Pencil, Trash2, CheckCircle, XCircle, Loader2, Upload, Download } from 'lucide-react';
 
 const schema = z.object({
   name: z.string().min(1),
   url: z.string().url(),
-  type: z.enum(['rss', 'atom', 'json', 'html']).optional(),
+  type: z.enum(['rss', 'atom', 'json', 'html', 'sitemap']).optional(),
   fetch_interval: z.coerce.number().min(300),
+  fetch_full_article: z.boolean().optional(),
+  priority: z.coerce.number().int().min(-100).max(100),
+  folder: z.string().max(255).optional(),
   parse_config: z
     .object({
       itemsPath: z.string().max(255).optional(),
       titlePath: z.string().max(255).optional(),
       descriptionPath: z.string().max(255).optional(),
       linkPath: z.string().max(255).optional(),
-      imagePath: z.string().max(255).optional()
+      imagePath: z.string().max(255).optional(),
+      itemSelector: z.string().max(500).optional(),
+      titleSelector: z.string().max(500).optional(),
+      linkSelector: z.string().max(500).optional(),
+      imageSelector: z.string().max(500).optional(),
+      dateSelector: z.string().max(500).optional(),
+      dateFormat: z.string().max(100).optional()
     })
     .partial()
     .optional(),
@@ -39,6 +50,30 @@ const schema = z.object({
       removePhrasesText: z.string().max(4000).optional()
     })
     .partial()
+    .optional(),
+  field_mappings_text: z
+    .string()
+    .max(16000)
+    .optional()
+    .refine(
+      (value) =>
+        String(value || '')
+          .split(/\r?\n/)
+          .every((line) => !line.trim() || /^\s*[a-zA-Z_]\w*\s*=\s*\S/.test(line)),
+      'Use one "name = expression" per line'
+    ),
+  request_auth: z
+    .object({
+      headersText: z.string().max(8000).optional(),
+      basicUsername: z.string().max(255).optional(),
+      basicPassword: z.string().max(1000).optional(),
+      bearerToken: z.string().max(4000).optional(),
+      apiKeyParam: z.string().max(100).optional(),
+      apiKeyValue: z.string().max(1000).optional(),
+      cookies: z.string().max(8000).optional(),
+      clear: z.boolean().optional()
+    })
+    .partial()
     .optional()
 });
 
@@ -53,6 +88,14 @@ type FeedTestResult = {
   itemCount?: number;
   detectedFields?: string[];
   sampleItem?: Record<string, unknown>;
+  computedFields?: Record<string, string | number>;
+  fieldMappingErrors?: string[];
+  items?: Array<{
+    title?: string | null;
+    url?: string | null;
+    imageUrl?: string | null;
+    publishedAt?: string | null;
+  }>;
 };
 
 type DeleteFeedResponse = {
@@ -90,6 +133,53 @@ const buildCleaningPayload = (value: FeedFormValues['cleaning'] | undefined) =>
   };
 };
 
+// One mapping per line: `source_name = host(link)`.
+const parseFieldMappingsText = (value: unknown) =>
+  normalizeOptionalText(value)
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.indexOf('=');
+      return { name: line.slice(0, separator).trim(), expression: line.slice(separator + 1).trim() };
+    });
+
+const formatFieldMappings = (value: FeedFieldMapping[] | null | undefined) =>
+  (Array.isArray(value) ? value : []).map((mapping) => `${mapping.name} = ${mapping.expression}`).join('\n');
+
+// Saved secrets are never sent back by the API, so their inputs start blank and stay blank to keep them.
+const toRequestAuthFormValues = (summary: FeedRequestAuthSummary | null | undefined) => ({
+  headersText: (summary?.headers || []).map((header) => `${header.name}: `).join('\n'),
+  basicUsername: summary?.basic?.username || '',
+  basicPassword: '',
+  bearerToken: '',
+  apiKeyParam: summary?.api_key?.param || '',
+  apiKeyValue: '',
+  cookies: '',
+  clear: false
+});
+
+const buildRequestAuthPayload = (value: FeedFormValues['request_auth'] | undefined) => {
+  if (value?.clear) return null;
+  const headers = normalizeOptionalText(value?.headersText)
+    .split(/\r?\n/)
+    .map((line) => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) return null;
+      return { name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() };
+    })
+    .filter((header): header is { name: string; value: string } => Boolean(header?.name));
+  const basicUsername = normalizeOptionalText(value?.basicUsername);
+  const apiKeyParam = normalizeOptionalText(value?.apiKeyParam);
+  return {
+    headers,
+    basic: basicUsername ? { username: basicUsername, password: value?.basicPassword || '' } : null,
+    bearer_token: normalizeOptionalText(value?.bearerToken),
+    api_key: apiKeyParam ? { param: apiKeyParam, value: normalizeOptionalText(value?.apiKeyValue) } : null,
+    cookies: normalizeOptionalText(value?.cookies)
+  };
+};
+
 const FeedsPage = () => {
   const queryClient = useQueryClient();
   const { data: feeds = [] } = useQuery<Feed[]>({ queryKey: ['feeds'], queryFn: () => api.get('/api/feeds') });
@@ -97,6 +187,9 @@ const FeedsPage = () => {
   const [active, setActive] = useState<Feed | null>(null);
   const [testResult, setTestResult] = useState<FeedTestResult | null>(null);
   const [testLoading, setTestLoading] = useState(false);
+  const [importContent, setImportContent] = useState('');
+  const [importPreview, setImportPreview] = useState<FeedImportResult | null>(null);
+  const [importSelection, setImportSelection] = useState<Set<string>>(new Set());
 
   const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
   const isRateLimitedError = (error: unknown) => {
@@ -112,25 +205,39 @@ const FeedsPage = () => {
       name: '',
       url: '',
       fetch_interval: 900,
+      fetch_full_article: false,
+      priority: 0,
+      folder: '',
       type: undefined,
       parse_config: {
         itemsPath: '',
         titlePath: '',
         descriptionPath: '',
         linkPath: '',
-        imagePath: ''
+        imagePath: '',
+        itemSelector: '',
+        titleSelector: '',
+        linkSelector: '',
+        imageSelector: '',
+        dateSelector: '',
+        dateFormat: ''
       },
       cleaning: {
         stripUtm: true,
         decodeEntities: true,
         removePhrasesText: ''
-      }
+      },
+      field_mappings_text: '',
+      request_auth: toRequestAuthFormValues(null)
     }
   });
 
   const watchedUrl = useWatch({ control: form.control, name: 'url' });
+  const watchedType = useWatch({ control: form.control, name: 'type' });
   const watchedStripUtm = useWatch({ control: form.control, name: 'cleaning.stripUtm' });
   const watchedDecodeEntities = useWatch({ control: form.control, name: 'cleaning.decodeEntities' });
+  const watchedFetchFullArticle = useWatch({ control: form.control, name: 'fetch_full_article' });
+  const watchedClearRequestAuth = useWatch({ control: form.control, name: 'request_auth.clear' });
 
   useEffect(() => {
     if (active) {
@@ -143,18 +250,29 @@ const FeedsPage = () => {
         url: active.url,
         type: active.type,
         fetch_interval: active.fetch_interval || 900,
+        fetch_full_article: active.fetch_full_article === true,
+        priority: active.priority ?? 0,
+        folder: active.folder || '',
         parse_config: {
           itemsPath: normalizeOptionalText(parseConfig?.itemsPath),
           titlePath: normalizeOptionalText(parseConfig?.titlePath),
           descriptionPath: normalizeOptionalText(parseConfig?.descriptionPath),
           linkPath: normalizeOptionalText(parseConfig?.linkPath),
-          imagePath: normalizeOptionalText(parseConfig?.imagePath)
+          imagePath: normalizeOptionalText(parseConfig?.imagePath),
+          itemSelector: normalizeOptionalText(parseConfig?.itemSelector),
+          titleSelector: normalizeOptionalText(parseConfig?.titleSelector),
+          linkSelector: normalizeOptionalText(parseConfig?.linkSelector),
+          imageSelector: normalizeOptionalText(parseConfig?.imageSelector),
+          dateSelector: normalizeOptionalText(parseConfig?.dateSelector),
+          dateFormat: normalizeOptionalText(parseConfig?.dateFormat)
         },
         cleaning: {
           stripUtm: cleaning?.stripUtm !== false,
           decodeEntities: cleaning?.decodeEntities !== false,
           removePhrasesText: removePhrases
-        }
+        },
+        field_mappings_text: formatFieldMappings(active.field_mappings),
+        request_auth: toRequestAuthFormValues(active.request_auth)
       });
     }
   }, [active, form]);
@@ -173,8 +291,13 @@ const FeedsPage = () => {
         url: payload.url,
         ...(payload.type ? { type: payload.type } : {}),
         fetch_interval: payload.fetch_interval,
+        fetch_full_article: payload.fetch_full_article === true,
+        priority: payload.priority,
+        folder: normalizeOptionalText(payload.folder) || null,
         parse_config,
         cleaning,
+        field_mappings: parseFieldMappingsText(payload.field_mappings_text),
+        request_auth: buildRequestAuthPayload(payload.request_auth),
         active: active ? Boolean(active.active) : true
       };
       return feedId ? api.put<Feed>(`/api/feeds/${feedId}`, body) : api.post<Feed>('/api/feeds', body);
@@ -194,18 +317,29 @@ const FeedsPage = () => {
         url: savedFeed.url || '',
         type: savedFeed.type || undefined,
         fetch_interval: savedFeed.fetch_interval || 900,
+        fetch_full_article: savedFeed.fetch_full_article === true,
+        priority: savedFeed.priority ?? 0,
+        folder: savedFeed.folder || '',
         parse_config: {
           itemsPath: normalizeOptionalText(parseConfig?.itemsPath),
           titlePath: normalizeOptionalText(parseConfig?.titlePath),
           descriptionPath: normalizeOptionalText(parseConfig?.descriptionPath),
           linkPath: normalizeOptionalText(parseConfig?.linkPath),
-          imagePath: normalizeOptionalText(parseConfig?.imagePath)
+          imagePath: normalizeOptionalText(parseConfig?.imagePath),
+          itemSelector: normalizeOptionalText(parseConfig?.itemSelector),
+          titleSelector: normalizeOptionalText(parseConfig?.titleSelector),
+          linkSelector: normalizeOptionalText(parseConfig?.linkSelector),
+          imageSelector: normalizeOptionalText(parseConfig?.imageSelector),
+          dateSelector: normalizeOptionalText(parseConfig?.dateSelector),
+          dateFormat: normalizeOptionalText(parseConfig?.dateFormat)
         },
         cleaning: {
           stripUtm: cleaning?.stripUtm !== false,
           decodeEntities: cleaning?.decodeEntities !== false,
           removePhrasesText: removePhrases
-        }
+        },
+        field_mappings_text: formatFieldMappings(savedFeed.field_mappings),
+        request_auth: toRequestAuthFormValues(savedFeed.request_auth)
       });
     },
     onError: (error: unknown) => alert(`Failed to save feed: ${getErrorMessage(error)}`)
@@ -265,7 +399,10 @@ const FeedsPage = () => {
         url,
         ...(values.type ? { type: values.type } : {}),
         ...(parse_config ? { parse_config } : {}),
-        ...(cleaning ? { cleaning } : {})
+        ...(cleaning ? { cleaning } : {}),
+        field_mappings: parseFieldMappingsText(values.field_mappings_text),
+        request_auth: buildRequestAuthPayload(values.request_auth),
+        ...(active ? { feed_id: active.id } : {})
       });
       setTestResult(result);
       if (!form.getValues('name') && result.feedTitle) {
@@ -275,7 +412,8 @@ const FeedsPage = () => {
         result.detectedType === 'rss' ||
         result.detectedType === 'atom' ||
         result.detectedType === 'json' ||
-        result.detectedType === 'html'
+        result.detectedType === 'html' ||
+        result.detectedType === 'sitemap'
       ) {
         form.setValue('type', result.detectedType);
       }
@@ -285,6 +423,49 @@ const FeedsPage = () => {
     setTestLoading(false);
   };
 
+  const previewImport = useMutation({
+    mutationFn: () => api.post<FeedImportResult>('/api/feeds/import', { content: importContent, dry_run: true }),
+    onSuccess: (result) => {
+      setImportPreview(result);
+      setImportSelection(new Set((result.entries || []).filter((entry) => entry.status === 'new').map((entry) => entry.url)));
+    },
+    onError: (error: unknown) => alert(`Failed to read import: ${getErrorMessage(error)}`)
+  });
+
+  const commitImport = useMutation({
+    mutationFn: () => {
+      const selected = (importPreview?.entries || [])
+        .filter((entry) => importSelection.has(entry.url))
+        .map((entry) => ({ url: entry.url, ...(entry.type || entry.detected_type ? { type: entry.type || entry.detected_type } : {}) }));
+      return api.post<FeedImportResult>('/api/feeds/import', { content: importContent, dry_run: false, selected });
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['feeds'] });
+      setImportPreview(null);
+      setImportSelection(new Set());
+      setImportContent('');
+      alert(`Imported ${result.imported?.length || 0} feed${result.imported?.length === 1 ? '' : 's'}.`);
+    },
+    onError: (error: unknown) => alert(`Failed to import feeds: ${getErrorMessage(error)}`)
+  });
+
+  const onPickImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setImportContent(await file.text());
+    setImportPreview(null);
+    event.target.value = '';
+  };
+
+  const toggleImportEntry = (url: string, checked: boolean) => {
+    setImportSelection((previous) => {
+      const next = new Set(previous);
+      if (checked) next.add(url);
+      else next.delete(url);
+      return next;
+    });
+  };
+
   const onSubmit = (values: FeedFormValues) => {
     saveFeed.mutate({
       feedId: active?.id || null,
@@ -343,22 +524,61 @@ const FeedsPage = () => {
                     <Input id="name" {...form.register('name')} placeholder="Auto-detected from feed" />
                   </div>
                   <div className="space-y-2">
-                    <Label>Type</Label>
-                    <div className="flex h-10 items-center justify-between rounded-md border bg-muted/30 px-3 text-sm">
-                      <span className="text-muted-foreground">
-                        {form.getValues('type') ? 'Detected' : 'Auto-detect'}
-                      </span>
-                      <Badge variant="secondary" className="capitalize">
-                        {form.getValues('type') || testResult?.detectedType || active?.type || 'auto'}
-                      </Badge>
-                    </div>
-                    <input type="hidden" {...form.register('type')} />
+                    <Label htmlFor="type">Type</Label>
+                    <Select
+                      value={watchedType || '__auto'}
+                      onValueChange={(next) =>
+                        form.setValue('type', next === '__auto' ? undefined : (next as NonNullable<FeedFormValues['type']>))
+                      }
+                    >
+                      <SelectTrigger id="type">
+                        <SelectValue placeholder="Auto-detect" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__auto">Auto-detect</SelectItem>
+                        <SelectItem value="rss">RSS</SelectItem>
+                        <SelectItem value="atom">Atom</SelectItem>
+                        <SelectItem value="json">JSON</SelectItem>
+                        <SelectItem value="html">Web page (discover feed)</SelectItem>
+                        <SelectItem value="sitemap">Sitemap / Google News sitemap</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">Fetch full article</p>
+                    <p className="text-xs text-muted-foreground">
+                      Download each new item&apos;s page to fill <code>{'{{article_text}}'}</code>,{' '}
+                      <code>{'{{reading_time}}'}</code> and <code>{'{{lead}}'}</code>.
+                    </p>
+                  </div>
+                  <Switch
+                    checked={watchedFetchFullArticle === true}
+                    onCheckedChange={(checked) => form.setValue('fetch_full_article', checked)}
+                  />
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="priority">Source priority</Label>
+                    <Input id="priority" type="number" min={-100} max={100} step={1} {...form.register('priority')} />
+                    <p className="text-xs text-muted-foreground">
+                      When several feeds carry the same story, schedules set to &quot;best source&quot; send the highest
+                      priority one.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="folder">Folder</Label>
+                    <Input id="folder" {...form.register('folder')} placeholder="World / Europe" />
+                    <p className="text-xs text-muted-foreground">Groups feeds in OPML exports.</p>
                   </div>
                 </div>
 
                 <details className="rounded-lg border bg-muted/20 p-4">
                   <summary className="cursor-pointer text-sm font-medium">
-                    Advanced: JSON paths + cleaning
+                    Advanced: JSON paths, HTML selectors, cleaning + request settings
                   </summary>
                   <div className="mt-4 space-y-4">
                     <div className="flex flex-wrap gap-2">
@@ -390,6 +610,12 @@ const FeedsPage = () => {
                           form.setValue('parse_config.descriptionPath', '');
                           form.setValue('parse_config.linkPath', '');
                           form.setValue('parse_config.imagePath', '');
+                          form.setValue('parse_config.itemSelector', '');
+                          form.setValue('parse_config.titleSelector', '');
+                          form.setValue('parse_config.linkSelector', '');
+                          form.setValue('parse_config.imageSelector', '');
+                          form.setValue('parse_config.dateSelector', '');
+                          form.setValue('parse_config.dateFormat', '');
                           form.setValue('cleaning.stripUtm', true);
                           form.setValue('cleaning.decodeEntities', true);
                           form.setValue('cleaning.removePhrasesText', '');
@@ -439,6 +665,43 @@ const FeedsPage = () => {
 
                     <Separator />
 
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">HTML Scraping Selectors (optional)</p>
+                      <p className="text-xs text-muted-foreground">
+                        For <code>Web page</code> feeds without RSS. Set an item selector to scrape the page directly with
+                        CSS selectors. Append <code>@attr</code> to read an attribute, e.g. <code>a.headline@href</code>.
+                      </p>
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="space-y-1.5 sm:col-span-2">
+                          <Label htmlFor="itemSelector">Item selector</Label>
+                          <Input id="itemSelector" {...form.register('parse_config.itemSelector')} placeholder="article.post" />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="titleSelector">Title selector</Label>
+                          <Input id="titleSelector" {...form.register('parse_config.titleSelector')} placeholder="h2" />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="linkSelector">Link selector</Label>
+                          <Input id="linkSelector" {...form.register('parse_config.linkSelector')} placeholder="h2 a" />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="imageSelector">Image selector</Label>
+                          <Input id="imageSelector" {...form.register('parse_config.imageSelector')} placeholder="img" />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="dateSelector">Date selector</Label>
+                          <Input id="dateSelector" {...form.register('parse_config.dateSelector')} placeholder="time" />
+                        </div>
+                        <div className="space-y-1.5 sm:col-span-2">
+                          <Label htmlFor="dateFormat">Date format</Label>
+                          <Input id="dateFormat" {...form.register('parse_config.dateFormat')} placeholder="DD/MM/YYYY HH:mm (blank to auto-detect)" />
+                          <p className="text-xs text-muted-foreground">Wrap literal words in brackets, e.g. MMMM D, YYYY [at] h:mm a.</p>
+                        </div>
+                      </div>
+                    </div>
+
+                    <Separator />
+
                     <div className="space-y-3">
                       <p className="text-sm font-medium">Cleaning (optional)</p>
 
@@ -477,6 +740,108 @@ const FeedsPage = () => {
                         </p>
                       </div>
                     </div>
+
+                    <Separator />
+
+                    <div className="space-y-2">
+                      <Label htmlFor="fieldMappingsText">Field mappings (one per line)</Label>
+                      <Textarea
+                        id="fieldMappingsText"
+                        {...form.register('field_mappings_text')}
+                        placeholder={'source_name = host(link)\nprice = match(description, /\\$[\\d,.]+/)\nsku = $.offers[0].sku'}
+                        className="min-h-[96px] font-mono text-xs"
+                      />
+                      {form.formState.errors.field_mappings_text ? (
+                        <p className="text-xs text-destructive">{form.formState.errors.field_mappings_text.message}</p>
+                      ) : null}
+                      <p className="text-xs text-muted-foreground">
+                        Adds template variables computed on every fetch. Use item fields (<code>title</code>,{' '}
+                        <code>link</code>, raw fields), JSON paths into the original entry (<code>$.a.b[0]</code>),
+                        and host, match, replace, lower, upper, trim, truncate, default, concat or number. Test the
+                        feed to see sample values.
+                      </p>
+                    </div>
+
+                    <Separator />
+
+                    <div className="space-y-3">
+                      <p className="text-sm font-medium">Request settings (optional)</p>
+                      <p className="text-xs text-muted-foreground">
+                        For paywalled or private sources. Credentials are stored encrypted and only sent to this
+                        feed&apos;s own site. Leave a secret blank to keep the saved value.
+                      </p>
+                      <div className="space-y-1.5">
+                        <Label htmlFor="requestHeaders">Custom headers (one per line)</Label>
+                        <Textarea
+                          id="requestHeaders"
+                          {...form.register('request_auth.headersText')}
+                          placeholder="X-Api-Token: your-token"
+                          className="min-h-[72px] font-mono text-xs"
+                        />
+                      </div>
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="space-y-1.5">
+                          <Label htmlFor="basicUsername">Basic auth username</Label>
+                          <Input id="basicUsername" autoComplete="off" {...form.register('request_auth.basicUsername')} />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="basicPassword">Basic auth password</Label>
+                          <Input
+                            id="basicPassword"
+                            type="password"
+                            autoComplete="new-password"
+                            {...form.register('request_auth.basicPassword')}
+                            placeholder={active?.request_auth?.basic?.has_password ? 'Saved' : ''}
+                          />
+                        </div>
+                        <div className="space-y-1.5 sm:col-span-2">
+                          <Label htmlFor="bearerToken">Bearer token</Label>
+                          <Input
+                            id="bearerToken"
+                            type="password"
+                            autoComplete="off"
+                            {...form.register('request_auth.bearerToken')}
+                            placeholder={active?.request_auth?.has_bearer_token ? 'Saved' : ''}
+                          />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="apiKeyParam">API key query parameter</Label>
+                          <Input id="apiKeyParam" {...form.register('request_auth.apiKeyParam')} placeholder="api_key" />
+                        </div>
+                        <div className="space-y-1.5">
+                          <Label htmlFor="apiKeyValue">API key</Label>
+                          <Input
+                            id="apiKeyValue"
+                            type="password"
+                            autoComplete="off"
+                            {...form.register('request_auth.apiKeyValue')}
+                            placeholder={active?.request_auth?.api_key?.has_value ? 'Saved' : ''}
+                          />
+                        </div>
+                        <div className="space-y-1.5 sm:col-span-2">
+                          <Label htmlFor="cookies">Cookies</Label>
+                          <Input
+                            id="cookies"
+                            type="password"
+                            autoComplete="off"
+                            {...form.register('request_auth.cookies')}
+                            placeholder={active?.request_auth?.has_cookies ? 'Saved' : 'session=abc; consent=1'}
+                          />
+                        </div>
+                      </div>
+                      {active?.request_auth && (
+                        <div className="flex items-center justify-between gap-3 rounded-md border bg-background px-3 py-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">Remove saved credentials</p>
+                            <p className="text-xs text-muted-foreground">Clears all request settings when you save.</p>
+                          </div>
+                          <Switch
+                            checked={watchedClearRequestAuth === true}
+                            onCheckedChange={(checked) => form.setValue('request_auth.clear', checked)}
+                          />
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </details>
 
@@ -501,6 +866,98 @@ const FeedsPage = () => {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Import / Export
+              </CardTitle>
+              <CardDescription>
+                Bring in feeds from an OPML file or a CSV (<code>name,url,folder</code>). Nothing is saved until you
+                confirm the preview.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Input type="file" accept=".opml,.xml,.csv,.txt" onChange={onPickImportFile} className="max-w-xs" />
+                <Button asChild variant="outline">
+                  <a href={apiUrl('/api/feeds/export.opml')} download>
+                    <Download className="mr-2 h-4 w-4" /> Export OPML
+                  </a>
+                </Button>
+              </div>
+              <Textarea
+                value={importContent}
+                onChange={(event) => {
+                  setImportContent(event.target.value);
+                  setImportPreview(null);
+                }}
+                placeholder="Paste OPML or CSV here"
+                className="min-h-[96px] font-mono text-xs"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => previewImport.mutate()}
+                disabled={!importContent.trim() || previewImport.isPending}
+              >
+                {previewImport.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check feeds
+              </Button>
+
+              {importPreview && (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    {importPreview.summary.new} new, {importPreview.summary.duplicates} already added,{' '}
+                    {importPreview.summary.invalid} invalid
+                    {importPreview.summary.truncated ? ' (only the first 500 entries were read)' : ''}.
+                  </p>
+                  <div className="max-h-80 space-y-2 overflow-y-auto rounded-md border p-2">
+                    {(importPreview.entries || []).map((entry, index) => (
+                      <div key={`${entry.url}-${index}`} className="flex items-start gap-2 text-sm">
+                        <Checkbox
+                          className="mt-0.5"
+                          checked={importSelection.has(entry.url)}
+                          disabled={entry.status !== 'new'}
+                          onCheckedChange={(checked) => toggleImportEntry(entry.url, checked === true)}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium">
+                            {entry.name || entry.url}
+                            {entry.folder ? <span className="text-xs text-muted-foreground"> · {entry.folder}</span> : null}
+                          </p>
+                          <p className="break-all text-xs text-muted-foreground">{entry.url}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.status === 'new'
+                              ? entry.detect_error
+                                ? `Check failed: ${entry.detect_error}`
+                                : `${entry.detected_type || entry.type || 'unknown type'}${
+                                    entry.item_count !== undefined ? ` · ${entry.item_count} items` : ''
+                                  }`
+                              : entry.reason}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={entry.status === 'new' ? (entry.detect_error ? 'warning' : 'success') : entry.status === 'duplicate' ? 'secondary' : 'destructive'}
+                        >
+                          {entry.status === 'duplicate' ? 'Duplicate' : entry.status === 'invalid' ? 'Invalid' : 'New'}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    onClick={() => commitImport.mutate()}
+                    disabled={!importSelection.size || commitImport.isPending}
+                  >
+                    {commitImport.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Import {importSelection.size} feed{importSelection.size === 1 ? '' : 's'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {testResult && (
             <Card>
               <CardHeader>
@@ -557,6 +1014,43 @@ const FeedsPage = () => {
                         ))}
                       </div>
                     </div>
+                    {testResult.computedFields && Object.keys(testResult.computedFields).length ? (
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground mb-2">Field mappings (first item)</p>
+                        <div className="space-y-1 rounded-md border p-2 text-sm">
+                          {Object.entries(testResult.computedFields).map(([name, value]) => (
+                            <p key={name} className="break-all">
+                              <span className="font-mono text-xs">{name}</span>{' '}
+                              <span className="text-muted-foreground">{String(value) || '(empty)'}</span>
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null}
+                    {testResult.fieldMappingErrors?.length ? (
+                      <div className="space-y-1 text-xs text-destructive">
+                        {testResult.fieldMappingErrors.map((message) => (
+                          <p key={message}>{message}</p>
+                        ))}
+                      </div>
+                    ) : null}
+                    {testResult.items?.length ? (
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground mb-2">Extracted items</p>
+                        <div className="max-h-72 space-y-2 overflow-y-auto rounded-md border p-2">
+                          {testResult.items.map((item, index) => (
+                            <div key={`${item.url || ''}-${index}`} className="text-sm">
+                              <p className="font-medium">{item.title || 'Untitled'}</p>
+                              <p className="break-all text-xs text-muted-foreground">{item.url || '-'}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {item.publishedAt ? new Date(item.publishedAt).toLocaleString() : 'No date'}
+                                {item.imageUrl ? ' · has image' : ''}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null}
                   </div>
                 )}
               </CardContent>
@@ -592,6 +1086,20 @@ const FeedsPage = () => {
                           Last checked:{' '}
                           {feed.last_fetched_at ? new Date(feed.last_fetched_at).toLocaleString() : '-'}
                         </span>
+                        {pollingEnabled && feed.next_poll_at ? (
+                          <span title={feed.poll_reason || undefined}>
+                            Next check: {new Date(feed.next_poll_at).toLocaleString()}
+                            {feed.poll_reason ? ` (${feed.poll_reason})` : ''}
+                          </span>
+                        ) : null}
+                        {feed.websub_status ? (
+                          <span title={feed.websub_hub_url || undefined}>
+                            Push: {feed.websub_status}
+                            {feed.websub_last_push_at
+                              ? `, last ${new Date(feed.websub_last_push_at).toLocaleString()}`
+                              : ''}
+                          </span>
+                        ) : null}
                         {feed.last_error ? (
                           <span className="text-destructive" title={feed.last_error}>
                             Error: {String(feed.last_error).slice(0, 80)}
@@ -8,7 +8,7 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableHeader, TableBody, TableRow, TableCell, TableHeaderCell } from '@/components/ui/table';
-import { Activity, Loader2 } from 'lucide-react';
+import { Activity, Loader2, MousePointerClick } from 'lucide-react';
 
 const STATUS_COLORS: Record<string, 'success' | 'destructive' | 'warning' | 'secondary'> = {
   pending: 'warning',
@@ -154,8 +154,31 @@ const LogsPage = () => {
                            log.status}
                         </Badge>
                         {getReceiptBadge(log)}
+                        {log.click_count ? (
+                          <Badge variant="outline" className="ml-1 gap-1" title="Short link clicks">
+                            <MousePointerClick className="h-3 w-3" />
+                            {log.click_count}
+                          </Badge>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {log.target?.name || log.target_id}
+                        {log.template_locale ? (
+                          <Badge variant="secondary" className="ml-2 text-[10px] uppercase" title="Template variant">
+                            {log.template_locale}
+                          </Badge>
+                        ) : null}
+                        {log.digest_id ? (
+                          <Badge variant="outline" className="ml-2 text-[10px]" title="Sent as part of a digest message">
+                            Digest
+                          </Badge>
+                        ) : null}
+                        {log.message_parts && log.message_parts.length > 1 ? (
+                          <Badge variant="outline" className="ml-2 text-[10px]" title="Long text sent as several messages">
+                            {log.message_parts.length} parts
+                          </Badge>
+                        ) : null}
                       </TableCell>
-                      <TableCell className="font-medium">{log.target?.name || log.target_id}</TableCell>
                       <TableCell
                         className="hidden max-w-xs truncate text-muted-foreground lg:table-cell"
                         title={log.message_content || undefined}
@@ -3,13 +3,13 @@
 import Link from 'next/link';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { Feed, LogEntry, QueueStats, Schedule, Target, Template } from '@/lib/types';
+import type { Feed, LinkClickAnalytics, LogEntry, QueueStats, Schedule, Target, Template } from '@/lib/types';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Table, TableHeader, TableBody, TableRow, TableCell, TableHeaderCell } from '@/components/ui/table';
-import { Rss, Layers, Target as TargetIcon, CalendarClock, ArrowRight, Send } from 'lucide-react';
+import { Rss, Layers, Target as TargetIcon, CalendarClock, ArrowRight, Send, MousePointerClick } from 'lucide-react';
 
 type DeliveryAnalytics = {
   window_hours?: number;
@@ -32,7 +32,7 @@ const OverviewPage = () => {
   const { data: targets = [] } = useQuery<Target[]>({ queryKey: ['targets'], queryFn: () => api.get('/api/targets') });
   const { data: schedules = [] } = useQuery<Schedule[]>({ queryKey: ['schedules'], queryFn: () => api.get('/api/schedules') });
   const { data: logs = [] } = useQuery<LogEntry[]>({ queryKey: ['logs'], queryFn: () => api.get('/api/logs') });
-  const { data: settings } = useQuery<{ app_paused?: boolean }>({
+  const { data: settings } = useQuery<{ app_paused?: boolean; link_tracking_enabled?: boolean }>({
     queryKey: ['settings'],
     queryFn: () => api.get('/api/settings')
   });
@@ -46,6 +46,12 @@ const OverviewPage = () => {
     queryFn: () => api.get('/api/analytics/delivery?window_hours=24'),
     refetchInterval: 30000
   });
+  const { data: clickAnalytics } = useQuery<LinkClickAnalytics>({
+    queryKey: ['click-analytics'],
+    queryFn: () => api.get('/api/analytics/clicks?window_hours=168'),
+    enabled: settings?.link_tracking_enabled === true,
+    refetchInterval: 60000
+  });
 
   const dispatchAll = useMutation({
     mutationFn: () => api.post('/api/schedules/dispatch-all'),
@@ -217,6 +223,52 @@ const OverviewPage = () => {
         </Card>
       </div>
 
+      {settings?.link_tracking_enabled === true ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MousePointerClick className="h-4 w-4 text-primary" />
+              Link Clicks
+            </CardTitle>
+            <CardDescription>
+              {clickAnalytics
+                ? `${clickAnalytics.clicks} opens in the last ${clickAnalytics.window_hours / 24} days (${clickAnalytics.by_user_agent_class.preview ?? 0} link preview fetches not counted)`
+                : 'Loading click analytics...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Top stories</p>
+              {clickAnalytics?.by_story.length ? (
+                clickAnalytics.by_story.slice(0, 8).map((story) => (
+                  <div key={story.feed_item_id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate text-muted-foreground" title={story.link || undefined}>
+                      {story.title || story.link || story.feed_item_id}
+                    </span>
+                    <span className="font-medium">{story.clicks}</span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-xs text-muted-foreground">No clicks yet.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">By target</p>
+              {clickAnalytics?.by_target.length ? (
+                clickAnalytics.by_target.slice(0, 8).map((target) => (
+                  <div key={target.target_id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate text-muted-foreground">{target.name || target.target_id}</span>
+                    <span className="font-medium">{target.clicks}</span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-xs text-muted-foreground">No clicks yet.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Delivery Logs</CardTitle>
@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import SendCalendar from '@/components/queue/SendCalendar';
 import {
   ListOrdered,
   RefreshCw,
@@ -25,7 +26,8 @@ import {
   Save,
   X,
   Send,
-  LayoutGrid
+  LayoutGrid,
+  CalendarDays
 } from 'lucide-react';
 
 type QueueStats = {
@@ -105,7 +107,7 @@ const QueueInner = () => {
   const [includeManual, setIncludeManual] = useState(() => String(searchParams.get('include_manual') || '').toLowerCase() === 'true');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [draftMessage, setDraftMessage] = useState('');
-  const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
+  const [viewMode, setViewMode] = useState<'list' | 'grid' | 'calendar'>('list');
   const [actionNotice, setActionNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const [nowMs, setNowMs] = useState(() => Date.now());
 
@@ -554,6 +556,15 @@ const QueueInner = () => {
             <LayoutGrid className="h-4 w-4 mr-2" />
             Grid
           </Button>
+          <Button
+            variant={viewMode === 'calendar' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setViewMode('calendar')}
+            className="h-8"
+          >
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Calendar
+          </Button>
         </div>
         <Select value={statusFilter || 'all'} onValueChange={setStatusFilter}>
           <SelectTrigger className="w-full max-w-full sm:w-44">
@@ -592,6 +603,9 @@ const QueueInner = () => {
         </div>
       ) : null}
 
+      {viewMode === 'calendar' ? (
+        <SendCalendar />
+      ) : (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -644,6 +658,11 @@ const QueueInner = () => {
                       <div className="min-w-0 flex-1">
                         <div className="mb-1 flex flex-wrap items-center gap-2">
                           {getStatusBadge(item)}
+                          {item.hold_reason ? (
+                            <Badge variant="warning" title={item.hold_reason}>
+                              {item.held_until ? `Held until ${formatDate(item.held_until)}` : 'Held'}
+                            </Badge>
+                          ) : null}
                           {item.delivery_mode === 'batch' || item.delivery_mode === 'batched' ? (
                             <Badge variant="outline">Scheduled time</Badge>
                           ) : null}
@@ -814,11 +833,13 @@ const QueueInner = () => {
                       <span>Created: {formatDate(item.created_at)}</span>
                       {item.batch_times && item.batch_times.length ? <span>Send windows: {item.batch_times.join(', ')}</span> : null}
                       {item.scheduled_for ? <span>Scheduled: {formatDate(item.scheduled_for)}</span> : null}
+                      {item.hold_reason ? <span>{item.hold_reason}</span> : null}
                       {item.sent_at ? <span>Sent: {formatDate(item.sent_at)}</span> : null}
                       {editCountdown ? <span>Editable: {editCountdown} left</span> : null}
                       {item.delivered_at ? <span>Delivered: {formatDate(item.delivered_at)}</span> : null}
                       {item.read_at ? <span>Read: {formatDate(item.read_at)}</span> : null}
                       {item.played_at ? <span>Played: {formatDate(item.played_at)}</span> : null}
+                      {item.click_count ? <span>Link clicks: {item.click_count}</span> : null}
                       {item.sent_at && receiptBadge ? (
                         <span className="inline-flex items-center gap-1">
                           <span>Receipt:</span>
@@ -865,6 +886,11 @@ const QueueInner = () => {
                     )}
                     <div className="absolute top-2 right-2 flex gap-1">
                       {getStatusBadge(item)}
+                      {item.hold_reason ? (
+                        <Badge variant="warning" title={item.hold_reason}>
+                          Held
+                        </Badge>
+                      ) : null}
                     </div>
                   </div>
                   <div className="p-3 flex-1 flex flex-col gap-2">
@@ -888,6 +914,7 @@ const QueueInner = () => {
                     {item.delivered_at ? <p className="text-[11px] text-muted-foreground">Delivered: {formatDate(item.delivered_at)}</p> : null}
                     {item.read_at ? <p className="text-[11px] text-muted-foreground">Read: {formatDate(item.read_at)}</p> : null}
                     {item.played_at ? <p className="text-[11px] text-muted-foreground">Played: {formatDate(item.played_at)}</p> : null}
+                    {item.click_count ? <p className="text-[11px] text-muted-foreground">Link clicks: {item.click_count}</p> : null}
                     {editing ? (
                       <div className="rounded-md border bg-muted/30 p-2 space-y-2">
                         <p className="text-[11px] text-muted-foreground">Edit message text before sending</p>
@@ -981,6 +1008,7 @@ const QueueInner = () => {
           )}
         </CardContent>
       </Card>
+      )}
     </div>
   );
 };
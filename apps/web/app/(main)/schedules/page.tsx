@@ -6,16 +6,28 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { Feed, ReconcileResult, Schedule, Target, Template } from '@/lib/types';
+import type {
+  DigestConfig,
+  Feed,
+  ReconcileResult,
+  Schedule,
+  ScheduleFilterPreview,
+  ScheduleFilterRule,
+  ScheduleFilterRules,
+  Target,
+  Template
+} from '@/lib/types';
 import { dedupeTargets, formatTargetLabel } from '@/lib/targetUtils';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
-import { CalendarClock, Play, Pencil, Trash2, Loader2, Plus, X } from 'lucide-react';
+import AnnouncementSchedules from '@/components/schedules/AnnouncementSchedules';
+import { CalendarClock, Filter, Play, Pencil, Trash2, Loader2, Plus, X } from 'lucide-react';
 
 const pad2 = (value: number) => String(value).padStart(2, '0');
 
@@ -26,12 +38,22 @@ const schema = z.object({
   delivery_mode: z.enum(['immediate', 'batched']).default('immediate'),
   batch_times: z.array(z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/)).default(['09:00', '20:00']),
   approval_required: z.boolean().default(false),
+  cluster_mode: z.enum(['off', 'first', 'best_source', 'also_reported']).default('off'),
   time_of_day: z.string().default('09:00'),
   day_of_week: z.enum(['0', '1', '2', '3', '4', '5', '6']).default('1'),
   timezone: z.string().optional(),
   feed_id: z.string().min(1, 'Feed is required'),
   target_ids: z.array(z.string()).min(1),
-  template_id: z.string().min(1)
+  template_id: z.string().min(1),
+  target_template_overrides: z.record(z.string(), z.string()).default({}),
+  digest: z.object({
+    enabled: z.boolean(),
+    header: z.string(),
+    item_template: z.string(),
+    footer: z.string(),
+    overflow_url: z.string(),
+    max_items: z.coerce.number().int().min(1).max(50)
+  })
 });
 
 type ScheduleFormValues = z.infer<typeof schema>;
@@ -43,13 +65,35 @@ type ScheduleApiPayload = {
   feed_id: string;
   target_ids: string[];
   template_id: string;
+  target_template_overrides: Record<string, string>;
   delivery_mode: 'immediate' | 'batch' | 'batched';
   batch_times: string[];
   approval_required: boolean;
+  cluster_mode: 'first' | 'best_source' | 'also_reported' | null;
+  filter_rules: ScheduleFilterRules | null;
+  digest_config: DigestConfig | null;
   state: 'active' | 'paused' | 'stopped';
   active: boolean;
 };
 
+const DEFAULT_DIGEST: ScheduleFormValues['digest'] = {
+  enabled: false,
+  header: '*{{schedule_name}}*',
+  item_template: '• {{title}}\n{{link}}',
+  footer: '',
+  overflow_url: '',
+  max_items: 10
+};
+
+const toDigestFormValues = (config?: DigestConfig | null): ScheduleFormValues['digest'] => ({
+  enabled: config?.enabled === true,
+  header: config?.header ?? DEFAULT_DIGEST.header,
+  item_template: config?.item_template || DEFAULT_DIGEST.item_template,
+  footer: config?.footer ?? DEFAULT_DIGEST.footer,
+  overflow_url: config?.overflow_url || '',
+  max_items: config?.max_items || DEFAULT_DIGEST.max_items
+});
+
 type DispatchResult = {
   sent?: number;
   queued?: number;
@@ -80,6 +124,181 @@ const isRunning = (schedule?: Schedule | null) => getScheduleState(schedule) ===
 const DEFAULT_BATCH_TIMES = ['09:00', '20:00'];
 const BATCH_TIME_PRESETS = ['07:00', '09:00', '12:00', '15:00', '18:00', '20:00', '22:00'];
 
+const EMPTY_FILTER_RULES: ScheduleFilterRules = { operator: 'and', groups: [] };
+const NEW_FILTER_RULE: ScheduleFilterRule = { action: 'exclude', type: 'keyword', value: '', field: 'any' };
+
+const cleanFilterRules = (rules: ScheduleFilterRules): ScheduleFilterRules | null => {
+  const groups = rules.groups
+    .map((group) => ({
+      ...group,
+      rules: group.rules
+        .map((rule) => ({ ...rule, value: String(rule.value || '').trim() }))
+        .filter((rule) => rule.value)
+    }))
+    .filter((group) => group.rules.length);
+  return groups.length ? { operator: rules.operator, groups } : null;
+};
+
+const FilterRulesEditor = ({
+  value,
+  onChange
+}: {
+  value: ScheduleFilterRules;
+  onChange: (next: ScheduleFilterRules) => void;
+}) => {
+  const updateGroup = (groupIndex: number, patch: Partial<ScheduleFilterRules['groups'][number]>) =>
+    onChange({
+      ...value,
+      groups: value.groups.map((group, index) => (index === groupIndex ? { ...group, ...patch } : group))
+    });
+
+  const updateRule = (groupIndex: number, ruleIndex: number, patch: Partial<ScheduleFilterRule>) => {
+    const group = value.groups[groupIndex];
+    if (!group) return;
+    updateGroup(groupIndex, {
+      rules: group.rules.map((rule, index) => (index === ruleIndex ? { ...rule, ...patch } : rule))
+    });
+  };
+
+  const removeRule = (groupIndex: number, ruleIndex: number) => {
+    const group = value.groups[groupIndex];
+    if (!group) return;
+    const rules = group.rules.filter((_, index) => index !== ruleIndex);
+    if (!rules.length) {
+      onChange({ ...value, groups: value.groups.filter((_, index) => index !== groupIndex) });
+      return;
+    }
+    updateGroup(groupIndex, { rules });
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.groups.length > 1 && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-muted-foreground">Groups must</span>
+          <Select
+            value={value.operator}
+            onValueChange={(next) => onChange({ ...value, operator: next === 'or' ? 'or' : 'and' })}
+          >
+            <SelectTrigger className="h-8 w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and">all pass (AND)</SelectItem>
+              <SelectItem value="or">any pass (OR)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {value.groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="space-y-2 rounded-md border bg-background p-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Group {groupIndex + 1}: rules must</span>
+            <Select
+              value={group.operator}
+              onValueChange={(next) => updateGroup(groupIndex, { operator: next === 'or' ? 'or' : 'and' })}
+            >
+              <SelectTrigger className="h-8 w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="and">all match (AND)</SelectItem>
+                <SelectItem value="or">any match (OR)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {group.rules.map((rule, ruleIndex) => (
+            <div key={ruleIndex} className="flex flex-wrap items-center gap-2">
+              <Select
+                value={rule.action}
+                onValueChange={(next) => updateRule(groupIndex, ruleIndex, { action: next === 'include' ? 'include' : 'exclude' })}
+              >
+                <SelectTrigger className="h-8 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="include">Include</SelectItem>
+                  <SelectItem value="exclude">Exclude</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.type}
+                onValueChange={(next) =>
+                  updateRule(groupIndex, ruleIndex, { type: next as ScheduleFilterRule['type'] })
+                }
+              >
+                <SelectTrigger className="h-8 w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keyword">Keyword</SelectItem>
+                  <SelectItem value="regex">Regex</SelectItem>
+                  <SelectItem value="category">Category</SelectItem>
+                  <SelectItem value="author">Author</SelectItem>
+                </SelectContent>
+              </Select>
+              {rule.type === 'keyword' || rule.type === 'regex' ? (
+                <Select
+                  value={rule.field || 'any'}
+                  onValueChange={(next) =>
+                    updateRule(groupIndex, ruleIndex, { field: next as NonNullable<ScheduleFilterRule['field']> })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any text</SelectItem>
+                    <SelectItem value="title">Title</SelectItem>
+                    <SelectItem value="description">Description</SelectItem>
+                    <SelectItem value="content">Content</SelectItem>
+                    <SelectItem value="link">Link</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : null}
+              <Input
+                value={rule.value}
+                onChange={(event) => updateRule(groupIndex, ruleIndex, { value: event.target.value })}
+                placeholder={rule.type === 'regex' ? '^breaking\\b' : rule.type === 'category' ? 'Politics' : 'Value'}
+                className="h-8 min-w-[140px] flex-1"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => removeRule(groupIndex, ruleIndex)}
+                aria-label="Remove rule"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => updateGroup(groupIndex, { rules: [...group.rules, { ...NEW_FILTER_RULE }] })}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add rule
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() =>
+          onChange({ ...value, groups: [...value.groups, { operator: 'and', rules: [{ ...NEW_FILTER_RULE }] }] })
+        }
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Add rule group
+      </Button>
+    </div>
+  );
+};
+
 const SchedulesPage = () => {
   const queryClient = useQueryClient();
   const [batchTimeInput, setBatchTimeInput] = React.useState('09:00');
@@ -97,7 +316,10 @@ const SchedulesPage = () => {
     queryFn: () => api.get('/api/settings')
   });
   const [active, setActive] = useState<Schedule | null>(null);
+  const [filterRules, setFilterRules] = useState<ScheduleFilterRules>(EMPTY_FILTER_RULES);
+  const [filterPreview, setFilterPreview] = useState<ScheduleFilterPreview | null>(null);
   const activeTargets = React.useMemo(() => dedupeTargets(targets, { activeOnly: true }), [targets]);
+  const feedSchedules = schedules.filter((schedule) => schedule.kind !== 'announcement');
 
   const formatDateTime = (value?: string | null) => {
     if (!value) return '-';
@@ -233,12 +455,15 @@ const SchedulesPage = () => {
       delivery_mode: 'immediate',
       batch_times: DEFAULT_BATCH_TIMES,
       approval_required: false,
+      cluster_mode: 'off',
       time_of_day: '09:00',
       day_of_week: '1',
       timezone: defaultTimezone,
       feed_id: '',
       target_ids: [],
-      template_id: ''
+      template_id: '',
+      target_template_overrides: {},
+      digest: DEFAULT_DIGEST
     }
   });
 
@@ -258,13 +483,18 @@ const SchedulesPage = () => {
             ? active.batch_times
             : DEFAULT_BATCH_TIMES,
         approval_required: active.approval_required === true,
+        cluster_mode: active.cluster_mode || 'off',
         time_of_day: timing.time_of_day,
         day_of_week: timing.day_of_week,
         timezone: active.timezone || localTimezone,
         feed_id: active.feed_id || '',
         target_ids: (active.target_ids || []).map((id: string) => id.toString()),
-        template_id: active.template_id || ''
+        template_id: active.template_id || '',
+        target_template_overrides: active.target_template_overrides || {},
+        digest: toDigestFormValues(active.digest_config)
       });
+      setFilterRules(active.filter_rules?.groups?.length ? active.filter_rules : EMPTY_FILTER_RULES);
+      setFilterPreview(null);
     }
   }, [active, form, localTimezone, deriveTimingFromCron]);
 
@@ -299,13 +529,18 @@ const SchedulesPage = () => {
           delivery_mode: 'immediate',
           batch_times: DEFAULT_BATCH_TIMES,
           approval_required: false,
+          cluster_mode: 'off',
           time_of_day: '09:00',
           day_of_week: '1',
           timezone: defaultTimezone,
           feed_id: '',
           target_ids: [],
-          template_id: ''
+          template_id: '',
+          target_template_overrides: {},
+          digest: DEFAULT_DIGEST
         });
+        setFilterRules(EMPTY_FILTER_RULES);
+        setFilterPreview(null);
       }
     },
     onError: (error: unknown) => alert(`Failed to delete schedule: ${getErrorMessage(error)}`)
@@ -336,6 +571,13 @@ const SchedulesPage = () => {
     onError: (error: unknown) => alert(`Failed to update automation state: ${getErrorMessage(error)}`)
   });
 
+  const previewFilters = useMutation({
+    mutationFn: (payload: { feed_id: string; filter_rules: ScheduleFilterRules | null }) =>
+      api.post<ScheduleFilterPreview>('/api/schedules/filter-preview', payload),
+    onSuccess: (result: ScheduleFilterPreview) => setFilterPreview(result),
+    onError: (error: unknown) => alert(`Failed to preview filters: ${getErrorMessage(error)}`)
+  });
+
   const dispatchSchedule = useMutation({
     mutationFn: (id: string) => api.post<DispatchResult>(`/api/schedules/${id}/dispatch`),
     onSuccess: async (data: DispatchResult, scheduleId: string) => {
@@ -474,9 +716,22 @@ const SchedulesPage = () => {
       feed_id: values.feed_id,
       target_ids: values.target_ids,
       template_id: values.template_id,
+      target_template_overrides: Object.fromEntries(
+        Object.entries(values.target_template_overrides || {}).filter(
+          ([targetId, templateId]) => values.target_ids.includes(targetId) && templateId && templateId !== values.template_id
+        )
+      ),
       delivery_mode: deliveryMode,
       batch_times: normalizedBatchTimes.length ? normalizedBatchTimes : DEFAULT_BATCH_TIMES,
       approval_required: values.approval_required === true,
+      cluster_mode: values.cluster_mode === 'off' ? null : values.cluster_mode,
+      filter_rules: cleanFilterRules(filterRules),
+      digest_config:
+        deliveryMode === 'batched' && values.digest.enabled
+          ? { ...values.digest, overflow_url: values.digest.overflow_url.trim() || null }
+          : active?.digest_config
+            ? { ...active.digest_config, enabled: false }
+            : null,
       state: nextState,
       active: nextState === 'active'
     };
@@ -489,7 +744,10 @@ const SchedulesPage = () => {
   const timingMode = form.watch('timing_mode');
   const schedulePreset = form.watch('schedule_preset');
   const deliveryMode = form.watch('delivery_mode');
+  const digestEnabled = form.watch('digest.enabled');
   const selectedBatchTimes = form.watch('batch_times') || [];
+  const selectedFeedId = form.watch('feed_id');
+  const selectedTargetIds = form.watch('target_ids') || [];
 
   const setBatchTimes = (times: string[]) => {
     const normalized = Array.from(
@@ -518,7 +776,7 @@ const SchedulesPage = () => {
         </div>
         <div className="flex flex-wrap items-center gap-2">
           <Badge variant="outline" className="text-sm">
-            {schedules.length} Automation{schedules.length !== 1 ? 's' : ''}
+            {feedSchedules.length} Automation{feedSchedules.length !== 1 ? 's' : ''}
           </Badge>
         </div>
       </div>
@@ -670,6 +928,73 @@ const SchedulesPage = () => {
                     </Button>
                   </div>
                   <p className="text-xs text-muted-foreground">Timezone: {defaultTimezone}</p>
+                  <div className="flex items-start gap-3 border-t pt-3">
+                    <Controller
+                      control={form.control}
+                      name="digest.enabled"
+                      render={({ field }) => (
+                        <Checkbox
+                          id="digest_enabled"
+                          checked={field.value === true}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      )}
+                    />
+                    <div className="space-y-1">
+                      <Label htmlFor="digest_enabled" className="cursor-pointer">
+                        Send each window as one digest
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        All queued stories go out in a single message instead of one message per story.
+                      </p>
+                    </div>
+                  </div>
+                  {digestEnabled && (
+                    <div className="space-y-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="digest_header">Header</Label>
+                        <Input id="digest_header" {...form.register('digest.header')} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="digest_item_template">Line per story</Label>
+                        <Textarea
+                          id="digest_item_template"
+                          rows={3}
+                          className="font-mono text-xs"
+                          {...form.register('digest.item_template')}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="digest_footer">Footer</Label>
+                        <Input id="digest_footer" {...form.register('digest.footer')} />
+                      </div>
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="digest_max_items">Max stories</Label>
+                          <Input
+                            id="digest_max_items"
+                            type="number"
+                            min={1}
+                            max={50}
+                            {...form.register('digest.max_items')}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="digest_overflow_url">&quot;And N more&quot; link</Label>
+                          <Input
+                            id="digest_overflow_url"
+                            type="url"
+                            placeholder="https://example.com/news"
+                            {...form.register('digest.overflow_url')}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Header and footer can use {'{{schedule_name}}'}, {'{{count}}'}, {'{{total}}'} and {'{{date}}'};
+                        the story line uses the usual template fields plus {'{{index}}'}.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -740,6 +1065,30 @@ const SchedulesPage = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="cluster_mode">Same story from several feeds</Label>
+                <Controller
+                  control={form.control}
+                  name="cluster_mode"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger id="cluster_mode">
+                        <SelectValue placeholder="Story clustering" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Send every source</SelectItem>
+                        <SelectItem value="first">Send first in cluster</SelectItem>
+                        <SelectItem value="best_source">Send best source by feed priority</SelectItem>
+                        <SelectItem value="also_reported">Send once with &quot;also reported by&quot; links</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Stories from different feeds with near-identical titles are grouped, and each target gets them once.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="feed_id">Feed</Label>
                 <Controller
@@ -777,6 +1126,63 @@ const SchedulesPage = () => {
                 )}
               </div>
 
+              <div className="space-y-3 rounded-lg border bg-muted/20 p-3">
+                <div className="space-y-1">
+                  <Label className="flex items-center gap-2">
+                    <Filter className="h-4 w-4" />
+                    Content filters
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Items that fail these rules are recorded as skipped in Queue with the rule that blocked them.
+                  </p>
+                </div>
+                <FilterRulesEditor
+                  value={filterRules}
+                  onChange={(next) => {
+                    setFilterRules(next);
+                    setFilterPreview(null);
+                  }}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={!selectedFeedId || previewFilters.isPending}
+                    onClick={() =>
+                      previewFilters.mutate({ feed_id: selectedFeedId, filter_rules: cleanFilterRules(filterRules) })
+                    }
+                  >
+                    {previewFilters.isPending && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                    Dry run on last 50 items
+                  </Button>
+                  {!selectedFeedId ? <span className="text-xs text-muted-foreground">Select a feed first.</span> : null}
+                </div>
+                {filterPreview ? (
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      {filterPreview.allowed} of {filterPreview.total} items would send, {filterPreview.filtered} filtered.
+                    </p>
+                    <div className="max-h-60 space-y-1 overflow-y-auto rounded-md border bg-background p-2">
+                      {filterPreview.items.map((item) => (
+                        <div key={item.id} className="flex items-start gap-2 text-xs">
+                          <Badge variant={item.allowed ? 'success' : 'secondary'} className="shrink-0">
+                            {item.allowed ? 'Send' : 'Skip'}
+                          </Badge>
+                          <div className="min-w-0">
+                            <p className="truncate">{item.title || item.link || 'Untitled item'}</p>
+                            {item.reason ? <p className="text-muted-foreground">{item.reason}</p> : null}
+                          </div>
+                        </div>
+                      ))}
+                      {filterPreview.items.length === 0 && (
+                        <p className="text-xs text-muted-foreground">This feed has no items yet.</p>
+                      )}
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+
               <div className="space-y-2">
                 <Label>Targets (Groups, Channels)</Label>
                 <Controller
@@ -866,13 +1272,76 @@ const SchedulesPage = () => {
                 />
               </div>
 
+              {selectedTargetIds.length > 1 && templates.length > 1 ? (
+                <div className="space-y-2">
+                  <Label>Template per target</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Override the template for individual targets. A target with a locale also gets the matching
+                    variant of its template.
+                  </p>
+                  <Controller
+                    control={form.control}
+                    name="target_template_overrides"
+                    render={({ field }) => (
+                      <div className="rounded-lg border divide-y">
+                        {activeTargets
+                          .filter((target) => selectedTargetIds.includes(target.id))
+                          .map((target) => (
+                            <div key={target.id} className="flex flex-wrap items-center gap-2 px-3 py-2">
+                              <span className="min-w-0 flex-1 truncate text-sm">{formatTargetLabel(target)}</span>
+                              {target.locale ? (
+                                <Badge variant="secondary" className="text-[10px] uppercase">
+                                  {target.locale}
+                                </Badge>
+                              ) : null}
+                              <Select
+                                value={field.value?.[target.id] || '__default'}
+                                onValueChange={(next) => {
+                                  const nextOverrides = { ...(field.value || {}) };
+                                  if (next === '__default') {
+                                    delete nextOverrides[target.id];
+                                  } else {
+                                    nextOverrides[target.id] = next;
+                                  }
+                                  field.onChange(nextOverrides);
+                                }}
+                              >
+                                <SelectTrigger className="h-8 w-full sm:w-56">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="__default">Automation template</SelectItem>
+                                  {templates.map((template) => (
+                                    <SelectItem key={template.id} value={template.id}>
+                                      {template.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                  />
+                </div>
+              ) : null}
+
               <div className="flex gap-2">
                 <Button type="submit" disabled={saveSchedule.isPending} size="lg">
                   {saveSchedule.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   {active ? 'Update Automation' : 'Create Automation'}
                 </Button>
                 {active && (
-                  <Button type="button" variant="outline" onClick={() => { setActive(null); form.reset(); }}>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setActive(null);
+                      form.reset();
+                      setFilterRules(EMPTY_FILTER_RULES);
+                      setFilterPreview(null);
+                    }}
+                  >
                     Cancel
                   </Button>
                 )}
@@ -899,7 +1368,7 @@ const SchedulesPage = () => {
               </div>
             ) : null}
             <div className="space-y-3">
-              {schedules.map((schedule) => {
+              {feedSchedules.map((schedule) => {
                 const feedRow = feeds.find((feed) => feed.id === schedule.feed_id);
                 const feedDisabled = feedRow?.active === false;
                 const hasTargets = Array.isArray(schedule.target_ids) && schedule.target_ids.length > 0;
@@ -929,6 +1398,7 @@ const SchedulesPage = () => {
                         {schedule.approval_required ? (
                           <span className="text-warning-foreground">Approval required</span>
                         ) : null}
+                        {schedule.filter_rules?.groups?.length ? <span>Filters on</span> : null}
                       </div>
                     </div>
                     <Badge variant={isRunning(schedule) ? 'success' : 'secondary'}>
@@ -986,7 +1456,7 @@ const SchedulesPage = () => {
                   ) : null}
                 </div>
               )})}
-              {schedules.length === 0 && (
+              {feedSchedules.length === 0 && (
                 <div className="text-center py-12 px-4">
                   <CalendarClock className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
                   <h3 className="font-medium text-lg mb-1">No automations yet</h3>
@@ -999,6 +1469,8 @@ const SchedulesPage = () => {
           </CardContent>
         </Card>
       </div>
+
+      <AnnouncementSchedules defaultTimezone={defaultTimezone} />
     </div>
   );
 };
@@ -6,7 +6,8 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { ShabbosSettings, ShabbosStatus } from '@/lib/types';
+import { SHABBOS_LOCATIONS } from '@/lib/shabbosLocations';
+import type { DeliveryWindow, ShabbosPeriod, ShabbosPolicy, ShabbosSettings, ShabbosStatus } from '@/lib/types';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -15,14 +16,18 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Settings, Clock, MapPin, Loader2, Copy } from 'lucide-react';
+import DeliveryWindowFields, { DEFAULT_DELIVERY_WINDOW } from '@/components/targets/DeliveryWindowFields';
+import { Settings, Clock, MapPin, Loader2, Copy, MoonStar } from 'lucide-react';
 
 const WHATSAPP_EDIT_MAX_MINUTES = 15;
 const CORRECTION_SCAN_MAX_MINUTES = 15;
+const WHATSAPP_CAPTION_LIMIT = 1024;
+const WHATSAPP_TEXT_LIMIT = 65536;
 
 const schema = z.object({
   app_name: z.string().min(1),
   app_paused: z.boolean().default(false),
+  link_tracking_enabled: z.boolean().default(false),
   default_timezone: z.string().min(1),
   log_retention_days: z.coerce.number().min(1),
   message_delay_ms: z.coerce.number().min(100),
@@ -32,7 +37,10 @@ const schema = z.object({
   post_send_edit_window_minutes: z.coerce.number().min(1).max(WHATSAPP_EDIT_MAX_MINUTES),
   post_send_correction_window_minutes: z.coerce.number().min(1).max(CORRECTION_SCAN_MAX_MINUTES),
   processingTimeoutMinutes: z.coerce.number().min(1),
-  dedupeThreshold: z.coerce.number().min(0).max(1).optional()
+  caption_max_length: z.coerce.number().min(100).max(WHATSAPP_CAPTION_LIMIT),
+  text_max_length: z.coerce.number().min(500).max(WHATSAPP_TEXT_LIMIT),
+  dedupeThreshold: z.coerce.number().min(0).max(1).optional(),
+  delivery_window: z.custom<DeliveryWindow | null>().optional()
 }).superRefine((value, ctx) => {
   if (value.post_send_correction_window_minutes < value.post_send_edit_window_minutes) {
     ctx.addIssue({
@@ -45,17 +53,6 @@ const schema = z.object({
 
 type SettingsFormValues = z.infer<typeof schema>;
 
-const PRESET_LOCATIONS = [
-  { name: 'New York', latitude: 40.7128, longitude: -74.006, tzid: 'America/New_York' },
-  { name: 'Los Angeles', latitude: 34.0522, longitude: -118.2437, tzid: 'America/Los_Angeles' },
-  { name: 'Chicago', latitude: 41.8781, longitude: -87.6298, tzid: 'America/Chicago' },
-  { name: 'Miami', latitude: 25.7617, longitude: -80.1918, tzid: 'America/New_York' },
-  { name: 'Jerusalem', latitude: 31.7683, longitude: 35.2137, tzid: 'Asia/Jerusalem' },
-  { name: 'London', latitude: 51.5074, longitude: -0.1278, tzid: 'Europe/London' },
-  { name: 'Montreal', latitude: 45.5017, longitude: -73.5673, tzid: 'America/Montreal' },
-  { name: 'Toronto', latitude: 43.6532, longitude: -79.3832, tzid: 'America/Toronto' }
-];
-
 const COMMON_TIMEZONES = [
   'UTC',
   'America/New_York',
@@ -81,6 +78,10 @@ const SettingsPage = () => {
     queryKey: ['shabbos-settings'],
     queryFn: () => api.get('/api/shabbos/settings')
   });
+  const { data: upcomingShabbos = [] } = useQuery<ShabbosPeriod[]>({
+    queryKey: ['shabbos-upcoming'],
+    queryFn: () => api.get('/api/shabbos/upcoming')
+  });
 
   const [manualLocation, setManualLocation] = useState<string | null>(null);
   const selectedLocation = manualLocation ?? shabbosSettings?.city ?? '';
@@ -90,6 +91,7 @@ const SettingsPage = () => {
     defaultValues: {
       app_name: 'WhatsApp News Bot',
       app_paused: false,
+      link_tracking_enabled: false,
       default_timezone: 'UTC',
       log_retention_days: 30,
       message_delay_ms: 2000,
@@ -99,7 +101,10 @@ const SettingsPage = () => {
       post_send_edit_window_minutes: 15,
       post_send_correction_window_minutes: 15,
       processingTimeoutMinutes: 30,
-      dedupeThreshold: 0.88
+      caption_max_length: WHATSAPP_CAPTION_LIMIT,
+      text_max_length: WHATSAPP_TEXT_LIMIT,
+      dedupeThreshold: 0.88,
+      delivery_window: null
     }
   });
   const appPaused = useWatch({ control: form.control, name: 'app_paused' });
@@ -133,11 +138,12 @@ const SettingsPage = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['shabbos-settings'] });
       queryClient.invalidateQueries({ queryKey: ['shabbos-status'] });
+      queryClient.invalidateQueries({ queryKey: ['shabbos-upcoming'] });
     }
   });
 
   const handleLocationSelect = (locationName: string) => {
-    const location = PRESET_LOCATIONS.find((l) => l.name === locationName);
+    const location = SHABBOS_LOCATIONS.find((l) => l.name === locationName);
     if (location) {
       setManualLocation(locationName);
       saveShabbosSettings.mutate({
@@ -152,6 +158,22 @@ const SettingsPage = () => {
     }
   };
 
+  const additionalLocations = shabbosSettings?.additionalLocations || [];
+  const toggleAdditionalLocation = (locationName: string) => {
+    const location = SHABBOS_LOCATIONS.find((l) => l.name === locationName);
+    if (!location) return;
+    const selected = additionalLocations.some((entry) => entry.city === location.name);
+    saveShabbosSettings.mutate({
+      ...(shabbosSettings || {}),
+      additionalLocations: selected
+        ? additionalLocations.filter((entry) => entry.city !== location.name)
+        : [
+            ...additionalLocations,
+            { city: location.name, latitude: location.latitude, longitude: location.longitude, tzid: location.tzid }
+          ]
+    });
+  };
+
   const submitSettings = (values: SettingsFormValues) => {
     const editWindow = Math.max(
       1,
@@ -218,6 +240,26 @@ const SettingsPage = () => {
               )}
             </div>
 
+            <div className="flex items-center justify-between gap-3 sm:col-span-2 rounded-lg border bg-muted/20 p-4">
+              <div>
+                <p className="text-sm font-medium">Track Link Clicks</p>
+                <p className="text-xs text-muted-foreground">
+                  Article links go out as short links through this server (/r/…) so opens can be counted. Targets can
+                  opt out on the Targets page.
+                </p>
+              </div>
+              <Controller
+                control={form.control}
+                name="link_tracking_enabled"
+                render={({ field }) => (
+                  <Switch
+                    checked={field.value === true}
+                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                  />
+                )}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="default_timezone">Default Timezone</Label>
               <Controller
@@ -326,6 +368,32 @@ const SettingsPage = () => {
                     Must match WhatsApp edit support (max {CORRECTION_SCAN_MAX_MINUTES} min). No delete-and-resend.
                   </p>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="caption_max_length">Caption Length Limit</Label>
+                  <Input
+                    id="caption_max_length"
+                    type="number"
+                    min={100}
+                    max={WHATSAPP_CAPTION_LIMIT}
+                    {...form.register('caption_max_length', { valueAsNumber: true })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Text under an image or video. WhatsApp shows at most {WHATSAPP_CAPTION_LIMIT} characters.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="text_max_length">Text Length Limit</Label>
+                  <Input
+                    id="text_max_length"
+                    type="number"
+                    min={500}
+                    max={WHATSAPP_TEXT_LIMIT}
+                    {...form.register('text_max_length', { valueAsNumber: true })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Longer messages are shortened or split, per template. Defaults to the WhatsApp limit of {WHATSAPP_TEXT_LIMIT} characters.
+                  </p>
+                </div>
               </div>
             </details>
           </CardContent>
@@ -357,6 +425,52 @@ const SettingsPage = () => {
           </CardContent>
         </Card>
 
+        <Card id="quiet-hours">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MoonStar className="h-5 w-5" />
+              Quiet Hours
+            </CardTitle>
+            <CardDescription>Default delivery window for every target without its own.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Controller
+              control={form.control}
+              name="delivery_window"
+              render={({ field }) => {
+                const enabled = Boolean(field.value && field.value.enabled !== false);
+                return (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="delivery_window_enabled">Hold messages outside the window</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Held messages show in the queue and go out when the window opens.
+                        </p>
+                      </div>
+                      <Switch
+                        id="delivery_window_enabled"
+                        checked={enabled}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true ? { ...DEFAULT_DELIVERY_WINDOW, ...(field.value || {}), enabled: true } : null)
+                        }
+                      />
+                    </div>
+                    {enabled && field.value ? (
+                      <DeliveryWindowFields
+                        idPrefix="delivery_window"
+                        value={field.value}
+                        onChange={field.onChange}
+                        timezonePlaceholder={form.getValues('default_timezone') || 'UTC'}
+                      />
+                    ) : null}
+                  </div>
+                );
+              }}
+            />
+          </CardContent>
+        </Card>
+
         <Button type="submit" disabled={saveSettings.isPending}>
           {saveSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
           Save Settings
@@ -399,6 +513,19 @@ const SettingsPage = () => {
                   </div>
                 </>
               )}
+              {shabbosStatus.crossCheck && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">HebCal Cross-check</span>
+                  <span
+                    className={shabbosStatus.crossCheck.ok ? 'text-success' : 'font-medium text-destructive'}
+                    title={shabbosStatus.crossCheck.mismatches.join('\n')}
+                  >
+                    {shabbosStatus.crossCheck.ok
+                      ? `Matches (within ${shabbosStatus.crossCheck.maxDiffMinutes ?? 0} min)`
+                      : shabbosStatus.crossCheck.mismatches[0] || 'Mismatch'}
+                  </span>
+                </div>
+              )}
               {shabbosStatus.isShabbos && shabbosStatus.endsAt && (
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">Resumes At</span>
@@ -413,7 +540,7 @@ const SettingsPage = () => {
           <div className="space-y-3">
             <Label>Your Location</Label>
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-              {PRESET_LOCATIONS.map((location) => (
+              {SHABBOS_LOCATIONS.map((location) => (
                 <Button
                   key={location.name}
                   type="button"
@@ -433,6 +560,77 @@ const SettingsPage = () => {
             )}
           </div>
 
+          <div className="space-y-3">
+            <Label>Also Observe In</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {SHABBOS_LOCATIONS.filter((location) => location.name !== selectedLocation).map((location) => (
+                <Button
+                  key={location.name}
+                  type="button"
+                  variant={additionalLocations.some((entry) => entry.city === location.name) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => toggleAdditionalLocation(location.name)}
+                  disabled={saveShabbosSettings.isPending}
+                >
+                  {location.name}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Sending pauses while it is Shabbos or Yom Tov in any selected location.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shabbos_calendar">Yom Tov Calendar</Label>
+            <Select
+              value={shabbosSettings?.israel == null ? 'auto' : shabbosSettings.israel ? 'israel' : 'diaspora'}
+              onValueChange={(value) =>
+                saveShabbosSettings.mutate({
+                  ...(shabbosSettings || {}),
+                  israel: value === 'auto' ? null : value === 'israel'
+                })
+              }
+            >
+              <SelectTrigger id="shabbos_calendar" className="sm:w-[320px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">
+                  Automatic ({shabbosSettings?.israelCalendar ? 'Israel' : 'diaspora'} for this location)
+                </SelectItem>
+                <SelectItem value="israel">Israel (one day Yom Tov)</SelectItem>
+                <SelectItem value="diaspora">Diaspora (second day Yom Tov)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shabbos_policy">Stories During Shabbos</Label>
+            <Select
+              value={shabbosSettings?.policy || 'hold'}
+              onValueChange={(value) =>
+                saveShabbosSettings.mutate({
+                  ...(shabbosSettings || {}),
+                  policy: value as ShabbosPolicy
+                })
+              }
+            >
+              <SelectTrigger id="shabbos_policy" className="sm:w-[320px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hold">Hold and send after havdalah</SelectItem>
+                <SelectItem value="digest">Motzei Shabbos catch-up digest</SelectItem>
+                <SelectItem value="drop">Drop</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              The digest sends one summary of held stories per target instead of releasing them all at once. Targets can
+              override this and their location.
+            </p>
+          </div>
+
           <div className="grid gap-4 sm:grid-cols-2">
             <div className="space-y-2">
               <Label>Candle Lighting (minutes before sunset)</Label>
@@ -453,16 +651,18 @@ const SettingsPage = () => {
               <Label>Havdalah (minutes after sunset)</Label>
               <Input
                 type="number"
-                value={shabbosSettings?.havdalahMins || 50}
-                onChange={(e) =>
+                value={shabbosSettings?.havdalahMins ?? 50}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
                   saveShabbosSettings.mutate({
                     ...(shabbosSettings || {}),
-                    havdalahMins: parseInt(e.target.value, 10) || 50
-                  })
-                }
-                min={30}
+                    havdalahMins: Number.isFinite(minutes) ? minutes : 50
+                  });
+                }}
+                min={0}
                 max={90}
               />
+              <p className="text-xs text-muted-foreground">0 = nightfall (sun 8.5° below the horizon).</p>
             </div>
           </div>
 
@@ -481,6 +681,65 @@ const SettingsPage = () => {
               Enable Shabbos Mode (auto-pause during Shabbos/Yom Tov)
             </Label>
           </div>
+
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="shabbos_fail_closed"
+              checked={shabbosSettings?.failClosed ?? true}
+              onCheckedChange={(checked) =>
+                saveShabbosSettings.mutate({
+                  ...(shabbosSettings || {}),
+                  failClosed: checked === true
+                })
+              }
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor="shabbos_fail_closed" className="cursor-pointer">
+                Hold messages if times cannot be calculated
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Times are calculated on this server from the location; no internet lookup is needed.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="shabbos_hebcal_cross_check"
+              checked={shabbosSettings?.hebcalCrossCheck === true}
+              onCheckedChange={(checked) =>
+                saveShabbosSettings.mutate({
+                  ...(shabbosSettings || {}),
+                  hebcalCrossCheck: checked === true
+                })
+              }
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor="shabbos_hebcal_cross_check" className="cursor-pointer">
+                Cross-check times against HebCal
+              </Label>
+              <p className="text-xs text-muted-foreground">Reports differences only; sending never depends on HebCal.</p>
+            </div>
+          </div>
+
+          {upcomingShabbos.length > 0 && (
+            <div className="space-y-2">
+              <Label>Upcoming</Label>
+              <div className="divide-y rounded-lg border text-sm">
+                {upcomingShabbos.map((period) => (
+                  <div key={`${period.location || ''}-${period.start}`} className="flex flex-wrap items-center justify-between gap-2 p-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={period.type === 'yomtov' ? 'warning' : 'secondary'}>{period.title}</Badge>
+                      {period.location && <span className="text-xs text-muted-foreground">{period.location}</span>}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(period.start).toLocaleString()} – {new Date(period.end).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -4,14 +4,16 @@ import React, { useState } from 'react';
 import Link from 'next/link';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { Target, WhatsAppChannel, WhatsAppGroup, WhatsAppStatus } from '@/lib/types';
+import type { DeliveryWindow, ShabbosLocation, ShabbosPolicy, Target, WhatsAppChannel, WhatsAppGroup, WhatsAppStatus } from '@/lib/types';
 import { normalizeDisplayText, normalizeTargetName } from '@/lib/targetUtils';
+import { SHABBOS_LOCATIONS } from '@/lib/shabbosLocations';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableHeader, TableBody, TableRow, TableCell, TableHeaderCell } from '@/components/ui/table';
 import {
   AlertDialog,
@@ -23,6 +25,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle
 } from '@/components/ui/alert-dialog';
+import DeliveryWindowFields, { DEFAULT_DELIVERY_WINDOW } from '@/components/targets/DeliveryWindowFields';
 import { Target as TargetIcon, Users, Radio, MessageSquare, Trash2, AlertTriangle, Loader2, RefreshCw, Plus, Pencil, Save, X } from 'lucide-react';
 
 const TYPE_BADGES: Record<
@@ -41,9 +44,22 @@ type TargetPayload = {
   type: Target['type'];
   active: boolean;
   notes?: string | null;
+  locale?: string | null;
+  short_links_enabled?: boolean;
   message_delay_ms_override?: number | null;
   inter_target_delay_sec_override?: number | null;
   intra_target_delay_sec_override?: number | null;
+  delivery_window?: DeliveryWindow | null;
+  shabbos_location?: ShabbosLocation | null;
+  shabbos_policy?: ShabbosPolicy | null;
+};
+
+// inherit = global default window, off = always deliver, custom = this target's own window.
+type DeliveryWindowMode = 'inherit' | 'off' | 'custom';
+
+const getDeliveryWindowMode = (value: DeliveryWindow | null | undefined): DeliveryWindowMode => {
+  if (!value) return 'inherit';
+  return value.enabled === false ? 'off' : 'custom';
 };
 
 type ChannelDiagnostics = {
@@ -89,13 +105,26 @@ const TargetsPage = () => {
   const [deleteTarget, setDeleteTarget] = useState<Target | null>(null);
   const [editingTargetId, setEditingTargetId] = useState<string | null>(null);
   const [delayDraft, setDelayDraft] = useState<{
+    locale: string;
+    short_links_enabled: boolean;
     message_delay_ms_override: string;
     inter_target_delay_sec_override: string;
     intra_target_delay_sec_override: string;
+    delivery_window_mode: DeliveryWindowMode;
+    delivery_window: DeliveryWindow;
+    // 'global', a preset city name, or 'current' to keep a location set elsewhere.
+    shabbos_location: string;
+    shabbos_policy: '' | ShabbosPolicy;
   }>({
+    locale: '',
+    short_links_enabled: true,
     message_delay_ms_override: '',
     inter_target_delay_sec_override: '',
-    intra_target_delay_sec_override: ''
+    intra_target_delay_sec_override: '',
+    delivery_window_mode: 'inherit',
+    delivery_window: DEFAULT_DELIVERY_WINDOW,
+    shabbos_location: 'global',
+    shabbos_policy: ''
   });
 
   const { data: targets = [], isLoading: targetsLoading } = useQuery<Target[]>({
@@ -404,12 +433,25 @@ const TargetsPage = () => {
                     const openDelayEditor = () => {
                       setEditingTargetId(target.id);
                       setDelayDraft({
+                        locale: target.locale || '',
+                        short_links_enabled: target.short_links_enabled !== false,
                         message_delay_ms_override:
                           target.message_delay_ms_override == null ? '' : String(target.message_delay_ms_override),
                         inter_target_delay_sec_override:
                           target.inter_target_delay_sec_override == null ? '' : String(target.inter_target_delay_sec_override),
                         intra_target_delay_sec_override:
-                          target.intra_target_delay_sec_override == null ? '' : String(target.intra_target_delay_sec_override)
+                          target.intra_target_delay_sec_override == null ? '' : String(target.intra_target_delay_sec_override),
+                        delivery_window_mode: getDeliveryWindowMode(target.delivery_window),
+                        delivery_window:
+                          target.delivery_window && target.delivery_window.enabled !== false
+                            ? { ...DEFAULT_DELIVERY_WINDOW, ...target.delivery_window }
+                            : DEFAULT_DELIVERY_WINDOW,
+                        shabbos_location: !target.shabbos_location
+                          ? 'global'
+                          : SHABBOS_LOCATIONS.some((location) => location.name === target.shabbos_location?.city)
+                            ? String(target.shabbos_location.city)
+                            : 'current',
+                        shabbos_policy: target.shabbos_policy || ''
                       });
                     };
 
@@ -422,6 +464,14 @@ const TargetsPage = () => {
                       return clamped;
                     };
 
+                    const resolveShabbosLocation = (): ShabbosLocation | null => {
+                      if (delayDraft.shabbos_location === 'current') return target.shabbos_location || null;
+                      const preset = SHABBOS_LOCATIONS.find((location) => location.name === delayDraft.shabbos_location);
+                      return preset
+                        ? { city: preset.name, latitude: preset.latitude, longitude: preset.longitude, tzid: preset.tzid }
+                        : null;
+                    };
+
                     const saveDelayOverrides = () => {
                       updateTarget.mutate(
                         {
@@ -432,9 +482,19 @@ const TargetsPage = () => {
                             type: target.type,
                             active: target.active,
                             notes: target.notes || null,
+                            locale: delayDraft.locale.trim() || null,
+                            short_links_enabled: delayDraft.short_links_enabled,
                             message_delay_ms_override: parseOptionalInt(delayDraft.message_delay_ms_override, { min: 0, max: 60000 }),
                             inter_target_delay_sec_override: parseOptionalInt(delayDraft.inter_target_delay_sec_override, { min: 0, max: 600 }),
-                            intra_target_delay_sec_override: parseOptionalInt(delayDraft.intra_target_delay_sec_override, { min: 0, max: 600 })
+                            intra_target_delay_sec_override: parseOptionalInt(delayDraft.intra_target_delay_sec_override, { min: 0, max: 600 }),
+                            delivery_window:
+                              delayDraft.delivery_window_mode === 'inherit'
+                                ? null
+                                : delayDraft.delivery_window_mode === 'off'
+                                  ? { enabled: false }
+                                  : { ...delayDraft.delivery_window, enabled: true },
+                            shabbos_location: resolveShabbosLocation(),
+                            shabbos_policy: delayDraft.shabbos_policy || null
                           }
                         },
                         {
@@ -448,9 +508,15 @@ const TargetsPage = () => {
                     const cancelDelayOverrides = () => {
                       setEditingTargetId(null);
                       setDelayDraft({
+                        locale: '',
+                        short_links_enabled: true,
                         message_delay_ms_override: '',
                         inter_target_delay_sec_override: '',
-                        intra_target_delay_sec_override: ''
+                        intra_target_delay_sec_override: '',
+                        delivery_window_mode: 'inherit',
+                        delivery_window: DEFAULT_DELIVERY_WINDOW,
+                        shabbos_location: 'global',
+                        shabbos_policy: ''
                       });
                     };
 
@@ -479,6 +545,16 @@ const TargetsPage = () => {
                               <p className="truncate">{target.name}</p>
                               {target.notes ? <p className="truncate text-xs text-muted-foreground">{target.notes}</p> : null}
                             </div>
+                            {target.locale ? (
+                              <Badge variant="secondary" className="mt-1 text-[10px] uppercase">
+                                {target.locale}
+                              </Badge>
+                            ) : null}
+                            {target.shabbos_location?.city ? (
+                              <Badge variant="secondary" className="ml-1 mt-1 text-[10px]">
+                                Shabbos: {target.shabbos_location.city}
+                              </Badge>
+                            ) : null}
                           </TableCell>
                           <TableCell>
                             <Badge variant={TYPE_BADGES[target.type]?.variant || 'secondary'}>
@@ -494,7 +570,7 @@ const TargetsPage = () => {
                                 size="sm"
                                 variant="ghost"
                                 onClick={openDelayEditor}
-                                title="Edit per-target delays"
+                                title="Edit locale, delays, delivery window and Shabbos"
                               >
                                 <Pencil className="h-4 w-4" />
                               </Button>
@@ -513,7 +589,17 @@ const TargetsPage = () => {
                         {isEditing ? (
                           <TableRow>
                             <TableCell colSpan={5} className="bg-muted/20">
-                              <div className="grid gap-3 sm:grid-cols-3">
+                              <div className="grid gap-3 sm:grid-cols-4">
+                                <div className="space-y-1.5">
+                                  <Label htmlFor={`locale_${target.id}`}>Locale</Label>
+                                  <Input
+                                    id={`locale_${target.id}`}
+                                    placeholder="e.g. he, yi, en"
+                                    value={delayDraft.locale}
+                                    onChange={(event) => setDelayDraft((current) => ({ ...current, locale: event.target.value }))}
+                                  />
+                                  <p className="text-[11px] text-muted-foreground">Picks the matching template variant.</p>
+                                </div>
                                 <div className="space-y-1.5">
                                   <Label htmlFor={`delay_ms_${target.id}`}>Message delay override (ms)</Label>
                                   <Input
@@ -566,10 +652,106 @@ const TargetsPage = () => {
                                   <p className="text-[11px] text-muted-foreground">Blank = use global setting.</p>
                                 </div>
                               </div>
+                              <div className="mt-3 flex items-start gap-2">
+                                <Checkbox
+                                  id={`short_links_${target.id}`}
+                                  checked={delayDraft.short_links_enabled}
+                                  onCheckedChange={(checked) =>
+                                    setDelayDraft((current) => ({ ...current, short_links_enabled: checked === true }))
+                                  }
+                                />
+                                <div className="space-y-0.5">
+                                  <Label htmlFor={`short_links_${target.id}`} className="cursor-pointer">
+                                    Use tracked short links
+                                  </Label>
+                                  <p className="text-[11px] text-muted-foreground">
+                                    Turn off to send original article URLs, e.g. when link previews matter more than click counts.
+                                  </p>
+                                </div>
+                              </div>
+                              <div className="mt-3 space-y-3 rounded-lg border bg-background/60 p-3">
+                                <div className="flex flex-wrap items-center gap-3">
+                                  <Label htmlFor={`window_mode_${target.id}`}>Delivery window</Label>
+                                  <Select
+                                    value={delayDraft.delivery_window_mode}
+                                    onValueChange={(value) =>
+                                      setDelayDraft((current) => ({ ...current, delivery_window_mode: value as DeliveryWindowMode }))
+                                    }
+                                  >
+                                    <SelectTrigger id={`window_mode_${target.id}`} className="w-[220px]">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="inherit">Use global quiet hours</SelectItem>
+                                      <SelectItem value="off">Always deliver</SelectItem>
+                                      <SelectItem value="custom">Custom window</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                {delayDraft.delivery_window_mode === 'custom' ? (
+                                  <DeliveryWindowFields
+                                    idPrefix={`window_${target.id}`}
+                                    value={delayDraft.delivery_window}
+                                    onChange={(value) => setDelayDraft((current) => ({ ...current, delivery_window: value }))}
+                                  />
+                                ) : null}
+                              </div>
+                              <div className="mt-3 grid gap-3 rounded-lg border bg-background/60 p-3 sm:grid-cols-2">
+                                <div className="space-y-1.5">
+                                  <Label htmlFor={`shabbos_location_${target.id}`}>Shabbos location</Label>
+                                  <Select
+                                    value={delayDraft.shabbos_location}
+                                    onValueChange={(value) => setDelayDraft((current) => ({ ...current, shabbos_location: value }))}
+                                  >
+                                    <SelectTrigger id={`shabbos_location_${target.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="global">Global Shabbos locations</SelectItem>
+                                      {delayDraft.shabbos_location === 'current' ? (
+                                        <SelectItem value="current">
+                                          {target.shabbos_location?.city || target.shabbos_location?.tzid || 'Current location'}
+                                        </SelectItem>
+                                      ) : null}
+                                      {SHABBOS_LOCATIONS.map((location) => (
+                                        <SelectItem key={location.name} value={location.name}>
+                                          {location.name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-[11px] text-muted-foreground">Whose Shabbos and Yom Tov times apply to this target.</p>
+                                </div>
+                                <div className="space-y-1.5">
+                                  <Label htmlFor={`shabbos_policy_${target.id}`}>Stories during Shabbos</Label>
+                                  <Select
+                                    value={delayDraft.shabbos_policy || 'global'}
+                                    onValueChange={(value) =>
+                                      setDelayDraft((current) => ({
+                                        ...current,
+                                        shabbos_policy: value === 'global' ? '' : (value as ShabbosPolicy)
+                                      }))
+                                    }
+                                  >
+                                    <SelectTrigger id={`shabbos_policy_${target.id}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="global">Global setting</SelectItem>
+                                      <SelectItem value="hold">Hold and send after havdalah</SelectItem>
+                                      <SelectItem value="digest">Motzei Shabbos catch-up digest</SelectItem>
+                                      <SelectItem value="drop">Drop</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-[11px] text-muted-foreground">
+                                    Announcements and scheduled posts are always held, never dropped.
+                                  </p>
+                                </div>
+                              </div>
                               <div className="mt-3 flex flex-wrap gap-2">
                                 <Button size="sm" onClick={saveDelayOverrides} disabled={updateTarget.isPending}>
                                   {updateTarget.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-                                  Save delays
+                                  Save
                                 </Button>
                                 <Button size="sm" variant="outline" onClick={cancelDelayOverrides}>
                                   <X className="mr-2 h-4 w-4" />
@@ -2,12 +2,21 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import Image from 'next/image';
-import { useForm, useWatch } from 'react-hook-form';
+import { useFieldArray, useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { Feed, FeedItem, Target, Template } from '@/lib/types';
+import type {
+  Feed,
+  FeedItem,
+  Target,
+  Template,
+  TemplateDiffLine,
+  TemplatePreview,
+  TemplateRevision,
+  TemplateRevisionDiff
+} from '@/lib/types';
 import { dedupeTargets, formatTargetLabel, normalizeTargetName } from '@/lib/targetUtils';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -17,14 +26,24 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Layers, Pencil, Trash2, Eye, Loader2, Send } from 'lucide-react';
+import { Layers, Pencil, Trash2, Eye, Loader2, Send, CheckCheck, AlertTriangle, Video, Plus, X, History, RotateCcw } from 'lucide-react';
 
 const schema = z.object({
   name: z.string().min(1),
   content: z.string().min(1),
   description: z.string().optional(),
   active: z.boolean().default(true),
-  send_mode: z.enum(['image', 'image_only', 'link_preview', 'text_only']).default('image')
+  send_mode: z.enum(['image', 'image_only', 'link_preview', 'text_only']).default('image'),
+  length_strategy: z.enum(['truncate', 'split']).default('truncate'),
+  text_direction: z.enum(['none', 'auto', 'rtl', 'ltr']).default('none'),
+  variants: z
+    .array(
+      z.object({
+        locale: z.string().trim().regex(/^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/, 'Use a locale such as "he" or "en-GB"'),
+        content: z.string().min(1)
+      })
+    )
+    .default([])
 });
 
 type TemplateFormValues = z.infer<typeof schema>;
@@ -39,7 +58,8 @@ const escapeWhatsAppFormatting = (value: unknown) => {
 
 const applyTemplate = (content: string, data: Record<string, unknown>) => {
   if (!content || !data) return content;
-  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => {
+  // Rough local preview: filters are ignored and block tags are shown as typed.
+  return content.replace(/\{\{\s*(\w+)\s*(?:\|[^}]*)?\}\}/g, (_, key) => {
     const value = data[key];
     if (value === undefined || value === null) return `{{${key}}}`;
     return escapeWhatsAppFormatting(value);
@@ -84,7 +104,7 @@ const TemplatesPage = () => {
   const { data: feeds = [] } = useQuery<Feed[]>({ queryKey: ['feeds'], queryFn: () => api.get('/api/feeds') });
   const { data: targets = [] } = useQuery<Target[]>({ queryKey: ['targets'], queryFn: () => api.get('/api/targets') });
   const { data: templates = [] } = useQuery<Template[]>({ queryKey: ['templates'], queryFn: () => api.get('/api/templates') });
-  const { data: availableVariables = [] } = useQuery<Array<{ name: string }>>({
+  const { data: availableVariables = [] } = useQuery<Array<{ name: string; description?: string; sample?: string | null }>>({
     queryKey: ['available-variables', sampleFeedId],
     queryFn: () =>
       sampleFeedId === '__all'
@@ -95,11 +115,23 @@ const TemplatesPage = () => {
     queryKey: ['feed-items', sampleFeedId],
     queryFn: () =>
       sampleFeedId === '__all'
-        ? api.get('/api/feed-items?scope=all')
+        ? api.get('/api/feed-items?scope=all&duplicates=false')
         : api.get(`/api/feed-items/by-feed/${encodeURIComponent(sampleFeedId)}`)
   });
   const [active, setActive] = useState<Template | null>(null);
   const [previewWithData, setPreviewWithData] = useState(true);
+  const [compareRevisionId, setCompareRevisionId] = useState<string | null>(null);
+  const { data: revisions = [] } = useQuery<TemplateRevision[]>({
+    queryKey: ['template-revisions', active?.id],
+    queryFn: () => api.get(`/api/templates/${active?.id}/revisions`),
+    enabled: Boolean(active?.id)
+  });
+  const revisionDiff = useQuery<TemplateRevisionDiff>({
+    queryKey: ['template-revision-diff', active?.id, compareRevisionId, active?.current_revision_id],
+    queryFn: () =>
+      api.get(`/api/templates/${active?.id}/revisions/diff?from=${encodeURIComponent(compareRevisionId || '')}`),
+    enabled: Boolean(active?.id && compareRevisionId)
+  });
   const activeTargets = React.useMemo(() => {
     return dedupeTargets(targets, { activeOnly: true });
   }, [targets]);
@@ -236,17 +268,21 @@ const TemplatesPage = () => {
       image_url: sampleItem.image_url || '',
       imageUrl: sampleItem.image_url || '',
       categories: categories || fallback.categories,
-      ...rawExtras
+      ...rawExtras,
+      ...(sampleItem.computed_fields && typeof sampleItem.computed_fields === 'object' ? sampleItem.computed_fields : {})
     };
   }, [sampleItem, sampleItemKey]);
 
   const form = useForm<TemplateFormValues>({
     resolver: zodResolver(schema),
-    defaultValues: { name: '', content: '', description: '', active: true, send_mode: 'image' }
+    defaultValues: { name: '', content: '', description: '', active: true, send_mode: 'image', length_strategy: 'truncate', text_direction: 'none', variants: [] }
   });
+  const variantFields = useFieldArray({ control: form.control, name: 'variants' });
 
   const watchedContent = useWatch({ control: form.control, name: 'content' });
   const watchedSendMode = useWatch({ control: form.control, name: 'send_mode' });
+  const watchedLengthStrategy = useWatch({ control: form.control, name: 'length_strategy' });
+  const watchedTextDirection = useWatch({ control: form.control, name: 'text_direction' });
   const attachFeedImage = watchedSendMode === 'image' || watchedSendMode === 'image_only';
   const imageOnlyMode = watchedSendMode === 'image_only';
   const textOnlyMode = watchedSendMode === 'text_only';
@@ -275,6 +311,44 @@ const TemplatesPage = () => {
 
   const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
 
+  // Server render of the draft against the sample item: exact text, media choice and lint warnings.
+  const [debouncedContent, setDebouncedContent] = useState('');
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedContent(watchedContent || ''), 400);
+    return () => clearTimeout(timer);
+  }, [watchedContent]);
+  const serverPreviewEnabled = previewWithData && Boolean(sampleItem?.id) && Boolean(debouncedContent.trim());
+  const serverPreview = useQuery<TemplatePreview>({
+    queryKey: ['template-preview', debouncedContent, watchedSendMode, watchedLengthStrategy, watchedTextDirection, sampleItem?.id],
+    queryFn: () =>
+      api.post('/api/templates/preview', {
+        content: debouncedContent,
+        send_mode: watchedSendMode,
+        length_strategy: watchedLengthStrategy,
+        text_direction: watchedTextDirection,
+        feed_item_id: sampleItem?.id
+      }),
+    enabled: serverPreviewEnabled,
+    placeholderData: keepPreviousData,
+    retry: false
+  });
+  const preview = serverPreviewEnabled && !serverPreview.isError ? serverPreview.data || null : null;
+  const previewImageUrl = preview
+    ? preview.media.kind === 'image'
+      ? preview.media.url
+      : null
+    : attachFeedImage
+      ? String(sampleData.image_url || '')
+      : null;
+  const previewLinkHost = (() => {
+    if (!preview?.preview_url) return '';
+    try {
+      return new URL(preview.preview_url).hostname.replace(/^www\./, '');
+    } catch {
+      return '';
+    }
+  })();
+
   useEffect(() => {
     if (active) {
       form.reset({
@@ -282,7 +356,10 @@ const TemplatesPage = () => {
         content: active.content,
         description: active.description || '',
         active: active.active ?? true,
-        send_mode: resolveSendMode(active)
+        send_mode: resolveSendMode(active),
+        length_strategy: active.length_strategy === 'split' ? 'split' : 'truncate',
+        text_direction: active.text_direction || 'none',
+        variants: (active.variants || []).map((variant) => ({ locale: variant.locale, content: variant.content }))
       });
     }
   }, [active, form]);
@@ -296,18 +373,54 @@ const TemplatesPage = () => {
     onSuccess: (savedTemplate: Template) => {
       queryClient.invalidateQueries({ queryKey: ['templates'] });
       queryClient.invalidateQueries({ queryKey: ['available-variables'] });
+      queryClient.invalidateQueries({ queryKey: ['template-revisions'] });
       setActive(savedTemplate);
       form.reset({
         name: savedTemplate.name || '',
         content: savedTemplate.content || '',
         description: savedTemplate.description || '',
         active: savedTemplate.active ?? true,
-        send_mode: resolveSendMode(savedTemplate)
+        send_mode: resolveSendMode(savedTemplate),
+        length_strategy: savedTemplate.length_strategy === 'split' ? 'split' : 'truncate',
+        text_direction: savedTemplate.text_direction || 'none',
+        variants: (savedTemplate.variants || []).map((variant) => ({ locale: variant.locale, content: variant.content }))
       });
     },
     onError: (error: unknown) => alert(`Failed to save template: ${getErrorMessage(error)}`)
   });
 
+  const rollbackTemplate = useMutation({
+    mutationFn: ({ templateId, revisionId }: { templateId: string; revisionId: string }) =>
+      api.post<Template>(`/api/templates/${templateId}/revisions/${revisionId}/rollback`),
+    onSuccess: (restoredTemplate: Template) => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+      queryClient.invalidateQueries({ queryKey: ['template-revisions'] });
+      setCompareRevisionId(null);
+      setActive(restoredTemplate);
+    },
+    onError: (error: unknown) => alert(`Failed to restore revision: ${getErrorMessage(error)}`)
+  });
+
+  const renderDiffLines = (lines: TemplateDiffLine[]) => (
+    <pre className="overflow-x-auto rounded-md border bg-muted/30 p-2 text-xs leading-5">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === 'added'
+              ? 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300'
+              : line.type === 'removed'
+                ? 'bg-red-500/15 text-red-700 line-through dark:text-red-300'
+                : 'text-muted-foreground'
+          }
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+
   const deleteTemplate = useMutation({
     mutationFn: (id: string) => api.delete(`/api/templates/${id}`),
     onSuccess: (_, id) => {
@@ -315,7 +428,7 @@ const TemplatesPage = () => {
       queryClient.invalidateQueries({ queryKey: ['available-variables'] });
       if (active?.id === id) {
         setActive(null);
-        form.reset({ name: '', content: '', description: '', active: true, send_mode: 'image' });
+        form.reset({ name: '', content: '', description: '', active: true, send_mode: 'image', length_strategy: 'truncate', text_direction: 'none', variants: [] });
       }
     },
     onError: (error: unknown) => alert(`Failed to delete template: ${getErrorMessage(error)}`)
@@ -346,7 +459,10 @@ const TemplatesPage = () => {
         content: values.content,
         description: values.description,
         active: true,
-        send_mode: values.send_mode
+        send_mode: values.send_mode,
+        length_strategy: values.length_strategy,
+        text_direction: values.text_direction,
+        variants: values.variants
       }
     });
   };
@@ -526,7 +642,10 @@ const TemplatesPage = () => {
                     className="min-h-[120px] text-sm"
                   />
                   <p className="text-xs text-muted-foreground">
-                    Put your cursor anywhere, then tap a variable chip to insert it.
+                    Put your cursor anywhere, then tap a variable chip to insert it. Templates also support{' '}
+                    <code>{'{{#if author}}…{{else}}…{{/if}}'}</code>, <code>{'{{#each categories}}{{this}}{{/each}}'}</code>{' '}
+                    and filters such as <code>{'{{description | truncate:200}}'}</code>,{' '}
+                    <code>{'{{title | upper}}'}</code> and <code>{'{{pub_date | date:"HH:mm" tz:"America/New_York"}}'}</code>.
                   </p>
                 </div>
 
@@ -538,7 +657,7 @@ const TemplatesPage = () => {
                         (() => {
                           const key = String(variable.name || '').trim();
                           const rawValue = (sampleData as Record<string, unknown>)[key];
-                          const sampleValue = rawValue == null ? '' : String(rawValue);
+                          const sampleValue = rawValue == null ? String(variable.sample || '') : String(rawValue);
                           const cleaned = sampleValue.replace(/\s+/g, ' ').trim();
                           const preview = cleaned.length > 42 ? `${cleaned.slice(0, 42)}...` : cleaned;
                           return (
@@ -548,7 +667,7 @@ const TemplatesPage = () => {
                           variant="secondary"
                           size="sm"
                           onClick={() => insertVariable(variable.name)}
-                          title={cleaned ? `${key}: ${cleaned}` : key}
+                          title={[variable.description, cleaned ? `${key}: ${cleaned}` : key].filter(Boolean).join('\n')}
                           className="h-auto max-w-full flex-col items-start gap-0.5 px-2 py-1 text-left"
                         >
                           <span className="text-xs font-medium leading-none">{key.replace(/_/g, ' ')}</span>
@@ -573,6 +692,53 @@ const TemplatesPage = () => {
                   <Input id="description" {...form.register('description')} placeholder="Template for daily news updates" />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Locale variants (optional)</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Targets with a matching locale get this wording instead of the content above. Hebrew, Yiddish and
+                    Arabic variants are sent right to left.
+                  </p>
+                  {variantFields.fields.map((variant, index) => (
+                    <div key={variant.id} className="space-y-2 rounded-lg border p-3">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          {...form.register(`variants.${index}.locale`)}
+                          placeholder="Locale, e.g. he"
+                          className="h-8 w-40"
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          className="ml-auto"
+                          onClick={() => variantFields.remove(index)}
+                          title="Remove variant"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {form.formState.errors.variants?.[index]?.locale ? (
+                        <p className="text-xs text-destructive">{form.formState.errors.variants[index]?.locale?.message}</p>
+                      ) : null}
+                      <Textarea
+                        {...form.register(`variants.${index}.content`)}
+                        dir="auto"
+                        placeholder="Same variables as the main content"
+                        className="min-h-[100px] text-sm"
+                      />
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => variantFields.append({ locale: '', content: watchedContent || '' })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add variant
+                  </Button>
+                </div>
+
                 <div className="space-y-4 rounded-lg border p-4">
                   <Label>What gets sent</Label>
                   <label className="flex items-center justify-between rounded-md border p-3 text-sm">
@@ -610,6 +776,51 @@ const TemplatesPage = () => {
 
                   <input type="hidden" {...form.register('send_mode')} />
 
+                  {!imageOnlyMode ? (
+                    <div className="space-y-2 border-t pt-3">
+                      <Label>When the text is too long</Label>
+                      <Select
+                        value={watchedLengthStrategy}
+                        onValueChange={(value) => form.setValue('length_strategy', value === 'split' ? 'split' : 'truncate')}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="truncate">Shorten with a &quot;Read more&quot; link</SelectItem>
+                          <SelectItem value="split">Send the rest as follow-up messages</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Length limits for captions and texts are set on the Settings page.
+                      </p>
+                    </div>
+                  ) : null}
+
+                  {!imageOnlyMode ? (
+                    <div className="space-y-2 border-t pt-3">
+                      <Label>Text direction</Label>
+                      <Select
+                        value={watchedTextDirection}
+                        onValueChange={(value) => form.setValue('text_direction', value as TemplateFormValues['text_direction'])}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">As written</SelectItem>
+                          <SelectItem value="auto">Detect from the text</SelectItem>
+                          <SelectItem value="rtl">Right to left (Hebrew, Yiddish, Arabic)</SelectItem>
+                          <SelectItem value="ltr">Left to right</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Starts each line with a direction mark so WhatsApp aligns lines that open with a number, link or
+                        word in the other direction. Right-to-left language variants always use right to left.
+                      </p>
+                    </div>
+                  ) : null}
+
                   <p className="border-t pt-3 text-xs text-muted-foreground">
                     Templates are always available to automations; pick which one to use on the Automations page.
                   </p>
@@ -626,7 +837,7 @@ const TemplatesPage = () => {
                       variant="outline"
                       onClick={() => {
                         setActive(null);
-                        form.reset({ name: '', content: '', description: '', active: true, send_mode: 'image' });
+                        form.reset({ name: '', content: '', description: '', active: true, send_mode: 'image', length_strategy: 'truncate', text_direction: 'none', variants: [] });
                       }}
                     >
                       Cancel
@@ -726,14 +937,17 @@ const TemplatesPage = () => {
               </div>
             </CardHeader>
             <CardContent>
-              <div className="rounded-lg bg-emerald-50/70 p-4 dark:bg-emerald-950/40">
-                <div className="max-w-[85%] rounded-lg bg-white/80 px-3 py-2 shadow-sm ring-1 ring-emerald-200/60 dark:bg-emerald-900/50 dark:ring-emerald-800/60">
-                  {previewWithData &&
-                  (watchedSendMode === 'image' || watchedSendMode === 'image_only') &&
-                  isSafeImageSrc(sampleData.image_url) ? (
-                    <div className="mb-2 overflow-hidden rounded-md border border-black/5 bg-white">
+              <div className="rounded-lg bg-[#efeae2] p-4 dark:bg-[#0b141a]">
+                <div className="ml-auto max-w-[85%] rounded-lg rounded-tr-none bg-[#d9fdd3] p-1 shadow-sm dark:bg-[#005c4b]">
+                  {previewWithData && preview?.media.kind === 'video' && preview.media.url ? (
+                    <div className="mb-1 flex h-40 items-center justify-center rounded-md bg-black/70 text-white">
+                      <Video className="h-8 w-8" />
+                    </div>
+                  ) : null}
+                  {previewWithData && isSafeImageSrc(previewImageUrl) ? (
+                    <div className="mb-1 overflow-hidden rounded-md">
                       <Image
-                        src={String(sampleData.image_url)}
+                        src={String(previewImageUrl)}
                         alt="Template preview"
                         width={640}
                         height={360}
@@ -743,18 +957,48 @@ const TemplatesPage = () => {
                       />
                     </div>
                   ) : null}
+                  {previewWithData && preview?.preview_url ? (
+                    <div className="mb-1 rounded-md border-l-4 border-emerald-600 bg-black/5 px-2 py-1.5 dark:bg-white/10">
+                      <p className="truncate text-xs font-medium">{preview.feed_item.title || previewLinkHost}</p>
+                      <p className="truncate text-[11px] text-muted-foreground">{previewLinkHost}</p>
+                    </div>
+                  ) : null}
                   <div
-                    className="text-sm text-foreground/90 whitespace-pre-wrap [&_strong]:font-bold [&_em]:italic [&_del]:line-through [&_code]:bg-muted [&_code]:px-1 [&_code]:rounded [&_code]:font-mono"
+                    className="px-2 pt-1 text-sm text-foreground/90 whitespace-pre-wrap break-words [&_strong]:font-bold [&_em]:italic [&_del]:line-through [&_code]:bg-muted [&_code]:px-1 [&_code]:rounded [&_code]:font-mono"
                     dangerouslySetInnerHTML={{
-                      __html: formatWhatsAppMarkdown(renderedPreviewText)
+                      __html: formatWhatsAppMarkdown(preview ? (preview.parts[0]?.text ?? preview.text) : renderedPreviewText)
                     }}
                   />
-                  <div className="text-right mt-1">
+                  <div className="flex items-center justify-end gap-1 px-2 pb-0.5">
                     <span className="text-[10px] text-muted-foreground">12:00 PM</span>
+                    <CheckCheck className="h-3 w-3 text-sky-500" />
                   </div>
                 </div>
               </div>
 
+              {serverPreviewEnabled && serverPreview.isError ? (
+                <p className="mt-2 text-xs text-destructive">{getErrorMessage(serverPreview.error)}</p>
+              ) : null}
+              {preview ? (
+                <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                  <p>
+                    {preview.character_count} characters
+                    {preview.media.url && preview.send_mode !== 'link_preview' && preview.send_mode !== 'text_only'
+                      ? ` (caption limit ${preview.caption_limit})`
+                      : ''}
+                    {preview.parts.length > 1 ? ` · sent as ${preview.parts.length} messages` : ''}
+                    {serverPreview.isFetching ? ' · updating…' : ''}
+                    {preview.media.error ? ` · media: ${preview.media.error}` : ''}
+                  </p>
+                  {preview.warnings.map((warning) => (
+                    <p key={`${warning.code}-${warning.message}`} className="flex items-start gap-1 text-amber-700 dark:text-amber-400">
+                      <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                      {warning.message}
+                    </p>
+                  ))}
+                </div>
+              ) : null}
+
               {previewWithData ? (
                 <p className="text-xs text-muted-foreground mt-2">
                   Sample:{' '}
@@ -769,53 +1013,155 @@ const TemplatesPage = () => {
           </Card>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Saved Templates</CardTitle>
-            <CardDescription>{templates.length} template{templates.length !== 1 ? 's' : ''}</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {templates.map((template) => (
-                <div key={template.id} className="rounded-lg border p-3">
-                  <div className="flex items-start justify-between gap-2 mb-2">
-                    <div className="min-w-0 flex-1">
-                      <p className="font-medium truncate">{template.name}</p>
-                      {template.description && (
-                        <p className="text-xs text-muted-foreground truncate">{template.description}</p>
-                      )}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved Templates</CardTitle>
+              <CardDescription>{templates.length} template{templates.length !== 1 ? 's' : ''}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {templates.map((template) => (
+                  <div key={template.id} className="rounded-lg border p-3">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium truncate">{template.name}</p>
+                        {template.description && (
+                          <p className="text-xs text-muted-foreground truncate">{template.description}</p>
+                        )}
+                        {template.variants?.length ? (
+                          <p className="text-xs text-muted-foreground uppercase">
+                            {template.variants.map((variant) => variant.locale).join(' · ')}
+                          </p>
+                        ) : null}
+                      </div>
+                      <Badge variant="secondary" className="capitalize">
+                        {template.send_mode ? template.send_mode.replace('_', ' ') : 'image'}
+                      </Badge>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setActive(template);
+                        }}
+                      >
+                        <Pencil className="mr-1 h-3 w-3" /> Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteTemplate.mutate(template.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
                     </div>
-                    <Badge variant="secondary" className="capitalize">
-                      {template.send_mode ? template.send_mode.replace('_', ' ') : 'image'}
-                    </Badge>
                   </div>
-                  <div className="flex gap-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => {
-                        setActive(template);
-                      }}
-                    >
-                      <Pencil className="mr-1 h-3 w-3" /> Edit
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => deleteTemplate.mutate(template.id)}
-                      className="text-destructive hover:text-destructive"
-                    >
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
+                ))}
+                {templates.length === 0 && (
+                  <p className="text-center text-muted-foreground py-8">No templates yet. Create one above.</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {active ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  History
+                </CardTitle>
+                <CardDescription>Every save of {active.name} is kept. Restoring one adds a new revision.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">
+                          Revision {revision.revision_number}
+                          {revision.current ? (
+                            <Badge variant="success" className="ml-2 text-[10px]">
+                              Current
+                            </Badge>
+                          ) : null}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {revision.created_by || 'unknown'} · {new Date(revision.created_at).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {revision.sent_count} message{revision.sent_count !== 1 ? 's' : ''} sent
+                          {revision.restored_from_revision_id
+                            ? ` · restored from revision ${
+                                revisions.find((entry) => entry.id === revision.restored_from_revision_id)?.revision_number ?? '?'
+                              }`
+                            : ''}
+                        </p>
+                      </div>
+                      {!revision.current ? (
+                        <div className="flex shrink-0 gap-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCompareRevisionId(compareRevisionId === revision.id ? null : revision.id)}
+                          >
+                            {compareRevisionId === revision.id ? 'Hide' : 'Diff'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={rollbackTemplate.isPending}
+                            onClick={() => rollbackTemplate.mutate({ templateId: active.id, revisionId: revision.id })}
+                            title="Restore this revision"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : null}
+                    </div>
+
+                    {compareRevisionId === revision.id ? (
+                      revisionDiff.isLoading ? (
+                        <p className="text-xs text-muted-foreground">Loading diff...</p>
+                      ) : revisionDiff.data ? (
+                        <div className="space-y-2">
+                          <p className="text-xs text-muted-foreground">
+                            Revision {revisionDiff.data.from.revision_number} → current (revision{' '}
+                            {revisionDiff.data.to.revision_number})
+                          </p>
+                          {!revisionDiff.data.changed ? (
+                            <p className="text-xs text-muted-foreground">No differences.</p>
+                          ) : null}
+                          {revisionDiff.data.fields.map((field) => (
+                            <p key={field.field} className="text-xs">
+                              <span className="font-medium">{field.field.replace(/_/g, ' ')}:</span>{' '}
+                              {String(field.before ?? '—')} → {String(field.after ?? '—')}
+                            </p>
+                          ))}
+                          {revisionDiff.data.content.some((line) => line.type !== 'equal')
+                            ? renderDiffLines(revisionDiff.data.content)
+                            : null}
+                          {revisionDiff.data.variants.map((variant) => (
+                            <div key={variant.locale} className="space-y-1">
+                              <p className="text-xs font-medium uppercase">
+                                {variant.locale} variant {variant.change}
+                              </p>
+                              {renderDiffLines(variant.lines)}
+                            </div>
+                          ))}
+                        </div>
+                      ) : null
+                    ) : null}
                   </div>
-                </div>
-              ))}
-              {templates.length === 0 && (
-                <p className="text-center text-muted-foreground py-8">No templates yet. Create one above.</p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                ))}
+                {revisions.length === 0 ? <p className="text-sm text-muted-foreground">No revisions yet.</p> : null}
+              </CardContent>
+            </Card>
+          ) : null}
+        </div>
       </div>
     </div>
   );
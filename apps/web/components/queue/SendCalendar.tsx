@@ -0,0 +1,298 @@
+'use client';
+
+import * as React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2, Save, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import type { SendCalendar as SendCalendarData, SendCalendarEntry, Target } from '@/lib/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const DAYS_SHOWN = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfLocalDay = (value: Date) => new Date(value.getFullYear(), value.getMonth(), value.getDate());
+
+const addLocalDays = (value: Date, days: number) => new Date(value.getFullYear(), value.getMonth(), value.getDate() + days);
+
+const localDayIndex = (value: Date, start: Date) => Math.round((startOfLocalDay(value).getTime() - start.getTime()) / DAY_MS);
+
+// Wall-clock time of an instant in the timezone it was scheduled in, as "YYYY-MM-DDTHH:mm".
+const toZonedInputValue = (iso: string, timezone: string) => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).formatToParts(new Date(iso));
+    const read = (type: string) => parts.find((part) => part.type === type)?.value || '00';
+    return `${read('year')}-${read('month')}-${read('day')}T${read('hour')}:${read('minute')}`;
+  } catch {
+    return iso.slice(0, 16);
+  }
+};
+
+const shiftInputDate = (value: string, days: number) => {
+  const [datePart = '', timePart = '00:00'] = value.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year || 1970, (month || 1) - 1, (day || 1) + days));
+  return `${shifted.toISOString().slice(0, 10)}T${timePart}`;
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+type SendCalendarProps = {
+  title?: string;
+};
+
+/**
+ * Week of upcoming manual and batch sends, one row per target. Scheduled manual posts can be
+ * dragged to another day (same time of day in their own timezone) or given a new time.
+ */
+const SendCalendar = ({ title = 'Upcoming sends' }: SendCalendarProps) => {
+  const queryClient = useQueryClient();
+  const [weekStart, setWeekStart] = React.useState(() => startOfLocalDay(new Date()));
+  const [targetFilter, setTargetFilter] = React.useState('all');
+  const [dragging, setDragging] = React.useState<SendCalendarEntry | null>(null);
+  const [editing, setEditing] = React.useState<{ entry: SendCalendarEntry; value: string } | null>(null);
+  const [notice, setNotice] = React.useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const from = weekStart.toISOString();
+  const to = addLocalDays(weekStart, DAYS_SHOWN).toISOString();
+  const days = React.useMemo(
+    () => Array.from({ length: DAYS_SHOWN }, (_, index) => addLocalDays(weekStart, index)),
+    [weekStart]
+  );
+  const localTimezone = React.useMemo(() => {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+      return 'UTC';
+    }
+  }, []);
+
+  const { data: targets = [] } = useQuery<Target[]>({ queryKey: ['targets'], queryFn: () => api.get('/api/targets') });
+  const { data: calendar, isLoading } = useQuery<SendCalendarData>({
+    queryKey: ['send-calendar', from, to, targetFilter],
+    queryFn: () =>
+      api.get(
+        `/api/queue/calendar?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}${
+          targetFilter !== 'all' ? `&target_id=${encodeURIComponent(targetFilter)}` : ''
+        }`
+      ),
+    refetchInterval: 30000
+  });
+
+  const rows = React.useMemo(() => {
+    const byTarget = new Map<string, { id: string; name: string; type: string | null; entries: SendCalendarEntry[] }>();
+    for (const entry of calendar?.entries || []) {
+      const row = byTarget.get(entry.target_id) || {
+        id: entry.target_id,
+        name: entry.target_name || 'Unknown target',
+        type: entry.target_type,
+        entries: []
+      };
+      row.entries.push(entry);
+      byTarget.set(entry.target_id, row);
+    }
+    return Array.from(byTarget.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [calendar]);
+
+  const reschedule = useMutation({
+    mutationFn: ({ entry, value }: { entry: SendCalendarEntry; value: string }) =>
+      api.patch(`/api/queue/${entry.log_id}`, { scheduled_for: value, scheduled_timezone: entry.timezone }),
+    onSuccess: () => {
+      setEditing(null);
+      setNotice({ type: 'success', message: 'Post rescheduled.' });
+      queryClient.invalidateQueries({ queryKey: ['send-calendar'] });
+      queryClient.invalidateQueries({ queryKey: ['queue'] });
+    },
+    onError: (error: unknown) => {
+      setNotice({ type: 'error', message: `Reschedule failed: ${error instanceof Error ? error.message : 'Request failed'}` });
+    }
+  });
+
+  const handleDrop = (targetId: string, day: Date) => {
+    const entry = dragging;
+    setDragging(null);
+    if (!entry || entry.kind !== 'manual' || entry.target_id !== targetId) return;
+    const dayDelta = localDayIndex(day, weekStart) - localDayIndex(new Date(entry.scheduled_for), weekStart);
+    if (!dayDelta) return;
+    reschedule.mutate({ entry, value: shiftInputDate(toZonedInputValue(entry.scheduled_for, entry.timezone), dayDelta) });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            {title}
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={targetFilter} onValueChange={setTargetFilter}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="All targets" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All targets</SelectItem>
+                {targets.map((target) => (
+                  <SelectItem key={target.id} value={target.id}>
+                    {target.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addLocalDays(weekStart, -DAYS_SHOWN))} aria-label="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfLocalDay(new Date()))}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addLocalDays(weekStart, DAYS_SHOWN))} aria-label="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Times in {localTimezone}. Drag a manual post to another day to move it, or click it to pick a new time.
+        </p>
+        {notice ? (
+          <div
+            className={`rounded-md border px-3 py-2 text-sm ${
+              notice.type === 'success'
+                ? 'border-emerald-300/70 bg-emerald-50 text-emerald-900'
+                : 'border-red-300/70 bg-red-50 text-red-900'
+            }`}
+          >
+            {notice.message}
+          </div>
+        ) : null}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !rows.length ? (
+          <div className="py-8 text-center text-muted-foreground">No scheduled or batch sends this week.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="grid min-w-[56rem] grid-cols-[10rem_repeat(7,minmax(0,1fr))] gap-px rounded-md border bg-border text-sm">
+              <div className="bg-muted/50 p-2 font-medium">Target</div>
+              {days.map((day) => (
+                <div key={day.toISOString()} className="bg-muted/50 p-2 font-medium">
+                  {day.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                </div>
+              ))}
+              {rows.map((row) => (
+                <React.Fragment key={row.id}>
+                  <div className="bg-background p-2">
+                    <p className="truncate font-medium">{row.name}</p>
+                    {row.type ? <p className="text-xs text-muted-foreground">{row.type}</p> : null}
+                  </div>
+                  {days.map((day, dayIndex) => {
+                    const cellEntries = row.entries.filter(
+                      (entry) => localDayIndex(new Date(entry.scheduled_for), weekStart) === dayIndex
+                    );
+                    const canDrop = dragging?.kind === 'manual' && dragging.target_id === row.id;
+                    return (
+                      <div
+                        key={`${row.id}:${day.toISOString()}`}
+                        className={`min-h-16 space-y-1 bg-background p-1 ${canDrop ? 'ring-1 ring-inset ring-primary/40' : ''}`}
+                        onDragOver={(event) => {
+                          if (canDrop) event.preventDefault();
+                        }}
+                        onDrop={(event) => {
+                          event.preventDefault();
+                          handleDrop(row.id, day);
+                        }}
+                      >
+                        {cellEntries.map((entry) =>
+                          entry.kind === 'manual' ? (
+                            <div
+                              key={entry.id}
+                              draggable
+                              onDragStart={(event) => {
+                                event.dataTransfer.setData('text/plain', entry.id);
+                                setDragging(entry);
+                              }}
+                              onDragEnd={() => setDragging(null)}
+                              onClick={() =>
+                                setEditing({ entry, value: toZonedInputValue(entry.scheduled_for, entry.timezone) })
+                              }
+                              title={`${entry.title} (${entry.timezone})`}
+                              className="cursor-grab rounded border border-primary/30 bg-primary/10 px-1.5 py-1 text-xs"
+                            >
+                              <span className="font-medium">{formatTime(entry.scheduled_for)}</span>{' '}
+                              <span className="break-words">{entry.title}</span>
+                              {entry.status === 'awaiting_approval' ? (
+                                <Badge variant="outline" className="ml-1 px-1 py-0 text-[10px]">
+                                  approval
+                                </Badge>
+                              ) : null}
+                            </div>
+                          ) : (
+                            <div
+                              key={entry.id}
+                              title={`${entry.schedule_name || 'Batch'} (${entry.timezone})`}
+                              className="rounded border border-dashed px-1.5 py-1 text-xs text-muted-foreground"
+                            >
+                              <span className="font-medium">{formatTime(entry.scheduled_for)}</span> {entry.title}
+                              {entry.pending_count > 0 ? (
+                                <Badge variant="secondary" className="ml-1 px-1 py-0 text-[10px]">
+                                  {entry.pending_count} waiting
+                                </Badge>
+                              ) : null}
+                            </div>
+                          )
+                        )}
+                      </div>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+        {editing ? (
+          <div className="mt-4 flex flex-wrap items-end gap-2 rounded-md border p-3">
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{editing.entry.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {editing.entry.target_name || 'Unknown target'} · time in {editing.entry.timezone}
+              </p>
+            </div>
+            <Input
+              type="datetime-local"
+              className="w-full sm:w-56"
+              value={editing.value}
+              onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+            />
+            <Button
+              size="sm"
+              onClick={() => reschedule.mutate({ entry: editing.entry, value: editing.value })}
+              disabled={!editing.value || reschedule.isPending}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SendCalendar;
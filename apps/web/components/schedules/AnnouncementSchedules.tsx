@@ -0,0 +1,441 @@
+'use client';
+
+import * as React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Megaphone, Pencil, Trash2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import type { Schedule, ScheduleRecurrence, Target } from '@/lib/types';
+import { dedupeTargets, formatTargetLabel } from '@/lib/targetUtils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+type AnnouncementDraft = {
+  name: string;
+  message: string;
+  imageUrl: string;
+  targetIds: string[];
+  rrule: string;
+  start: string;
+  timezone: string;
+  exdates: string;
+  until: string;
+  count: string;
+  approvalRequired: boolean;
+};
+
+type AnnouncementPayload = {
+  name: string;
+  kind: 'announcement';
+  timezone: string;
+  target_ids: string[];
+  approval_required: boolean;
+  announcement: { message: string | null; imageUrl: string | null };
+  recurrence: ScheduleRecurrence;
+  state: 'active' | 'paused' | 'stopped';
+  active: boolean;
+};
+
+const getState = (schedule: Schedule): 'active' | 'paused' | 'stopped' => {
+  if (schedule.state === 'active' || schedule.state === 'paused' || schedule.state === 'stopped') return schedule.state;
+  return schedule.active ? 'active' : 'stopped';
+};
+
+const emptyDraft = (timezone: string): AnnouncementDraft => ({
+  name: '',
+  message: '',
+  imageUrl: '',
+  targetIds: [],
+  rrule: 'FREQ=WEEKLY',
+  start: '',
+  timezone,
+  exdates: '',
+  until: '',
+  count: '',
+  approvalRequired: false
+});
+
+const toDraft = (schedule: Schedule, fallbackTimezone: string): AnnouncementDraft => ({
+  name: schedule.name,
+  message: schedule.announcement?.message || '',
+  imageUrl: schedule.announcement?.imageUrl || '',
+  targetIds: schedule.target_ids || [],
+  rrule: schedule.recurrence?.rrule || 'FREQ=WEEKLY',
+  start: schedule.recurrence?.start || '',
+  timezone: schedule.timezone || fallbackTimezone,
+  exdates: (schedule.recurrence?.exdates || []).join(', '),
+  until: schedule.recurrence?.until || '',
+  count: schedule.recurrence?.count ? String(schedule.recurrence.count) : '',
+  approvalRequired: schedule.approval_required === true
+});
+
+// Common rules derived from the start date, so "weekly" means the start's weekday and so on.
+const buildPresetRule = (preset: 'daily' | 'weekly' | 'monthly' | 'yearly', start: string) => {
+  const [datePart = ''] = start.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const hasDate = Boolean(year && month && day);
+  const weekday = hasDate ? new Date(Date.UTC(year || 1970, (month || 1) - 1, day || 1)).getUTCDay() : null;
+  if (preset === 'daily') return 'FREQ=DAILY';
+  if (preset === 'weekly') return weekday == null ? 'FREQ=WEEKLY' : `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[weekday]}`;
+  if (preset === 'monthly') return hasDate ? `FREQ=MONTHLY;BYMONTHDAY=${day}` : 'FREQ=MONTHLY';
+  return 'FREQ=YEARLY';
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+};
+
+/**
+ * Recurring announcements: schedules that send their own message on an RRULE instead of
+ * following a feed. Each occurrence is queued like any other message, so approval, pause and
+ * Shabbos holds still apply.
+ */
+const AnnouncementSchedules = ({ defaultTimezone }: { defaultTimezone: string }) => {
+  const queryClient = useQueryClient();
+  const { data: schedules = [] } = useQuery<Schedule[]>({
+    queryKey: ['schedules'],
+    queryFn: () => api.get('/api/schedules'),
+    refetchInterval: 5000
+  });
+  const { data: targets = [] } = useQuery<Target[]>({ queryKey: ['targets'], queryFn: () => api.get('/api/targets') });
+  const activeTargets = React.useMemo(() => dedupeTargets(targets, { activeOnly: true }), [targets]);
+  const announcements = schedules.filter((schedule) => schedule.kind === 'announcement');
+
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [draft, setDraft] = React.useState<AnnouncementDraft>(() => emptyDraft(defaultTimezone));
+  const [notice, setNotice] = React.useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const update = (patch: Partial<AnnouncementDraft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const reset = () => {
+    setEditingId(null);
+    setDraft(emptyDraft(defaultTimezone));
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['schedules'] });
+    queryClient.invalidateQueries({ queryKey: ['queue'] });
+  };
+
+  const save = useMutation({
+    mutationFn: (payload: AnnouncementPayload) =>
+      editingId ? api.put<Schedule>(`/api/schedules/${editingId}`, payload) : api.post<Schedule>('/api/schedules', payload),
+    onSuccess: (saved: Schedule) => {
+      invalidate();
+      setNotice({
+        type: 'success',
+        message: saved.next_run_at
+          ? `Saved. Next send ${formatDateTime(saved.next_run_at)}.`
+          : 'Saved. The recurrence has no upcoming occurrences.'
+      });
+      reset();
+    },
+    onError: (error: unknown) =>
+      setNotice({ type: 'error', message: error instanceof Error ? error.message : 'Failed to save announcement' })
+  });
+
+  const setState = useMutation({
+    mutationFn: ({ id, state }: { id: string; state: 'active' | 'paused' }) =>
+      api.post(`/api/schedules/${id}/state`, { state }),
+    onSuccess: invalidate,
+    onError: (error: unknown) =>
+      setNotice({ type: 'error', message: error instanceof Error ? error.message : 'Failed to update announcement' })
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => api.delete(`/api/schedules/${id}`),
+    onSuccess: (_, id) => {
+      invalidate();
+      if (editingId === id) reset();
+    }
+  });
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const editing = announcements.find((schedule) => schedule.id === editingId);
+    const state = editing ? getState(editing) : 'active';
+    const count = Number(draft.count);
+    save.mutate({
+      name: draft.name.trim(),
+      kind: 'announcement',
+      timezone: draft.timezone.trim() || defaultTimezone,
+      target_ids: draft.targetIds,
+      approval_required: draft.approvalRequired,
+      announcement: { message: draft.message.trim() || null, imageUrl: draft.imageUrl.trim() || null },
+      recurrence: {
+        rrule: draft.rrule.trim(),
+        start: draft.start,
+        exdates: draft.exdates
+          .split(/[\s,]+/)
+          .map((value) => value.trim())
+          .filter(Boolean),
+        until: draft.until || null,
+        count: Number.isInteger(count) && count > 0 ? count : null
+      },
+      state,
+      active: state === 'active'
+    });
+  };
+
+  const canSave = Boolean(
+    draft.name.trim() && draft.start && draft.rrule.trim() && draft.targetIds.length && (draft.message.trim() || draft.imageUrl.trim())
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5 text-primary" />
+          Recurring announcements
+        </CardTitle>
+        <CardDescription>
+          Send your own message on a repeating schedule, independent of any feed. Rules use iCalendar RRULE syntax.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <form onSubmit={submit} className="space-y-4">
+          {notice ? (
+            <div
+              className={`rounded-md border px-3 py-2 text-sm ${
+                notice.type === 'success'
+                  ? 'border-emerald-300/70 bg-emerald-50 text-emerald-900'
+                  : 'border-red-300/70 bg-red-50 text-red-900'
+              }`}
+            >
+              {notice.message}
+            </div>
+          ) : null}
+          <div className="space-y-2">
+            <Label htmlFor="announcement_name">Name</Label>
+            <Input
+              id="announcement_name"
+              value={draft.name}
+              onChange={(event) => update({ name: event.target.value })}
+              placeholder="Weekly candle lighting reminder"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="announcement_message">Message</Label>
+            <Textarea
+              id="announcement_message"
+              rows={4}
+              value={draft.message}
+              onChange={(event) => update({ message: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="announcement_image">Image URL (optional)</Label>
+            <Input
+              id="announcement_image"
+              type="url"
+              value={draft.imageUrl}
+              onChange={(event) => update({ imageUrl: event.target.value })}
+              placeholder="https://example.com/poster.jpg"
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="announcement_start">First send</Label>
+              <Input
+                id="announcement_start"
+                type="datetime-local"
+                value={draft.start}
+                onChange={(event) => update({ start: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="announcement_timezone">Timezone</Label>
+              <Input
+                id="announcement_timezone"
+                value={draft.timezone}
+                onChange={(event) => update({ timezone: event.target.value })}
+                placeholder="America/New_York"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="announcement_rrule">Repeats</Label>
+            <div className="flex flex-wrap gap-2">
+              {(['daily', 'weekly', 'monthly', 'yearly'] as const).map((preset) => (
+                <Button
+                  key={preset}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => update({ rrule: buildPresetRule(preset, draft.start) })}
+                >
+                  {preset.charAt(0).toUpperCase() + preset.slice(1)}
+                </Button>
+              ))}
+            </div>
+            <Input
+              id="announcement_rrule"
+              className="font-mono text-xs"
+              value={draft.rrule}
+              onChange={(event) => update({ rrule: event.target.value })}
+              placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+            />
+            <p className="text-xs text-muted-foreground">
+              Supports FREQ, INTERVAL, BYDAY (e.g. 2MO, -1FR), BYMONTHDAY, BYMONTH, BYHOUR and BYMINUTE. The time of
+              the first send is used unless BYHOUR/BYMINUTE set one.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="announcement_exdates">Skip dates</Label>
+            <Input
+              id="announcement_exdates"
+              value={draft.exdates}
+              onChange={(event) => update({ exdates: event.target.value })}
+              placeholder="2026-12-25, 2027-01-01"
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="announcement_until">Ends on (optional)</Label>
+              <Input
+                id="announcement_until"
+                type="date"
+                value={draft.until}
+                onChange={(event) => update({ until: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="announcement_count">Number of sends (optional)</Label>
+              <Input
+                id="announcement_count"
+                type="number"
+                min={1}
+                value={draft.count}
+                onChange={(event) => update({ count: event.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Targets</Label>
+            <div className="rounded-lg border p-2 max-h-48 overflow-y-auto space-y-1">
+              {activeTargets.length === 0 ? (
+                <p className="text-sm text-muted-foreground p-2">No active targets found.</p>
+              ) : (
+                activeTargets.map((target) => (
+                  <label
+                    key={target.id}
+                    className="flex items-center gap-2 text-sm cursor-pointer px-2 py-1 rounded hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      checked={draft.targetIds.includes(target.id)}
+                      onCheckedChange={(checked) =>
+                        update({
+                          targetIds:
+                            checked === true
+                              ? Array.from(new Set([...draft.targetIds, target.id]))
+                              : draft.targetIds.filter((id) => id !== target.id)
+                        })
+                      }
+                    />
+                    <span className="min-w-0 flex-1 truncate">{formatTargetLabel(target)}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={draft.approvalRequired}
+              onCheckedChange={(checked) => update({ approvalRequired: checked === true })}
+            />
+            Require approval before each send
+          </label>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={!canSave || save.isPending}>
+              {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingId ? 'Update Announcement' : 'Create Announcement'}
+            </Button>
+            {editingId ? (
+              <Button type="button" variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+            ) : null}
+          </div>
+        </form>
+
+        <div className="space-y-3">
+          {announcements.map((schedule) => {
+            const state = getState(schedule);
+            const finished = state === 'active' && !schedule.next_run_at;
+            return (
+              <div key={schedule.id} className="rounded-lg border p-3">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{schedule.name}</p>
+                    <p className="font-mono text-xs text-muted-foreground truncate">{schedule.recurrence?.rrule}</p>
+                    <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      <span>Next: {formatDateTime(schedule.next_run_at)}</span>
+                      <span>Sent {schedule.occurrence_count || 0} time{schedule.occurrence_count === 1 ? '' : 's'}</span>
+                      {schedule.approval_required ? <span className="text-warning-foreground">Approval required</span> : null}
+                    </div>
+                  </div>
+                  <Badge variant={finished ? 'outline' : state === 'active' ? 'success' : 'secondary'}>
+                    {finished ? 'Finished' : state === 'active' ? 'Running' : state === 'paused' ? 'Paused' : 'Stopped'}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingId(schedule.id);
+                      setDraft(toDraft(schedule, defaultTimezone));
+                      setNotice(null);
+                    }}
+                  >
+                    <Pencil className="mr-1 h-3 w-3" /> Edit
+                  </Button>
+                  {state === 'active' ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setState.mutate({ id: schedule.id, state: 'paused' })}
+                      disabled={setState.isPending}
+                    >
+                      Pause
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setState.mutate({ id: schedule.id, state: 'active' })}
+                      disabled={setState.isPending}
+                    >
+                      Resume
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => remove.mutate(schedule.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          {announcements.length === 0 && (
+            <p className="text-sm text-muted-foreground py-6 text-center">No recurring announcements yet.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnnouncementSchedules;
@@ -0,0 +1,105 @@
+'use client';
+
+import * as React from 'react';
+import type { DeliveryWindow } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const DEFAULT_DELIVERY_WINDOW: DeliveryWindow = {
+  enabled: true,
+  start: '07:00',
+  end: '22:00',
+  days: ALL_DAYS,
+  timezone: null,
+  digest: false
+};
+
+type DeliveryWindowFieldsProps = {
+  idPrefix: string;
+  value: DeliveryWindow;
+  onChange: (value: DeliveryWindow) => void;
+  timezonePlaceholder?: string;
+};
+
+/**
+ * Start/end time, weekdays and timezone of a delivery window. Messages outside it are held
+ * and released when it next opens.
+ */
+const DeliveryWindowFields = ({ idPrefix, value, onChange, timezonePlaceholder = 'Default timezone' }: DeliveryWindowFieldsProps) => {
+  const days = value.days && value.days.length ? value.days : ALL_DAYS;
+
+  const toggleDay = (day: number) => {
+    const next = days.includes(day) ? days.filter((item) => item !== day) : [...days, day].sort();
+    onChange({ ...value, days: next.length ? next : days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}_start`}>Opens at</Label>
+          <Input
+            id={`${idPrefix}_start`}
+            type="time"
+            value={value.start || ''}
+            onChange={(event) => onChange({ ...value, start: event.target.value })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}_end`}>Closes at</Label>
+          <Input
+            id={`${idPrefix}_end`}
+            type="time"
+            value={value.end || ''}
+            onChange={(event) => onChange({ ...value, end: event.target.value })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}_timezone`}>Timezone</Label>
+          <Input
+            id={`${idPrefix}_timezone`}
+            placeholder={timezonePlaceholder}
+            value={value.timezone || ''}
+            onChange={(event) => onChange({ ...value, timezone: event.target.value.trim() || null })}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <Button
+            key={label}
+            type="button"
+            size="sm"
+            variant={days.includes(day) ? 'default' : 'outline'}
+            onClick={() => toggleDay(day)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Same open and close time = the whole day. A close time before the open time runs past midnight.
+      </p>
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id={`${idPrefix}_digest`}
+          checked={value.digest === true}
+          onCheckedChange={(checked) => onChange({ ...value, digest: checked === true })}
+        />
+        <div className="space-y-0.5">
+          <Label htmlFor={`${idPrefix}_digest`} className="cursor-pointer">
+            Send held messages as one digest
+          </Label>
+          <p className="text-[11px] text-muted-foreground">Otherwise they are sent one by one when the window opens.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryWindowFields;
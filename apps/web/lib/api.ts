@@ -46,6 +46,9 @@ const fetchWithTimeout = (url: string, options: RequestInit = {}, timeoutMs = 30
     });
 };
 
+// For links the browser follows itself, such as file downloads.
+export const apiUrl = (path: string) => `${getApiUrl()}${path}`;
+
 export const api = {
   get: <T = unknown>(path: string) => fetchWithTimeout(`${getApiUrl()}${path}`).then((res) => handleResponse<T>(res)),
   post: <T = unknown>(path: string, body?: unknown) =>
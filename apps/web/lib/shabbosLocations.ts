@@ -0,0 +1,11 @@
+// Cities offered for Shabbos times, in settings and per target.
+export const SHABBOS_LOCATIONS = [
+  { name: 'New York', latitude: 40.7128, longitude: -74.006, tzid: 'America/New_York' },
+  { name: 'Los Angeles', latitude: 34.0522, longitude: -118.2437, tzid: 'America/Los_Angeles' },
+  { name: 'Chicago', latitude: 41.8781, longitude: -87.6298, tzid: 'America/Chicago' },
+  { name: 'Miami', latitude: 25.7617, longitude: -80.1918, tzid: 'America/New_York' },
+  { name: 'Jerusalem', latitude: 31.7683, longitude: 35.2137, tzid: 'Asia/Jerusalem' },
+  { name: 'London', latitude: 51.5074, longitude: -0.1278, tzid: 'Europe/London' },
+  { name: 'Montreal', latitude: 45.5017, longitude: -73.5673, tzid: 'America/Montreal' },
+  { name: 'Toronto', latitude: 43.6532, longitude: -79.3832, tzid: 'America/Toronto' }
+];
@@ -1,14 +1,27 @@
+export type FeedFieldMapping = {
+  name: string;
+  expression: string;
+};
+
 export type Feed = {
   id: string;
   name: string;
   url: string;
-  type: 'rss' | 'atom' | 'json' | 'html';
+  type: 'rss' | 'atom' | 'json' | 'html' | 'sitemap';
   active: boolean;
   fetch_interval?: number;
+  fetch_full_article?: boolean | null;
+  priority?: number | null;
+  folder?: string | null;
   last_error?: string | null;
   last_fetched_at?: string | null;
   last_success_at?: string | null;
   consecutive_failures?: number | null;
+  next_poll_at?: string | null;
+  poll_reason?: string | null;
+  websub_status?: 'pending' | 'subscribed' | 'denied' | 'failed' | 'unsubscribed' | null;
+  websub_hub_url?: string | null;
+  websub_last_push_at?: string | null;
   etag?: string | null;
   last_modified?: string | null;
   parse_config?: {
@@ -17,12 +30,49 @@ export type Feed = {
     descriptionPath?: string | null;
     linkPath?: string | null;
     imagePath?: string | null;
+    itemSelector?: string | null;
+    titleSelector?: string | null;
+    linkSelector?: string | null;
+    imageSelector?: string | null;
+    dateSelector?: string | null;
+    dateFormat?: string | null;
   } | null;
   cleaning?: {
     stripUtm?: boolean | null;
     decodeEntities?: boolean | null;
     removePhrases?: string[] | null;
   } | null;
+  field_mappings?: FeedFieldMapping[] | null;
+  request_auth?: FeedRequestAuthSummary | null;
+};
+
+export type FeedImportEntry = {
+  name: string;
+  url: string;
+  folder: string | null;
+  type: Feed['type'] | null;
+  status: 'new' | 'duplicate' | 'invalid';
+  reason?: string;
+  existing_feed_id?: string;
+  detected_type?: Feed['type'] | null;
+  item_count?: number;
+  detect_error?: string;
+};
+
+export type FeedImportResult = {
+  dry_run: boolean;
+  format: 'opml' | 'csv';
+  summary: { total: number; new: number; duplicates: number; invalid: number; truncated: boolean };
+  entries?: FeedImportEntry[];
+  imported?: Feed[];
+};
+
+export type FeedRequestAuthSummary = {
+  headers: Array<{ name: string; has_value: boolean }>;
+  basic: { username: string; has_password: boolean } | null;
+  has_bearer_token: boolean;
+  api_key: { param: string; has_value: boolean } | null;
+  has_cookies: boolean;
 };
 
 export type Template = {
@@ -33,6 +83,61 @@ export type Template = {
   active: boolean;
   send_images?: boolean | null;
   send_mode?: 'image' | 'image_only' | 'link_preview' | 'text_only' | null;
+  length_strategy?: 'truncate' | 'split' | null;
+  text_direction?: 'none' | 'auto' | 'rtl' | 'ltr' | null;
+  variants?: TemplateVariant[];
+  current_revision_id?: string | null;
+};
+
+export type TemplateRevision = {
+  id: string;
+  template_id: string;
+  revision_number: number;
+  name: string;
+  content: string;
+  send_mode?: string | null;
+  created_by?: string | null;
+  restored_from_revision_id?: string | null;
+  created_at: string;
+  current: boolean;
+  sent_count: number;
+};
+
+export type TemplateDiffLine = { type: 'equal' | 'added' | 'removed'; text: string };
+
+export type TemplateRevisionDiff = {
+  from: { id: string; revision_number: number };
+  to: { id: string; revision_number: number };
+  changed: boolean;
+  fields: Array<{ field: string; before: unknown; after: unknown }>;
+  content: TemplateDiffLine[];
+  variants: Array<{ locale: string; change: 'added' | 'removed' | 'changed'; lines: TemplateDiffLine[] }>;
+};
+
+export type TemplateVariant = {
+  id?: string;
+  locale: string;
+  content: string;
+};
+
+export type MessagePart = {
+  kind: 'caption' | 'text';
+  text: string;
+  whatsapp_message_id?: string | null;
+};
+
+export type TemplatePreview = {
+  send_mode: NonNullable<Template['send_mode']>;
+  text: string;
+  rendered_text: string;
+  preview_url: string | null;
+  media: { url: string | null; kind: 'image' | 'video' | null; source: string | null; error: string | null };
+  character_count: number;
+  caption_limit: number;
+  length_limits: { caption: number; text: number };
+  parts: MessagePart[];
+  warnings: Array<{ code: string; message: string }>;
+  feed_item: { id: string; feed_id?: string | null; title?: string | null; link?: string | null; pub_date?: string | null };
 };
 
 export type Target = {
@@ -42,23 +147,104 @@ export type Target = {
   type: 'individual' | 'group' | 'channel' | 'status';
   active: boolean;
   notes?: string | null;
+  locale?: string | null;
+  short_links_enabled?: boolean | null;
   message_delay_ms_override?: number | null;
   inter_target_delay_sec_override?: number | null;
   intra_target_delay_sec_override?: number | null;
+  delivery_window?: DeliveryWindow | null;
+  shabbos_location?: ShabbosLocation | null;
+  shabbos_policy?: ShabbosPolicy | null;
+};
+
+// Hours a target accepts messages; days are weekdays 0-6 from Sunday.
+export type DeliveryWindow = {
+  enabled?: boolean;
+  start?: string;
+  end?: string;
+  days?: number[];
+  timezone?: string | null;
+  digest?: boolean;
+};
+
+export type ScheduleFilterRule = {
+  action: 'include' | 'exclude';
+  type: 'keyword' | 'regex' | 'category' | 'author';
+  value: string;
+  field?: 'any' | 'title' | 'description' | 'content' | 'link' | null;
+  caseSensitive?: boolean | null;
+};
+
+export type ScheduleFilterRules = {
+  enabled?: boolean | null;
+  operator: 'and' | 'or';
+  groups: Array<{
+    operator: 'and' | 'or';
+    rules: ScheduleFilterRule[];
+  }>;
+};
+
+export type ScheduleFilterPreview = {
+  total: number;
+  allowed: number;
+  filtered: number;
+  items: Array<{
+    id: string;
+    title?: string | null;
+    link?: string | null;
+    pub_date?: string | null;
+    allowed: boolean;
+    reason?: string | null;
+  }>;
+};
+
+export type DigestConfig = {
+  enabled: boolean;
+  header?: string;
+  item_template?: string;
+  footer?: string;
+  overflow_template?: string;
+  overflow_url?: string | null;
+  max_items?: number;
+  link_preview?: boolean;
+};
+
+export type ScheduleRecurrence = {
+  rrule: string;
+  start: string;
+  exdates?: string[] | null;
+  until?: string | null;
+  count?: number | null;
+};
+
+export type AnnouncementContent = {
+  message?: string | null;
+  imageUrl?: string | null;
+  videoUrl?: string | null;
+  disableLinkPreview?: boolean | null;
+  includeCaption?: boolean | null;
 };
 
 export type Schedule = {
   id: string;
   name: string;
+  kind?: 'feed' | 'announcement' | null;
+  announcement?: AnnouncementContent | null;
+  recurrence?: ScheduleRecurrence | null;
+  occurrence_count?: number | null;
   state?: 'active' | 'paused' | 'stopped' | 'draft' | null;
   cron_expression?: string | null;
   timezone?: string | null;
   feed_id?: string | null;
   target_ids?: string[];
   template_id?: string | null;
+  target_template_overrides?: Record<string, string> | null;
   delivery_mode?: 'immediate' | 'batch' | 'batched' | null;
   batch_times?: string[] | null;
   approval_required?: boolean | null;
+  cluster_mode?: 'first' | 'best_source' | 'also_reported' | null;
+  filter_rules?: ScheduleFilterRules | null;
+  digest_config?: DigestConfig | null;
   active: boolean;
   last_run_at?: string | null;
   next_run_at?: string | null;
@@ -76,6 +262,10 @@ export type LogEntry = {
   media_type?: string | null;
   media_sent?: boolean | null;
   media_error?: string | null;
+  template_locale?: string | null;
+  digest_id?: string | null;
+  message_parts?: MessagePart[] | null;
+  click_count?: number;
   sent_at?: string | null;
   delivered_at?: string | null;
   read_at?: string | null;
@@ -98,6 +288,7 @@ export type FeedItem = {
   author?: string | null;
   pub_date?: string | null;
   raw_data?: Record<string, unknown> | null;
+  computed_fields?: Record<string, string | number> | null;
   image_url?: string | null;
   categories?: string[] | string | null;
   sent?: boolean | null;
@@ -117,6 +308,19 @@ export type FeedItem = {
     queue_cursor_at?: string | null;
   } | null;
   feed?: { name?: string | null } | null;
+  dedupe?: DedupeDecision | null;
+};
+
+export type DedupeDecision = {
+  id: string;
+  match_type: 'url' | 'hash' | 'fuzzy-title';
+  matched_feed_item_id?: string | null;
+  matched_chat_message_id?: string | null;
+  matched_title?: string | null;
+  similarity?: number | null;
+  threshold?: number | null;
+  decided_at?: string | null;
+  released_at?: string | null;
 };
 
 export type QueueItem = {
@@ -151,7 +355,42 @@ export type QueueItem = {
   approved_by?: string | null;
   processing_started_at?: string | null;
   scheduled_for?: string | null;
+  scheduled_timezone?: string | null;
+  held_until?: string | null;
+  hold_reason?: string | null;
   error_message?: string | null;
+  click_count?: number;
+};
+
+export type SendCalendarEntry = {
+  id: string;
+  kind: 'manual' | 'batch';
+  target_id: string;
+  target_name: string | null;
+  target_type: 'individual' | 'group' | 'channel' | 'status' | null;
+  scheduled_for: string;
+  timezone: string;
+  title: string;
+  status: string | null;
+  log_id: string | null;
+  schedule_id: string | null;
+  schedule_name: string | null;
+  pending_count: number;
+};
+
+export type SendCalendar = {
+  from: string;
+  to: string;
+  entries: SendCalendarEntry[];
+};
+
+export type LinkClickAnalytics = {
+  window_hours: number;
+  window_start: string;
+  clicks: number;
+  by_user_agent_class: Record<string, number>;
+  by_story: Array<{ feed_item_id: string; title: string | null; link: string | null; clicks: number }>;
+  by_target: Array<{ target_id: string; name: string | null; clicks: number }>;
 };
 
 export type QueueStats = {
@@ -242,17 +481,53 @@ export type WhatsAppChannel = {
 
 export type ShabbosStatus = {
   isShabbos: boolean;
+  type?: 'shabbos' | 'yomtov';
+  title?: string | null;
   reason?: string | null;
   endsAt?: string | null;
   nextShabbos?: { start: string; end: string } | null;
+  error?: string | null;
+  crossCheck?: {
+    ok: boolean;
+    checkedAt: string;
+    maxDiffMinutes: number | null;
+    mismatches: string[];
+  } | null;
+};
+
+export type ShabbosLocation = {
+  city?: string | null;
+  latitude: number;
+  longitude: number;
+  tzid: string;
+  // Unset = decided by timezone.
+  israel?: boolean | null;
 };
 
+// hold = until havdalah, drop = never sent, digest = one catch-up summary after havdalah.
+export type ShabbosPolicy = 'hold' | 'drop' | 'digest';
+
 export type ShabbosSettings = {
   enabled: boolean;
   city?: string | null;
   latitude?: number | null;
   longitude?: number | null;
   tzid?: string | null;
+  israel?: boolean | null;
+  israelCalendar?: boolean;
+  additionalLocations?: ShabbosLocation[];
   candleLightingMins?: number | null;
   havdalahMins?: number | null;
+  queueMessages?: boolean;
+  policy?: ShabbosPolicy;
+  failClosed?: boolean;
+  hebcalCrossCheck?: boolean;
+};
+
+export type ShabbosPeriod = {
+  start: string;
+  end: string;
+  type: 'shabbos' | 'yomtov';
+  title: string;
+  location?: string | null;
 };
@@ -0,0 +1,5 @@
+-- Migration 029: Per-schedule content filter rules.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE schedules
+  ADD COLUMN IF NOT EXISTS filter_rules JSONB;
@@ -0,0 +1,11 @@
+-- Migration 030: Optional full article fetch per feed.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE feeds
+  ADD COLUMN IF NOT EXISTS fetch_full_article BOOLEAN DEFAULT false;
+
+ALTER TABLE feed_items
+  ADD COLUMN IF NOT EXISTS article_text TEXT,
+  ADD COLUMN IF NOT EXISTS article_word_count INTEGER,
+  ADD COLUMN IF NOT EXISTS article_reading_time INTEGER,
+  ADD COLUMN IF NOT EXISTS article_lead TEXT;
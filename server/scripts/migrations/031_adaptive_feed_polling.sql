@@ -0,0 +1,8 @@
+-- Migration 031: Adaptive feed polling state.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE feeds
+  ADD COLUMN IF NOT EXISTS next_poll_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS poll_reason TEXT,
+  ADD COLUMN IF NOT EXISTS poll_profile JSONB,
+  ADD COLUMN IF NOT EXISTS consecutive_not_modified INTEGER DEFAULT 0;
@@ -0,0 +1,13 @@
+-- Migration 032: WebSub push subscriptions for feeds.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE feeds
+  ADD COLUMN IF NOT EXISTS websub_hub_url TEXT,
+  ADD COLUMN IF NOT EXISTS websub_topic_url TEXT,
+  ADD COLUMN IF NOT EXISTS websub_secret TEXT,
+  ADD COLUMN IF NOT EXISTS websub_status TEXT,
+  ADD COLUMN IF NOT EXISTS websub_error TEXT,
+  ADD COLUMN IF NOT EXISTS websub_requested_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS websub_subscribed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS websub_lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS websub_last_push_at TIMESTAMPTZ;
@@ -0,0 +1,15 @@
+-- Migration 033: Cross-feed story clusters, feed source priority and per-schedule cluster mode.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE feed_items
+  ADD COLUMN IF NOT EXISTS story_cluster_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_feed_items_story_cluster_id
+  ON feed_items (story_cluster_id)
+  WHERE story_cluster_id IS NOT NULL;
+
+ALTER TABLE feeds
+  ADD COLUMN IF NOT EXISTS priority INTEGER DEFAULT 0;
+
+ALTER TABLE schedules
+  ADD COLUMN IF NOT EXISTS cluster_mode TEXT CHECK (cluster_mode IN ('first', 'best_source', 'also_reported'));
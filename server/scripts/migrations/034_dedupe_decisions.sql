@@ -0,0 +1,32 @@
+-- Migration 034: Dedupe decision audit trail with release override.
+-- Safe/idempotent for existing databases.
+
+CREATE TABLE IF NOT EXISTS dedupe_decisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  feed_id UUID REFERENCES feeds(id) ON DELETE CASCADE,
+  target_id UUID REFERENCES targets(id) ON DELETE CASCADE,
+  item_key TEXT NOT NULL,
+  item JSONB NOT NULL,
+  match_type TEXT NOT NULL CHECK (match_type IN ('url', 'hash', 'fuzzy-title')),
+  matched_feed_item_id UUID REFERENCES feed_items(id) ON DELETE SET NULL,
+  matched_chat_message_id UUID REFERENCES chat_messages(id) ON DELETE SET NULL,
+  matched_title TEXT,
+  similarity NUMERIC,
+  threshold NUMERIC,
+  released_at TIMESTAMPTZ,
+  released_feed_item_id UUID REFERENCES feed_items(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One decision per incoming item, so re-polling a feed does not pile up records.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dedupe_decisions_feed_item_key
+  ON dedupe_decisions(feed_id, item_key);
+
+CREATE INDEX IF NOT EXISTS idx_dedupe_decisions_created_at
+  ON dedupe_decisions(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_dedupe_decisions_released_feed_item
+  ON dedupe_decisions(released_feed_item_id)
+  WHERE released_feed_item_id IS NOT NULL;
+
+COMMENT ON TABLE dedupe_decisions IS 'Why an incoming item was dropped as a duplicate, and whether it was released anyway';
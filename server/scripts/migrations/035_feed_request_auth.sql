@@ -0,0 +1,4 @@
+-- Migration 035: Encrypted per-feed request credentials and custom headers.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS request_auth_encrypted TEXT;
@@ -0,0 +1,4 @@
+-- Migration 036: Feed folders (kept through OPML import/export).
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS folder TEXT;
@@ -0,0 +1,23 @@
+-- Migration 037: Per-target template overrides and locale variants.
+-- Safe/idempotent for existing databases.
+
+CREATE TABLE IF NOT EXISTS template_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  locale TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Locales are stored lowercased with "-" separators (e.g. "he", "en-gb").
+  UNIQUE (template_id, locale)
+);
+
+ALTER TABLE targets ADD COLUMN IF NOT EXISTS locale TEXT;
+
+-- target_id -> template_id; targets not listed use the schedule template.
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS target_template_overrides JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS template_variant_id UUID REFERENCES template_variants(id) ON DELETE SET NULL;
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS template_locale TEXT;
+
+COMMENT ON TABLE template_variants IS 'Localized wording of a template, picked by the target locale';
@@ -0,0 +1,71 @@
+-- Migration 038: Immutable template revisions with rollback.
+-- Safe/idempotent for existing databases.
+
+CREATE TABLE IF NOT EXISTS template_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  description TEXT,
+  send_mode TEXT,
+  send_images BOOLEAN,
+  -- Snapshot of template_variants: [{ "locale": "he", "content": "..." }]
+  variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by TEXT,
+  restored_from_revision_id UUID REFERENCES template_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (template_id, revision_number)
+);
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS current_revision_id UUID REFERENCES template_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS template_revision_id UUID REFERENCES template_revisions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_template_revision
+  ON message_logs(template_revision_id)
+  WHERE template_revision_id IS NOT NULL;
+
+-- Templates that predate versioning start at revision 1.
+INSERT INTO template_revisions (template_id, revision_number, name, content, description, send_mode, send_images, variants, created_by, created_at)
+SELECT
+  t.id,
+  1,
+  t.name,
+  t.content,
+  t.description,
+  t.send_mode,
+  t.send_images,
+  COALESCE(
+    (
+      SELECT jsonb_agg(jsonb_build_object('locale', v.locale, 'content', v.content) ORDER BY v.locale)
+      FROM template_variants v
+      WHERE v.template_id = t.id
+    ),
+    '[]'::jsonb
+  ),
+  'migration',
+  COALESCE(t.updated_at, t.created_at, NOW())
+FROM templates t
+WHERE NOT EXISTS (SELECT 1 FROM template_revisions r WHERE r.template_id = t.id);
+
+UPDATE templates t
+SET current_revision_id = r.id
+FROM template_revisions r
+WHERE t.current_revision_id IS NULL
+  AND r.template_id = t.id
+  AND r.revision_number = (SELECT MAX(revision_number) FROM template_revisions WHERE template_id = t.id);
+
+COMMENT ON TABLE template_revisions IS 'Immutable snapshots of a template, one per saved change or rollback';
+
+-- Sent message counts per revision in one grouped query, for the revision history list.
+CREATE OR REPLACE FUNCTION template_revision_sent_counts(revision_ids UUID[], statuses TEXT[])
+RETURNS TABLE (template_revision_id UUID, sent_count BIGINT) AS $$
+    SELECT m.template_revision_id, COUNT(*)::BIGINT
+    FROM message_logs m
+    WHERE m.template_revision_id = ANY(revision_ids)
+      AND m.status = ANY(statuses)
+    GROUP BY m.template_revision_id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION template_revision_sent_counts(UUID[], TEXT[]) IS 'Successful sends per template revision, for the revision history list';
@@ -0,0 +1,28 @@
+-- Migration 039: Digest delivery for batched schedules.
+-- Safe/idempotent for existing databases.
+
+-- { "enabled": true, "header": "...", "item_template": "...", "footer": "...", "max_items": 10, ... }
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS digest_config JSONB;
+
+CREATE TABLE IF NOT EXISTS message_digests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  schedule_id UUID REFERENCES schedules(id) ON DELETE SET NULL,
+  target_id UUID REFERENCES targets(id) ON DELETE SET NULL,
+  message_content TEXT NOT NULL,
+  whatsapp_message_id TEXT,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  overflow_count INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_digests_schedule_sent_at
+  ON message_digests(schedule_id, sent_at DESC);
+
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES message_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_digest
+  ON message_logs(digest_id)
+  WHERE digest_id IS NOT NULL;
+
+COMMENT ON TABLE message_digests IS 'One WhatsApp message that combined several queued stories for a target';
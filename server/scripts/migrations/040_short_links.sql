@@ -0,0 +1,36 @@
+-- Migration 040: Short links with click tracking for outbound article links.
+-- Safe/idempotent for existing databases.
+
+CREATE TABLE IF NOT EXISTS short_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL,
+  message_log_id UUID REFERENCES message_logs(id) ON DELETE SET NULL,
+  feed_item_id UUID REFERENCES feed_items(id) ON DELETE SET NULL,
+  target_id UUID REFERENCES targets(id) ON DELETE SET NULL,
+  schedule_id UUID REFERENCES schedules(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS link_clicks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  short_link_id UUID NOT NULL REFERENCES short_links(id) ON DELETE CASCADE,
+  message_log_id UUID REFERENCES message_logs(id) ON DELETE SET NULL,
+  feed_item_id UUID REFERENCES feed_items(id) ON DELETE SET NULL,
+  target_id UUID REFERENCES targets(id) ON DELETE SET NULL,
+  schedule_id UUID REFERENCES schedules(id) ON DELETE SET NULL,
+  -- mobile | desktop | preview | bot | unknown
+  user_agent_class TEXT NOT NULL DEFAULT 'unknown',
+  clicked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_clicks_clicked_at ON link_clicks(clicked_at DESC);
+CREATE INDEX IF NOT EXISTS idx_link_clicks_message_log
+  ON link_clicks(message_log_id)
+  WHERE message_log_id IS NOT NULL;
+
+-- Targets whose chats need the original article URL for link previews can opt out.
+ALTER TABLE targets ADD COLUMN IF NOT EXISTS short_links_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+COMMENT ON TABLE short_links IS 'Tracked redirects (/r/:code) for article links in sent messages';
+COMMENT ON TABLE link_clicks IS 'One row per opened short link';
@@ -0,0 +1,21 @@
+-- Migration 041: Length budgets per template and multipart message logs.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS length_strategy TEXT NOT NULL DEFAULT 'truncate';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'templates_length_strategy_check') THEN
+    ALTER TABLE templates
+      ADD CONSTRAINT templates_length_strategy_check CHECK (length_strategy IN ('truncate', 'split'));
+  END IF;
+END $$;
+
+ALTER TABLE template_revisions ADD COLUMN IF NOT EXISTS length_strategy TEXT;
+
+-- Set when one logical send went out as several WhatsApp messages:
+-- [{ "kind": "caption" | "text", "text": "...", "whatsapp_message_id": "..." }]
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS message_parts JSONB;
+
+COMMENT ON COLUMN templates.length_strategy IS 'Over-budget messages: truncate with a read-more link, or split into follow-up texts';
+COMMENT ON COLUMN message_logs.message_parts IS 'Every WhatsApp message of a split send, first part first';
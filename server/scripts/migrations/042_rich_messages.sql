@@ -0,0 +1,12 @@
+-- Migration 042: Polls, documents, audio and location pins in manual posts.
+-- Safe/idempotent for existing databases.
+
+-- media_type now also takes 'document', 'audio', 'poll' and 'location'. Files keep using
+-- media_url; the rest of the message lives here:
+--   document: { "file_name": "bulletin.pdf" }
+--   audio:    { "voice_note": true }
+--   poll:     { "poll": { "question": "...", "options": ["..."], "multi_select": false } }
+--   location: { "location": { "latitude": 31.77, "longitude": 35.21, "name": null, "address": null } }
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS message_payload JSONB;
+
+COMMENT ON COLUMN message_logs.message_payload IS 'Structured content of poll, location, document and audio messages';
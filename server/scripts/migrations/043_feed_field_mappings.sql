@@ -0,0 +1,11 @@
+-- Migration 043: Per-feed field mappings and computed template variables on feed items.
+-- Safe/idempotent for existing databases.
+
+-- [{ "name": "source_name", "expression": "host(link)" }], evaluated in order on every fetch.
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS field_mappings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- { "source_name": "example.com", "price": "$12" }: values of the feed's mappings at fetch time.
+ALTER TABLE feed_items ADD COLUMN IF NOT EXISTS computed_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN feeds.field_mappings IS 'Named template variables computed from item fields by JSON path, regex capture or function';
+COMMENT ON COLUMN feed_items.computed_fields IS 'Values of the feed field mappings, available to templates like raw_data fields';
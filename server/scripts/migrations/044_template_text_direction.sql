@@ -0,0 +1,16 @@
+-- Migration 044: Right-to-left / left-to-right mark insertion per template.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS text_direction TEXT NOT NULL DEFAULT 'none';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'templates_text_direction_check') THEN
+    ALTER TABLE templates
+      ADD CONSTRAINT templates_text_direction_check CHECK (text_direction IN ('none', 'auto', 'rtl', 'ltr'));
+  END IF;
+END $$;
+
+ALTER TABLE template_revisions ADD COLUMN IF NOT EXISTS text_direction TEXT;
+
+COMMENT ON COLUMN templates.text_direction IS 'Direction marks on each line: none, auto (detected from the text), rtl or ltr';
@@ -0,0 +1,12 @@
+-- Migration 045: Scheduled manual posts (send at a given time in a given timezone).
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS scheduled_timezone TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_scheduled_for
+  ON message_logs(scheduled_for)
+  WHERE scheduled_for IS NOT NULL AND status = 'pending';
+
+COMMENT ON COLUMN message_logs.scheduled_for IS 'Manual posts only: held by the dispatcher until this time';
+COMMENT ON COLUMN message_logs.scheduled_timezone IS 'IANA timezone scheduled_for was chosen in, used when rescheduling';
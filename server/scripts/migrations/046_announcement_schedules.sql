@@ -0,0 +1,22 @@
+-- Migration 046: Recurring announcement schedules (own message body, iCalendar RRULE recurrence).
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'feed';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'schedules_kind_check') THEN
+    ALTER TABLE schedules
+      ADD CONSTRAINT schedules_kind_check CHECK (kind IN ('feed', 'announcement'));
+  END IF;
+END $$;
+
+-- Same shape as a manual post: { "message": "...", "imageUrl": "...", "poll": {...}, "includeCaption": true, ... }
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS announcement JSONB;
+-- { "rrule": "FREQ=WEEKLY;BYDAY=TH", "start": "2026-10-22T18:00", "exdates": ["2026-12-24"], "until": null, "count": 10 }
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS recurrence JSONB;
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN schedules.kind IS 'feed: sends feed items through a template; announcement: sends its own message on a recurrence';
+COMMENT ON COLUMN schedules.recurrence IS 'Announcement timing in the schedule timezone: RRULE, local start, excluded dates, end date and occurrence limit';
+COMMENT ON COLUMN schedules.occurrence_count IS 'Announcement occurrences queued so far';
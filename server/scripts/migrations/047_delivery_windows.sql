@@ -0,0 +1,14 @@
+-- Migration 047: Per-target delivery windows (quiet hours) and held queue items.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE targets ADD COLUMN IF NOT EXISTS delivery_window JSONB;
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS held_until TIMESTAMPTZ;
+ALTER TABLE message_logs ADD COLUMN IF NOT EXISTS hold_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_held_until
+  ON message_logs(held_until)
+  WHERE held_until IS NOT NULL AND status = 'pending';
+
+COMMENT ON COLUMN targets.delivery_window IS 'Hours this target accepts messages: {start, end, days, timezone, digest}; null uses the global delivery_window setting, {enabled: false} opts out';
+COMMENT ON COLUMN message_logs.held_until IS 'Set while a pending item waits for its target''s delivery window to open';
+COMMENT ON COLUMN message_logs.hold_reason IS 'Why the item is held, shown in the queue';
@@ -0,0 +1,19 @@
+-- Migration 048: Per-target Shabbos location and policy.
+-- Safe/idempotent for existing databases.
+
+ALTER TABLE targets ADD COLUMN IF NOT EXISTS shabbos_location JSONB;
+ALTER TABLE targets ADD COLUMN IF NOT EXISTS shabbos_policy TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'targets_shabbos_policy_check'
+  ) THEN
+    ALTER TABLE targets
+      ADD CONSTRAINT targets_shabbos_policy_check
+      CHECK (shabbos_policy IS NULL OR shabbos_policy IN ('hold', 'drop', 'digest'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN targets.shabbos_location IS 'Location whose Shabbos/Yom Tov times apply to this target: {city, latitude, longitude, tzid, israel}; null uses the global Shabbos locations';
+COMMENT ON COLUMN targets.shabbos_policy IS 'Stories during Shabbos: hold until havdalah, drop, or digest (one catch-up summary after havdalah); null uses the global policy';
@@ -22,7 +22,7 @@ const errorHandler = require('./middleware/errorHandler');
 const notFoundHandler = require('./middleware/notFound');
 const requestLogger = require('./middleware/requestLogger');
 const securityHeaders = require('./middleware/securityHeaders');
-const { isPublicProbeRequest } = require('./middleware/publicProbePaths');
+const { isPublicProbeRequest, isPublicCallbackRequest } = require('./middleware/publicProbePaths');
 
 // Global error handlers to prevent crashes
 process.on('unhandledRejection', (reason: unknown, promise: Promise<unknown>) => {
@@ -240,7 +240,7 @@ const start = async () => {
   }
   if (requireBasicAuth && basicUser && basicPass) {
     app.use((req: Request, res: Response, next) => {
-      if (isPublicProbeRequest(req)) return next();
+      if (isPublicProbeRequest(req) || isPublicCallbackRequest(req)) return next();
 
       res.setHeader('Vary', 'Authorization');
       res.setHeader('Cache-Control', 'no-store');
@@ -338,6 +338,8 @@ const start = async () => {
   const largeJson = express.json({ limit: largeJsonLimit });
   app.use((req: any, res: any, next: any) => {
     const path = String(req?.path || '');
+    // WebSub pushes need the raw body for signature checks; the route parses it itself.
+    if (path.startsWith('/api/websub/')) return next();
     const wantsLargeJson =
       path === '/api/whatsapp/send-test' ||
       path === '/api/whatsapp/send-test/';
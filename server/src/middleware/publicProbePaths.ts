@@ -7,6 +7,10 @@ const PUBLIC_PROBE_PATHS = new Set([
   '/api/ping'
 ]);
 
+// WebSub hubs call back without credentials; the route verifies intent and signatures itself.
+// Short links (/r/:code) are opened by message recipients.
+const PUBLIC_CALLBACK_PREFIXES = ['/api/websub/', '/r/'];
+
 const normalizePath = (pathValue: string) => {
   const trimmed = String(pathValue || '').trim();
   if (!trimmed) return '/';
@@ -25,10 +29,16 @@ const isPublicProbeRequest = (req: Request) => {
   return isPublicProbePath(String(req.path || ''));
 };
 
+const isPublicCallbackRequest = (req: Request) => {
+  const pathValue = normalizePath(String(req.path || ''));
+  return PUBLIC_CALLBACK_PREFIXES.some((prefix) => pathValue.startsWith(prefix));
+};
+
 module.exports = {
   PUBLIC_PROBE_PATHS,
   normalizePath,
   isPublicProbePath,
-  isPublicProbeRequest
+  isPublicProbeRequest,
+  isPublicCallbackRequest
 };
 export {};
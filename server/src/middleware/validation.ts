@@ -3,6 +3,10 @@ import type { ZodIssue, ZodTypeAny } from 'zod';
 const { z } = require('zod');
 const { badRequest } = require('../core/errors');
 const cron = require('node-cron');
+const { POLL_MAX_OPTIONS } = require('../utils/richMessage');
+const { MAX_MAPPINGS, parseFieldExpression, getFieldMappingNameError } = require('../utils/fieldMapping');
+const { getRecurrenceError } = require('../utils/recurrence');
+const { getRegexBacktrackingError } = require('../utils/safeRegex');
 
 const JID_PATTERN = /^([0-9+\s\-\(\)]+|status@broadcast|[0-9\-]+@g\.us|[0-9]+@s\.whatsapp\.net|[a-z0-9._-]+@newsletter(?:_[a-z0-9]+)?)$/i;
 
@@ -20,6 +24,93 @@ const optionalInt = (min: number, max: number) =>
     z.number().int().min(min).max(max).nullable().optional()
   );
 
+const pollSchema = z.object({
+  question: z.string().trim().min(1).max(255),
+  options: z
+    .array(z.string().trim().min(1).max(100))
+    .min(2)
+    .max(POLL_MAX_OPTIONS)
+    .refine((options: string[]) => new Set(options.map((option) => option.toLowerCase())).size === options.length, {
+      message: 'Poll options must be unique'
+    }),
+  multiSelect: z.boolean().optional().default(false)
+});
+
+const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  name: z.string().max(255).optional().nullable().transform(normalizeOptional),
+  address: z.string().max(500).optional().nullable().transform(normalizeOptional)
+});
+
+// Polls, documents, audio and location pins, shared by manual posts and test messages.
+const richMessageFields = {
+  documentUrl: z.string().url().optional().nullable().transform(normalizeOptional),
+  documentName: z.string().max(255).optional().nullable().transform(normalizeOptional),
+  audioUrl: z.string().url().optional().nullable().transform(normalizeOptional),
+  voiceNote: z.boolean().optional().default(false),
+  poll: pollSchema.optional().nullable(),
+  location: locationSchema.optional().nullable()
+};
+
+type AttachmentFields = Partial<
+  Record<
+    'imageUrl' | 'videoUrl' | 'imageDataUrl' | 'videoDataUrl' | 'documentUrl' | 'audioUrl' | 'poll' | 'location',
+    unknown
+  >
+> & { message?: string | null; linkUrl?: string | null };
+
+const ATTACHMENT_FIELDS = [
+  'imageUrl',
+  'videoUrl',
+  'imageDataUrl',
+  'videoDataUrl',
+  'documentUrl',
+  'audioUrl',
+  'poll',
+  'location'
+] as const;
+
+const hasSingleAttachment = (value: AttachmentFields) =>
+  ATTACHMENT_FIELDS.filter((field) => Boolean(value[field])).length <= 1;
+
+// WhatsApp has no caption on polls, audio or pins; the text would be silently dropped.
+const hasNoTextOnUncaptionedAttachment = (value: AttachmentFields) =>
+  !((value.poll || value.audioUrl || value.location) && (value.message || value.linkUrl));
+
+const fieldMappingsSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1).max(64),
+      expression: z.string().trim().min(1).max(500)
+    })
+  )
+  .max(MAX_MAPPINGS)
+  .superRefine((
+    mappings: Array<{ name: string; expression: string }>,
+    ctx: { addIssue: (issue: { code: string; path: Array<string | number>; message: string }) => void }
+  ) => {
+    const seen = new Set<string>();
+    mappings.forEach((mapping, index) => {
+      const nameError = getFieldMappingNameError(mapping.name);
+      if (nameError) {
+        ctx.addIssue({ code: 'custom', path: [index, 'name'], message: nameError });
+      } else if (seen.has(mapping.name)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'name'], message: `Duplicate variable "${mapping.name}"` });
+      }
+      seen.add(mapping.name);
+      try {
+        parseFieldExpression(mapping.expression);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [index, 'expression'],
+          message: error instanceof Error ? error.message : 'Invalid expression'
+        });
+      }
+    });
+  });
+
 const isValidIanaTimezone = (value: unknown) => {
   const tz = String(value || '').trim();
   if (!tz) return false;
@@ -31,7 +122,182 @@ const isValidIanaTimezone = (value: unknown) => {
   }
 };
 
+const getFilterRegexError = (value: string, flags: string) => {
+  try {
+    new RegExp(value, flags);
+  } catch {
+    return 'Invalid regular expression';
+  }
+  const backtrackingError = getRegexBacktrackingError(value, flags);
+  return backtrackingError ? `Unsafe regular expression: ${backtrackingError}` : null;
+};
+
+const filterRuleSchema = z
+  .object({
+    action: z.enum(['include', 'exclude']),
+    type: z.enum(['keyword', 'regex', 'category', 'author']),
+    value: z.string().trim().min(1).max(500),
+    field: z.enum(['any', 'title', 'description', 'content', 'link']).optional().nullable(),
+    caseSensitive: z.boolean().optional().nullable()
+  })
+  .superRefine((
+    rule: { type: string; value: string; caseSensitive?: boolean | null },
+    ctx: { addIssue: (issue: { code: string; path: string[]; message: string }) => void }
+  ) => {
+    const error = rule.type === 'regex' ? getFilterRegexError(rule.value, rule.caseSensitive ? '' : 'i') : null;
+    if (error) {
+      ctx.addIssue({ code: 'custom', path: ['value'], message: error });
+    }
+  });
+
+const filterRulesSchema = z.object({
+  enabled: z.boolean().optional().default(true),
+  operator: z.enum(['and', 'or']).default('and'),
+  groups: z
+    .array(
+      z.object({
+        operator: z.enum(['and', 'or']).default('and'),
+        rules: z.array(filterRuleSchema).max(50)
+      })
+    )
+    .max(20)
+    .default([])
+});
+
+// Headers the fetcher manages itself or that would break the request.
+const RESERVED_FEED_HEADERS = new Set(['host', 'content-length', 'connection', 'transfer-encoding', 'if-none-match', 'if-modified-since']);
+
+const feedRequestAuthSchema = z.object({
+  headers: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .trim()
+          .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]{1,100}$/, 'Invalid header name')
+          .refine((name: string) => !RESERVED_FEED_HEADERS.has(name.toLowerCase()), 'This header cannot be overridden'),
+        value: z.string().max(4000).regex(/^[^\r\n]*$/, 'Header values cannot contain line breaks').nullable().optional()
+      })
+    )
+    .max(20)
+    .optional(),
+  basic: z
+    .object({
+      username: z.string().trim().min(1).max(255).regex(/^[^:]*$/, 'Username cannot contain ":"'),
+      password: z.string().max(1000).nullable().optional()
+    })
+    .nullable()
+    .optional(),
+  bearer_token: z.string().max(4000).regex(/^[^\r\n]*$/, 'Token cannot contain line breaks').nullable().optional(),
+  api_key: z
+    .object({
+      param: z.string().trim().regex(/^[A-Za-z0-9_.\-[\]]{1,100}$/, 'Invalid query parameter name'),
+      value: z.string().max(1000).nullable().optional()
+    })
+    .nullable()
+    .optional(),
+  cookies: z.string().max(4000).regex(/^[^\r\n]*$/, 'Cookies cannot contain line breaks').nullable().optional()
+});
+
+// BCP 47-style tag such as "he", "yi" or "en-GB"; stored lowercased.
+const localeSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/, 'Locale must look like "he" or "en-GB"')
+  .transform((value: string) => value.replace(/_/g, '-').toLowerCase());
+
+const digestConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  header: z.string().max(1000).optional(),
+  item_template: z.string().max(2000).optional(),
+  footer: z.string().max(1000).optional(),
+  overflow_template: z.string().max(1000).optional(),
+  overflow_url: z.string().url().nullable().optional().or(z.literal('').transform(() => null)),
+  max_items: z.number().int().min(1).max(50).optional(),
+  link_preview: z.boolean().optional()
+});
+
+// Hours a target accepts messages; `enabled: false` alone opts a target out of the global default.
+const deliveryWindowSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    start: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(),
+    end: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(),
+    days: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+    timezone: z.string().max(64).optional().nullable().transform(normalizeOptional),
+    digest: z.boolean().optional().default(false)
+  })
+  .refine((value: { enabled: boolean; start?: string; end?: string }) => !value.enabled || Boolean(value.start && value.end), {
+    message: 'Delivery window needs a start and end time',
+    path: ['start']
+  })
+  .refine((value: { timezone?: string | null }) => !value.timezone || isValidIanaTimezone(value.timezone), {
+    message: 'Invalid timezone (must be an IANA timezone like "America/New_York")',
+    path: ['timezone']
+  });
+
+const shabbosLocationSchema = z
+  .object({
+    city: z.string().max(100).optional().nullable().transform(normalizeOptional),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    tzid: z.string().min(1).max(64),
+    israel: z.boolean().optional().nullable()
+  })
+  .refine((value: { tzid: string }) => isValidIanaTimezone(value.tzid), {
+    message: 'Invalid timezone (must be an IANA timezone like "America/New_York")',
+    path: ['tzid']
+  });
+
+// A recurring announcement carries its own message, shaped like a manual post.
+const announcementSchema = z
+  .object({
+    message: z.string().max(4096).optional().nullable().transform(normalizeOptional),
+    imageUrl: z.string().url().optional().nullable().transform(normalizeOptional),
+    videoUrl: z.string().url().optional().nullable().transform(normalizeOptional),
+    ...richMessageFields,
+    disableLinkPreview: z.boolean().optional().default(false),
+    includeCaption: z.boolean().optional().default(true)
+  })
+  .refine(
+    (value: AttachmentFields) => Boolean(value.message || ATTACHMENT_FIELDS.some((field) => Boolean(value[field]))),
+    {
+      message: 'message or an attachment (image, video, document, audio, poll or location) is required'
+    }
+  )
+  .refine(hasSingleAttachment, {
+    message: 'Provide only one attachment: image, video, document, audio, poll or location'
+  })
+  .refine(hasNoTextOnUncaptionedAttachment, {
+    message: 'Polls, audio and locations cannot carry message text; send the text separately'
+  });
+
+const recurrenceSchema = z
+  .object({
+    rrule: z.string().trim().min(1).max(500),
+    start: z.string().trim().max(16),
+    exdates: z.array(z.string().trim().max(16)).max(200).optional().default([]),
+    until: z.string().trim().max(16).optional().nullable().transform(normalizeOptional),
+    count: z.number().int().min(1).max(10000).optional().nullable()
+  })
+  .superRefine((
+    value: { rrule: string; start: string; exdates?: string[]; until?: string | null; count?: number | null },
+    ctx: { addIssue: (issue: { code: string; path: string[]; message: string }) => void }
+  ) => {
+    const error = getRecurrenceError(value);
+    if (error) {
+      ctx.addIssue({ code: 'custom', path: ['rrule'], message: error });
+    }
+  });
+
 const schemas = {
+  scheduleFilterRules: filterRulesSchema,
+
+  scheduleFilterPreview: z.object({
+    feed_id: z.string().uuid(),
+    filter_rules: filterRulesSchema.nullable().optional()
+  }),
+
   scheduleBatchTime: z
     .string()
     .regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Batch times must be HH:MM (24h)'),
@@ -40,16 +306,29 @@ const schemas = {
     name: z.string().min(1).max(255),
     cron_expression: z.string().optional().nullable().transform(normalizeOptional),
     timezone: z.string().default('UTC').transform((value: string) => String(value || '').trim() || 'UTC'),
-    feed_id: z.string().uuid(),
+    kind: z.enum(['feed', 'announcement']).default('feed'),
+    feed_id: z.string().uuid().optional().nullable().transform(normalizeOptional),
     target_ids: z.array(z.string().uuid()).min(1),
-    template_id: z.string().uuid(),
+    template_id: z.string().uuid().optional().nullable().transform(normalizeOptional),
+    target_template_overrides: z.record(z.string().uuid(), z.string().uuid()).nullable().optional(),
     active: z.boolean().optional(),
     state: z.enum(['active', 'paused', 'stopped', 'draft']).optional(),
     delivery_mode: z.enum(['immediate', 'batch', 'batched']).default('immediate'),
     batch_times: z.array(z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/)).default(['07:00', '15:00', '22:00']),
-    approval_required: z.boolean().optional().default(false)
+    approval_required: z.boolean().optional().default(false),
+    filter_rules: filterRulesSchema.nullable().optional(),
+    cluster_mode: z.enum(['first', 'best_source', 'also_reported']).nullable().optional(),
+    digest_config: digestConfigSchema.nullable().optional(),
+    announcement: announcementSchema.nullable().optional(),
+    recurrence: recurrenceSchema.nullable().optional()
   }).superRefine((value: {
+    kind?: 'feed' | 'announcement';
+    feed_id?: string | null;
+    template_id?: string | null;
+    announcement?: unknown;
+    recurrence?: unknown;
     delivery_mode?: 'immediate' | 'batch' | 'batched';
+    digest_config?: { enabled?: boolean } | null;
     batch_times?: string[];
     timezone?: string;
     cron_expression?: string | null;
@@ -63,6 +342,23 @@ const schemas = {
       });
     }
 
+    // Announcements send their own message on their recurrence; feed, template and timing fields do not apply.
+    if (value.kind === 'announcement') {
+      if (!value.announcement) {
+        ctx.addIssue({ code: 'custom', path: ['announcement'], message: 'Announcements need a message or an attachment' });
+      }
+      if (!value.recurrence) {
+        ctx.addIssue({ code: 'custom', path: ['recurrence'], message: 'Announcements need a recurrence' });
+      }
+      return;
+    }
+    if (!value.feed_id) {
+      ctx.addIssue({ code: 'custom', path: ['feed_id'], message: 'Feed is required' });
+    }
+    if (!value.template_id) {
+      ctx.addIssue({ code: 'custom', path: ['template_id'], message: 'Template is required' });
+    }
+
     const cronExpression = String(value.cron_expression || '').trim().replace(/\s+/g, ' ');
     if (cronExpression && !cron.validate(cronExpression)) {
       ctx.addIssue({
@@ -72,7 +368,16 @@ const schemas = {
       });
     }
 
-    if (value.delivery_mode !== 'batch' && value.delivery_mode !== 'batched') return;
+    if (value.delivery_mode !== 'batch' && value.delivery_mode !== 'batched') {
+      if (value.digest_config?.enabled) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['digest_config'],
+          message: 'Digest mode requires batch delivery mode'
+        });
+      }
+      return;
+    }
     const times = Array.isArray(value.batch_times) ? value.batch_times : [];
     if (!times.length) {
       ctx.addIssue({
@@ -108,16 +413,26 @@ const schemas = {
   feed: z.object({
     name: z.string().min(1).max(255),
     url: z.string().url(),
-    type: z.enum(['rss', 'atom', 'json', 'html']).optional(),
+    type: z.enum(['rss', 'atom', 'json', 'html', 'sitemap']).optional(),
     active: z.boolean().optional(),
     fetch_interval: z.number().int().min(60).default(300),
+    fetch_full_article: z.boolean().optional(),
+    priority: z.number().int().min(-100).max(100).optional(),
+    folder: z.string().max(255).optional().nullable().transform(normalizeOptional),
+    request_auth: feedRequestAuthSchema.nullable().optional(),
     parse_config: z
       .object({
         itemsPath: z.string().max(255).optional().nullable().transform(normalizeOptional),
         titlePath: z.string().max(255).optional().nullable().transform(normalizeOptional),
         descriptionPath: z.string().max(255).optional().nullable().transform(normalizeOptional),
         linkPath: z.string().max(255).optional().nullable().transform(normalizeOptional),
-        imagePath: z.string().max(255).optional().nullable().transform(normalizeOptional)
+        imagePath: z.string().max(255).optional().nullable().transform(normalizeOptional),
+        itemSelector: z.string().max(500).optional().nullable().transform(normalizeOptional),
+        titleSelector: z.string().max(500).optional().nullable().transform(normalizeOptional),
+        linkSelector: z.string().max(500).optional().nullable().transform(normalizeOptional),
+        imageSelector: z.string().max(500).optional().nullable().transform(normalizeOptional),
+        dateSelector: z.string().max(500).optional().nullable().transform(normalizeOptional),
+        dateFormat: z.string().max(100).optional().nullable().transform(normalizeOptional)
       })
       .partial()
       .optional(),
@@ -128,6 +443,23 @@ const schemas = {
         removePhrases: z.array(z.string().max(500)).optional()
       })
       .partial()
+      .optional(),
+    field_mappings: fieldMappingsSchema.optional()
+  }),
+
+  feedImport: z.object({
+    format: z.enum(['opml', 'csv']).optional(),
+    content: z.string().min(1).max(2_000_000),
+    dry_run: z.boolean().default(true),
+    detect: z.boolean().default(true),
+    selected: z
+      .array(
+        z.object({
+          url: z.string().min(1).max(2048),
+          type: z.enum(['rss', 'atom', 'json', 'html', 'sitemap']).optional()
+        })
+      )
+      .max(500)
       .optional()
   }),
 
@@ -137,9 +469,14 @@ const schemas = {
     type: z.enum(['individual', 'group', 'channel', 'status']),
     active: z.boolean().default(true),
     notes: z.string().max(1000).optional().nullable().transform(normalizeOptional),
+    locale: z.preprocess((value: unknown) => (value === '' ? null : value), localeSchema.nullable().optional()),
+    short_links_enabled: z.boolean().optional(),
     message_delay_ms_override: optionalInt(0, 60000),
     inter_target_delay_sec_override: optionalInt(0, 600),
-    intra_target_delay_sec_override: optionalInt(0, 600)
+    intra_target_delay_sec_override: optionalInt(0, 600),
+    delivery_window: deliveryWindowSchema.nullable().optional(),
+    shabbos_location: shabbosLocationSchema.nullable().optional(),
+    shabbos_policy: z.enum(['hold', 'drop', 'digest']).nullable().optional()
   }),
 
   template: z.object({
@@ -148,9 +485,30 @@ const schemas = {
     description: z.string().max(1000).optional().nullable().transform(normalizeOptional),
     active: z.boolean().default(true),
     send_images: z.boolean().default(true),
-    send_mode: z.enum(['image', 'image_only', 'link_preview', 'text_only']).optional().default('image')
+    send_mode: z.enum(['image', 'image_only', 'link_preview', 'text_only']).optional().default('image'),
+    length_strategy: z.enum(['truncate', 'split']).optional(),
+    text_direction: z.enum(['none', 'auto', 'rtl', 'ltr']).optional(),
+    variants: z
+      .array(z.object({ locale: localeSchema, content: z.string().min(1).max(5000) }))
+      .max(20)
+      .optional()
   }),
 
+  templatePreview: z
+    .object({
+      template_id: z.string().uuid().optional(),
+      content: z.string().max(5000).optional(),
+      send_mode: z.enum(['image', 'image_only', 'link_preview', 'text_only']).optional(),
+      length_strategy: z.enum(['truncate', 'split']).optional(),
+      text_direction: z.enum(['none', 'auto', 'rtl', 'ltr']).optional(),
+      feed_item_id: z.string().uuid().optional(),
+      feed_id: z.string().uuid().optional()
+    })
+    .refine((value: { template_id?: string; content?: string }) => Boolean(value.template_id || value.content), {
+      message: 'content or template_id is required',
+      path: ['content']
+    }),
+
   testMessage: z
     .object({
       jid: z.string().regex(JID_PATTERN).optional().nullable().transform(normalizeOptional),
@@ -162,6 +520,7 @@ const schemas = {
       imageDataUrl: z.string().max(12_000_000).optional().nullable().transform(normalizeOptional),
       // Base64 video payloads are large; keep this bounded even if JSON_BODY_LIMIT_LARGE is higher.
       videoDataUrl: z.string().max(35_000_000).optional().nullable().transform(normalizeOptional),
+      ...richMessageFields,
       includeCaption: z.boolean().optional().default(true),
       disableLinkPreview: z.boolean().optional().default(false),
       confirm: z.boolean().optional()
@@ -176,18 +535,18 @@ const schemas = {
       }
     )
     .refine(
-      (value: {
-        message?: string | null;
-        linkUrl?: string | null;
-        imageUrl?: string | null;
-        videoUrl?: string | null;
-        imageDataUrl?: string | null;
-        videoDataUrl?: string | null;
-      }) => Boolean(value.message || value.linkUrl || value.imageUrl || value.videoUrl || value.imageDataUrl || value.videoDataUrl),
+      (value: AttachmentFields) =>
+        Boolean(value.message || value.linkUrl || ATTACHMENT_FIELDS.some((field) => Boolean(value[field]))),
       {
-        message: 'message, linkUrl, imageUrl, videoUrl, imageDataUrl, or videoDataUrl is required'
+        message: 'message, linkUrl, or an attachment (image, video, document, audio, poll or location) is required'
       }
-    ),
+    )
+    .refine(hasSingleAttachment, {
+      message: 'Provide only one attachment: image, video, document, audio, poll or location'
+    })
+    .refine(hasNoTextOnUncaptionedAttachment, {
+      message: 'Polls, audio and locations cannot carry message text; send the text separately'
+    }),
 
   statusMessage: z
     .object({
@@ -208,8 +567,11 @@ const schemas = {
       message: z.string().max(4096).optional().nullable().transform(normalizeOptional),
       imageUrl: z.string().url().optional().nullable().transform(normalizeOptional),
       videoUrl: z.string().url().optional().nullable().transform(normalizeOptional),
+      ...richMessageFields,
       disableLinkPreview: z.boolean().optional().default(false),
-      includeCaption: z.boolean().optional().default(true)
+      includeCaption: z.boolean().optional().default(true),
+      scheduledFor: z.string().max(40).optional().nullable().transform(normalizeOptional),
+      timezone: z.string().max(64).optional().nullable().transform(normalizeOptional)
     })
     .refine(
       (value: { target_id?: string | null; target_ids?: string[] }) =>
@@ -219,20 +581,29 @@ const schemas = {
       }
     )
     .refine(
-      (value: { message?: string | null; imageUrl?: string | null; videoUrl?: string | null }) =>
-        Boolean(value.message || value.imageUrl || value.videoUrl),
+      (value: AttachmentFields) => Boolean(value.message || ATTACHMENT_FIELDS.some((field) => Boolean(value[field]))),
       {
-        message: 'message, imageUrl, or videoUrl is required'
+        message: 'message or an attachment (image, video, document, audio, poll or location) is required'
       }
     )
-    .refine(
-      (value: { imageUrl?: string | null; videoUrl?: string | null }) => !(value.imageUrl && value.videoUrl),
-      {
-        message: 'Provide either imageUrl or videoUrl, not both'
-      }
-    ),
+    .refine(hasSingleAttachment, {
+      message: 'Provide only one attachment: image, video, document, audio, poll or location'
+    })
+    .refine(hasNoTextOnUncaptionedAttachment, {
+      message: 'Polls, audio and locations cannot carry message text; send the text separately'
+    })
+    .refine((value: { timezone?: string | null }) => !value.timezone || isValidIanaTimezone(value.timezone), {
+      message: 'Invalid timezone (must be an IANA timezone like "America/New_York")',
+      path: ['timezone']
+    }),
 
-  settings: z.record(z.unknown())
+  settings: z.record(z.unknown()).superRefine(
+    (value: Record<string, unknown>, ctx: { addIssue: (issue: { code: string; path: string[]; message: string }) => void }) => {
+      if (value.delivery_window != null && !deliveryWindowSchema.safeParse(value.delivery_window).success) {
+        ctx.addIssue({ code: 'custom', path: ['delivery_window'], message: 'Invalid delivery window' });
+      }
+    }
+  )
 };
 
 // Validation middleware factory
@@ -70,7 +70,7 @@ const spec = {
       post: { tags: ['whatsapp'], summary: 'Take over WhatsApp session lease', responses: { 200: { description: 'OK' } } }
     },
     '/api/whatsapp/send-test': {
-      post: { tags: ['whatsapp'], summary: 'Send test message', responses: { 200: { description: 'OK' } } }
+      post: { tags: ['whatsapp'], summary: 'Send test message (text, media, document, audio, poll or location)', responses: { 200: { description: 'OK' } } }
     },
     '/api/whatsapp/send-status': {
       post: { tags: ['whatsapp'], summary: 'Send status broadcast', responses: { 200: { description: 'OK' } } }
@@ -82,6 +82,12 @@ const spec = {
     '/api/feeds/test': {
       post: { tags: ['feeds'], summary: 'Test feed', responses: { 200: { description: 'OK' } } }
     },
+    '/api/feeds/import': {
+      post: { tags: ['feeds'], summary: 'Import feeds from OPML or CSV (dry run by default)', responses: { 200: { description: 'OK' } } }
+    },
+    '/api/feeds/export.opml': {
+      get: { tags: ['feeds'], summary: 'Export feeds as OPML', responses: { 200: { description: 'OPML document' } } }
+    },
     '/api/feeds/{id}': {
       put: { tags: ['feeds'], summary: 'Update feed', responses: { 200: { description: 'OK' } } },
       delete: { tags: ['feeds'], summary: 'Delete feed', responses: { 200: { description: 'OK' } } }
@@ -89,6 +95,10 @@ const spec = {
     '/api/feeds/{id}/refresh': {
       post: { tags: ['feeds'], summary: 'Refresh feed', responses: { 200: { description: 'OK' } } }
     },
+    '/api/websub/{feedId}': {
+      get: { tags: ['feeds'], summary: 'WebSub intent verification callback', responses: { 200: { description: 'OK' } } },
+      post: { tags: ['feeds'], summary: 'WebSub content distribution callback', responses: { 202: { description: 'Accepted' } } }
+    },
     '/api/templates': {
       get: { tags: ['templates'], summary: 'List templates', responses: { 200: { description: 'OK' } } },
       post: { tags: ['templates'], summary: 'Create template', responses: { 200: { description: 'OK' } } }
@@ -97,8 +107,20 @@ const spec = {
       put: { tags: ['templates'], summary: 'Update template', responses: { 200: { description: 'OK' } } },
       delete: { tags: ['templates'], summary: 'Delete template', responses: { 200: { description: 'OK' } } }
     },
+    '/api/templates/{id}/revisions': {
+      get: { tags: ['templates'], summary: 'List template revisions with sent counts', responses: { 200: { description: 'OK' } } }
+    },
+    '/api/templates/{id}/revisions/diff': {
+      get: { tags: ['templates'], summary: 'Diff two template revisions', responses: { 200: { description: 'OK' } } }
+    },
+    '/api/templates/{id}/revisions/{revisionId}/rollback': {
+      post: { tags: ['templates'], summary: 'Restore a template revision', responses: { 200: { description: 'OK' } } }
+    },
+    '/api/templates/preview': {
+      post: { tags: ['templates'], summary: 'Render, lint and split a template against a feed item', responses: { 200: { description: 'OK' } } }
+    },
     '/api/templates/available-variables': {
-      get: { tags: ['templates'], summary: 'List template variables', responses: { 200: { description: 'OK' } } }
+      get: { tags: ['templates'], summary: 'List template variables, including feed field mappings, with sample values', responses: { 200: { description: 'OK' } } }
     },
     '/api/targets': {
       get: { tags: ['targets'], summary: 'List targets', responses: { 200: { description: 'OK' } } },
@@ -110,7 +132,7 @@ const spec = {
     },
     '/api/schedules': {
       get: { tags: ['schedules'], summary: 'List schedules', responses: { 200: { description: 'OK' } } },
-      post: { tags: ['schedules'], summary: 'Create schedule', responses: { 200: { description: 'OK' } } }
+      post: { tags: ['schedules'], summary: 'Create schedule or recurring announcement', responses: { 200: { description: 'OK' } } }
     },
     '/api/schedules/{id}': {
       put: { tags: ['schedules'], summary: 'Update schedule', responses: { 200: { description: 'OK' } } },
@@ -119,6 +141,9 @@ const spec = {
     '/api/schedules/{id}/dispatch': {
       post: { tags: ['schedules'], summary: 'Dispatch schedule', responses: { 200: { description: 'OK' } } }
     },
+    '/api/schedules/filter-preview': {
+      post: { tags: ['schedules'], summary: 'Dry run filter rules against recent feed items', responses: { 200: { description: 'OK' } } }
+    },
     '/api/schedules/{id}/diagnostics': {
       get: { tags: ['schedules'], summary: 'Schedule diagnostics', responses: { 200: { description: 'OK' } } }
     },
@@ -134,12 +159,22 @@ const spec = {
     '/api/queue/stats': {
       get: { tags: ['queue'], summary: 'Queue stats', responses: { 200: { description: 'OK' } } }
     },
+    '/api/queue/calendar': {
+      get: { tags: ['queue'], summary: 'Upcoming manual and batch sends per target', responses: { 200: { description: 'OK' } } }
+    },
     '/api/queue/{id}': {
+      patch: { tags: ['queue'], summary: 'Edit or reschedule queue item', responses: { 200: { description: 'OK' } } },
       delete: { tags: ['queue'], summary: 'Delete queue item', responses: { 200: { description: 'OK' } } }
     },
     '/api/logs': {
       get: { tags: ['logs'], summary: 'List logs', responses: { 200: { description: 'OK' } } }
     },
+    '/api/analytics/clicks': {
+      get: { tags: ['logs'], summary: 'Short link clicks per story and per target', responses: { 200: { description: 'OK' } } }
+    },
+    '/r/{code}': {
+      get: { tags: ['system'], summary: 'Open a tracked short link', responses: { 302: { description: 'Redirect' }, 404: { description: 'Not found' } } }
+    },
     '/api/feed-items': {
       get: { tags: ['feeds'], summary: 'List feed items', responses: { 200: { description: 'OK' } } }
     },
@@ -149,6 +184,9 @@ const spec = {
     '/api/feed-items/available-fields': {
       get: { tags: ['feeds'], summary: 'List feed item fields', responses: { 200: { description: 'OK' } } }
     },
+    '/api/feed-items/duplicates/{id}/release': {
+      post: { tags: ['feeds'], summary: 'Release an item dropped as a duplicate and queue it', responses: { 200: { description: 'OK' } } }
+    },
     '/api/settings': {
       get: { tags: ['settings'], summary: 'Get settings', responses: { 200: { description: 'OK' } } },
       put: { tags: ['settings'], summary: 'Update settings', responses: { 200: { description: 'OK' } } }
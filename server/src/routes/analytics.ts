@@ -3,8 +3,16 @@ const express = require('express');
 const { getSupabaseClient } = require('../db/supabase');
 const { serviceUnavailable } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
+const { isHumanClick } = require('../services/linkTrackingService');
 
 const SUCCESSFUL_SEND_STATUSES = ['sent', 'delivered', 'read', 'played'];
+const MAX_CLICK_ROWS = 10000;
+const TOP_CLICK_ROWS = 20;
+
+const readWindowHours = (value: unknown) => {
+  const rawWindowHours = Number(value);
+  return Number.isFinite(rawWindowHours) && rawWindowHours > 0 ? Math.min(Math.round(rawWindowHours), 168) : 24;
+};
 
 const analyticsRoutes = () => {
   const router = express.Router();
@@ -14,10 +22,7 @@ const analyticsRoutes = () => {
       const supabase = getSupabaseClient();
       if (!supabase) throw serviceUnavailable('Database not available');
 
-      const rawWindowHours = Number(req.query.window_hours);
-      const windowHours = Number.isFinite(rawWindowHours) && rawWindowHours > 0
-        ? Math.min(Math.round(rawWindowHours), 168)
-        : 24;
+      const windowHours = readWindowHours(req.query.window_hours);
       const windowStartIso = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
 
       const countSince = async (field: 'created_at' | 'sent_at', statuses: string[]) => {
@@ -71,6 +76,73 @@ const analyticsRoutes = () => {
     }
   });
 
+  // Short link clicks per story and per target; preview fetches and crawlers are counted apart.
+  router.get('/clicks', async (req: Request, res: Response) => {
+    try {
+      const supabase = getSupabaseClient();
+      if (!supabase) throw serviceUnavailable('Database not available');
+
+      const windowHours = readWindowHours(req.query.window_hours);
+      const windowStartIso = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('link_clicks')
+        .select('feed_item_id,target_id,user_agent_class,feed_item:feed_items(title,link),target:targets(name)')
+        .gte('clicked_at', windowStartIso)
+        .order('clicked_at', { ascending: false })
+        .limit(MAX_CLICK_ROWS);
+      if (error) throw error;
+
+      type ClickRow = {
+        feed_item_id?: string | null;
+        target_id?: string | null;
+        user_agent_class?: string | null;
+        feed_item?: { title?: string | null; link?: string | null } | null;
+        target?: { name?: string | null } | null;
+      };
+      const byStory = new Map<string, { feed_item_id: string; title: string | null; link: string | null; clicks: number }>();
+      const byTarget = new Map<string, { target_id: string; name: string | null; clicks: number }>();
+      const byClass: Record<string, number> = {};
+      let clicks = 0;
+      for (const row of (data || []) as ClickRow[]) {
+        const userAgentClass = String(row.user_agent_class || 'unknown');
+        byClass[userAgentClass] = (byClass[userAgentClass] || 0) + 1;
+        if (!isHumanClick(userAgentClass)) continue;
+        clicks += 1;
+        if (row.feed_item_id) {
+          const story = byStory.get(row.feed_item_id) || {
+            feed_item_id: row.feed_item_id,
+            title: row.feed_item?.title || null,
+            link: row.feed_item?.link || null,
+            clicks: 0
+          };
+          story.clicks += 1;
+          byStory.set(row.feed_item_id, story);
+        }
+        if (row.target_id) {
+          const target = byTarget.get(row.target_id) || { target_id: row.target_id, name: row.target?.name || null, clicks: 0 };
+          target.clicks += 1;
+          byTarget.set(row.target_id, target);
+        }
+      }
+
+      const top = <T extends { clicks: number }>(rows: Iterable<T>) =>
+        Array.from(rows)
+          .sort((a, b) => b.clicks - a.clicks)
+          .slice(0, TOP_CLICK_ROWS);
+
+      res.json({
+        window_hours: windowHours,
+        window_start: windowStartIso,
+        clicks,
+        by_user_agent_class: byClass,
+        by_story: top(byStory.values()),
+        by_target: top(byTarget.values())
+      });
+    } catch (error) {
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
   return router;
 };
 
@@ -1,11 +1,56 @@
 import type { Request, Response } from 'express';
 const express = require('express');
 const { getSupabaseClient } = require('../db/supabase');
-const { serviceUnavailable } = require('../core/errors');
+const { serviceUnavailable, notFound, conflict } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
 const { isScheduleRunning } = require('../services/scheduleState');
+const { assignStoryCluster } = require('../services/storyClusterService');
+const { triggerImmediateSchedules, queueBatchSchedulesForFeed } = require('../services/schedulerService');
 
 const MANUAL_POST_PAUSE_REASON = 'Paused for this post';
+const DUPLICATE_LOOKBACK_DAYS = 7;
+
+type DedupeDecisionRow = {
+  id: string;
+  feed_id?: string | null;
+  target_id?: string | null;
+  item?: Record<string, unknown> | null;
+  match_type: string;
+  matched_feed_item_id?: string | null;
+  matched_chat_message_id?: string | null;
+  matched_title?: string | null;
+  similarity?: number | string | null;
+  threshold?: number | string | null;
+  released_at?: string | null;
+  released_feed_item_id?: string | null;
+  created_at?: string | null;
+  feed?: Record<string, unknown> | null;
+};
+
+const toDedupeSummary = (row: DedupeDecisionRow) => ({
+  id: row.id,
+  match_type: row.match_type,
+  matched_feed_item_id: row.matched_feed_item_id || null,
+  matched_chat_message_id: row.matched_chat_message_id || null,
+  matched_title: row.matched_title || null,
+  similarity: row.similarity == null ? null : Number(row.similarity),
+  threshold: row.threshold == null ? null : Number(row.threshold),
+  decided_at: row.created_at || null,
+  released_at: row.released_at || null
+});
+
+// Same order as the feed_items query: newest pub_date first (nulls last), then newest created_at.
+const compareStoriesByDate = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+  const aPub = Date.parse(String(a.pub_date || ''));
+  const bPub = Date.parse(String(b.pub_date || ''));
+  const aHasPub = Number.isFinite(aPub);
+  const bHasPub = Number.isFinite(bPub);
+  if (aHasPub !== bHasPub) return aHasPub ? -1 : 1;
+  if (aHasPub && bHasPub && aPub !== bPub) return bPub - aPub;
+  const aCreated = Date.parse(String(a.created_at || '')) || 0;
+  const bCreated = Date.parse(String(b.created_at || '')) || 0;
+  return bCreated - aCreated;
+};
 
 const feedItemRoutes = () => {
   const router = express.Router();
@@ -24,6 +69,7 @@ const feedItemRoutes = () => {
       const scope = String(req.query.scope || 'automation').toLowerCase();
       const includeAllFeeds = scope === 'all';
       const dedupe = String(req.query.dedupe || 'true').toLowerCase() !== 'false';
+      const includeDuplicates = String(req.query.duplicates || 'true').toLowerCase() !== 'false';
 
       const { data: schedules, error: schedulesError } = await supabase
         .from('schedules')
@@ -140,6 +186,20 @@ const feedItemRoutes = () => {
         }
       }
 
+      const releasedDecisionByItemId = new Map<string, DedupeDecisionRow>();
+      if (ids.length) {
+        const { data: releasedRows, error: releasedError } = await supabase
+          .from('dedupe_decisions')
+          .select('*')
+          .in('released_feed_item_id', ids);
+        if (releasedError) {
+          console.warn('Error fetching released dedupe decisions:', releasedError);
+        }
+        for (const row of (releasedRows || []) as DedupeDecisionRow[]) {
+          if (row.released_feed_item_id) releasedDecisionByItemId.set(row.released_feed_item_id, row);
+        }
+      }
+
       const enriched = (items || []).map((item: Record<string, unknown>) => {
         const id = String(item.id || '');
         const delivery = deliveryByItem.get(id) || {
@@ -200,11 +260,54 @@ const feedItemRoutes = () => {
             active_automations: activeAutomationCount,
             dispatchable_automations: dispatchableAutomationCount,
             queue_cursor_at: queueCursorMs ? new Date(queueCursorMs).toISOString() : null
-          }
+          },
+          dedupe: releasedDecisionByItemId.has(id) ? toDedupeSummary(releasedDecisionByItemId.get(id) as DedupeDecisionRow) : null
         };
       });
 
-      res.json(enriched);
+      if (!includeDuplicates) {
+        return res.json(enriched);
+      }
+
+      // Items dropped as duplicates never reach feed_items; list their decisions so they can be reviewed and released.
+      let duplicatesQuery = supabase
+        .from('dedupe_decisions')
+        .select(`
+          *,
+          feed:feeds(id, name, url, type)
+        `)
+        .is('released_at', null)
+        .not('feed_id', 'is', null)
+        .gte('created_at', new Date(Date.now() - DUPLICATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString())
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (!includeAllFeeds) {
+        duplicatesQuery = duplicatesQuery.in('feed_id', activeAutomationFeedIds);
+      }
+
+      const { data: decisionRows, error: decisionsError } = await duplicatesQuery;
+      if (decisionsError) {
+        console.warn('Error fetching dedupe decisions:', decisionsError);
+        return res.json(enriched);
+      }
+
+      const duplicates = ((decisionRows || []) as DedupeDecisionRow[]).map((row) => {
+        const snapshot = row.item && typeof row.item === 'object' ? row.item : {};
+        return {
+          ...snapshot,
+          id: row.id,
+          feed_id: row.feed_id,
+          feed: row.feed || null,
+          created_at: row.created_at,
+          sent: false,
+          delivery: { pending: 0, processing: 0, sent: 0, failed: 0, skipped: 0, manual_paused: 0, total: 0 },
+          delivery_status: 'duplicate',
+          routing: null,
+          dedupe: toDedupeSummary(row)
+        };
+      });
+
+      res.json([...enriched, ...duplicates].sort(compareStoriesByDate));
     } catch (error) {
       console.error('Error fetching feed items:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -353,6 +456,55 @@ const feedItemRoutes = () => {
     }
   });
 
+  // Override a dedupe decision: store the dropped item as a real story and queue it like a fresh fetch.
+  router.post('/duplicates/:id/release', async (req: Request, res: Response) => {
+    try {
+      const supabase = getDb();
+      const decisionId = String(req.params.id || '').trim();
+      const releasedAt = new Date().toISOString();
+
+      const { data: claimed, error: claimError } = await supabase
+        .from('dedupe_decisions')
+        .update({ released_at: releasedAt })
+        .eq('id', decisionId)
+        .is('released_at', null)
+        .select('*');
+      if (claimError) throw claimError;
+
+      const decision = (claimed || [])[0] as DedupeDecisionRow | undefined;
+      if (!decision) {
+        const { data: existing } = await supabase.from('dedupe_decisions').select('id').eq('id', decisionId).maybeSingle();
+        throw existing ? conflict('This item was already released') : notFound('Dedupe decision not found');
+      }
+      if (!decision.feed_id || !decision.item) {
+        await supabase.from('dedupe_decisions').update({ released_at: null }).eq('id', decisionId);
+        throw conflict('Only feed duplicates can be released');
+      }
+
+      const { data: feedItem, error: insertError } = await supabase
+        .from('feed_items')
+        .insert({ ...decision.item, feed_id: decision.feed_id })
+        .select()
+        .single();
+      if (insertError || !feedItem) {
+        await supabase.from('dedupe_decisions').update({ released_at: null }).eq('id', decisionId);
+        throw insertError || new Error('Failed to store released item');
+      }
+
+      await assignStoryCluster(supabase, feedItem);
+      await supabase.from('dedupe_decisions').update({ released_feed_item_id: feedItem.id }).eq('id', decisionId);
+
+      const whatsapp = req.app.locals.whatsapp;
+      await queueBatchSchedulesForFeed(decision.feed_id, whatsapp);
+      await triggerImmediateSchedules(decision.feed_id, whatsapp);
+
+      res.json({ ok: true, decision_id: decisionId, feed_item_id: feedItem.id, released_at: releasedAt });
+    } catch (error) {
+      console.error('Error releasing duplicate item:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
   // Get available fields/variables from feed items for template usage
   router.get('/available-fields', async (_req: Request, res: Response) => {
     try {
@@ -378,6 +530,11 @@ const feedItemRoutes = () => {
         if (Array.isArray(categories) && categories.length > 0) {
           fields.add('categories');
         }
+        if (item.article_text) {
+          fields.add('article_text');
+          fields.add('reading_time');
+          fields.add('lead');
+        }
       });
       
       res.json(Array.from(fields).sort());
@@ -10,12 +10,51 @@ const {
   waitForFeedIdle
 } = require('../services/schedulerService');
 const { fetchFeedItemsWithMeta } = require('../services/feedFetcher');
+const { compileFieldMappings, evaluateFieldMappings } = require('../utils/fieldMapping');
+const {
+  MAX_IMPORT_ENTRIES,
+  detectImportFormat,
+  parseOpmlFeeds,
+  parseCsvFeeds,
+  buildOpmlExport
+} = require('../services/feedImportService');
 const { assertSafeOutboundUrl } = require('../utils/outboundUrl');
+const { normalizeUrl } = require('../utils/normalize');
+const withTimeout = require('../utils/withTimeout');
 const { validate, schemas } = require('../middleware/validation');
-const { serviceUnavailable } = require('../core/errors');
+const {
+  mergeFeedRequestAuthForUrl,
+  sealFeedRequestAuth,
+  readFeedRequestAuth,
+  describeFeedRequestAuth
+} = require('../services/feedAuthService');
+const { badRequest, serviceUnavailable } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
+const { isScheduleRunning } = require('../services/scheduleState');
 
 const FEED_PAUSED_ERROR = 'Feed paused';
+const IMPORT_DETECT_TIMEOUT_MS = 10000;
+// Keeps dry runs inside the web client's request timeout; unchecked entries keep their declared type.
+const IMPORT_DETECT_BUDGET_MS = 15000;
+const IMPORT_DETECT_CONCURRENCY = 4;
+
+type ImportEntry = {
+  name: string;
+  url: string;
+  folder: string | null;
+  type: string | null;
+  priority?: number;
+  fetch_full_article?: boolean;
+  parse_config?: unknown;
+  cleaning?: unknown;
+  field_mappings?: unknown;
+  status?: 'new' | 'duplicate' | 'invalid';
+  reason?: string;
+  existing_feed_id?: string;
+  detected_type?: string | null;
+  item_count?: number;
+  detect_error?: string;
+};
 
 const feedsRoutes = () => {
   const router = express.Router();
@@ -117,7 +156,7 @@ const feedsRoutes = () => {
   // Test a feed URL without saving - returns detected fields and sample item
   router.post('/test', async (req: Request, res: Response) => {
     try {
-      const { url, type, parse_config, cleaning } = req.body;
+      const { url, type, parse_config, cleaning, request_auth, feed_id, field_mappings } = req.body;
       if (!url) {
         return res.status(400).json({ error: 'URL is required' });
       }
@@ -128,11 +167,32 @@ const feedsRoutes = () => {
         return res.status(400).json({ error: getErrorMessage(error, 'URL is not allowed') });
       }
 
+      // Unsaved request settings are tested as typed; blank secrets fall back to the saved feed's
+      // while the URL stays on the saved feed's origin.
+      let requestAuth = null;
+      if (request_auth !== undefined || feed_id) {
+        const parsedAuth = request_auth ? schemas.feed.shape.request_auth.safeParse(request_auth) : null;
+        if (parsedAuth && !parsedAuth.success) {
+          return res.status(400).json({ error: 'Invalid request settings' });
+        }
+        let storedFeed = null;
+        if (feed_id) {
+          const { data } = await getDb()
+            .from('feeds')
+            .select('url,request_auth_encrypted')
+            .eq('id', String(feed_id))
+            .maybeSingle();
+          storedFeed = data;
+        }
+        requestAuth = mergeFeedRequestAuthForUrl(storedFeed, String(url), parsedAuth ? parsedAuth.data : request_auth);
+      }
+
       const testFeed = {
         url: String(url),
         ...(type ? { type } : {}),
         ...(parse_config ? { parseConfig: parse_config } : {}),
-        ...(cleaning ? { cleaning } : {})
+        ...(cleaning ? { cleaning } : {}),
+        requestAuth
       };
 
       // Create a temporary feed object for testing (cleaning is optional, uses defaults)
@@ -143,12 +203,27 @@ const feedsRoutes = () => {
       }
 
       // Detect all fields from the first item
-      const sampleItem = items[0] as Record<string, unknown>;
+      const { source: sampleSource, ...sampleItem } = items[0] as Record<string, unknown>;
       const detectedFields = Object.keys(sampleItem).filter((key) => {
         const value = sampleItem[key];
         return value !== null && value !== undefined && value !== '' && !Array.isArray(value);
       });
 
+      // Unsaved field mappings are evaluated against the sample item as a fetch would.
+      const fieldMappings = compileFieldMappings(field_mappings);
+      const sampleRaw = (sampleItem.raw || {}) as Record<string, unknown>;
+      const computedFields = evaluateFieldMappings(
+        fieldMappings.mappings,
+        {
+          ...sampleRaw,
+          ...sampleItem,
+          link: sampleItem.url ?? null,
+          image_url: sampleItem.imageUrl ?? null,
+          pub_date: sampleItem.publishedAt ?? null
+        },
+        sampleSource
+      );
+
       // Also check for nested/array fields
       Object.keys(sampleItem).forEach((key) => {
         const value = sampleItem[key];
@@ -165,7 +240,15 @@ const feedsRoutes = () => {
         discoveredFromUrl: meta?.discoveredFromUrl || null,
         itemCount: items.length,
         detectedFields: [...new Set(detectedFields)],
-        sampleItem
+        sampleItem,
+        computedFields,
+        fieldMappingErrors: fieldMappings.errors,
+        items: items.slice(0, 25).map((item: Record<string, unknown>) => ({
+          title: item.title || null,
+          url: item.url || null,
+          imageUrl: item.imageUrl || null,
+          publishedAt: item.publishedAt || null
+        }))
       });
     } catch (error) {
       console.error('Error testing feed:', error);
@@ -173,15 +256,242 @@ const feedsRoutes = () => {
     }
   });
 
-  router.get('/', async (_req: Request, res: Response) => {
+  // Secrets never go to the UI: the WebSub secret only signs hub pushes, and request
+  // credentials are replaced by a masked summary.
+  const toFeedResponse = (feed: Record<string, unknown>) => {
+    const { websub_secret: _websubSecret, request_auth_encrypted: _requestAuth, ...rest } = feed || {};
+    return {
+      ...rest,
+      request_auth: describeFeedRequestAuth(readFeedRequestAuth(feed as { request_auth_encrypted?: string | null }))
+    };
+  };
+
+  // Swap submitted request settings for their encrypted form, merging blank secrets with the stored ones.
+  // Moving a feed to another origin refuses to carry its stored secrets along.
+  const applyRequestAuthPayload = (
+    payload: Record<string, unknown>,
+    storedFeed?: { url?: string; request_auth_encrypted?: string | null } | null
+  ) => {
+    if (payload.request_auth === undefined && !storedFeed?.request_auth_encrypted) return;
+    const merged = mergeFeedRequestAuthForUrl(storedFeed, String(payload.url || storedFeed?.url || ''), payload.request_auth);
+    if (payload.request_auth === undefined) return;
+    delete payload.request_auth;
+    try {
+      payload.request_auth_encrypted = sealFeedRequestAuth(merged);
+    } catch (error) {
+      throw badRequest(getErrorMessage(error));
+    }
+  };
+
+  // Feeds are only polled while active and linked to a running automation.
+  const withEffectiveNextPoll = (feed: Record<string, unknown>, polledFeedIds: Set<string>) => {
+    if (feed.active === false || !polledFeedIds.has(String(feed.id || ''))) {
+      return { ...feed, next_poll_at: null, poll_reason: 'not polled' };
+    }
+    if (feed.next_poll_at) return feed;
+    const lastFetchedMs = Date.parse(String(feed.last_fetched_at || ''));
+    const intervalSeconds = Math.max(Number(feed.fetch_interval || 300), 60);
+    const nextPollMs = Number.isFinite(lastFetchedMs) ? lastFetchedMs + intervalSeconds * 1000 : Date.now();
+    return {
+      ...feed,
+      next_poll_at: new Date(Math.max(nextPollMs, Date.now())).toISOString(),
+      poll_reason: feed.poll_reason || 'fixed interval'
+    };
+  };
+
+  // Classify parsed entries against existing feeds (by normalized URL) and each other.
+  const classifyImportEntries = async (entries: ImportEntry[]) => {
+    const { data: existingFeeds, error } = await getDb().from('feeds').select('id,url');
+    if (error) throw error;
+    const existingByUrl = new Map<string, string>(
+      (existingFeeds || []).map((feed: { id: string; url: string }) => [normalizeUrl(feed.url), feed.id])
+    );
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      let parsedUrl: URL | null = null;
+      try {
+        parsedUrl = new URL(entry.url);
+      } catch {
+        parsedUrl = null;
+      }
+      if (!parsedUrl || !['http:', 'https:'].includes(parsedUrl.protocol)) {
+        Object.assign(entry, { status: 'invalid', reason: 'Invalid URL' });
+        continue;
+      }
+      entry.name = entry.name || parsedUrl.hostname;
+
+      const key = normalizeUrl(entry.url);
+      const existingId = existingByUrl.get(key);
+      if (existingId) {
+        Object.assign(entry, { status: 'duplicate', reason: 'Feed already exists', existing_feed_id: existingId });
+        continue;
+      }
+      if (seen.has(key)) {
+        Object.assign(entry, { status: 'duplicate', reason: 'Listed more than once in this file' });
+        continue;
+      }
+      seen.add(key);
+
+      const parseConfig = entry.parse_config === undefined ? null : schemas.feed.shape.parse_config.safeParse(entry.parse_config);
+      const cleaning = entry.cleaning === undefined ? null : schemas.feed.shape.cleaning.safeParse(entry.cleaning);
+      const fieldMappings =
+        entry.field_mappings === undefined ? null : schemas.feed.shape.field_mappings.safeParse(entry.field_mappings);
+      if ((parseConfig && !parseConfig.success) || (cleaning && !cleaning.success) || (fieldMappings && !fieldMappings.success)) {
+        Object.assign(entry, { status: 'invalid', reason: 'Invalid parse_config, cleaning or field mapping settings' });
+        continue;
+      }
+      if (parseConfig) entry.parse_config = parseConfig.data;
+      if (cleaning) entry.cleaning = cleaning.data;
+      if (fieldMappings) entry.field_mappings = fieldMappings.data;
+
+      try {
+        await assertSafeOutboundUrl(entry.url);
+      } catch (urlError) {
+        Object.assign(entry, { status: 'invalid', reason: getErrorMessage(urlError, 'URL is not allowed') });
+        continue;
+      }
+      entry.status = 'new';
+    }
+    return entries;
+  };
+
+  const detectImportTypes = async (entries: ImportEntry[]) => {
+    const pending = entries.filter((entry) => entry.status === 'new');
+    const deadline = Date.now() + IMPORT_DETECT_BUDGET_MS;
+    const worker = async () => {
+      for (let entry = pending.shift(); entry && Date.now() < deadline; entry = pending.shift()) {
+        try {
+          const { items, meta } = await withTimeout(
+            fetchFeedItemsWithMeta({
+              url: entry.url,
+              ...(entry.type ? { type: entry.type } : {}),
+              ...(entry.parse_config ? { parseConfig: entry.parse_config } : {}),
+              ...(entry.cleaning ? { cleaning: entry.cleaning } : {})
+            }),
+            IMPORT_DETECT_TIMEOUT_MS,
+            'Feed check timed out'
+          );
+          entry.detected_type = meta?.detectedType || null;
+          entry.item_count = Array.isArray(items) ? items.length : 0;
+        } catch (detectError) {
+          entry.detect_error = getErrorMessage(detectError, 'Failed to fetch feed');
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: IMPORT_DETECT_CONCURRENCY }, () => worker()));
+  };
+
+  // Import feeds from OPML or CSV. Dry runs report what would happen; commits insert the
+  // selected new entries (all new entries when nothing is selected).
+  router.post('/import', validate(schemas.feedImport), async (req: Request, res: Response) => {
+    try {
+      const { content, dry_run: dryRun, detect, selected } = req.body as {
+        content: string;
+        format?: 'opml' | 'csv';
+        dry_run: boolean;
+        detect: boolean;
+        selected?: Array<{ url: string; type?: string }>;
+      };
+      const format = req.body.format || detectImportFormat(content);
+
+      let parsed: ImportEntry[];
+      try {
+        parsed = format === 'opml' ? parseOpmlFeeds(content) : parseCsvFeeds(content);
+      } catch (parseError) {
+        throw badRequest(`Could not read ${format.toUpperCase()}: ${getErrorMessage(parseError)}`);
+      }
+      if (!parsed.length) {
+        throw badRequest('No feeds found in the file');
+      }
+
+      const entries = await classifyImportEntries(parsed);
+      const summary = {
+        total: entries.length,
+        new: entries.filter((entry) => entry.status === 'new').length,
+        duplicates: entries.filter((entry) => entry.status === 'duplicate').length,
+        invalid: entries.filter((entry) => entry.status === 'invalid').length,
+        truncated: entries.length >= MAX_IMPORT_ENTRIES
+      };
+
+      if (dryRun) {
+        if (detect) await detectImportTypes(entries);
+        return res.json({ dry_run: true, format, summary, entries });
+      }
+
+      const selectedTypes = selected ? new Map(selected.map((item) => [normalizeUrl(item.url), item.type])) : null;
+      const rows = entries
+        .filter((entry) => entry.status === 'new' && (!selectedTypes || selectedTypes.has(normalizeUrl(entry.url))))
+        .map((entry) => {
+          const type = selectedTypes?.get(normalizeUrl(entry.url)) || entry.type;
+          return {
+            name: entry.name.slice(0, 255),
+            url: entry.url,
+            folder: entry.folder,
+            active: true,
+            ...(type ? { type } : {}),
+            ...(entry.priority !== undefined ? { priority: Math.max(-100, Math.min(100, entry.priority)) } : {}),
+            ...(entry.fetch_full_article !== undefined ? { fetch_full_article: entry.fetch_full_article } : {}),
+            ...(entry.parse_config ? { parse_config: entry.parse_config } : {}),
+            ...(entry.cleaning ? { cleaning: entry.cleaning } : {}),
+            ...(entry.field_mappings ? { field_mappings: entry.field_mappings } : {})
+          };
+        });
+
+      let imported: Record<string, unknown>[] = [];
+      if (rows.length) {
+        const { data, error } = await getDb().from('feeds').insert(rows).select();
+        if (error) throw error;
+        imported = data || [];
+        refreshSchedulers(req.app.locals.whatsapp);
+      }
+
+      res.json({ dry_run: false, format, summary, imported: imported.map(toFeedResponse) });
+    } catch (error) {
+      console.error('Error importing feeds:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  router.get('/export.opml', async (_req: Request, res: Response) => {
     try {
       const { data: feeds, error } = await getDb()
+        .from('feeds')
+        .select('name,url,type,folder,priority,fetch_full_article,parse_config,cleaning,field_mappings')
+        .order('folder', { ascending: true, nullsFirst: true })
+        .order('name', { ascending: true });
+      if (error) throw error;
+
+      res.type('text/x-opml').attachment('feeds.opml').send(buildOpmlExport(feeds || []));
+    } catch (error) {
+      console.error('Error exporting feeds:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const supabase = getDb();
+      const { data: feeds, error } = await supabase
         .from('feeds')
         .select('*')
         .order('created_at', { ascending: false });
       
       if (error) throw error;
-      res.json(feeds);
+
+      const { data: schedules, error: schedulesError } = await supabase
+        .from('schedules')
+        .select('feed_id,active,state')
+        .not('feed_id', 'is', null);
+      if (schedulesError) throw schedulesError;
+
+      const polledFeedIds = new Set<string>(
+        (schedules || [])
+          .filter((schedule: { state?: string | null; active?: boolean | null }) => isScheduleRunning(schedule))
+          .map((schedule: { feed_id?: string | null }) => String(schedule.feed_id || ''))
+          .filter(Boolean)
+      );
+      res.json((feeds || []).map((feed: Record<string, unknown>) => toFeedResponse(withEffectiveNextPoll(feed, polledFeedIds))));
     } catch (error) {
       console.error('Error fetching feeds:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -194,6 +504,7 @@ const feedsRoutes = () => {
       if (typeof payload.active !== 'boolean') {
         payload.active = true;
       }
+      applyRequestAuthPayload(payload);
       const { data: feed, error } = await getDb()
         .from('feeds')
         .insert(payload)
@@ -202,7 +513,7 @@ const feedsRoutes = () => {
       
       if (error) throw error;
       refreshSchedulers(req.app.locals.whatsapp);
-      res.json(feed);
+      res.json(toFeedResponse(feed));
     } catch (error) {
       console.error('Error creating feed:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -212,17 +523,21 @@ const feedsRoutes = () => {
   router.put('/:id', validate(schemas.feed), async (req: Request, res: Response) => {
     try {
       const supabase = getDb();
-      const payload = { ...req.body } as Record<string, unknown>;
-      if (typeof payload.active !== 'boolean') {
+      // Clear any pending poll plan so the edited feed is fetched on the next scheduler refresh.
+      const payload = { ...req.body, next_poll_at: null } as Record<string, unknown>;
+      if (typeof payload.active !== 'boolean' || payload.request_auth !== undefined || payload.url !== undefined) {
         const { data: currentFeed, error: currentFeedError } = await supabase
           .from('feeds')
-          .select('id,active')
+          .select('id,url,active,request_auth_encrypted')
           .eq('id', req.params.id)
           .single();
         if (currentFeedError || !currentFeed) {
           throw currentFeedError || new Error('Feed not found');
         }
-        payload.active = Boolean((currentFeed as { active?: boolean }).active);
+        if (typeof payload.active !== 'boolean') {
+          payload.active = Boolean((currentFeed as { active?: boolean }).active);
+        }
+        applyRequestAuthPayload(payload, currentFeed as { url?: string; request_auth_encrypted?: string | null });
       }
 
       const { data: feed, error } = await getDb()
@@ -252,7 +567,7 @@ const feedsRoutes = () => {
 
       refreshSchedulers(req.app.locals.whatsapp);
       res.json({
-        ...feed,
+        ...toFeedResponse(feed),
         paused_queue_items: pausedQueueItems,
         paused_automations: pausedAutomations
       });
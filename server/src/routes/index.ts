@@ -16,6 +16,8 @@ const shabbosRoutes = require('./shabbos');
 const queueRoutes = require('./queue');
 const analyticsRoutes = require('./analytics');
 const manualRoutes = require('./manual');
+const websubRoutes = require('./websub');
+const shortLinkRoutes = require('./shortLinks');
 
 const registerRoutes = (app: Express) => {
   const router = express.Router();
@@ -50,6 +52,8 @@ const registerRoutes = (app: Express) => {
   router.use('/api/queue', apiRateLimit, queueRoutes());
   router.use('/api/analytics', apiRateLimit, analyticsRoutes());
   router.use('/api/manual', apiRateLimit, manualRoutes());
+  router.use('/api/websub', apiRateLimit, websubRoutes());
+  router.use('/r', apiRateLimit, shortLinkRoutes());
 
   app.use(router);
 };
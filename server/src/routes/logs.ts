@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 const express = require('express');
 const { getSupabaseClient } = require('../db/supabase');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
+const { getClickCountsByLogId } = require('../services/linkTrackingService');
 
 const SUCCESSFUL_SEND_STATUSES = ['sent', 'delivered', 'read', 'played'];
 
@@ -43,7 +44,11 @@ const logRoutes = () => {
       const { data: logs, error } = await query;
       
       if (error) throw error;
-      res.json(logs);
+      const clickCounts = await getClickCountsByLogId(
+        supabase,
+        (logs || []).map((log: { id: string }) => String(log.id))
+      );
+      res.json((logs || []).map((log: { id: string }) => ({ ...log, click_count: clickCounts.get(String(log.id)) || 0 })));
     } catch (error) {
       console.error('Error fetching logs:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
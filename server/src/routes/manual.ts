@@ -1,11 +1,17 @@
 import type { Request, Response } from 'express';
 const express = require('express');
 const { getSupabaseClient } = require('../db/supabase');
-const { serviceUnavailable } = require('../core/errors');
+const { badRequest, serviceUnavailable } = require('../core/errors');
 const { validate, schemas } = require('../middleware/validation');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
-const { encodeManualMessageContent } = require('../utils/manualMeta');
+const { buildManualLogFields } = require('../utils/manualMeta');
 const { sendQueueLogNow } = require('../services/queueService');
+const { resolveZonedTime } = require('../utils/zonedTime');
+const {
+  getMessageDestination,
+  getRichMessageRestriction,
+  readRichMessageInput
+} = require('../utils/richMessage');
 
 type ManualPostBody = {
   target_id?: string | null;
@@ -13,8 +19,16 @@ type ManualPostBody = {
   message?: string | null;
   imageUrl?: string | null;
   videoUrl?: string | null;
+  documentUrl?: string | null;
+  documentName?: string | null;
+  audioUrl?: string | null;
+  voiceNote?: boolean;
+  poll?: { question: string; options: string[]; multiSelect?: boolean } | null;
+  location?: { latitude: number; longitude: number; name?: string | null; address?: string | null } | null;
   disableLinkPreview?: boolean;
   includeCaption?: boolean;
+  scheduledFor?: string | null;
+  timezone?: string | null;
 };
 
 const manualRoutes = () => {
@@ -35,16 +49,35 @@ const manualRoutes = () => {
     return Array.from(new Set(combined));
   };
 
-  const buildMediaFields = (body: ManualPostBody) => {
-    const imageUrl = String(body.imageUrl || '').trim();
-    const videoUrl = String(body.videoUrl || '').trim();
-    if (videoUrl) {
-      return { media_url: videoUrl, media_type: 'video' as const };
+  // Reject up front what a target cannot show (e.g. documents in a channel) instead of failing at send time.
+  const assertTargetsSupport = async (
+    supabase: ReturnType<typeof getSupabaseClient>,
+    targetIds: string[],
+    richMessage: ReturnType<typeof readRichMessageInput>
+  ) => {
+    if (!richMessage) return;
+    const { data, error } = await supabase.from('targets').select('id,name,type,phone_number').in('id', targetIds);
+    if (error) throw error;
+    for (const target of (data || []) as Array<{ name?: string | null; type?: string | null; phone_number?: string | null }>) {
+      const restriction = getRichMessageRestriction(richMessage, getMessageDestination(target));
+      if (restriction) {
+        throw badRequest(`${target.name || target.phone_number}: ${restriction}`);
+      }
     }
-    if (imageUrl) {
-      return { media_url: imageUrl, media_type: 'image' as const };
+  };
+
+  // Scheduled posts stay pending until the dispatcher finds them due.
+  const readScheduledFor = (body: ManualPostBody) => {
+    if (!body.scheduledFor) return { scheduled_for: null, scheduled_timezone: null };
+    const timezone = String(body.timezone || '').trim() || 'UTC';
+    const scheduledFor = resolveZonedTime(body.scheduledFor, timezone);
+    if (!scheduledFor) {
+      throw badRequest('scheduledFor must be a date and time like "2026-10-22T18:00"');
     }
-    return { media_url: null, media_type: null };
+    if (scheduledFor.getTime() <= Date.now()) {
+      throw badRequest('scheduledFor must be in the future');
+    }
+    return { scheduled_for: scheduledFor.toISOString(), scheduled_timezone: timezone };
   };
 
   const insertManualLogs = async (supabase: ReturnType<typeof getSupabaseClient>, body: ManualPostBody) => {
@@ -53,11 +86,11 @@ const manualRoutes = () => {
       throw new Error('target_id or target_ids is required');
     }
 
-    const messageRaw = typeof body.message === 'string' ? body.message : null;
-    const media = buildMediaFields(body);
-    const disableLinkPreview = body.disableLinkPreview === true;
-    const includeCaption = body.includeCaption !== false;
-    const message = encodeManualMessageContent(messageRaw, { disableLinkPreview, includeCaption });
+    const scheduling = readScheduledFor(body);
+    const richMessage = readRichMessageInput(body);
+    await assertTargetsSupport(supabase, targetIds, richMessage);
+
+    const content = buildManualLogFields(body);
 
     const rows = targetIds.map((targetId) => ({
       schedule_id: null,
@@ -65,24 +98,30 @@ const manualRoutes = () => {
       target_id: targetId,
       template_id: null,
       status: 'pending',
-      message_content: message,
       error_message: null,
       retry_count: 0,
       processing_started_at: null,
       sent_at: null,
       whatsapp_message_id: null,
-      ...media,
+      ...content,
       media_sent: false,
-      media_error: null
+      media_error: null,
+      ...scheduling
     }));
 
     const { data: inserted, error } = await supabase
       .from('message_logs')
       .insert(rows)
-      .select('id,target_id,status,created_at');
+      .select('id,target_id,status,created_at,scheduled_for');
 
     if (error) throw error;
-    return (inserted || []) as Array<{ id: string; target_id: string; status: string; created_at: string }>;
+    return (inserted || []) as Array<{
+      id: string;
+      target_id: string;
+      status: string;
+      created_at: string;
+      scheduled_for: string | null;
+    }>;
   };
 
   router.post('/queue', validate(schemas.manualPost), async (req: Request, res: Response) => {
@@ -100,6 +139,9 @@ const manualRoutes = () => {
     try {
       const supabase = getDb();
       const body = req.body as ManualPostBody;
+      if (body.scheduledFor) {
+        throw badRequest('Scheduled posts are queued, not sent now; use /api/manual/queue');
+      }
       const inserted = await insertManualLogs(supabase, body);
 
       const whatsappClient = req.app.locals.whatsapp as unknown;
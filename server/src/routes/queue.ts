@@ -4,10 +4,14 @@ const { getSupabaseClient } = require('../db/supabase');
 const { resetStuckProcessingLogs } = require('../services/retentionService');
 const { sendQueueLogNow } = require('../services/queueService');
 const settingsService = require('../services/settingsService');
-const { serviceUnavailable } = require('../core/errors');
+const { badRequest, serviceUnavailable } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
 const { normalizeMessageText } = require('../utils/messageText');
 const { stripManualMeta } = require('../utils/manualMeta');
+const { getRequestActor } = require('../utils/requestActor');
+const { getClickCountsByLogId } = require('../services/linkTrackingService');
+const { MAX_CALENDAR_DAYS, getSendCalendar } = require('../services/sendCalendarService');
+const { resolveZonedTime } = require('../utils/zonedTime');
 
 const WHATSAPP_IN_PLACE_EDIT_MAX_MINUTES = 15;
 const SUCCESSFUL_SEND_STATUSES = new Set(['sent', 'delivered', 'read', 'played']);
@@ -41,20 +45,6 @@ const canEditSentInPlace = (sentAt: unknown, windowMinutes: number) => {
   return ageMs <= windowMinutes * 60 * 1000;
 };
 
-const readBasicAuthUser = (req: Request) => {
-  const header = String(req.headers.authorization || '');
-  if (!header.startsWith('Basic ')) return null;
-  try {
-    const raw = Buffer.from(header.slice(6), 'base64').toString('utf8');
-    const idx = raw.indexOf(':');
-    const user = idx >= 0 ? raw.slice(0, idx) : raw;
-    const cleaned = String(user || '').trim();
-    return cleaned || null;
-  } catch {
-    return null;
-  }
-};
-
 const queueRoutes = () => {
   const router = express.Router();
 
@@ -119,6 +109,10 @@ const queueRoutes = () => {
           read_at,
           played_at,
           created_at,
+          scheduled_for,
+          scheduled_timezone,
+          held_until,
+          hold_reason,
           schedule:schedules (
             id,
             name,
@@ -167,6 +161,13 @@ const queueRoutes = () => {
 
       if (error) throw error;
 
+      const clickCounts = await getClickCountsByLogId(
+        supabase,
+        (rows || [])
+          .filter((row: Record<string, unknown>) => isSuccessfulSendStatus(row.status))
+          .map((row: Record<string, unknown>) => String(row.id))
+      );
+
       const items = (rows || []).map((row: Record<string, unknown>) => {
         const feedItems = row.feed_items as {
           title?: string;
@@ -187,8 +188,10 @@ const queueRoutes = () => {
         } | undefined;
         const target = row.target as { id?: string; name?: string; type?: string } | undefined;
         const isManual = row.schedule_id == null;
+        // Manual posts and announcements store their own body rather than a rendered feed item.
+        const hasOwnContent = isManual || row.feed_item_id == null;
         const rawMessageContent = typeof row.message_content === 'string' ? String(row.message_content) : '';
-        const displayMessageContent = String(isManual ? stripManualMeta(rawMessageContent) : rawMessageContent).trim();
+        const displayMessageContent = String(hasOwnContent ? stripManualMeta(rawMessageContent) : rawMessageContent).trim();
         const manualTitleCandidate = displayMessageContent
           ? (displayMessageContent.split('\n').find((line) => String(line || '').trim()) || '').trim()
           : '';
@@ -209,7 +212,7 @@ const queueRoutes = () => {
           image_url: feedItems?.image_url || null,
           pub_date: feedItems?.pub_date || null,
           pub_precision: rawData ? String(rawData.published_precision || '') || null : null,
-          rendered_content: isManual ? displayMessageContent : row.message_content,
+          rendered_content: hasOwnContent ? displayMessageContent : row.message_content,
           status: row.status,
           error_message: row.error_message,
           media_url: row.media_url || null,
@@ -225,7 +228,12 @@ const queueRoutes = () => {
           played_at: row.played_at || null,
           created_at: row.created_at,
           is_manual: isManual,
-          scheduled_for: null
+          scheduled_for: row.scheduled_for || null,
+          scheduled_timezone: row.scheduled_timezone || null,
+          // Only a pending item is still waiting on its target's delivery window.
+          held_until: row.status === 'pending' ? row.held_until || null : null,
+          hold_reason: row.status === 'pending' ? row.hold_reason || null : null,
+          click_count: clickCounts.get(String(row.id)) || 0
         };
       });
 
@@ -381,13 +389,32 @@ const queueRoutes = () => {
     }
   });
 
+  // Upcoming manual and batch sends per target, for the calendar view
+  router.get('/calendar', async (req: Request, res: Response) => {
+    try {
+      const supabase = getDb();
+      const fromRaw = typeof req.query.from === 'string' ? Date.parse(req.query.from) : Date.now();
+      if (!Number.isFinite(fromRaw)) throw badRequest('from must be an ISO date');
+      const toRaw = typeof req.query.to === 'string' ? Date.parse(req.query.to) : fromRaw + 7 * 24 * 60 * 60 * 1000;
+      if (!Number.isFinite(toRaw) || toRaw <= fromRaw) throw badRequest('to must be an ISO date after from');
+      const to = Math.min(toRaw, fromRaw + MAX_CALENDAR_DAYS * 24 * 60 * 60 * 1000);
+      const targetId = typeof req.query.target_id === 'string' ? req.query.target_id : null;
+
+      const entries = await getSendCalendar(supabase, { from: new Date(fromRaw), to: new Date(to), targetId });
+      res.json({ from: new Date(fromRaw).toISOString(), to: new Date(to).toISOString(), entries });
+    } catch (error) {
+      console.error('Error fetching send calendar:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
   // Delete a queue item
   router.patch('/:id', async (req: Request, res: Response) => {
     try {
       const supabase = getDb();
       const { data: current, error: currentError } = await supabase
         .from('message_logs')
-        .select('id,status,target_id,whatsapp_message_id,sent_at,approved_at,schedule_id')
+        .select('id,status,target_id,whatsapp_message_id,sent_at,approved_at,schedule_id,scheduled_timezone')
         .eq('id', req.params.id)
         .single();
 
@@ -400,7 +427,12 @@ const queueRoutes = () => {
         return res.status(400).json({ error: `Cannot edit queue item with status "${currentStatus}"` });
       }
 
-      const body = req.body as { message_content?: unknown; status?: unknown };
+      const body = req.body as {
+        message_content?: unknown;
+        status?: unknown;
+        scheduled_for?: unknown;
+        scheduled_timezone?: unknown;
+      };
       const patch: Record<string, unknown> = {};
       let normalizedMessageContent: string | null = null;
 
@@ -427,7 +459,34 @@ const queueRoutes = () => {
         if (currentStatus === 'awaiting_approval' && status === 'pending') {
           // Treat status patch as an implicit approval so the audit columns remain consistent.
           patch.approved_at = new Date().toISOString();
-          patch.approved_by = readBasicAuthUser(req) || process.env.BASIC_AUTH_USER || 'unknown';
+          patch.approved_by = getRequestActor(req);
+        }
+      }
+
+      // Rescheduling (or unscheduling with null) applies to manual posts only; batches follow their schedule.
+      if (Object.prototype.hasOwnProperty.call(body, 'scheduled_for')) {
+        if ((current as { schedule_id?: string | null }).schedule_id) {
+          return res.status(400).json({ error: 'Only manual posts can be rescheduled' });
+        }
+        if (isSuccessfulSendStatus(currentStatus)) {
+          return res.status(400).json({ error: 'Cannot reschedule a sent message' });
+        }
+        if (body.scheduled_for === null || body.scheduled_for === '') {
+          patch.scheduled_for = null;
+          patch.scheduled_timezone = null;
+        } else {
+          const timezone =
+            String(body.scheduled_timezone || (current as { scheduled_timezone?: string | null }).scheduled_timezone || '').trim() ||
+            'UTC';
+          const scheduledFor = resolveZonedTime(body.scheduled_for, timezone);
+          if (!scheduledFor) {
+            return res.status(400).json({ error: 'scheduled_for must be a date and time in a valid timezone' });
+          }
+          if (scheduledFor.getTime() <= Date.now()) {
+            return res.status(400).json({ error: 'scheduled_for must be in the future' });
+          }
+          patch.scheduled_for = scheduledFor.toISOString();
+          patch.scheduled_timezone = timezone;
         }
       }
 
@@ -539,7 +598,7 @@ const queueRoutes = () => {
         return res.status(400).json({ error: `Queue item is not awaiting approval (status=${currentStatus || 'unknown'})` });
       }
 
-      const actor = readBasicAuthUser(req) || process.env.BASIC_AUTH_USER || 'unknown';
+      const actor = getRequestActor(req);
       const nowIso = new Date().toISOString();
       const { data: updated, error } = await supabase
         .from('message_logs')
@@ -5,8 +5,12 @@ const { sendQueuedForSchedule, queueLatestForSchedule } = require('../services/q
 const { initSchedulers } = require('../services/schedulerService');
 const { getScheduleDiagnostics } = require('../services/diagnosticsService');
 const { applyScheduleStatePayload, isScheduleRunning, resolveScheduleState } = require('../services/scheduleState');
+const { evaluateFilterRules, FILTER_ITEM_COLUMNS } = require('../services/contentFilterService');
+const { validateDigestConfig } = require('../services/digestService');
+const { isAnnouncementSchedule, computeNextAnnouncementRun } = require('../services/announcementService');
+const { getMessageDestination, getRichMessageRestriction, readRichMessageInput } = require('../utils/richMessage');
 const { validate, schemas } = require('../middleware/validation');
-const { serviceUnavailable } = require('../core/errors');
+const { badRequest, serviceUnavailable } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
 
 const scheduleRoutes = () => {
@@ -58,13 +62,95 @@ const scheduleRoutes = () => {
     next.state = state.state;
     next.active = state.active;
 
+    if (next.filter_rules !== undefined) {
+      const groups = (next.filter_rules as { groups?: unknown[] } | null)?.groups;
+      next.filter_rules = Array.isArray(groups) && groups.length ? next.filter_rules : null;
+    }
+
+    // Only keep overrides for targets on this schedule that differ from its template.
+    if (next.target_template_overrides !== undefined) {
+      const targetIds = new Set(Array.isArray(next.target_ids) ? next.target_ids.map(String) : []);
+      next.target_template_overrides = Object.fromEntries(
+        Object.entries((next.target_template_overrides as Record<string, string> | null) || {}).filter(
+          ([targetId, templateId]) => targetIds.has(targetId) && templateId !== next.template_id
+        )
+      );
+    }
+
     if (options?.forInsert && mode === 'batched') {
       next.last_queued_at = new Date().toISOString();
     }
 
+    // Announcements carry their own content and timing; feed-only settings do not apply.
+    if (isAnnouncementSchedule(next)) {
+      next.feed_id = null;
+      next.template_id = null;
+      next.target_template_overrides = {};
+      next.filter_rules = null;
+      next.cron_expression = null;
+      next.delivery_mode = 'immediate';
+      next.next_run_at = state.active ? computeNextAnnouncementRun(next as never) : null;
+    } else {
+      next.kind = 'feed';
+      next.announcement = null;
+      next.recurrence = null;
+    }
+
     return next;
   };
 
+  // Reject up front what a target cannot show (e.g. a poll in a channel) instead of failing at each occurrence.
+  const assertAnnouncementTargetsSupport = async (
+    supabase: ReturnType<typeof getSupabaseClient>,
+    payload: Record<string, unknown>
+  ) => {
+    const richMessage = readRichMessageInput(payload.announcement || {});
+    const targetIds = Array.isArray(payload.target_ids) ? payload.target_ids : [];
+    if (!richMessage || !targetIds.length) return;
+    const { data, error } = await supabase.from('targets').select('id,name,type,phone_number').in('id', targetIds);
+    if (error) throw error;
+    for (const target of (data || []) as Array<{ name?: string | null; type?: string | null; phone_number?: string | null }>) {
+      const restriction = getRichMessageRestriction(richMessage, getMessageDestination(target));
+      if (restriction) {
+        throw badRequest(`${target.name || target.phone_number}: ${restriction}`);
+      }
+    }
+  };
+
+  // Feed automations cannot run while their feed is disabled, so they are saved paused.
+  const applyFeedAvailability = async (
+    supabase: ReturnType<typeof getSupabaseClient>,
+    payload: Record<string, unknown>
+  ) => {
+    const { data: feed, error: feedError } = await supabase
+      .from('feeds')
+      .select('id,active')
+      .eq('id', payload.feed_id)
+      .single();
+
+    if (feedError || !feed) {
+      throw badRequest('Feed not found for this automation');
+    }
+
+    if (feed.active === false && payload.active === true) {
+      payload.state = 'paused';
+      payload.active = false;
+      payload.next_run_at = null;
+      return 'Feed is disabled, so this automation was saved as paused.';
+    }
+    return null;
+  };
+
+  const sendDigestSyntaxError = (res: Response, digestConfig: unknown) => {
+    const [first, ...rest] = validateDigestConfig(digestConfig);
+    if (!first) return false;
+    res.status(400).json({
+      error: `Digest ${first.field.replace('_', ' ')} syntax error at line ${first.line}, column ${first.column}: ${first.message}`,
+      errors: [first, ...rest]
+    });
+    return true;
+  };
+
   const dispatchImmediate = (scheduleId: string, whatsappClient: unknown) =>
     runAsync(`Dispatch schedule ${scheduleId}`, async () => {
       await sendQueuedForSchedule(scheduleId, whatsappClient as never);
@@ -124,24 +210,14 @@ const scheduleRoutes = () => {
 
   router.post('/', validate(schemas.schedule), async (req: Request, res: Response) => {
     try {
+      if (sendDigestSyntaxError(res, req.body.digest_config)) return;
       const supabase = getDb();
       const payload = normalizeSchedulePayload(req.body, { forInsert: true });
-      const { data: feed, error: feedError } = await supabase
-        .from('feeds')
-        .select('id,active')
-        .eq('id', payload.feed_id)
-        .single();
-
-      if (feedError || !feed) {
-        return res.status(400).json({ error: 'Feed not found for this automation' });
-      }
-
       let feedInactiveWarning: string | null = null;
-      if (feed.active === false && payload.active === true) {
-        payload.state = 'paused';
-        payload.active = false;
-        payload.next_run_at = null;
-        feedInactiveWarning = 'Feed is disabled, so this automation was saved as paused.';
+      if (isAnnouncementSchedule(payload)) {
+        await assertAnnouncementTargetsSupport(supabase, payload);
+      } else {
+        feedInactiveWarning = await applyFeedAvailability(supabase, payload);
       }
 
       const { data: schedule, error } = await getDb()
@@ -153,15 +229,17 @@ const scheduleRoutes = () => {
       if (error) throw error;
       refreshSchedulers(req.app.locals.whatsapp);
 
-      // For immediate schedules, queue+send once so the system shows activity
+      // For immediate schedules, queue+send once so the system shows activity.
+      // Announcements wait for the scheduler to reach their first occurrence.
+      const feedRunning = isScheduleRunning(schedule) && !isAnnouncementSchedule(schedule);
       if (
-        isScheduleRunning(schedule) &&
+        feedRunning &&
         !schedule?.cron_expression &&
         schedule?.delivery_mode !== 'batched' &&
         schedule?.delivery_mode !== 'batch'
       ) {
         dispatchImmediate(schedule.id, req.app.locals.whatsapp);
-      } else if (isScheduleRunning(schedule)) {
+      } else if (feedRunning) {
         // Scheduled/batch automations should still show pending queue rows right away.
         primeQueue(schedule.id);
       }
@@ -177,8 +255,46 @@ const scheduleRoutes = () => {
     }
   });
 
+  // Dry run filter rules against the most recent items of a feed without touching the queue.
+  router.post('/filter-preview', validate(schemas.scheduleFilterPreview), async (req: Request, res: Response) => {
+    try {
+      const { data: items, error } = await getDb()
+        .from('feed_items')
+        .select(`id,pub_date,created_at,${FILTER_ITEM_COLUMNS}`)
+        .eq('feed_id', req.body.feed_id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      const results = ((items || []) as Array<Record<string, unknown>>).map((item) => {
+        const result = evaluateFilterRules(req.body.filter_rules, item);
+        return {
+          id: item.id,
+          title: item.title || null,
+          link: item.link || null,
+          pub_date: item.pub_date || null,
+          allowed: result.allowed,
+          reason: result.reason
+        };
+      });
+
+      const allowedCount = results.filter((entry) => entry.allowed).length;
+      res.json({
+        total: results.length,
+        allowed: allowedCount,
+        filtered: results.length - allowedCount,
+        items: results
+      });
+    } catch (error) {
+      console.error('Error previewing schedule filters:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
   router.put('/:id', validate(schemas.schedule), async (req: Request, res: Response) => {
     try {
+      if (sendDigestSyntaxError(res, req.body.digest_config)) return;
       const supabase = getDb();
       const { data: currentSchedule, error: currentScheduleError } = await supabase
         .from('schedules')
@@ -194,22 +310,11 @@ const scheduleRoutes = () => {
         forInsert: false,
         fallback: currentSchedule as Record<string, unknown>
       });
-      const { data: feed, error: feedError } = await supabase
-        .from('feeds')
-        .select('id,active')
-        .eq('id', payload.feed_id)
-        .single();
-
-      if (feedError || !feed) {
-        return res.status(400).json({ error: 'Feed not found for this automation' });
-      }
-
       let feedInactiveWarning: string | null = null;
-      if (feed.active === false && payload.active === true) {
-        payload.state = 'paused';
-        payload.active = false;
-        payload.next_run_at = null;
-        feedInactiveWarning = 'Feed is disabled, so this automation was saved as paused.';
+      if (isAnnouncementSchedule(payload)) {
+        await assertAnnouncementTargetsSupport(supabase, payload);
+      } else {
+        feedInactiveWarning = await applyFeedAvailability(supabase, payload);
       }
 
       const { data: schedule, error } = await supabase
@@ -241,14 +346,15 @@ const scheduleRoutes = () => {
 
       refreshSchedulers(req.app.locals.whatsapp);
 
+      const feedRunning = isScheduleRunning(schedule) && !isAnnouncementSchedule(schedule);
       if (
-        isScheduleRunning(schedule) &&
+        feedRunning &&
         !schedule?.cron_expression &&
         schedule?.delivery_mode !== 'batched' &&
         schedule?.delivery_mode !== 'batch'
       ) {
         dispatchImmediate(schedule.id, req.app.locals.whatsapp);
-      } else if (isScheduleRunning(schedule)) {
+      } else if (feedRunning) {
         primeQueue(schedule.id);
       }
       res.json({
@@ -288,7 +394,15 @@ const scheduleRoutes = () => {
         return res.status(404).json({ error: 'Schedule not found' });
       }
 
-      if (requestedState === 'active') {
+      const isAnnouncement = isAnnouncementSchedule(currentSchedule);
+      if (requestedState === 'active' && isAnnouncement) {
+        const hasTargets = Array.isArray(currentSchedule.target_ids) && currentSchedule.target_ids.length > 0;
+        if (!currentSchedule.announcement || !currentSchedule.recurrence || !hasTargets) {
+          return res.status(400).json({
+            error: 'Announcement is missing its message, recurrence, or targets. Open Edit and save once.'
+          });
+        }
+      } else if (requestedState === 'active') {
         const hasFeed = Boolean(currentSchedule.feed_id);
         const hasTemplate = Boolean(currentSchedule.template_id);
         const hasTargets = Array.isArray(currentSchedule.target_ids) && currentSchedule.target_ids.length > 0;
@@ -310,6 +424,9 @@ const scheduleRoutes = () => {
       };
       if (nextState.state !== 'active') {
         updatePayload.next_run_at = null;
+      } else if (isAnnouncement) {
+        // Occurrences that passed while paused are not sent; resume from the next one.
+        updatePayload.next_run_at = computeNextAnnouncementRun(currentSchedule);
       }
 
       let warning: string | null = null;
@@ -359,14 +476,15 @@ const scheduleRoutes = () => {
       }
 
       refreshSchedulers(req.app.locals.whatsapp);
+      const feedRunning = isScheduleRunning(schedule) && !isAnnouncement;
       if (
-        isScheduleRunning(schedule) &&
+        feedRunning &&
         !schedule?.cron_expression &&
         schedule?.delivery_mode !== 'batched' &&
         schedule?.delivery_mode !== 'batch'
       ) {
         dispatchImmediate(schedule.id, req.app.locals.whatsapp);
-      } else if (isScheduleRunning(schedule)) {
+      } else if (feedRunning) {
         primeQueue(schedule.id);
       }
 
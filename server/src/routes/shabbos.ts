@@ -1,9 +1,48 @@
 import type { Request, Response } from 'express';
 const express = require('express');
-const { isCurrentlyShabbos, getUpcomingShabbos, DEFAULT_LOCATION } = require('../services/shabbosService');
+const { isCurrentlyShabbos, getUpcomingShabbos, readShabbosPolicy, DEFAULT_LOCATION } = require('../services/shabbosService');
 const settingsService = require('../services/settingsService');
+const { isIsraelLocation, normalizeShabbosLocation } = require('../utils/shabbosCalendar');
+const { badRequest } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
 
+const MAX_ADDITIONAL_LOCATIONS = 10;
+
+// Extra locations must all be usable; a bad one is rejected rather than silently ignored.
+const readAdditionalLocations = (value: unknown) => {
+  if (value == null) return [];
+  if (!Array.isArray(value)) throw badRequest('additionalLocations must be an array');
+  if (value.length > MAX_ADDITIONAL_LOCATIONS) {
+    throw badRequest(`At most ${MAX_ADDITIONAL_LOCATIONS} additional locations are supported`);
+  }
+  return value.map((entry, index) => {
+    const location = normalizeShabbosLocation(entry);
+    if (!location) throw badRequest(`Additional location ${index + 1} needs a latitude, longitude and valid timezone`);
+    return location;
+  });
+};
+
+const toFlatSettings = (shabbosMode: Record<string, unknown> & { location?: Record<string, unknown> | null }) => {
+  const loc = shabbosMode.location || DEFAULT_LOCATION;
+  return {
+    enabled: shabbosMode.enabled ?? false,
+    city: loc.city || 'New York',
+    latitude: loc.latitude ?? 40.7128,
+    longitude: loc.longitude ?? -74.006,
+    tzid: loc.tzid || 'America/New_York',
+    // null = decided by timezone; israelCalendar is the effective choice.
+    israel: typeof loc.israel === 'boolean' ? loc.israel : null,
+    israelCalendar: isIsraelLocation(loc),
+    additionalLocations: Array.isArray(shabbosMode.additionalLocations) ? shabbosMode.additionalLocations : [],
+    candleLightingMins: shabbosMode.candleLightingMins ?? 18,
+    havdalahMins: shabbosMode.havdalahMins ?? 50,
+    queueMessages: shabbosMode.queueMessages !== false,
+    policy: readShabbosPolicy(shabbosMode.policy) || 'hold',
+    failClosed: shabbosMode.failClosed !== false,
+    hebcalCrossCheck: shabbosMode.hebcalCrossCheck === true
+  };
+};
+
 const shabbosRoutes = () => {
   const router = express.Router();
 
@@ -33,17 +72,7 @@ const shabbosRoutes = () => {
   router.get('/settings', async (_req: Request, res: Response) => {
     try {
       const settings = await settingsService.getSettings();
-      const loc = settings.shabbosMode?.location || DEFAULT_LOCATION;
-      res.json({
-        enabled: settings.shabbosMode?.enabled ?? false,
-        city: loc.city || 'New York',
-        latitude: loc.latitude ?? 40.7128,
-        longitude: loc.longitude ?? -74.006,
-        tzid: loc.tzid || 'America/New_York',
-        candleLightingMins: settings.shabbosMode?.candleLightingMins ?? 18,
-        havdalahMins: settings.shabbosMode?.havdalahMins ?? 50,
-        queueMessages: settings.shabbosMode?.queueMessages !== false
-      });
+      res.json(toFlatSettings(settings.shabbosMode || {}));
     } catch (error) {
       console.error('Error getting Shabbos settings:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -60,11 +89,20 @@ const shabbosRoutes = () => {
         latitude,
         longitude,
         tzid,
+        israel,
+        additionalLocations,
         candleLightingMins,
         havdalahMins,
-        queueMessages
+        queueMessages,
+        policy,
+        failClosed,
+        hebcalCrossCheck
       } = req.body;
 
+      if (policy !== undefined && !readShabbosPolicy(policy)) {
+        throw badRequest('policy must be hold, drop or digest');
+      }
+
       const currentSettings = await settingsService.getSettings();
       const currentLoc = currentSettings.shabbosMode?.location || DEFAULT_LOCATION;
 
@@ -77,7 +115,18 @@ const shabbosRoutes = () => {
               longitude: longitude ?? currentLoc.longitude,
               tzid: tzid ?? currentLoc.tzid
             }
-          : currentLoc);
+          : { ...currentLoc });
+      // Moving to another timezone re-derives Israel vs diaspora unless it is set explicitly.
+      if (typeof israel === 'boolean') {
+        newLocation.israel = israel;
+      } else if (israel === null || (tzid && tzid !== currentLoc.tzid)) {
+        delete newLocation.israel;
+      } else if (typeof currentLoc.israel === 'boolean' && !location) {
+        newLocation.israel = currentLoc.israel;
+      }
+      if (!normalizeShabbosLocation(newLocation)) {
+        throw badRequest('Location needs a latitude, longitude and valid timezone');
+      }
 
       const updatedShabbosMode = {
         ...currentSettings.shabbosMode,
@@ -87,22 +136,20 @@ const shabbosRoutes = () => {
           candleLightingMins !== undefined ? candleLightingMins : currentSettings.shabbosMode?.candleLightingMins ?? 18,
         havdalahMins:
           havdalahMins !== undefined ? havdalahMins : currentSettings.shabbosMode?.havdalahMins ?? 50,
-        queueMessages: queueMessages !== undefined ? queueMessages : currentSettings.shabbosMode?.queueMessages
+        queueMessages: queueMessages !== undefined ? queueMessages : currentSettings.shabbosMode?.queueMessages,
+        additionalLocations:
+          additionalLocations !== undefined
+            ? readAdditionalLocations(additionalLocations)
+            : currentSettings.shabbosMode?.additionalLocations ?? [],
+        policy: policy !== undefined ? policy : readShabbosPolicy(currentSettings.shabbosMode?.policy) || 'hold',
+        failClosed: failClosed !== undefined ? failClosed !== false : currentSettings.shabbosMode?.failClosed !== false,
+        hebcalCrossCheck:
+          hebcalCrossCheck !== undefined ? hebcalCrossCheck === true : currentSettings.shabbosMode?.hebcalCrossCheck === true
       };
 
       await settingsService.updateSettings({ shabbosMode: updatedShabbosMode });
 
-      const loc = updatedShabbosMode.location || DEFAULT_LOCATION;
-      res.json({
-        enabled: updatedShabbosMode.enabled,
-        city: loc.city,
-        latitude: loc.latitude,
-        longitude: loc.longitude,
-        tzid: loc.tzid,
-        candleLightingMins: updatedShabbosMode.candleLightingMins ?? 18,
-        havdalahMins: updatedShabbosMode.havdalahMins ?? 50,
-        queueMessages: updatedShabbosMode.queueMessages
-      });
+      res.json(toFlatSettings(updatedShabbosMode));
     } catch (error) {
       console.error('Error updating Shabbos settings:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
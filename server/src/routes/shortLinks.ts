@@ -0,0 +1,39 @@
+import type { Request, Response } from 'express';
+const express = require('express');
+const { getSupabaseClient } = require('../db/supabase');
+const { recordLinkClick } = require('../services/linkTrackingService');
+const logger = require('../utils/logger');
+
+// Short links are opened by message recipients, so they are public (see
+// middleware/publicProbePaths.ts) and only ever redirect to URLs this server stored.
+const shortLinkRoutes = () => {
+  const router = express.Router();
+
+  router.get('/:code', async (req: Request, res: Response) => {
+    const code = String(req.params.code || '').trim();
+    const supabase = getSupabaseClient();
+    if (!supabase || !/^[A-Za-z0-9_-]{4,32}$/.test(code)) {
+      res.status(404).type('text/plain').send('Link not found');
+      return;
+    }
+    try {
+      const result = await recordLinkClick(supabase, code, req.get('user-agent'));
+      if (!result) {
+        res.status(404).type('text/plain').send('Link not found');
+        return;
+      }
+      if (result.clickError) {
+        logger.warn({ code, error: result.clickError }, 'Failed to record short link click');
+      }
+      res.setHeader('Cache-Control', 'no-store');
+      res.redirect(302, result.url);
+    } catch (error) {
+      console.error('Error resolving short link:', error);
+      res.status(503).type('text/plain').send('Link temporarily unavailable');
+    }
+  });
+
+  return router;
+};
+
+module.exports = shortLinkRoutes;
@@ -2,7 +2,14 @@ import type { Request, Response } from 'express';
 const express = require('express');
 const { getSupabaseClient } = require('../db/supabase');
 const { validate, schemas } = require('../middleware/validation');
-const { serviceUnavailable } = require('../core/errors');
+const { previewTemplateMessage } = require('../services/queueService');
+const { validateTemplate, listTemplateVariables } = require('../utils/templateEngine');
+const { lintTemplateMessage, WHATSAPP_CAPTION_LIMIT } = require('../utils/templateLint');
+const { readLengthLimits } = require('../utils/messageLength');
+const settingsService = require('../services/settingsService');
+const { diffTemplateRevisions, recordTemplateRevision } = require('../services/templateRevisionService');
+const { getRequestActor } = require('../utils/requestActor');
+const { notFound, serviceUnavailable } = require('../core/errors');
 const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
 
 const getDb = () => {
@@ -11,25 +18,46 @@ const getDb = () => {
   return supabase;
 };
 
-// Extract variable names from template content (e.g., {{title}}, {{description}})
-function extractVariables(content: string) {
-  const regex = /\{\{\s*(\w+)\s*\}\}/g;
-  const input = String(content ?? '');
-  const variables = new Set<string>();
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(input)) !== null) {
-    if (match[1]) {
-      variables.add(match[1]);
-    }
+type TemplateVariantInput = { locale: string; content: string };
+
+const SUCCESSFUL_SEND_STATUSES = ['sent', 'delivered', 'read', 'played'];
+const MAX_LISTED_REVISIONS = 100;
+
+// Reject templates the template language cannot parse, pointing at the offending tag.
+const sendTemplateSyntaxError = (res: Response, content: unknown, variants?: TemplateVariantInput[]) => {
+  const sources = [{ label: '', content }, ...(variants || []).map((variant) => ({
+    label: ` in the "${variant.locale}" variant`,
+    content: variant.content
+  }))];
+  for (const source of sources) {
+    const errors = validateTemplate(String(source.content ?? ''));
+    if (!errors.length) continue;
+    const [first] = errors;
+    res.status(400).json({
+      error: `Template syntax error${source.label} at line ${first.line}, column ${first.column}: ${first.message}`,
+      errors
+    });
+    return true;
   }
-  return Array.from(variables);
-}
+  return false;
+};
+
+const findDuplicateLocale = (variants: TemplateVariantInput[] = []) => {
+  const seen = new Set<string>();
+  for (const variant of variants) {
+    if (seen.has(variant.locale)) return variant.locale;
+    seen.add(variant.locale);
+  }
+  return null;
+};
 
 const normalizeTemplatePayload = (payload: Record<string, unknown>) => {
   const next = { ...payload } as Record<string, unknown> & {
     send_mode?: 'image' | 'image_only' | 'link_preview' | 'text_only';
     send_images?: boolean;
   };
+  // Variants live in their own table.
+  delete next.variants;
 
   const explicitMode = next.send_mode;
 
@@ -82,6 +110,57 @@ const normalizeTemplateResponse = <T extends Record<string, unknown>>(template:
 const templateRoutes = () => {
   const router = express.Router();
 
+  const loadVariants = async (templateIds: string[]) => {
+    if (!templateIds.length) return [];
+    const { data, error } = await getDb()
+      .from('template_variants')
+      .select('id,template_id,locale,content,updated_at')
+      .in('template_id', templateIds)
+      .order('locale', { ascending: true });
+    if (error) throw error;
+    return (data || []) as Array<{ template_id: string; locale: string; content: string }>;
+  };
+
+  // Replace a template's variants with the submitted set; `undefined` leaves them untouched.
+  const saveVariants = async (templateId: string, variants: TemplateVariantInput[] | undefined) => {
+    if (variants === undefined) return;
+    const supabase = getDb();
+    let removal = supabase.from('template_variants').delete().eq('template_id', templateId);
+    if (variants.length) {
+      removal = removal.not('locale', 'in', `(${variants.map((variant) => variant.locale).join(',')})`);
+    }
+    const { error: deleteError } = await removal;
+    if (deleteError) throw deleteError;
+    if (!variants.length) return;
+
+    const { error } = await supabase.from('template_variants').upsert(
+      variants.map((variant) => ({
+        template_id: templateId,
+        locale: variant.locale,
+        content: variant.content,
+        updated_at: new Date().toISOString()
+      })),
+      { onConflict: 'template_id,locale' }
+    );
+    if (error) throw error;
+  };
+
+  // Snapshot the saved template and its variants as a revision, then build the response.
+  const respondWithRevision = async (
+    req: Request,
+    template: Record<string, unknown> & { id: string; name: string; content: string },
+    restoredFromRevisionId: string | null = null
+  ) => {
+    const normalized = normalizeTemplateResponse(template);
+    const variants = await loadVariants([template.id]);
+    const revision = await recordTemplateRevision(
+      getDb(),
+      { ...normalized, variants },
+      { createdBy: getRequestActor(req), restoredFromRevisionId }
+    );
+    return { ...normalized, current_revision_id: revision.id, variants };
+  };
+
   router.get('/', async (_req: Request, res: Response) => {
     try {
       const { data: templates, error } = await getDb()
@@ -90,7 +169,13 @@ const templateRoutes = () => {
         .order('created_at', { ascending: false });
       
       if (error) throw error;
-      res.json((templates || []).map((template: Record<string, unknown>) => normalizeTemplateResponse(template)));
+      const variants = await loadVariants((templates || []).map((template: { id: string }) => template.id));
+      res.json(
+        (templates || []).map((template: Record<string, unknown>) => ({
+          ...normalizeTemplateResponse(template),
+          variants: variants.filter((variant) => variant.template_id === template.id)
+        }))
+      );
     } catch (error) {
       console.error('Error fetching templates:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -99,9 +184,13 @@ const templateRoutes = () => {
 
   router.post('/', validate(schemas.template), async (req: Request, res: Response) => {
     try {
-      // Extract variables from template content
+      const duplicateLocale = findDuplicateLocale(req.body.variants);
+      if (duplicateLocale) {
+        return res.status(400).json({ error: `Duplicate variant locale: ${duplicateLocale}` });
+      }
+      if (sendTemplateSyntaxError(res, req.body.content, req.body.variants)) return;
       const payload = normalizeTemplatePayload(req.body);
-      const variables = extractVariables(String(payload.content || ''));
+      const variables = listTemplateVariables(String(payload.content || ''));
       
       const { data: template, error } = await getDb()
         .from('templates')
@@ -110,7 +199,8 @@ const templateRoutes = () => {
         .single();
       
       if (error) throw error;
-      res.json(normalizeTemplateResponse(template));
+      await saveVariants(template.id, req.body.variants);
+      res.json(await respondWithRevision(req, template));
     } catch (error) {
       console.error('Error creating template:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -119,9 +209,13 @@ const templateRoutes = () => {
 
   router.put('/:id', validate(schemas.template), async (req: Request, res: Response) => {
     try {
-      // Extract variables from template content
+      const duplicateLocale = findDuplicateLocale(req.body.variants);
+      if (duplicateLocale) {
+        return res.status(400).json({ error: `Duplicate variant locale: ${duplicateLocale}` });
+      }
+      if (sendTemplateSyntaxError(res, req.body.content, req.body.variants)) return;
       const payload = normalizeTemplatePayload(req.body);
-      const variables = extractVariables(String(payload.content || ''));
+      const variables = listTemplateVariables(String(payload.content || ''));
       
       const { data: template, error } = await getDb()
         .from('templates')
@@ -134,7 +228,8 @@ const templateRoutes = () => {
       if (!template) {
         return res.status(404).json({ error: 'Template not found' });
       }
-      res.json(normalizeTemplateResponse(template));
+      await saveVariants(template.id, req.body.variants);
+      res.json(await respondWithRevision(req, template));
     } catch (error) {
       console.error('Error updating template:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
@@ -156,82 +251,328 @@ const templateRoutes = () => {
     }
   });
 
-  // Get available variables for templates based on feed items
-  router.get('/available-variables', async (req: Request, res: Response) => {
+  const loadRevision = async (templateId: string, revisionId: string) => {
+    const { data, error } = await getDb()
+      .from('template_revisions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('id', revisionId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw notFound('Revision not found');
+    return data;
+  };
+
+  // Newest first, with how many messages went out rendered from each revision.
+  router.get('/:id/revisions', async (req: Request, res: Response) => {
     try {
-      const feedId = typeof req.query.feed_id === 'string' ? req.query.feed_id : null;
+      const supabase = getDb();
+      const [{ data: template, error: templateError }, { data: revisions, error }] = await Promise.all([
+        supabase.from('templates').select('id,current_revision_id').eq('id', req.params.id).maybeSingle(),
+        supabase
+          .from('template_revisions')
+          .select('*')
+          .eq('template_id', req.params.id)
+          .order('revision_number', { ascending: false })
+          .limit(MAX_LISTED_REVISIONS)
+      ]);
+      if (templateError) throw templateError;
+      if (error) throw error;
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
 
-      // Get recent feed items to extract available fields
-      let query = getDb().from('feed_items').select('*').order('created_at', { ascending: false }).limit(20);
-      if (feedId) {
-        query = query.eq('feed_id', feedId);
+      const revisionIds = (revisions || []).map((revision: { id: string }) => revision.id);
+      const { data: countRows, error: countError } = revisionIds.length
+        ? await supabase.rpc('template_revision_sent_counts', {
+          revision_ids: revisionIds,
+          statuses: SUCCESSFUL_SEND_STATUSES
+        })
+        : { data: [], error: null };
+      if (countError) throw countError;
+      const sentCounts = new Map<string, number>(
+        ((countRows || []) as Array<{ template_revision_id: string; sent_count: number | string }>).map((row) => [
+          row.template_revision_id,
+          Number(row.sent_count) || 0
+        ])
+      );
+
+      res.json(
+        (revisions || []).map((revision: { id: string }) => ({
+          ...revision,
+          current: revision.id === template.current_revision_id,
+          sent_count: sentCounts.get(revision.id) || 0
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching template revisions:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  // Diff two revisions; `to` defaults to the current one.
+  router.get('/:id/revisions/diff', async (req: Request, res: Response) => {
+    try {
+      const fromId = typeof req.query.from === 'string' ? req.query.from : '';
+      let toId = typeof req.query.to === 'string' ? req.query.to : '';
+      if (!fromId) {
+        return res.status(400).json({ error: 'from is required' });
+      }
+      if (!toId) {
+        const { data: template, error } = await getDb()
+          .from('templates')
+          .select('current_revision_id')
+          .eq('id', req.params.id)
+          .maybeSingle();
+        if (error) throw error;
+        if (!template?.current_revision_id) {
+          return res.status(404).json({ error: 'Template has no current revision' });
+        }
+        toId = template.current_revision_id;
       }
 
-      const { data: items, error } = await query;
-      
+      const [from, to] = await Promise.all([
+        loadRevision(String(req.params.id), fromId),
+        loadRevision(String(req.params.id), toId)
+      ]);
+      const describe = (revision: Record<string, unknown>) => ({
+        id: revision.id,
+        revision_number: revision.revision_number,
+        created_by: revision.created_by,
+        created_at: revision.created_at
+      });
+      res.json({ from: describe(from), to: describe(to), ...diffTemplateRevisions(from, to) });
+    } catch (error) {
+      console.error('Error diffing template revisions:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  // Restore an earlier revision. The restore is itself a new revision, so it can be undone.
+  router.post('/:id/revisions/:revisionId/rollback', async (req: Request, res: Response) => {
+    try {
+      const revision = await loadRevision(String(req.params.id), String(req.params.revisionId));
+      if (sendTemplateSyntaxError(res, revision.content, Array.isArray(revision.variants) ? revision.variants : [])) return;
+      const payload = normalizeTemplatePayload({
+        name: revision.name,
+        content: revision.content,
+        description: revision.description,
+        send_mode: revision.send_mode || undefined,
+        send_images: revision.send_images ?? undefined,
+        length_strategy: revision.length_strategy || undefined,
+        text_direction: revision.text_direction || undefined
+      });
+      const { data: template, error } = await getDb()
+        .from('templates')
+        .update({ ...payload, variables: listTemplateVariables(String(revision.content || '')) })
+        .eq('id', req.params.id)
+        .select()
+        .maybeSingle();
+
       if (error) throw error;
-      
-      // Standard feed item fields that are always available
-      const standardFields = [
-        { name: 'title', description: 'Article title' },
-        { name: 'description', description: 'Article description/summary' },
-        { name: 'content', description: 'Full article content' },
-        { name: 'link', description: 'Article URL' },
-        { name: 'author', description: 'Article author' },
-        { name: 'pub_date', description: 'Publication date' },
-        { name: 'image_url', description: 'Article image URL' },
-        { name: 'categories', description: 'Article categories' },
-        { name: 'normalized_url', description: 'Normalized URL (for dedupe)' },
-        { name: 'content_hash', description: 'Content hash (for dedupe)' },
-        { name: 'guid', description: 'Feed GUID' }
-      ];
-      
-      // Extract additional fields from raw_data
-      const additionalFields = new Set<string>();
-      const ignoredRawKeys = new Set(['normalizedTitle', 'normalizedUrl', 'hash', 'source']);
-
-      const appendRawField = (key: string, value: unknown) => {
-        if (!key || ignoredRawKeys.has(key)) return;
-        if (!/^[a-zA-Z_]\w{0,63}$/.test(key)) return;
-        if (value == null) return;
-        if (typeof value === 'object') return;
-        additionalFields.add(key);
-      };
-
-      (items || []).forEach((item: Record<string, unknown>) => {
-        if (item.raw_data && typeof item.raw_data === 'object') {
-          const rawData = item.raw_data as Record<string, unknown>;
-
-          Object.entries(rawData).forEach(([key, value]) => {
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      await saveVariants(template.id, Array.isArray(revision.variants) ? revision.variants : []);
+      res.json(await respondWithRevision(req, template, revision.id));
+    } catch (error) {
+      console.error('Error rolling back template:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  // Variables templates can use: standard feed item fields, scalar raw_data fields of recent items and
+  // the feeds' field mappings, each with a sample value from the most recent item that has one.
+  const loadAvailableVariables = async (feedId: string | null) => {
+    // Get recent feed items to extract available fields
+    let query = getDb().from('feed_items').select('*').order('created_at', { ascending: false }).limit(20);
+    if (feedId) {
+      query = query.eq('feed_id', feedId);
+    }
+
+    const { data: items, error } = await query;
+
+    if (error) throw error;
+
+    // Standard feed item fields that are always available
+    const standardFields = [
+      { name: 'title', description: 'Article title' },
+      { name: 'description', description: 'Article description/summary' },
+      { name: 'content', description: 'Full article content' },
+      { name: 'link', description: 'Article URL' },
+      { name: 'author', description: 'Article author' },
+      { name: 'pub_date', description: 'Publication date' },
+      { name: 'image_url', description: 'Article image URL' },
+      { name: 'categories', description: 'Article categories' },
+      { name: 'normalized_url', description: 'Normalized URL (for dedupe)' },
+      { name: 'content_hash', description: 'Content hash (for dedupe)' },
+      { name: 'guid', description: 'Feed GUID' },
+      { name: 'article_text', description: 'Extracted full article text (feeds with full article fetch)' },
+      { name: 'reading_time', description: 'Estimated reading time, e.g. "4 min read"' },
+      { name: 'lead', description: 'Lead paragraph of the extracted article' },
+      { name: 'also_reported_by', description: 'Other sources of the same story (schedules using "also reported by" clustering)' }
+    ];
+
+    let feedsQuery = getDb().from('feeds').select('id,field_mappings');
+    if (feedId) {
+      feedsQuery = feedsQuery.eq('id', feedId);
+    }
+    const { data: feeds, error: feedsError } = await feedsQuery;
+    if (feedsError) throw feedsError;
+
+    const samples = new Map<string, string>();
+    const setSample = (key: string, value: unknown) => {
+      if (samples.has(key) || value == null || typeof value === 'object') return;
+      const text = String(value).trim();
+      if (text) samples.set(key, text.length > 200 ? `${text.slice(0, 199)}…` : text);
+    };
+
+    // Extract additional fields from raw_data
+    const additionalFields = new Set<string>();
+    const ignoredRawKeys = new Set(['normalizedTitle', 'normalizedUrl', 'hash', 'source']);
+
+    const appendRawField = (key: string, value: unknown) => {
+      if (!key || ignoredRawKeys.has(key)) return;
+      if (!/^[a-zA-Z_]\w{0,63}$/.test(key)) return;
+      if (value == null) return;
+      if (typeof value === 'object') return;
+      additionalFields.add(key);
+      setSample(key, value);
+    };
+
+    (items || []).forEach((item: Record<string, unknown>) => {
+      standardFields.forEach((field) => {
+        const value = item[field.name];
+        setSample(field.name, Array.isArray(value) ? value.join(', ') : value);
+      });
+      if (item.computed_fields && typeof item.computed_fields === 'object') {
+        Object.entries(item.computed_fields as Record<string, unknown>).forEach(([key, value]) => setSample(key, value));
+      }
+
+      if (item.raw_data && typeof item.raw_data === 'object') {
+        const rawData = item.raw_data as Record<string, unknown>;
+
+        Object.entries(rawData).forEach(([key, value]) => {
+          if (standardFields.find((field) => field.name === key)) return;
+          appendRawField(key, value);
+        });
+
+        const source = rawData.source;
+        if (source && typeof source === 'object') {
+          Object.entries(source as Record<string, unknown>).forEach(([key, value]) => {
             if (standardFields.find((field) => field.name === key)) return;
             appendRawField(key, value);
           });
-
-          const source = rawData.source;
-          if (source && typeof source === 'object') {
-            Object.entries(source as Record<string, unknown>).forEach(([key, value]) => {
-              if (standardFields.find((field) => field.name === key)) return;
-              appendRawField(key, value);
-            });
-          }
         }
+      }
+    });
+
+    const computedFields = new Map<string, string>();
+    (feeds || []).forEach((feed: { field_mappings?: unknown }) => {
+      (Array.isArray(feed.field_mappings) ? feed.field_mappings : []).forEach((mapping: { name?: string; expression?: string }) => {
+        const name = String(mapping?.name || '').trim();
+        if (name && !computedFields.has(name)) computedFields.set(name, String(mapping?.expression || ''));
       });
-      
-      const allFields = [
-        ...standardFields,
-        ...Array.from(additionalFields).map(name => ({ 
+    });
+
+    const allFields = [
+      ...standardFields,
+      ...Array.from(computedFields.entries()).map(([name, expression]) => ({
+        name,
+        description: `Computed: ${expression}`
+      })),
+      ...Array.from(additionalFields)
+        .filter((name) => !computedFields.has(name))
+        .map(name => ({ 
           name, 
           description: 'Custom field from feed' 
         }))
-      ];
-      
-      res.json(allFields);
+    ];
+    return allFields.map((field) => ({ ...field, sample: samples.get(field.name) ?? null }));
+  };
+
+  // Get available variables for templates based on feed items
+  router.get('/available-variables', async (req: Request, res: Response) => {
+    try {
+      const feedId = typeof req.query.feed_id === 'string' ? req.query.feed_id : null;
+      res.json(await loadAvailableVariables(feedId));
     } catch (error) {
       console.error('Error fetching available variables:', error);
       res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
     }
   });
 
+  // Render a saved or unsaved template against a real feed item, as a scheduled send would.
+  router.post('/preview', validate(schemas.templatePreview), async (req: Request, res: Response) => {
+    try {
+      const supabase = getDb();
+      const { template_id: templateId, feed_item_id: feedItemId, feed_id: feedId } = req.body;
+
+      let savedTemplate: Record<string, unknown> | null = null;
+      if (templateId) {
+        const { data, error } = await supabase.from('templates').select('*').eq('id', templateId).maybeSingle();
+        if (error) throw error;
+        if (!data) throw notFound('Template not found');
+        savedTemplate = normalizeTemplateResponse(data);
+      }
+      const content = String(req.body.content ?? savedTemplate?.content ?? '');
+      if (sendTemplateSyntaxError(res, content)) return;
+      const template = normalizeTemplatePayload({
+        send_mode: req.body.send_mode ?? savedTemplate?.send_mode,
+        send_images: savedTemplate?.send_images,
+        length_strategy: req.body.length_strategy ?? savedTemplate?.length_strategy,
+        text_direction: req.body.text_direction ?? savedTemplate?.text_direction,
+        content
+      });
+
+      let itemQuery = supabase.from('feed_items').select('*');
+      if (feedItemId) {
+        itemQuery = itemQuery.eq('id', feedItemId);
+      } else {
+        if (feedId) itemQuery = itemQuery.eq('feed_id', feedId);
+        itemQuery = itemQuery.order('created_at', { ascending: false }).limit(1);
+      }
+      const { data: items, error: itemError } = await itemQuery;
+      if (itemError) throw itemError;
+      const feedItem = items?.[0];
+      if (!feedItem) throw notFound(feedItemId ? 'Feed item not found' : 'No feed items to preview with yet');
+
+      const lengthLimits = readLengthLimits(await settingsService.getSettings());
+      const preview = await previewTemplateMessage(supabase, template, feedItem, lengthLimits);
+      const availableVariables = await loadAvailableVariables(feedItem.feed_id || null);
+      const warnings = lintTemplateMessage({
+        content,
+        outboundText: preview.outboundText,
+        sendMode: preview.sendMode,
+        hasMedia: Boolean(preview.media.url),
+        knownVariables: [...availableVariables.map((field: { name: string }) => field.name), ...preview.dataKeys]
+      });
+
+      res.json({
+        send_mode: preview.sendMode,
+        text: preview.outboundText,
+        rendered_text: preview.renderedText,
+        preview_url: preview.previewUrl,
+        media: preview.media,
+        character_count: Array.from(preview.outboundText).length,
+        caption_limit: WHATSAPP_CAPTION_LIMIT,
+        length_limits: lengthLimits,
+        parts: preview.parts,
+        warnings,
+        feed_item: {
+          id: feedItem.id,
+          feed_id: feedItem.feed_id,
+          title: feedItem.title,
+          link: feedItem.link,
+          pub_date: feedItem.pub_date
+        }
+      });
+    } catch (error) {
+      console.error('Error previewing template:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
   return router;
 };
 
@@ -0,0 +1,96 @@
+import type { Request, Response } from 'express';
+const express = require('express');
+const { getSupabaseClient } = require('../db/supabase');
+const { fetchAndProcessFeed } = require('../services/feedProcessor');
+const { reconcileUpdatedFeedItems } = require('../services/queueService');
+const { triggerImmediateSchedules, queueBatchSchedulesForFeed } = require('../services/schedulerService');
+const { verifyWebSubIntent, verifyWebSubSignature } = require('../services/websubService');
+const { serviceUnavailable } = require('../core/errors');
+const { getErrorMessage, getErrorStatus } = require('../utils/errorUtils');
+const logger = require('../utils/logger');
+
+// Hub callbacks are public (see middleware/publicProbePaths.ts) and authenticated by the
+// per-subscription callback token on GET and HMAC signatures on POST.
+const websubRoutes = () => {
+  const router = express.Router();
+
+  const getDb = () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw serviceUnavailable('Database not available');
+    return supabase;
+  };
+
+  const rawBody = express.raw({ type: () => true, limit: process.env.WEBSUB_BODY_LIMIT || '5mb' });
+
+  router.get('/:feedId/:token', async (req: Request, res: Response) => {
+    try {
+      const result = await verifyWebSubIntent(
+        String(req.params.feedId),
+        String(req.params.token),
+        req.query as Record<string, unknown>
+      );
+      res.status(result.status).type('text/plain').send(result.body);
+    } catch (error) {
+      console.error('Error verifying WebSub intent:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  // Subscriptions made before callbacks carried a token still push to the bare feed path.
+  router.post(['/:feedId', '/:feedId/:token'], rawBody, async (req: Request, res: Response) => {
+    try {
+      const { data: feed, error } = await getDb()
+        .from('feeds')
+        .select('*')
+        .eq('id', req.params.feedId)
+        .maybeSingle();
+      if (error) throw error;
+
+      // 410 tells the hub to drop subscriptions for deleted or disabled feeds.
+      if (!feed || feed.active === false) {
+        res.status(410).send('Gone');
+        return;
+      }
+
+      const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+      const signature = req.get('x-hub-signature-256')
+        ? `sha256=${String(req.get('x-hub-signature-256')).replace(/^sha256=/i, '')}`
+        : req.get('x-hub-signature');
+      if (!verifyWebSubSignature(feed.websub_secret, body, signature)) {
+        // Per WebSub, acknowledge but ignore payloads with a missing or invalid signature.
+        logger.warn({ feedId: feed.id }, 'Ignoring WebSub push with invalid signature');
+        res.status(202).end();
+        return;
+      }
+
+      res.status(202).end();
+
+      const whatsapp = req.app.locals.whatsapp;
+      void (async () => {
+        try {
+          const result = await fetchAndProcessFeed(feed, { pushedBody: body.toString('utf8') });
+          if (Array.isArray(result.updatedItems) && result.updatedItems.length) {
+            await reconcileUpdatedFeedItems(result.updatedItems, whatsapp);
+          }
+          if (result.items.length) {
+            await queueBatchSchedulesForFeed(feed.id, whatsapp);
+            await triggerImmediateSchedules(feed.id, whatsapp);
+          }
+          logger.info(
+            { feedId: feed.id, insertedCount: result.insertedCount, updatedCount: result.updatedCount },
+            'Processed WebSub push'
+          );
+        } catch (processError) {
+          logger.error({ error: processError, feedId: feed.id }, 'Failed to process WebSub push');
+        }
+      })();
+    } catch (error) {
+      console.error('Error receiving WebSub push:', error);
+      res.status(getErrorStatus(error)).json({ error: getErrorMessage(error) });
+    }
+  });
+
+  return router;
+};
+
+module.exports = websubRoutes;
@@ -11,6 +11,15 @@ const { getSupabaseClient } = require('../db/supabase');
 const { normalizeMessageText } = require('../utils/messageText');
 const { ensureWhatsAppConnected } = require('../services/whatsappConnection');
 const { isNewsletterJid, prepareNewsletterImage, prepareNewsletterVideo } = require('../utils/whatsappMedia');
+const {
+  getMessageDestination,
+  getRichMessageRestriction,
+  readRichMessageInput,
+  toMessageLogFields,
+  downloadAttachment,
+  buildRichMessageContent,
+  describeRichMessage
+} = require('../utils/richMessage');
 
 const DEFAULT_SEND_TIMEOUT_MS = 15000;
 const DEFAULT_USER_AGENT =
@@ -959,6 +968,12 @@ const whatsappRoutes = () => {
       videoUrl?: string | null;
       imageDataUrl?: string | null;
       videoDataUrl?: string | null;
+      documentUrl?: string | null;
+      documentName?: string | null;
+      audioUrl?: string | null;
+      voiceNote?: boolean;
+      poll?: { question: string; options: string[]; multiSelect?: boolean } | null;
+      location?: { latitude: number; longitude: number; name?: string | null; address?: string | null } | null;
       includeCaption?: boolean;
       disableLinkPreview?: boolean;
       confirm?: boolean;
@@ -990,12 +1005,24 @@ const whatsappRoutes = () => {
     const confirm = payload.confirm;
 	    const includeCaption = payload.includeCaption !== false;
 	    const captionText = [normalizedMessage, normalizedLink].filter(Boolean).join('\n').trim();
-	    if (!captionText && !imageUrl && !videoUrl && !imageDataUrl && !videoDataUrl) {
-	      throw badRequest('message, linkUrl, imageUrl, videoUrl, imageDataUrl, or videoDataUrl is required');
+	    const richMessage = readRichMessageInput(payload);
+	    if (!captionText && !imageUrl && !videoUrl && !imageDataUrl && !videoDataUrl && !richMessage) {
+	      throw badRequest('message, linkUrl, or an attachment (image, video, document, audio, poll or location) is required');
+	    }
+	    if (richMessage) {
+	      for (const jid of normalizedJids) {
+	        const restriction = getRichMessageRestriction(richMessage, getMessageDestination({ phone_number: jid }));
+	        if (restriction) {
+	          throw badRequest(`${jid}: ${restriction}`);
+	        }
+	      }
 	    }
 
-	    const requestedMediaType = videoDataUrl || videoUrl ? 'video' : imageDataUrl || imageUrl ? 'image' : null;
-	    const requestedMediaUrl = videoUrl || imageUrl || null;
+	    const richLogFields = richMessage ? toMessageLogFields(richMessage) : null;
+	    const requestedMediaType = richLogFields
+	      ? richLogFields.media_type
+	      : videoDataUrl || videoUrl ? 'video' : imageDataUrl || imageUrl ? 'image' : null;
+	    const requestedMediaUrl = richLogFields ? richLogFields.media_url : videoUrl || imageUrl || null;
 	    let mediaWarning: string | null = null;
 	    const connected = await ensureConnectedForSend(whatsapp, 'send-test route');
 	    if (!connected) {
@@ -1003,7 +1030,26 @@ const whatsappRoutes = () => {
 	    }
 
     let content: Record<string, unknown>;
-    if (videoDataUrl) {
+    if (richMessage) {
+      let file: { buffer: Buffer; mimetype: string } | null = null;
+      if (richMessage.kind === 'document' || richMessage.kind === 'audio') {
+        try {
+          await assertSafeOutboundUrl(richMessage.url);
+        } catch (error) {
+          throw badRequest(getErrorMessage(error, `${richMessage.kind} URL is not allowed`));
+        }
+        try {
+          file = await downloadAttachment(
+            richMessage.kind,
+            richMessage.url,
+            richMessage.kind === 'document' ? richMessage.file_name : null
+          );
+        } catch (error) {
+          throw badRequest(getErrorMessage(error, `Failed to download ${richMessage.kind}`));
+        }
+      }
+      content = buildRichMessageContent(richMessage, { file, caption: includeCaption ? captionText : null });
+    } else if (videoDataUrl) {
       const { buffer, mimetype } = parseVideoDataUrl(videoDataUrl);
       content = includeCaption && captionText
         ? { video: buffer, mimetype, caption: captionText }
@@ -1155,7 +1201,7 @@ const whatsappRoutes = () => {
         const messageId = result?.key?.id || null;
         let confirmation: { ok: boolean; via: string; status?: number | null; statusLabel?: string | null } | null = null;
         if (confirm && messageId && whatsapp?.confirmSend) {
-          const timeouts = (imageUrl || videoUrl || imageDataUrl || videoDataUrl)
+          const timeouts = (imageUrl || videoUrl || imageDataUrl || videoDataUrl || payload.documentUrl || payload.audioUrl)
             ? { upsertTimeoutMs: 30000, ackTimeoutMs: 60000 }
             : { upsertTimeoutMs: 5000, ackTimeoutMs: 15000 };
           confirmation = await whatsapp.confirmSend(messageId, timeouts);
@@ -1200,7 +1246,8 @@ const whatsappRoutes = () => {
           feed_item_id: null,
           target_id: targetIdByJid.get(entry.jid) || null,
           template_id: null,
-          message_content: captionText || null,
+          message_content: richMessage && richMessage.kind !== 'document' ? describeRichMessage(richMessage) : captionText || null,
+          message_payload: richLogFields?.message_payload || null,
           status: 'sent',
           error_message: null,
           whatsapp_message_id: entry.messageId || null,
@@ -0,0 +1,109 @@
+import type { Request, Response } from 'express';
+const crypto = require('crypto');
+const express = require('express');
+const axios = require('axios');
+
+/**
+ * Minimal local WebSub hub for testing push subscriptions end to end.
+ *
+ *   npm run websub:hub            # listens on WEBSUB_HUB_PORT (default 8787)
+ *
+ * Run the server with WEBSUB_ALLOW_PRIVATE_HUB=true, point a test feed's
+ * <atom:link rel="hub"> at http://localhost:8787/ and, after the server subscribes,
+ * publish with: curl -X POST "http://localhost:8787/publish?topic=<feed url>"
+ */
+
+type Subscriber = {
+  callback: string;
+  topic: string;
+  secret: string;
+  expiresAt: number;
+};
+
+const subscribers = new Map<string, Subscriber>();
+const port = Number(process.env.WEBSUB_HUB_PORT || 8787);
+
+const verifyIntent = async (mode: string, callback: string, topic: string, leaseSeconds: number) => {
+  const challenge = crypto.randomBytes(16).toString('hex');
+  const response = await axios.get(callback, {
+    params: {
+      'hub.mode': mode,
+      'hub.topic': topic,
+      'hub.challenge': challenge,
+      'hub.lease_seconds': leaseSeconds
+    },
+    responseType: 'text',
+    validateStatus: () => true
+  });
+  return response.status >= 200 && response.status < 300 && String(response.data) === challenge;
+};
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.post('/', (req: Request, res: Response) => {
+  const mode = String(req.body['hub.mode'] || '');
+  const callback = String(req.body['hub.callback'] || '');
+  const topic = String(req.body['hub.topic'] || '');
+  const secret = String(req.body['hub.secret'] || '');
+  const leaseSeconds = Math.max(Number(req.body['hub.lease_seconds'] || 3600), 60);
+
+  if (!['subscribe', 'unsubscribe'].includes(mode) || !callback || !topic) {
+    res.status(400).send('hub.mode, hub.callback and hub.topic are required');
+    return;
+  }
+
+  res.status(202).end();
+
+  void (async () => {
+    const key = `${callback} ${topic}`;
+    const verified = await verifyIntent(mode, callback, topic, leaseSeconds).catch(() => false);
+    console.log(`[hub] ${mode} ${verified ? 'verified' : 'rejected'}: ${callback} -> ${topic}`);
+    if (!verified) return;
+    if (mode === 'subscribe') {
+      subscribers.set(key, { callback, topic, secret, expiresAt: Date.now() + leaseSeconds * 1000 });
+    } else {
+      subscribers.delete(key);
+    }
+  })();
+});
+
+app.post('/publish', async (req: Request, res: Response) => {
+  const topic = String(req.query.topic || req.body?.['hub.url'] || '');
+  if (!topic) {
+    res.status(400).send('topic is required');
+    return;
+  }
+
+  try {
+    const content = await axios.get(topic, { responseType: 'arraybuffer' });
+    const body = Buffer.from(content.data);
+    const contentType = String(content.headers?.['content-type'] || 'application/xml');
+    let delivered = 0;
+
+    for (const subscriber of subscribers.values()) {
+      if (subscriber.topic !== topic || subscriber.expiresAt < Date.now()) continue;
+      const headers: Record<string, string> = { 'Content-Type': contentType };
+      if (subscriber.secret) {
+        headers['X-Hub-Signature'] = `sha256=${crypto.createHmac('sha256', subscriber.secret).update(body).digest('hex')}`;
+      }
+      const response = await axios.post(subscriber.callback, body, { headers, validateStatus: () => true });
+      console.log(`[hub] delivered ${topic} to ${subscriber.callback}: HTTP ${response.status}`);
+      delivered += 1;
+    }
+
+    res.json({ ok: true, delivered });
+  } catch (error) {
+    res.status(502).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+app.get('/subscriptions', (_req: Request, res: Response) => {
+  res.json(Array.from(subscribers.values()).map(({ secret: _secret, ...rest }) => rest));
+});
+
+app.listen(port, () => {
+  console.log(`[hub] local WebSub hub listening on http://localhost:${port}/`);
+});
+
+export {};
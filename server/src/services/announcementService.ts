@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+const { getNextOccurrence } = require('../utils/recurrence');
+const { buildManualLogFields } = require('../utils/manualMeta');
+const logger = require('../utils/logger');
+
+type AnnouncementSchedule = {
+  id: string;
+  kind?: string | null;
+  timezone?: string | null;
+  target_ids?: string[] | null;
+  approval_required?: boolean | null;
+  announcement?: Record<string, unknown> | null;
+  recurrence?: { rrule: string; start: string; exdates?: string[] | null; until?: string | null; count?: number | null } | null;
+  next_run_at?: string | null;
+  occurrence_count?: number | null;
+};
+
+// An occurrence missed by more than this (app paused, server down) is skipped rather than sent late.
+const MISSED_OCCURRENCE_GRACE_MS = 60 * 60 * 1000;
+
+const isAnnouncementSchedule = (schedule: { kind?: string | null } | null | undefined) => schedule?.kind === 'announcement';
+
+/**
+ * ISO time of the announcement's first occurrence after `after`, or null once it has ended.
+ */
+const computeNextAnnouncementRun = (schedule: AnnouncementSchedule, after: Date = new Date()): string | null => {
+  if (!schedule.recurrence) return null;
+  try {
+    const next = getNextOccurrence(schedule.recurrence, schedule.timezone || 'UTC', after) as Date | null;
+    return next ? next.toISOString() : null;
+  } catch (error) {
+    logger.warn({ scheduleId: schedule.id, error }, 'Invalid announcement recurrence');
+    return null;
+  }
+};
+
+/**
+ * Queue the due occurrence of an announcement, one message_logs row per active target, and
+ * move next_run_at to the following occurrence. Rows then go through the normal dispatch, so
+ * approval, pause and Shabbos holds apply as for feed items.
+ */
+const queueDueAnnouncement = async (supabase: SupabaseClient, schedule: AnnouncementSchedule) => {
+  const nowMs = Date.now();
+  const dueMs = Date.parse(String(schedule.next_run_at || ''));
+  if (!Number.isFinite(dueMs) || dueMs > nowMs) {
+    return { queued: 0, nextRunAt: schedule.next_run_at || null };
+  }
+
+  const nextRunAt = computeNextAnnouncementRun(schedule, new Date(nowMs));
+  // Only the worker that moves the cursor queues the occurrence.
+  const { data: claimed, error: claimError } = await supabase
+    .from('schedules')
+    .update({ next_run_at: nextRunAt, last_run_at: new Date(nowMs).toISOString() })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at as string)
+    .select('id');
+  if (claimError) throw claimError;
+  if (!claimed || !claimed.length) {
+    return { queued: 0, nextRunAt };
+  }
+
+  if (nowMs - dueMs > MISSED_OCCURRENCE_GRACE_MS) {
+    logger.warn({ scheduleId: schedule.id, dueAt: schedule.next_run_at, nextRunAt }, 'Skipping missed announcement occurrence');
+    return { queued: 0, nextRunAt, skipped: true };
+  }
+
+  const targetIds = Array.isArray(schedule.target_ids) ? schedule.target_ids : [];
+  const { data: targets, error: targetsError } = await supabase
+    .from('targets')
+    .select('id')
+    .in('id', targetIds)
+    .eq('active', true);
+  if (targetsError) throw targetsError;
+
+  const content = buildManualLogFields(schedule.announcement || {});
+  const status = schedule.approval_required === true ? 'awaiting_approval' : 'pending';
+  const rows = ((targets || []) as Array<{ id: string }>).map((target) => ({
+    schedule_id: schedule.id,
+    feed_item_id: null,
+    target_id: target.id,
+    template_id: null,
+    status,
+    error_message: null,
+    retry_count: 0,
+    processing_started_at: null,
+    sent_at: null,
+    whatsapp_message_id: null,
+    ...content,
+    media_sent: false,
+    media_error: null
+  }));
+
+  if (rows.length) {
+    const { error: insertError } = await supabase.from('message_logs').insert(rows);
+    if (insertError) throw insertError;
+  }
+
+  const { error: countError } = await supabase
+    .from('schedules')
+    .update({ occurrence_count: Number(schedule.occurrence_count || 0) + 1, last_queued_at: new Date().toISOString() })
+    .eq('id', schedule.id);
+  if (countError) {
+    logger.warn({ scheduleId: schedule.id, error: countError }, 'Failed to update announcement occurrence count');
+  }
+
+  logger.info({ scheduleId: schedule.id, queued: rows.length, status, nextRunAt }, 'Queued announcement occurrence');
+  return { queued: rows.length, nextRunAt };
+};
+
+module.exports = {
+  isAnnouncementSchedule,
+  computeNextAnnouncementRun,
+  queueDueAnnouncement
+};
+
+export {};
@@ -0,0 +1,155 @@
+const cheerio = require('cheerio');
+const { safeAxiosRequest } = require('../utils/safeAxios');
+const { applyFeedRequestAuth } = require('./feedAuthService');
+const { getErrorMessage } = require('../utils/errorUtils');
+
+type ArticleExtraction = {
+  text: string;
+  wordCount: number;
+  readingTimeMinutes: number;
+  lead: string;
+};
+
+const ARTICLE_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const WORDS_PER_MINUTE = 200;
+const MAX_ARTICLE_CHARS = 20000;
+const MIN_LEAD_CHARS = 60;
+
+const NOISE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'iframe',
+  'form',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'figure figcaption',
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[aria-hidden="true"]',
+  '.share',
+  '.social',
+  '.related',
+  '.newsletter',
+  '.advert',
+  '.ad',
+  '.comments'
+].join(',');
+
+const NEGATIVE_HINT = /comment|footer|sidebar|sponsor|promo|related|share|social|newsletter|subscribe|widget|advert/i;
+const POSITIVE_HINT = /article|body|content|entry|main|post|story|text/i;
+
+const collapseWhitespace = (value: string) => String(value || '').replace(/\s+/g, ' ').trim();
+
+const countWords = (value: string) => {
+  const text = collapseWhitespace(value);
+  return text ? text.split(' ').length : 0;
+};
+
+/**
+ * Readability-style extraction: score block containers by the paragraph text
+ * they hold, penalise link-heavy blocks and keep the best candidate's paragraphs.
+ */
+const extractArticleFromHtml = (html: string): ArticleExtraction | null => {
+  if (!html || !html.trim()) return null;
+  const $ = cheerio.load(html);
+  $(NOISE_SELECTORS).remove();
+
+  const scores = new Map<unknown, number>();
+  $('p').each((_: number, element: unknown) => {
+    const paragraph = $(element);
+    const text = collapseWhitespace(paragraph.text());
+    if (text.length < 25) return;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parent();
+    const grandparent = parent.parent();
+    if (parent.length) scores.set(parent.get(0), (scores.get(parent.get(0)) || 0) + score);
+    if (grandparent.length) scores.set(grandparent.get(0), (scores.get(grandparent.get(0)) || 0) + score / 2);
+  });
+
+  let best: unknown = null;
+  let bestScore = 0;
+  for (const [element, baseScore] of scores.entries()) {
+    const el = $(element);
+    const hint = `${el.attr('class') || ''} ${el.attr('id') || ''} ${el.attr('itemprop') || ''}`;
+    let score = baseScore;
+    if (POSITIVE_HINT.test(hint) || el.is('article')) score *= 1.25;
+    if (NEGATIVE_HINT.test(hint)) score *= 0.3;
+
+    const textLength = collapseWhitespace(el.text()).length || 1;
+    const linkLength = collapseWhitespace(el.find('a').text()).length;
+    score *= 1 - Math.min(linkLength / textLength, 0.9);
+
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  }
+
+  if (!best) return null;
+
+  const paragraphs = $(best)
+    .find('p, h2, h3, li')
+    .map((_: number, element: unknown) => collapseWhitespace($(element).text()))
+    .get()
+    .filter((text: string) => text.length > 0);
+
+  const text = paragraphs.join('\n\n').slice(0, MAX_ARTICLE_CHARS).trim();
+  if (!text) return null;
+
+  const wordCount = countWords(text);
+  const lead = paragraphs.find((paragraph: string) => paragraph.length >= MIN_LEAD_CHARS) || paragraphs[0] || '';
+
+  return {
+    text,
+    wordCount,
+    readingTimeMinutes: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+    lead
+  };
+};
+
+const fetchFullArticle = async (
+  url: string,
+  feed?: { url?: string; request_auth_encrypted?: string | null }
+): Promise<ArticleExtraction | null> => {
+  if (!url) return null;
+  try {
+    const request = applyFeedRequestAuth(feed, url, {
+      'User-Agent': ARTICLE_USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+    });
+    const response = await safeAxiosRequest(
+      request.url,
+      { timeout: 15000, maxContentLength: 5 * 1024 * 1024, headers: request.headers },
+      { sensitiveHeaders: request.sensitiveHeaders }
+    );
+    if (response.status < 200 || response.status >= 300) {
+      console.warn(`Full article fetch for ${url} returned HTTP ${response.status}`);
+      return null;
+    }
+    const contentType = String(response.headers?.['content-type'] || '').toLowerCase();
+    if (contentType && !contentType.includes('html')) return null;
+    return extractArticleFromHtml(String(response.data || ''));
+  } catch (error) {
+    console.warn(`Full article fetch failed for ${url}:`, getErrorMessage(error));
+    return null;
+  }
+};
+
+const formatReadingTime = (minutes: unknown) => {
+  const value = Number(minutes);
+  if (!Number.isFinite(value) || value <= 0) return '';
+  return `${Math.round(value)} min read`;
+};
+
+module.exports = {
+  extractArticleFromHtml,
+  fetchFullArticle,
+  formatReadingTime
+};
+
+export {};
@@ -0,0 +1,192 @@
+const { getRegexBacktrackingError } = require('../utils/safeRegex');
+
+type FilterField = 'any' | 'title' | 'description' | 'content' | 'link';
+
+type FilterRule = {
+  action: 'include' | 'exclude';
+  type: 'keyword' | 'regex' | 'category' | 'author';
+  value: string;
+  field?: FilterField | null;
+  caseSensitive?: boolean | null;
+};
+
+type FilterGroup = {
+  operator: 'and' | 'or';
+  rules: FilterRule[];
+};
+
+type FilterRules = {
+  enabled?: boolean | null;
+  operator: 'and' | 'or';
+  groups: FilterGroup[];
+};
+
+type FilterableItem = {
+  title?: string | null;
+  description?: string | null;
+  content?: string | null;
+  link?: string | null;
+  author?: string | null;
+  categories?: string[] | string | null;
+};
+
+type FilterResult = {
+  allowed: boolean;
+  reason: string | null;
+  rule: FilterRule | null;
+};
+
+// Skip reasons written to message_logs start with this so filtered rows can be told apart from manual pauses.
+const FILTER_SKIP_PREFIX = 'Filtered: ';
+
+// Columns needed from feed_items to evaluate rules.
+const FILTER_ITEM_COLUMNS = 'title,description,content,link,author,categories';
+
+const FILTER_FIELDS: FilterField[] = ['any', 'title', 'description', 'content', 'link'];
+
+const normalizeRule = (value: unknown): FilterRule | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const ruleValue = String(raw.value ?? '').trim();
+  if (!ruleValue) return null;
+  const type = raw.type === 'regex' || raw.type === 'category' || raw.type === 'author' ? raw.type : 'keyword';
+  const field = FILTER_FIELDS.includes(raw.field as FilterField) ? (raw.field as FilterField) : 'any';
+  return {
+    action: raw.action === 'exclude' ? 'exclude' : 'include',
+    type,
+    value: ruleValue,
+    field,
+    caseSensitive: raw.caseSensitive === true
+  };
+};
+
+const normalizeFilterRules = (value: unknown): FilterRules | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (raw.enabled === false) return null;
+  const groups = (Array.isArray(raw.groups) ? raw.groups : [])
+    .map((group: unknown) => {
+      if (!group || typeof group !== 'object') return null;
+      const rawGroup = group as Record<string, unknown>;
+      const rules = (Array.isArray(rawGroup.rules) ? rawGroup.rules : [])
+        .map(normalizeRule)
+        .filter(Boolean) as FilterRule[];
+      if (!rules.length) return null;
+      return { operator: rawGroup.operator === 'or' ? 'or' : 'and', rules } as FilterGroup;
+    })
+    .filter(Boolean) as FilterGroup[];
+  if (!groups.length) return null;
+  return { enabled: true, operator: raw.operator === 'or' ? 'or' : 'and', groups };
+};
+
+const hasActiveFilterRules = (value: unknown) => normalizeFilterRules(value) !== null;
+
+const getCategories = (item: FilterableItem) => {
+  if (Array.isArray(item.categories)) return item.categories.map((entry) => String(entry || '').trim()).filter(Boolean);
+  if (typeof item.categories === 'string') {
+    return item.categories.split(',').map((entry) => entry.trim()).filter(Boolean);
+  }
+  return [];
+};
+
+const getFieldText = (item: FilterableItem, field: FilterField) => {
+  if (field === 'any') {
+    return [item.title, item.description, item.content].map((entry) => String(entry || '')).join('\n');
+  }
+  return String(item[field] || '');
+};
+
+// Rules saved before the backtracking check never match rather than stall the dispatcher.
+const buildRegex = (rule: FilterRule) => {
+  const flags = rule.caseSensitive ? '' : 'i';
+  try {
+    const pattern = new RegExp(rule.value, flags);
+    return getRegexBacktrackingError(rule.value, flags) ? null : pattern;
+  } catch {
+    return null;
+  }
+};
+
+const ruleMatches = (rule: FilterRule, item: FilterableItem) => {
+  const fold = (value: string) => (rule.caseSensitive ? value : value.toLowerCase());
+  const needle = fold(rule.value);
+
+  if (rule.type === 'category') {
+    return getCategories(item).some((category) => fold(category) === needle);
+  }
+  if (rule.type === 'author') {
+    const author = fold(String(item.author || '').trim());
+    return Boolean(author) && (author === needle || author.includes(needle));
+  }
+  const text = getFieldText(item, rule.field || 'any');
+  if (rule.type === 'regex') {
+    const pattern = buildRegex(rule);
+    return pattern ? pattern.test(text) : false;
+  }
+  return fold(text).includes(needle);
+};
+
+const describeRule = (rule: FilterRule) => {
+  const fieldSuffix =
+    (rule.type === 'keyword' || rule.type === 'regex') && rule.field && rule.field !== 'any' ? ` in ${rule.field}` : '';
+  return `${rule.action} ${rule.type} "${rule.value}"${fieldSuffix}`;
+};
+
+const describeFailure = (rule: FilterRule) =>
+  rule.action === 'exclude'
+    ? `${FILTER_SKIP_PREFIX}matched ${describeRule(rule)}`
+    : `${FILTER_SKIP_PREFIX}did not match ${describeRule(rule)}`;
+
+const evaluateGroup = (group: FilterGroup, item: FilterableItem): FilterResult => {
+  let firstFailure: FilterRule | null = null;
+  for (const rule of group.rules) {
+    const matched = ruleMatches(rule, item);
+    const satisfied = rule.action === 'include' ? matched : !matched;
+    if (satisfied && group.operator === 'or') {
+      return { allowed: true, reason: null, rule: null };
+    }
+    if (!satisfied) {
+      if (group.operator === 'and') {
+        return { allowed: false, reason: describeFailure(rule), rule };
+      }
+      firstFailure = firstFailure || rule;
+    }
+  }
+  if (group.operator === 'or' && firstFailure) {
+    return { allowed: false, reason: describeFailure(firstFailure), rule: firstFailure };
+  }
+  return { allowed: true, reason: null, rule: null };
+};
+
+/**
+ * Evaluate schedule filter rules against a feed item.
+ * Rules inside a group and groups themselves are combined with their AND/OR operator.
+ */
+const evaluateFilterRules = (value: unknown, item: FilterableItem): FilterResult => {
+  const rules = normalizeFilterRules(value);
+  if (!rules) return { allowed: true, reason: null, rule: null };
+
+  let firstFailure: FilterResult | null = null;
+  for (const group of rules.groups) {
+    const result = evaluateGroup(group, item);
+    if (result.allowed && rules.operator === 'or') return result;
+    if (!result.allowed) {
+      if (rules.operator === 'and') return result;
+      firstFailure = firstFailure || result;
+    }
+  }
+  return firstFailure || { allowed: true, reason: null, rule: null };
+};
+
+const isFilterSkipReason = (value: unknown) => String(value || '').startsWith(FILTER_SKIP_PREFIX);
+
+module.exports = {
+  FILTER_SKIP_PREFIX,
+  FILTER_ITEM_COLUMNS,
+  normalizeFilterRules,
+  hasActiveFilterRules,
+  evaluateFilterRules,
+  isFilterSkipReason
+};
+
+export {};
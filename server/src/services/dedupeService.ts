@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 const { fuzzy } = require('fast-fuzzy');
 const { getSupabaseClient } = require('../db/supabase');
 const { normalizeText, normalizeUrl, hashContent } = require('../utils/normalize');
@@ -18,9 +19,47 @@ type ChatDuplicateCheck = {
   since: Date;
 };
 
-const isDuplicateFeedItem = async ({ title, url, threshold, since, feedId }: FeedDuplicateCheck) => {
+type DedupeMatch = {
+  matchType: 'url' | 'hash' | 'fuzzy-title';
+  matchedFeedItemId?: string | null;
+  matchedChatMessageId?: string | null;
+  matchedTitle?: string | null;
+  similarity: number;
+  threshold: number;
+};
+
+type DedupeDecisionInput = {
+  feedId?: string | null;
+  targetId?: string | null;
+  itemKey: string;
+  item: Record<string, unknown>;
+  match: DedupeMatch;
+};
+
+type FeedItemCandidate = { id?: string; normalized_url?: string; content_hash?: string; title?: string };
+
+// Highest-scoring fuzzy title match among candidates, or null when none clears the threshold.
+const findBestTitleMatch = (
+  normalizedTitle: string,
+  candidates: FeedItemCandidate[],
+  threshold: number
+): DedupeMatch | null => {
+  let best: DedupeMatch | null = null;
+  for (const item of candidates) {
+    if (!item.title) continue;
+    const similarity = fuzzy(normalizedTitle, normalizeText(item.title));
+    if (similarity < threshold || (best && similarity <= best.similarity)) continue;
+    best = { matchType: 'fuzzy-title', matchedFeedItemId: item.id || null, matchedTitle: item.title, similarity, threshold };
+  }
+  return best;
+};
+
+/**
+ * Find the stored item an incoming item duplicates, with the evidence for the decision.
+ */
+const findFeedDuplicate = async ({ title, url, threshold, since, feedId }: FeedDuplicateCheck): Promise<DedupeMatch | null> => {
   const supabase = getSupabaseClient();
-  if (!supabase) return false;
+  if (!supabase) return null;
   
   try {
     const normalizedTitle = normalizeText(title || '');
@@ -37,7 +76,7 @@ const isDuplicateFeedItem = async ({ title, url, threshold, since, feedId }: Fee
 
     let query = supabase
       .from('feed_items')
-      .select('title, normalized_url, content_hash')
+      .select('id, title, normalized_url, content_hash')
       .gte('created_at', since.toISOString());
 
     if (feedId) {
@@ -48,16 +87,24 @@ const isDuplicateFeedItem = async ({ title, url, threshold, since, feedId }: Fee
 
     if (error) {
       console.error('Error checking for duplicates:', error);
-      return false;
+      return null;
     }
 
-    const items: Array<{ normalized_url?: string; content_hash?: string; title?: string }> = recentItems || [];
+    const items: FeedItemCandidate[] = recentItems || [];
 
-    const exact = items.some((item) => {
+    const exact = items.find((item) => {
       return item.normalized_url === normalizedUrlValue || item.content_hash === contentHash;
     });
 
-    if (exact) return true;
+    if (exact) {
+      return {
+        matchType: exact.normalized_url === normalizedUrlValue ? 'url' : 'hash',
+        matchedFeedItemId: exact.id || null,
+        matchedTitle: exact.title || null,
+        similarity: 1,
+        threshold: 1
+      };
+    }
 
     // Semantic-ish duplicate detection: only if URLs share the same host (same site) and the titles are nearly identical.
     // This catches cases like republished permalinks (/story vs /?p=123) without dropping cross-site items.
@@ -65,36 +112,36 @@ const isDuplicateFeedItem = async ({ title, url, threshold, since, feedId }: Fee
       const incomingHost = hostFromNormalizedUrl(normalizedUrlValue);
       const wordCount = normalizedTitle.split(' ').filter(Boolean).length;
       if (!incomingHost || !normalizedTitle || wordCount < 3) {
-        return false;
+        return null;
       }
 
       const semanticThreshold = Math.max(thresholdValue, 0.93);
-      const nearDuplicate = items.some((item) => {
-        if (!item.title) return false;
-        if (!item.normalized_url) return false;
-        if (hostFromNormalizedUrl(item.normalized_url) !== incomingHost) return false;
-        return fuzzy(normalizedTitle, normalizeText(item.title)) >= semanticThreshold;
-      });
-
-      if (nearDuplicate) return true;
-      return false;
+      const sameHostItems = items.filter(
+        (item) => Boolean(item.normalized_url) && hostFromNormalizedUrl(item.normalized_url) === incomingHost
+      );
+      return findBestTitleMatch(normalizedTitle, sameHostItems, semanticThreshold);
     }
 
     // Fuzzy fallback is only for URL-less entries.
-    return items.some((item) => {
-      if (!item.title) return false;
-      if (item.normalized_url) return false;
-      return fuzzy(normalizedTitle, normalizeText(item.title)) >= thresholdValue;
-    });
+    return findBestTitleMatch(
+      normalizedTitle,
+      items.filter((item) => !item.normalized_url),
+      thresholdValue
+    );
   } catch (error) {
-    console.error('Error in isDuplicateFeedItem:', error);
-    return false;
+    console.error('Error in findFeedDuplicate:', error);
+    return null;
   }
 };
 
-const isDuplicateInChat = async ({ jid, title, url, threshold, since }: ChatDuplicateCheck) => {
+const isDuplicateFeedItem = async (check: FeedDuplicateCheck) => Boolean(await findFeedDuplicate(check));
+
+/**
+ * Find the chat message an outgoing item duplicates, with the evidence for the decision.
+ */
+const findChatDuplicate = async ({ jid, title, url, threshold, since }: ChatDuplicateCheck): Promise<DedupeMatch | null> => {
   const supabase = getSupabaseClient();
-  if (!supabase) return false;
+  if (!supabase) return null;
   
   try {
     const normalizedUrlValue = normalizeUrl(url);
@@ -111,37 +158,84 @@ const isDuplicateInChat = async ({ jid, title, url, threshold, since }: ChatDupl
         .limit(1);
 
       if (!urlError && urlMatch && urlMatch.length > 0) {
-        return true;
+        return {
+          matchType: 'url',
+          matchedChatMessageId: urlMatch[0].id || null,
+          similarity: 1,
+          threshold: 1
+        };
       }
     }
 
     // Check for fuzzy title matches
     const { data: recentMessages, error } = await supabase
       .from('chat_messages')
-      .select('content')
+      .select('id, content')
       .eq('remote_jid', jid)
       .gte('created_at', since.toISOString());
 
     if (error) {
       console.error('Error checking chat duplicates:', error);
-      return false;
+      return null;
     }
 
-    const messages: Array<{ content?: string }> = recentMessages || [];
+    const messages: Array<{ id?: string; content?: string }> = recentMessages || [];
 
     const thresholdValue = Number.isFinite(threshold) ? threshold : 0.88;
-    return messages.some((entry) => {
-      if (!entry.content) return false;
-      return fuzzy(normalizedTitle, normalizeText(entry.content)) >= thresholdValue;
-    });
+    let best: DedupeMatch | null = null;
+    for (const entry of messages) {
+      if (!entry.content) continue;
+      const similarity = fuzzy(normalizedTitle, normalizeText(entry.content));
+      if (similarity < thresholdValue || (best && similarity <= best.similarity)) continue;
+      best = {
+        matchType: 'fuzzy-title',
+        matchedChatMessageId: entry.id || null,
+        matchedTitle: entry.content.slice(0, 200),
+        similarity,
+        threshold: thresholdValue
+      };
+    }
+    return best;
   } catch (error) {
-    console.error('Error in isDuplicateInChat:', error);
-    return false;
+    console.error('Error in findChatDuplicate:', error);
+    return null;
+  }
+};
+
+const isDuplicateInChat = async (check: ChatDuplicateCheck) => Boolean(await findChatDuplicate(check));
+
+/**
+ * Persist why an item was treated as a duplicate. One record per feed + item key;
+ * later polls of the same item keep the first decision.
+ */
+const recordDedupeDecision = async (supabase: SupabaseClient, decision: DedupeDecisionInput) => {
+  if (!decision.itemKey) return;
+  const { error } = await supabase.from('dedupe_decisions').upsert(
+    {
+      feed_id: decision.feedId || null,
+      target_id: decision.targetId || null,
+      item_key: decision.itemKey,
+      item: decision.item,
+      match_type: decision.match.matchType,
+      matched_feed_item_id: decision.match.matchedFeedItemId || null,
+      matched_chat_message_id: decision.match.matchedChatMessageId || null,
+      matched_title: decision.match.matchedTitle || null,
+      similarity: Number(decision.match.similarity.toFixed(4)),
+      threshold: decision.match.threshold
+    },
+    { onConflict: 'feed_id,item_key', ignoreDuplicates: true }
+  );
+  if (error) {
+    console.warn('Failed to record dedupe decision:', error.message || error);
   }
 };
 
 module.exports = {
+  findBestTitleMatch,
+  findFeedDuplicate,
+  findChatDuplicate,
   isDuplicateFeedItem,
-  isDuplicateInChat
+  isDuplicateInChat,
+  recordDedupeDecision
 };
 export {};
@@ -1,9 +1,11 @@
 const { getSupabaseClient } = require('../db/supabase');
 const { isCurrentlyShabbos } = require('./shabbosService');
 const { isScheduleRunning, resolveScheduleState } = require('./scheduleState');
+const { isAnnouncementSchedule } = require('./announcementService');
 const logger = require('../utils/logger');
 const { getErrorMessage } = require('../utils/errorUtils');
-const { escapeWhatsAppFormatting } = require('../utils/messageText');
+const { formatReadingTime } = require('./articleService');
+const { renderTemplate, validateTemplate } = require('../utils/templateEngine');
 
 const SUCCESSFUL_SEND_STATUSES = ['sent', 'delivered', 'read', 'played'];
 
@@ -21,17 +23,14 @@ type FeedItem = {
   normalized_url?: string;
   content_hash?: string;
   raw_data?: Record<string, unknown>;
+  article_text?: string | null;
+  article_word_count?: number | null;
+  article_reading_time?: number | null;
+  article_lead?: string | null;
 };
 
 type WhatsAppClient = { getStatus?: () => { status: string } };
 
-const applyTemplate = (templateBody: string, data: Record<string, unknown>): string => {
-  if (!templateBody) return '';
-  return templateBody.replace(/{{\s*(\w+)\s*}}/g, (_, key) => {
-    const value = data[key];
-    return value != null ? escapeWhatsAppFormatting(value) : '';
-  });
-};
 
 const toLocalDateTime = (value: string | Date, timezone: string) => {
   const date = value instanceof Date ? value : new Date(value);
@@ -69,7 +68,12 @@ const buildMessageData = (feedItem: FeedItem) => ({
   contentHash: (feedItem as unknown as { content_hash?: string }).content_hash,
   pub_date: feedItem?.pub_date ? new Date(feedItem.pub_date).toISOString() : '',
   publishedAt: feedItem?.pub_date ? new Date(feedItem.pub_date).toISOString() : '',
-  categories: Array.isArray(feedItem?.categories) ? feedItem.categories.join(', ') : '',
+  categories: Array.isArray(feedItem?.categories) ? feedItem.categories : [],
+  article_text: feedItem?.article_text || '',
+  reading_time: formatReadingTime(feedItem?.article_reading_time),
+  reading_time_minutes: feedItem?.article_reading_time ?? '',
+  word_count: feedItem?.article_word_count ?? '',
+  lead: feedItem?.article_lead || '',
   ...(typeof (feedItem as unknown as { raw_data?: unknown }).raw_data === 'object' &&
   (feedItem as unknown as { raw_data?: Record<string, unknown> }).raw_data
     ? Object.fromEntries(
@@ -85,7 +89,9 @@ const buildMessageData = (feedItem: FeedItem) => ({
           }
         )
       )
-    : {})
+    : {}),
+  // Values of the feed's field mappings, computed at fetch time.
+  ...((feedItem as unknown as { computed_fields?: Record<string, unknown> | null }).computed_fields || {})
 });
 
 const getScheduleDiagnostics = async (scheduleId: string, whatsappClient?: WhatsAppClient) => {
@@ -151,7 +157,12 @@ const getScheduleDiagnostics = async (scheduleId: string, whatsappClient?: Whats
       diagnostics.blockingReasons.push('Automation is paused/stopped');
     }
 
-    if (!schedule.feed_id) {
+    const isAnnouncement = isAnnouncementSchedule(schedule);
+    if (isAnnouncement) {
+      if (isScheduleRunning(schedule) && !schedule.next_run_at) {
+        diagnostics.blockingReasons.push('Announcement recurrence has ended');
+      }
+    } else if (!schedule.feed_id) {
       diagnostics.blockingReasons.push('Schedule has no feed_id');
     }
 
@@ -174,7 +185,7 @@ const getScheduleDiagnostics = async (scheduleId: string, whatsappClient?: Whats
       .single();
 
     if (templateError || !template) {
-      diagnostics.blockingReasons.push('Template not found');
+      if (!isAnnouncement) diagnostics.blockingReasons.push('Template not found');
     } else {
       diagnostics.template = {
         id: template.id,
@@ -278,13 +289,23 @@ const getScheduleDiagnostics = async (scheduleId: string, whatsappClient?: Whats
         };
 
         if (template?.content) {
-          const rendered = applyTemplate(template.content, buildMessageData(latestFeedItem)).trim();
-          diagnostics.templatePreview = {
-            length: rendered.length,
-            empty: rendered.length === 0
-          };
-          if (!rendered.length) {
-            diagnostics.blockingReasons.push('Template renders empty message');
+          const [syntaxIssue] = validateTemplate(template.content);
+          if (syntaxIssue) {
+            diagnostics.warnings.push(
+              `Template syntax error at line ${syntaxIssue.line}, column ${syntaxIssue.column} (${syntaxIssue.message}); sending with plain {{name}} substitution until it is fixed`
+            );
+          }
+          try {
+            const rendered = renderTemplate(template.content, buildMessageData(latestFeedItem)).trim();
+            diagnostics.templatePreview = {
+              length: rendered.length,
+              empty: rendered.length === 0
+            };
+            if (!rendered.length) {
+              diagnostics.blockingReasons.push('Template renders empty message');
+            }
+          } catch (templateError) {
+            diagnostics.blockingReasons.push(`Template error: ${getErrorMessage(templateError)}`);
           }
         }
       }
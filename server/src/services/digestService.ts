@@ -0,0 +1,116 @@
+const { renderTemplate, validateTemplate } = require('../utils/templateEngine');
+const { normalizeMessageText } = require('../utils/messageText');
+
+type DigestConfig = {
+  header: string;
+  item_template: string;
+  footer: string;
+  overflow_template: string;
+  overflow_url: string | null;
+  max_items: number;
+  link_preview: boolean;
+};
+
+const DIGEST_MAX_ITEMS_LIMIT = 50;
+const DIGEST_DEFAULTS: DigestConfig = {
+  header: '*{{schedule_name}}*',
+  item_template: '• {{title}}\n{{link}}',
+  footer: '',
+  overflow_template: '…and {{more}} more{{#if overflow_url}}: {{overflow_url}}{{/if}}',
+  overflow_url: null,
+  max_items: 10,
+  link_preview: false
+};
+const DIGEST_TEMPLATE_FIELDS = ['header', 'item_template', 'footer', 'overflow_template'] as const;
+
+const readText = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+/**
+ * The digest settings of a schedule, or null when it sends one message per item.
+ */
+const readDigestConfig = (value: unknown): DigestConfig | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  if (raw.enabled !== true) return null;
+  const maxItems = Math.floor(Number(raw.max_items));
+  return {
+    header: readText(raw.header, DIGEST_DEFAULTS.header),
+    item_template: readText(raw.item_template, '').trim() ? String(raw.item_template) : DIGEST_DEFAULTS.item_template,
+    footer: readText(raw.footer, DIGEST_DEFAULTS.footer),
+    overflow_template: readText(raw.overflow_template, '').trim()
+      ? String(raw.overflow_template)
+      : DIGEST_DEFAULTS.overflow_template,
+    overflow_url: typeof raw.overflow_url === 'string' && raw.overflow_url.trim() ? raw.overflow_url.trim() : null,
+    max_items: Number.isFinite(maxItems) ? Math.min(Math.max(maxItems, 1), DIGEST_MAX_ITEMS_LIMIT) : DIGEST_DEFAULTS.max_items,
+    link_preview: raw.link_preview === true
+  };
+};
+
+/**
+ * Syntax errors in the digest templates, labelled with the part they belong to.
+ */
+const validateDigestConfig = (value: unknown) => {
+  if (!value || typeof value !== 'object') return [];
+  const raw = value as Record<string, unknown>;
+  return DIGEST_TEMPLATE_FIELDS.flatMap((field) =>
+    typeof raw[field] === 'string'
+      ? validateTemplate(raw[field] as string).map((issue: { message: string; line: number; column: number }) => ({
+          field,
+          ...issue
+        }))
+      : []
+  );
+};
+
+/**
+ * Compile queued items into one message: header, one rendered line per item up to
+ * `max_items`, an "and N more" line for the rest, then the footer. Items are message data
+ * objects (see buildMessageData in the queue service).
+ */
+const renderDigestMessage = (
+  config: DigestConfig,
+  items: Array<Record<string, unknown>>,
+  context: { scheduleName?: string | null; timezone?: string | null; now?: Date } = {}
+) => {
+  const options = context.timezone ? { timezone: context.timezone } : {};
+  const render = (source: string, data: Record<string, unknown>) =>
+    normalizeMessageText(renderTemplate(source, data, options)).trim();
+
+  const included = items.slice(0, config.max_items);
+  const more = Math.max(items.length - included.length, 0);
+  const summary = {
+    schedule_name: context.scheduleName || '',
+    count: included.length,
+    total: items.length,
+    more,
+    date: (context.now || new Date()).toISOString(),
+    overflow_url: config.overflow_url || ''
+  };
+
+  const lines = included
+    .map((item, index) => render(config.item_template, { ...item, index: index + 1 }))
+    .filter(Boolean);
+  const itemSeparator = config.item_template.includes('\n') ? '\n\n' : '\n';
+  const parts = [
+    render(config.header, summary),
+    lines.join(itemSeparator),
+    more ? render(config.overflow_template, summary) : '',
+    render(config.footer, summary)
+  ].filter(Boolean);
+
+  return {
+    text: parts.join('\n\n'),
+    includedCount: included.length,
+    overflowCount: more
+  };
+};
+
+module.exports = {
+  DIGEST_DEFAULTS,
+  DIGEST_MAX_ITEMS_LIMIT,
+  readDigestConfig,
+  validateDigestConfig,
+  renderDigestMessage
+};
+
+export {};
@@ -0,0 +1,209 @@
+const { sealSecret, openSecret } = require('../utils/secretBox');
+const { getErrorMessage } = require('../utils/errorUtils');
+const { badRequest } = require('../core/errors');
+
+type FeedRequestAuth = {
+  headers?: Array<{ name: string; value: string }>;
+  basic?: { username: string; password: string } | null;
+  bearer_token?: string | null;
+  api_key?: { param: string; value: string } | null;
+  cookies?: string | null;
+};
+
+// What the UI sends: secret values may be left blank to keep the stored ones.
+type FeedRequestAuthInput = {
+  headers?: Array<{ name: string; value?: string | null | undefined }> | undefined;
+  basic?: { username: string; password?: string | null | undefined } | null | undefined;
+  bearer_token?: string | null | undefined;
+  api_key?: { param: string; value?: string | null | undefined } | null | undefined;
+  cookies?: string | null | undefined;
+};
+
+type FeedWithAuth = {
+  url?: string;
+  request_auth_encrypted?: string | null;
+  // Unsaved credentials (feed test); take precedence over the stored ones.
+  requestAuth?: FeedRequestAuth | null;
+  // Origin the credentials belong to; discovered or redirected URLs elsewhere never get them.
+  authScopeUrl?: string;
+};
+
+type AppliedFeedRequest = {
+  url: string;
+  headers: Record<string, string>;
+  sensitiveHeaders: string[];
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value) === '';
+
+const pickSecret = (incoming: string | null | undefined, existing: string | null | undefined) =>
+  isBlank(incoming) ? existing || '' : String(incoming);
+
+const hasAnyAuth = (auth: FeedRequestAuth) =>
+  Boolean(auth.headers?.length || auth.basic || auth.bearer_token || auth.api_key || auth.cookies);
+
+/**
+ * Combine submitted request settings with the stored ones. `null` clears everything,
+ * `undefined` keeps the stored settings, and blank secret fields keep their stored values.
+ */
+const mergeFeedRequestAuth = (
+  existing: FeedRequestAuth | null,
+  input: FeedRequestAuthInput | null | undefined
+): FeedRequestAuth | null => {
+  if (input === undefined) return existing;
+  if (input === null) return null;
+
+  const previousHeaders = new Map(
+    (existing?.headers || []).map((header) => [header.name.toLowerCase(), header.value] as const)
+  );
+  const headers = (input.headers || [])
+    .map((header) => ({
+      name: header.name.trim(),
+      value: pickSecret(header.value, previousHeaders.get(header.name.trim().toLowerCase()))
+    }))
+    .filter((header) => header.name && header.value);
+
+  const merged: FeedRequestAuth = {};
+  if (headers.length) merged.headers = headers;
+
+  const basic = input.basic === undefined ? existing?.basic : input.basic;
+  if (basic?.username) {
+    merged.basic = { username: basic.username, password: pickSecret(basic.password, existing?.basic?.password) };
+  }
+
+  const bearer = input.bearer_token === null ? '' : pickSecret(input.bearer_token, existing?.bearer_token);
+  if (bearer) merged.bearer_token = bearer;
+
+  const apiKey = input.api_key === undefined ? existing?.api_key : input.api_key;
+  if (apiKey?.param) {
+    const value = pickSecret(apiKey.value, existing?.api_key?.value);
+    if (value) merged.api_key = { param: apiKey.param, value };
+  }
+
+  const cookies = input.cookies === null ? '' : pickSecret(input.cookies, existing?.cookies);
+  if (cookies) merged.cookies = cookies;
+
+  return hasAnyAuth(merged) ? merged : null;
+};
+
+const sealFeedRequestAuth = (auth: FeedRequestAuth | null) => (auth && hasAnyAuth(auth) ? sealSecret(auth) : null);
+
+const readFeedRequestAuth = (feed: FeedWithAuth | null | undefined): FeedRequestAuth | null => {
+  if (!feed) return null;
+  if (feed.requestAuth !== undefined) return feed.requestAuth;
+  if (!feed.request_auth_encrypted) return null;
+  try {
+    return openSecret(feed.request_auth_encrypted);
+  } catch (error) {
+    console.warn('Failed to decrypt feed request settings:', getErrorMessage(error));
+    return null;
+  }
+};
+
+/**
+ * Safe view of the request settings for API responses: header names, usernames and
+ * API key parameter names only.
+ */
+const describeFeedRequestAuth = (auth: FeedRequestAuth | null) => {
+  if (!auth) return null;
+  return {
+    headers: (auth.headers || []).map((header) => ({ name: header.name, has_value: Boolean(header.value) })),
+    basic: auth.basic ? { username: auth.basic.username, has_password: Boolean(auth.basic.password) } : null,
+    has_bearer_token: Boolean(auth.bearer_token),
+    api_key: auth.api_key ? { param: auth.api_key.param, has_value: Boolean(auth.api_key.value) } : null,
+    has_cookies: Boolean(auth.cookies)
+  };
+};
+
+const getOrigin = (value?: string) => {
+  try {
+    return value ? new URL(value).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Add a feed's credentials to a request for `url` when it targets the feed's own origin.
+ * Custom headers override the fetcher defaults (e.g. User-Agent); a bearer token wins over Basic.
+ */
+const applyFeedRequestAuth = (
+  feed: FeedWithAuth | null | undefined,
+  url: string,
+  headers: Record<string, string> = {}
+): AppliedFeedRequest => {
+  const auth = readFeedRequestAuth(feed);
+  const scopeOrigin = getOrigin(feed?.authScopeUrl || feed?.url);
+  if (!auth || !scopeOrigin || getOrigin(url) !== scopeOrigin) {
+    return { url, headers, sensitiveHeaders: [] };
+  }
+
+  const nextHeaders: Record<string, string> = { ...headers };
+  const setHeader = (name: string, value: string) => {
+    for (const key of Object.keys(nextHeaders)) {
+      if (key.toLowerCase() === name.toLowerCase()) delete nextHeaders[key];
+    }
+    nextHeaders[name] = value;
+  };
+
+  for (const header of auth.headers || []) {
+    setHeader(header.name, header.value);
+  }
+  if (auth.basic) {
+    setHeader('Authorization', `Basic ${Buffer.from(`${auth.basic.username}:${auth.basic.password}`).toString('base64')}`);
+  }
+  if (auth.bearer_token) {
+    setHeader('Authorization', `Bearer ${auth.bearer_token}`);
+  }
+  if (auth.cookies) {
+    setHeader('Cookie', auth.cookies);
+  }
+
+  let nextUrl = url;
+  if (auth.api_key) {
+    const parsed = new URL(url);
+    parsed.searchParams.set(auth.api_key.param, auth.api_key.value);
+    nextUrl = parsed.toString();
+  }
+
+  return {
+    url: nextUrl,
+    headers: nextHeaders,
+    sensitiveHeaders: (auth.headers || []).map((header) => header.name)
+  };
+};
+
+/**
+ * Merge submitted request settings for a request to `url`, which may differ from the stored feed's.
+ * Stored secrets only carry over on the stored feed's origin; anywhere else they have to be entered
+ * again, so an edited or tested URL never receives another site's credentials.
+ */
+const mergeFeedRequestAuthForUrl = (
+  stored: FeedWithAuth | null | undefined,
+  url: string,
+  input: FeedRequestAuthInput | null | undefined
+): FeedRequestAuth | null => {
+  const existing = readFeedRequestAuth(stored);
+  const storedOrigin = getOrigin(stored?.url);
+  const merged = mergeFeedRequestAuth(existing, input);
+  if (!existing || (storedOrigin && storedOrigin === getOrigin(url))) return merged;
+
+  const fresh = mergeFeedRequestAuth(null, input);
+  if (JSON.stringify(merged) !== JSON.stringify(fresh)) {
+    throw badRequest(
+      `Saved request credentials belong to ${storedOrigin || 'the saved feed URL'}; enter them again or clear them to use ${getOrigin(url) || 'this URL'}`
+    );
+  }
+  return fresh;
+};
+
+module.exports = {
+  mergeFeedRequestAuth,
+  mergeFeedRequestAuthForUrl,
+  sealFeedRequestAuth,
+  readFeedRequestAuth,
+  describeFeedRequestAuth,
+  applyFeedRequestAuth
+};
+
+export {};
@@ -1,8 +1,10 @@
+const zlib = require('zlib');
 const Parser = require('rss-parser');
 const cheerio = require('cheerio');
 const he = require('he');
 const { assertSafeOutboundUrl } = require('../utils/outboundUrl');
 const { safeAxiosRequest } = require('../utils/safeAxios');
+const { applyFeedRequestAuth } = require('./feedAuthService');
 
 const parser = new Parser({
   customFields: {
@@ -16,8 +18,12 @@ type FetchMeta = {
   lastModified?: string;
   notModified?: boolean;
   durationMs?: number;
-  detectedType?: 'rss' | 'atom' | 'json' | 'html';
+  detectedType?: 'rss' | 'atom' | 'json' | 'html' | 'sitemap';
   contentType?: string;
+  retryAfter?: string;
+  cacheControl?: string;
+  hubUrl?: string;
+  selfUrl?: string;
   sourceUrl?: string;
   discoveredFromUrl?: string;
 };
@@ -128,20 +134,48 @@ const resolveRelativeUrl = (baseUrl: string, candidate?: string | null) => {
   }
 };
 
-const detectFeedTypeHint = (value?: string | null): 'rss' | 'atom' | 'json' | null => {
+type DiscoveredFeedType = 'rss' | 'atom' | 'json' | 'sitemap';
+
+const detectFeedTypeHint = (value?: string | null): DiscoveredFeedType | null => {
   const normalized = String(value || '').toLowerCase();
   if (!normalized) return null;
+  if (normalized.includes('sitemap')) return 'sitemap';
   if (normalized.includes('json') || normalized.includes('feed+json')) return 'json';
   if (normalized.includes('atom')) return 'atom';
   if (normalized.includes('rss') || normalized.includes('xml')) return 'rss';
   return null;
 };
 
+const discoverSitemapsFromRobots = async (pageUrl: string, feed?: FeedRequestScope): Promise<string[]> => {
+  let robotsUrl = '';
+  try {
+    robotsUrl = new URL('/robots.txt', pageUrl).toString();
+  } catch {
+    return [];
+  }
+
+  await assertSafeOutboundUrl(robotsUrl);
+  const response = await requestWithFeedAuth(feed, robotsUrl, {
+    timeout: 10000,
+    headers: {
+      'User-Agent': DEFAULT_USER_AGENT,
+      Accept: 'text/plain,*/*;q=0.8'
+    }
+  });
+
+  return String(response.data || '')
+    .split(/\r?\n/)
+    .map((line) => line.match(/^\s*sitemap\s*:\s*(\S+)/i)?.[1] || '')
+    .map((candidate) => resolveRelativeUrl(robotsUrl, candidate))
+    .filter((candidate) => candidate && isValidUrl(candidate));
+};
+
 const discoverFeedEndpointFromHtml = async (
-  pageUrl: string
-): Promise<{ url: string; type: 'rss' | 'atom' | 'json' | null } | null> => {
+  pageUrl: string,
+  feed?: FeedRequestScope
+): Promise<{ url: string; type: DiscoveredFeedType | null } | null> => {
   await assertSafeOutboundUrl(pageUrl);
-  const response = await safeAxiosRequest(pageUrl, {
+  const response = await requestWithFeedAuth(feed, pageUrl, {
     timeout: 15000,
     headers: {
       'User-Agent': DEFAULT_USER_AGENT,
@@ -153,7 +187,7 @@ const discoverFeedEndpointFromHtml = async (
   if (!html.trim()) return null;
   const $ = cheerio.load(html);
 
-  const candidates: Array<{ url: string; type: 'rss' | 'atom' | 'json' | null; score: number }> = [];
+  const candidates: Array<{ url: string; type: DiscoveredFeedType | null; score: number }> = [];
   const pushCandidate = (urlLike?: string | null, hint?: string | null, score = 0) => {
     const resolved = resolveRelativeUrl(pageUrl, urlLike);
     if (!resolved || !isValidUrl(resolved)) return;
@@ -193,10 +227,24 @@ const discoverFeedEndpointFromHtml = async (
     pushCandidate(href, hint, 40);
   });
 
+  // Last resort: sitemaps advertised in robots.txt, preferring Google News sitemaps.
+  if (!candidates.length) {
+    try {
+      const sitemaps = await discoverSitemapsFromRobots(pageUrl, feed);
+      for (const sitemapUrl of sitemaps) {
+        // Match the path only: the host of a news site often contains "news" too.
+        const score = /news/i.test(new URL(sitemapUrl).pathname) ? 30 : 20;
+        candidates.push({ url: sitemapUrl, type: 'sitemap', score });
+      }
+    } catch {
+      // robots.txt is optional.
+    }
+  }
+
   if (!candidates.length) return null;
 
   const current = String(pageUrl).trim();
-  const deduped = new Map<string, { url: string; type: 'rss' | 'atom' | 'json' | null; score: number }>();
+  const deduped = new Map<string, { url: string; type: DiscoveredFeedType | null; score: number }>();
   for (const item of candidates) {
     const key = item.url.toLowerCase();
     const existing = deduped.get(key);
@@ -241,11 +289,26 @@ const applyCleaning = (value: string = '', cleaning?: FeedCleaning) => {
 
 type FeedConfig = {
   url: string;
-  type?: 'rss' | 'atom' | 'json' | 'html';
+  type?: 'rss' | 'atom' | 'json' | 'html' | 'sitemap';
   parseConfig?: Record<string, unknown>;
   cleaning?: FeedCleaning;
   etag?: string | null;
   last_modified?: string | null;
+  request_auth_encrypted?: string | null;
+  requestAuth?: Record<string, unknown> | null;
+  authScopeUrl?: string;
+};
+
+type FeedRequestScope = Pick<FeedConfig, 'url' | 'request_auth_encrypted' | 'requestAuth' | 'authScopeUrl'>;
+
+// Requests on the feed's own origin carry its configured headers/credentials.
+const requestWithFeedAuth = (
+  feed: FeedRequestScope | null | undefined,
+  url: string,
+  config: Record<string, unknown> & { headers?: Record<string, string> }
+) => {
+  const applied = applyFeedRequestAuth(feed, url, config.headers || {});
+  return safeAxiosRequest(applied.url, { ...config, headers: applied.headers }, { sensitiveHeaders: applied.sensitiveHeaders });
 };
 
 type FeedItemResult = {
@@ -259,6 +322,8 @@ type FeedItemResult = {
   publishedAt?: string | Date | undefined;
   categories?: string[] | undefined;
   raw?: Record<string, unknown>;
+  // Original feed entry, for field mapping JSON paths; not stored.
+  source?: Record<string, unknown>;
 };
 
 const hasExplicitTimeComponent = (value: string) => {
@@ -565,7 +630,8 @@ const mapJsonFeedItem = (feed: FeedConfig, item: Record<string, unknown>): FeedI
       : Array.isArray(getPath(item, 'categories'))
         ? (getPath(item, 'categories') as unknown[]).map((value) => String(value))
         : [],
-    raw: rawData
+    raw: rawData,
+    source: item
   };
 };
 
@@ -598,7 +664,8 @@ const fetchRssItems = async (feed: FeedConfig): Promise<FeedItemResult[]> => {
         ),
         publishedAt: published.value || toStringValue(rssItem.pubDate || rssItem.isoDate),
         categories: Array.isArray(rssItem.categories) ? rssItem.categories.map((value) => String(value)) : [],
-        raw
+        raw,
+        source: item
       };
     });
     return enrichWordPressRssPublishedAt(feed.url, mapped);
@@ -608,41 +675,8 @@ const fetchRssItems = async (feed: FeedConfig): Promise<FeedItemResult[]> => {
   }
 };
 
-const fetchRssItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
-  await assertSafeOutboundUrl(feed.url);
-  const headers: Record<string, string> = {};
-  if (feed.etag) headers['If-None-Match'] = String(feed.etag);
-  if (feed.last_modified) headers['If-Modified-Since'] = String(feed.last_modified);
-  // User Agent: Pretend to be Chrome to avoid blocking
-  headers['User-Agent'] = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
-  headers['Accept'] = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8';
-
-  const response = await safeAxiosRequest(feed.url, {
-    timeout: 20000,
-    headers,
-    responseType: 'arraybuffer', // CRITICAL: Get raw bytes to handle encoding manually
-    validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304
-  });
-
-  const meta: FetchMeta = {
-    status: response.status,
-    etag: response.headers?.etag,
-    lastModified: response.headers?.['last-modified'],
-    notModified: response.status === 304,
-    contentType: response.headers?.['content-type']
-  };
-
-  if (response.status === 304) {
-    return { items: [], meta };
-  }
-
-  // Convert buffer to string, handling encoding if possible
-  const buffer = response.data;
-  const decoder = new TextDecoder('utf-8'); // Default to utf-8
-  const xmlString = decoder.decode(buffer);
-
-  const data = await parser.parseString(xmlString);
-  const items = (data.items || []).map((item: Record<string, unknown>) => {
+const mapRssDocumentItems = (feed: FeedConfig, data: { items?: Array<Record<string, unknown>> }): FeedItemResult[] =>
+  (data.items || []).map((item: Record<string, unknown>) => {
     const rssItem = item as Record<string, unknown> & {
       enclosure?: { url?: string };
       'media:content'?: { $?: { url?: string }; url?: string };
@@ -681,10 +715,90 @@ const fetchRssItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIte
       imageUrl,
       publishedAt: published.value || toStringValue(rssItem.pubDate || rssItem.isoDate),
       categories: Array.isArray(rssItem.categories) ? rssItem.categories.map((value) => String(value)) : [],
-      raw
+      raw,
+      source: item
     };
   });
 
+const toAbsoluteUrl = (value: string | undefined, baseUrl: string) => {
+  if (!value) return undefined;
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Find WebSub hub/self links advertised by a feed, either in the document
+ * (<link rel="hub"> / <atom:link rel="hub">) or in an HTTP Link header.
+ */
+const extractWebSubLinks = (xml: string, linkHeader?: unknown, baseUrl = 'http://localhost/') => {
+  let hubUrl: string | undefined;
+  let selfUrl: string | undefined;
+  const header = Array.isArray(linkHeader) ? linkHeader.join(',') : String(linkHeader || '');
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]+)>\s*;(.*)$/);
+    if (!match?.[1]) continue;
+    const rels = (match[2]?.match(/rel\s*=\s*"?([^";]+)"?/i)?.[1] || '').toLowerCase().split(/\s+/);
+    if (rels.includes('hub')) hubUrl = hubUrl || toAbsoluteUrl(match[1].trim(), baseUrl);
+    if (rels.includes('self')) selfUrl = selfUrl || toAbsoluteUrl(match[1].trim(), baseUrl);
+  }
+
+  if (xml && (!hubUrl || !selfUrl)) {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const findHref = (rel: string) =>
+      toStringValue($(`link[rel="${rel}"], atom\\:link[rel="${rel}"], atom10\\:link[rel="${rel}"]`).first().attr('href'));
+    hubUrl = hubUrl || toAbsoluteUrl(findHref('hub'), baseUrl);
+    selfUrl = selfUrl || toAbsoluteUrl(findHref('self'), baseUrl);
+  }
+
+  return {
+    ...(hubUrl ? { hubUrl } : {}),
+    ...(selfUrl ? { selfUrl } : {})
+  };
+};
+
+const fetchRssItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
+  await assertSafeOutboundUrl(feed.url);
+  const headers: Record<string, string> = {};
+  if (feed.etag) headers['If-None-Match'] = String(feed.etag);
+  if (feed.last_modified) headers['If-Modified-Since'] = String(feed.last_modified);
+  // User Agent: Pretend to be Chrome to avoid blocking
+  headers['User-Agent'] = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+  headers['Accept'] = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8';
+
+  const response = await requestWithFeedAuth(feed, feed.url, {
+    timeout: 20000,
+    headers,
+    responseType: 'arraybuffer', // CRITICAL: Get raw bytes to handle encoding manually
+    validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304
+  });
+
+  const meta: FetchMeta = {
+    status: response.status,
+    etag: response.headers?.etag,
+    lastModified: response.headers?.['last-modified'],
+    notModified: response.status === 304,
+    contentType: response.headers?.['content-type'],
+    retryAfter: response.headers?.['retry-after'],
+    cacheControl: response.headers?.['cache-control']
+  };
+
+  if (response.status === 304) {
+    return { items: [], meta };
+  }
+
+  // Convert buffer to string, handling encoding if possible
+  const buffer = response.data;
+  const decoder = new TextDecoder('utf-8'); // Default to utf-8
+  const xmlString = decoder.decode(buffer);
+
+  Object.assign(meta, extractWebSubLinks(xmlString, response.headers?.link, feed.url));
+
+  const data = await parser.parseString(xmlString);
+  const items = mapRssDocumentItems(feed, data);
+
   const enrichedItems = await enrichWordPressRssPublishedAt(feed.url, items);
   return { items: enrichedItems, meta };
 };
@@ -712,7 +826,7 @@ const fetchJsonItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
   headers['User-Agent'] = DEFAULT_USER_AGENT;
   headers['Accept'] = 'application/json, text/json, */*;q=0.8';
 
-  const response = await safeAxiosRequest(feed.url, {
+  const response = await requestWithFeedAuth(feed, feed.url, {
     timeout: 15000,
     headers,
     validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304
@@ -723,7 +837,9 @@ const fetchJsonItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
     etag: response.headers?.etag,
     lastModified: response.headers?.['last-modified'],
     notModified: response.status === 304,
-    contentType: response.headers?.['content-type']
+    contentType: response.headers?.['content-type'],
+    retryAfter: response.headers?.['retry-after'],
+    cacheControl: response.headers?.['cache-control']
   };
 
   if (response.status === 304) {
@@ -738,16 +854,406 @@ const fetchJsonItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
   return { items: mapped, meta };
 };
 
-const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
+const SITEMAP_MAX_CHILD_SITEMAPS = 5;
+const SITEMAP_MAX_ITEMS = 100;
+
+const decodeSitemapBody = (data: unknown) => {
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer);
+  // Plain .xml.gz files are served without Content-Encoding, so axios leaves them compressed.
+  if (buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    return zlib.gunzipSync(buffer).toString('utf8');
+  }
+  return new TextDecoder('utf-8').decode(buffer);
+};
+
+const titleFromUrlSlug = (value: string) => {
+  try {
+    const segments = new URL(value).pathname.split('/').filter(Boolean);
+    const slug = decodeURIComponent(segments[segments.length - 1] || '')
+      .replace(/\.[a-z0-9]+$/i, '')
+      .replace(/[-_]+/g, ' ')
+      .trim();
+    if (!slug || /^\d+$/.test(slug)) return undefined;
+    return slug.charAt(0).toUpperCase() + slug.slice(1);
+  } catch {
+    return undefined;
+  }
+};
+
+const parseSitemapXml = (xml: string, feedUrl: string) => {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const childSitemaps: Array<{ url: string; lastmod?: string }> = [];
+  const items: FeedItemResult[] = [];
+
+  $('sitemapindex > sitemap').each((_: number, element: unknown) => {
+    const el = $(element);
+    const loc = resolveRelativeUrl(feedUrl, el.children('loc').text().trim());
+    if (!loc || !isValidUrl(loc)) return;
+    const lastmod = el.children('lastmod').text().trim();
+    childSitemaps.push({ url: loc, ...(lastmod ? { lastmod } : {}) });
+  });
+
+  $('urlset > url').each((_: number, element: unknown) => {
+    const el = $(element);
+    const loc = resolveRelativeUrl(feedUrl, el.children('loc').text().trim());
+    if (!loc || !isValidUrl(loc)) return;
+
+    const news = el.find('news\\:news').first();
+    const newsTitle = news.find('news\\:title').first().text().trim();
+    const newsPublished = news.find('news\\:publication_date').first().text().trim();
+    const publicationName = news.find('news\\:publication news\\:name').first().text().trim();
+    const keywords = news
+      .find('news\\:keywords')
+      .first()
+      .text()
+      .split(',')
+      .map((value: string) => value.trim())
+      .filter(Boolean);
+    const lastmod = el.children('lastmod').text().trim();
+    const published = parsePublishedAt(newsPublished || lastmod);
+    const imageUrl = pickFirstUrl(el.find('image\\:image image\\:loc').first().text().trim());
+
+    const raw: Record<string, unknown> = { sitemap_source: feedUrl };
+    if (lastmod) raw.sitemap_lastmod = lastmod;
+    if (publicationName) raw.news_publication = publicationName;
+    if (published.original) raw.published_input = published.original;
+    if (published.precision) raw.published_precision = published.precision;
+
+    items.push({
+      guid: loc,
+      title: newsTitle || el.find('image\\:image image\\:title').first().text().trim() || titleFromUrlSlug(loc),
+      url: removeUtm(loc),
+      author: publicationName || undefined,
+      imageUrl,
+      publishedAt: published.value,
+      categories: keywords,
+      raw
+    });
+  });
+
+  return { childSitemaps, items };
+};
+
+const getSitemapItemTime = (item: FeedItemResult) => {
+  const value = item.publishedAt ? new Date(item.publishedAt).getTime() : NaN;
+  return Number.isFinite(value) ? value : 0;
+};
+
+const fetchSitemapItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
+  await assertSafeOutboundUrl(feed.url);
+  const headers: Record<string, string> = {};
+  if (feed.etag) headers['If-None-Match'] = String(feed.etag);
+  if (feed.last_modified) headers['If-Modified-Since'] = String(feed.last_modified);
+  headers['User-Agent'] = DEFAULT_USER_AGENT;
+  headers['Accept'] = 'application/xml,text/xml;q=0.9,*/*;q=0.8';
+
+  const response = await requestWithFeedAuth(feed, feed.url, {
+    timeout: 20000,
+    headers,
+    responseType: 'arraybuffer',
+    validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304
+  });
+
+  const meta: FetchMeta = {
+    status: response.status,
+    etag: response.headers?.etag,
+    lastModified: response.headers?.['last-modified'],
+    notModified: response.status === 304,
+    contentType: response.headers?.['content-type'],
+    retryAfter: response.headers?.['retry-after'],
+    cacheControl: response.headers?.['cache-control']
+  };
+
+  if (response.status === 304) {
+    return { items: [], meta };
+  }
+
+  const root = parseSitemapXml(decodeSitemapBody(response.data), feed.url);
+  const items = [...root.items];
+
+  // Sitemap indexes: only the most recently modified child sitemaps carry fresh articles.
+  const children = root.childSitemaps
+    .sort((a, b) => (Date.parse(b.lastmod || '') || 0) - (Date.parse(a.lastmod || '') || 0))
+    .slice(0, SITEMAP_MAX_CHILD_SITEMAPS);
+
+  for (const child of children) {
+    try {
+      await assertSafeOutboundUrl(child.url);
+      const childResponse = await requestWithFeedAuth(feed, child.url, {
+        timeout: 20000,
+        headers: { 'User-Agent': DEFAULT_USER_AGENT, Accept: headers['Accept'] },
+        responseType: 'arraybuffer'
+      });
+      items.push(...parseSitemapXml(decodeSitemapBody(childResponse.data), child.url).items);
+    } catch (error) {
+      console.warn(`Failed to fetch child sitemap ${child.url}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const seen = new Set<string>();
+  const ordered = items
+    .filter((item) => {
+      const key = String(item.url || '').toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => getSitemapItemTime(b) - getSitemapItemTime(a))
+    .slice(0, SITEMAP_MAX_ITEMS);
+
+  return { items: ordered, meta };
+};
+
+type HtmlSelectorConfig = {
+  itemSelector: string;
+  titleSelector?: string;
+  linkSelector?: string;
+  imageSelector?: string;
+  dateSelector?: string;
+  dateFormat?: string;
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMMM: '([A-Za-z]+)',
+  MMM: '([A-Za-z]{3})',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  hh: '(\\d{2})',
+  h: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+  A: '(AM|PM|am|pm)',
+  a: '(AM|PM|am|pm)'
+};
+
+/**
+ * Parse a scraped date using a moment-style format such as "DD/MM/YYYY HH:mm".
+ * Text in square brackets is literal, e.g. "MMMM D, YYYY [at] h:mm a".
+ * Values without an offset are read as UTC.
+ */
+const parseDateWithFormat = (value: string, format: string): string | undefined => {
+  const tokenPattern = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A|a/g;
+  const tokens: string[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+  for (const match of format.matchAll(tokenPattern)) {
+    pattern += escapeRegExp(format.slice(lastIndex, match.index));
+    if (match[1] !== undefined) {
+      pattern += escapeRegExp(match[1]);
+    } else {
+      pattern += DATE_FORMAT_TOKENS[match[0]];
+      tokens.push(match[0]);
+    }
+    lastIndex = (match.index || 0) + match[0].length;
+  }
+  pattern += escapeRegExp(format.slice(lastIndex));
+
+  const found = value.trim().match(new RegExp(pattern));
+  if (!found) return undefined;
+
+  const parts = { year: 1970, month: 0, day: 1, hour: 0, minute: 0, second: 0 };
+  let meridiem = '';
+  tokens.forEach((token, index) => {
+    const raw = found[index + 1] || '';
+    const numeric = Number(raw);
+    if (token === 'YYYY') parts.year = numeric;
+    else if (token === 'YY') parts.year = 2000 + numeric;
+    else if (token === 'MMMM' || token === 'MMM') parts.month = MONTH_NAMES.indexOf(raw.slice(0, 3).toLowerCase());
+    else if (token === 'MM' || token === 'M') parts.month = numeric - 1;
+    else if (token === 'DD' || token === 'D') parts.day = numeric;
+    else if (token.toLowerCase() === 'hh' || token.toLowerCase() === 'h') parts.hour = numeric;
+    else if (token === 'mm') parts.minute = numeric;
+    else if (token === 'ss') parts.second = numeric;
+    else if (token === 'A' || token === 'a') meridiem = raw.toLowerCase();
+  });
+  if (meridiem === 'pm' && parts.hour < 12) parts.hour += 12;
+  if (meridiem === 'am' && parts.hour === 12) parts.hour = 0;
+  if (parts.month < 0 || parts.month > 11) return undefined;
+
+  const ms = Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+};
+
+const getHtmlSelectorConfig = (parseConfig?: Record<string, unknown>): HtmlSelectorConfig | null => {
+  const itemSelector = String(parseConfig?.itemSelector || '').trim();
+  if (!itemSelector) return null;
+  const pick = (key: keyof HtmlSelectorConfig) => {
+    const value = String(parseConfig?.[key] || '').trim();
+    return value ? { [key]: value } : {};
+  };
+  return {
+    itemSelector,
+    ...pick('titleSelector'),
+    ...pick('linkSelector'),
+    ...pick('imageSelector'),
+    ...pick('dateSelector'),
+    ...pick('dateFormat')
+  };
+};
+
+// Selectors may end in "@attr" to read an attribute instead of text, e.g. "a.headline@href".
+const splitSelectorAttr = (selector: string) => {
+  const match = selector.match(/^(.*?)@([\w:-]+)$/);
+  if (!match) return { selector, attr: null as string | null };
+  return { selector: (match[1] || '').trim(), attr: match[2] || null };
+};
+
+const fetchHtmlItemsWithMeta = async (
+  feed: FeedConfig,
+  config: HtmlSelectorConfig
+): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
+  await assertSafeOutboundUrl(feed.url);
+  const headers: Record<string, string> = {};
+  if (feed.etag) headers['If-None-Match'] = String(feed.etag);
+  if (feed.last_modified) headers['If-Modified-Since'] = String(feed.last_modified);
+  headers['User-Agent'] = DEFAULT_USER_AGENT;
+  headers['Accept'] = 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8';
+
+  const response = await requestWithFeedAuth(feed, feed.url, {
+    timeout: 20000,
+    headers,
+    validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304
+  });
+
+  const meta: FetchMeta = {
+    status: response.status,
+    etag: response.headers?.etag,
+    lastModified: response.headers?.['last-modified'],
+    notModified: response.status === 304,
+    contentType: response.headers?.['content-type'],
+    retryAfter: response.headers?.['retry-after'],
+    cacheControl: response.headers?.['cache-control']
+  };
+
+  if (response.status === 304) {
+    return { items: [], meta };
+  }
+
+  const $ = cheerio.load(String(response.data || ''));
+
+  const selectValue = (root: unknown, selectorWithAttr: string | undefined, defaultAttrs: string[]) => {
+    const scope = $(root);
+    if (!selectorWithAttr) return undefined;
+    const { selector, attr } = splitSelectorAttr(selectorWithAttr);
+    const el = selector ? scope.find(selector).first() : scope;
+    if (!el.length) return undefined;
+    const attrs = attr ? [attr] : defaultAttrs;
+    for (const name of attrs) {
+      const value = String(el.attr(name) || '').trim();
+      if (value) return value;
+    }
+    return attr ? undefined : String(el.text() || '').replace(/\s+/g, ' ').trim() || undefined;
+  };
+
+  const items: FeedItemResult[] = [];
+  $(config.itemSelector).each((_: number, element: unknown) => {
+    const el = $(element);
+    const href =
+      selectValue(element, config.linkSelector, ['href']) ||
+      String(el.attr('href') || el.find('a[href]').first().attr('href') || '').trim();
+    const url = resolveRelativeUrl(feed.url, href);
+    if (!url || !isValidUrl(url)) return;
+
+    const title =
+      selectValue(element, config.titleSelector, []) ||
+      String(el.find('a[href]').first().text() || el.text() || '').replace(/\s+/g, ' ').trim();
+    const imageValue = selectValue(element, config.imageSelector || 'img', ['src', 'data-src', 'content']);
+    const imageUrl = pickFirstUrl(resolveRelativeUrl(feed.url, imageValue));
+    const dateValue = selectValue(element, config.dateSelector, ['datetime', 'content']);
+    const published = dateValue && config.dateFormat
+      ? { value: parseDateWithFormat(dateValue, config.dateFormat), original: dateValue, precision: undefined }
+      : parsePublishedAt(dateValue);
+
+    const raw: Record<string, unknown> = { scraped_from: feed.url };
+    if (published.original) raw.published_input = published.original;
+    if (published.precision) raw.published_precision = published.precision;
+
+    items.push({
+      guid: url,
+      title,
+      url: removeUtm(url),
+      imageUrl,
+      publishedAt: published.value,
+      categories: [],
+      raw
+    });
+  });
+
+  return { items, meta };
+};
+
+type FetchKind = 'json' | 'xml' | 'sitemap';
+
+const cleanFeedItems = (items: FeedItemResult[], feedCleaning?: FeedCleaning) => {
+  // Default cleaning options - always strip UTM and decode HTML entities
+  const cleaning = feedCleaning || { stripUtm: true, decodeEntities: true };
+  return items
+    .filter((item) => item.title || item.url)
+    .map((item: FeedItemResult) => {
+      const cleanedTitle = applyCleaning(item.title || '', cleaning);
+      const cleanedDescription = applyCleaning(item.description || '', cleaning);
+      const cleanedContent = applyCleaning(item.content || '', cleaning);
+      const cleanedUrl = cleaning?.stripUtm && item.url ? removeUtm(item.url) : item.url;
+      const cleanedImageUrl =
+        cleaning?.stripUtm && item.imageUrl ? removeUtm(item.imageUrl) : item.imageUrl;
+      return {
+        ...item,
+        title: cleanedTitle || 'Untitled',
+        description: cleanedDescription,
+        content: cleanedContent,
+        url: cleanedUrl,
+        imageUrl: cleanedImageUrl
+      };
+    });
+};
+
+const getPreferredFetchKind = (type?: FeedConfig['type']): FetchKind =>
+  type === 'json' ? 'json' : type === 'sitemap' ? 'sitemap' : 'xml';
+
+// Sitemaps fall back to the XML feed parser in case the URL is really an RSS/Atom feed.
+const getFallbackFetchKind = (kind: FetchKind): FetchKind => (kind === 'xml' ? 'json' : 'xml');
+
+const toDetectedType = (kind: FetchKind, type?: FeedConfig['type']): NonNullable<FetchMeta['detectedType']> => {
+  if (kind === 'json') return 'json';
+  if (kind === 'sitemap') return 'sitemap';
+  return type === 'atom' ? 'atom' : 'rss';
+};
+
+const fetchFeedItemsWithMeta = async (input: FeedConfig): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
   const start = Date.now();
+  // Pin credentials to the configured URL before discovery swaps in other endpoints.
+  const feed: FeedConfig = { ...input, authScopeUrl: input.authScopeUrl || input.url };
   let sourceFeed = { ...feed };
   let discoveredFromHtmlUrl: string | null = null;
 
+  // HTML feeds with an item selector are scraped directly instead of discovering a feed.
+  const selectorConfig = feed.type === 'html' ? getHtmlSelectorConfig(feed.parseConfig) : null;
+  if (selectorConfig) {
+    const scraped = await fetchHtmlItemsWithMeta(feed, selectorConfig);
+    return {
+      items: cleanFeedItems(scraped.items, feed.cleaning),
+      meta: {
+        ...scraped.meta,
+        sourceUrl: feed.url,
+        detectedType: 'html',
+        durationMs: Date.now() - start
+      }
+    };
+  }
+
   // If user explicitly picked HTML, treat this URL as a web page and discover
   // the real feed endpoint first (RSS/Atom/JSON).
   if (feed.type === 'html') {
     try {
-      const discovered = await discoverFeedEndpointFromHtml(feed.url);
+      const discovered = await discoverFeedEndpointFromHtml(feed.url, feed);
       if (discovered?.url) {
         discoveredFromHtmlUrl = feed.url;
         sourceFeed = {
@@ -761,29 +1267,31 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
     }
   }
 
-  const tryFetch = async (kind: 'json' | 'xml', sourceFeed: FeedConfig = feed) => {
+  const tryFetch = async (kind: FetchKind, sourceFeed: FeedConfig = feed) => {
     if (kind === 'json') {
       return fetchJsonItemsWithMeta({ ...sourceFeed, type: 'json' });
     }
+    if (kind === 'sitemap') {
+      return fetchSitemapItemsWithMeta({ ...sourceFeed, type: 'sitemap' });
+    }
     return fetchRssItemsWithMeta({
       ...sourceFeed,
       type: sourceFeed.type === 'atom' ? 'atom' : 'rss'
     });
   };
 
-  const preferred: 'json' | 'xml' = sourceFeed.type === 'json' ? 'json' : 'xml';
-  const fallback: 'json' | 'xml' = preferred === 'json' ? 'xml' : 'json';
+  const preferred = getPreferredFetchKind(sourceFeed.type);
+  const fallback = getFallbackFetchKind(preferred);
 
   let items: FeedItemResult[] = [];
   let meta: FetchMeta = {};
-  let detectedType: FetchMeta['detectedType'] = sourceFeed.type || (preferred === 'json' ? 'json' : 'rss');
+  let detectedType: FetchMeta['detectedType'] = sourceFeed.type || toDetectedType(preferred);
 
   try {
     const result = await tryFetch(preferred, sourceFeed);
     items = result.items;
     meta = result.meta;
-    detectedType =
-      preferred === 'json' ? 'json' : sourceFeed.type === 'atom' ? 'atom' : 'rss';
+    detectedType = toDetectedType(preferred, sourceFeed.type);
 
     if (!meta?.notModified && (!items || items.length === 0)) {
       try {
@@ -791,7 +1299,7 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
         if (alt?.items?.length) {
           items = alt.items;
           meta = alt.meta;
-          detectedType = fallback === 'json' ? 'json' : 'rss';
+          detectedType = toDetectedType(fallback);
         }
       } catch {
         // ignore fallback errors
@@ -801,13 +1309,13 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
     const alt = await tryFetch(fallback, sourceFeed);
     items = alt.items;
     meta = alt.meta;
-    detectedType = fallback === 'json' ? 'json' : 'rss';
+    detectedType = toDetectedType(fallback);
   }
 
   // Last fallback: if the URL is an HTML page, auto-discover its feed endpoint and retry.
   if (!meta?.notModified && (!items || items.length === 0)) {
     try {
-      const discovered = await discoverFeedEndpointFromHtml(feed.url);
+      const discovered = await discoverFeedEndpointFromHtml(feed.url, feed);
       if (discovered?.url) {
         const resolvedDiscoveredType = discovered.type || feed.type;
         const discoveredFeed: FeedConfig = {
@@ -815,8 +1323,8 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
           url: discovered.url,
           ...(resolvedDiscoveredType ? { type: resolvedDiscoveredType } : {})
         };
-        const discoveredPreferred: 'json' | 'xml' = discoveredFeed.type === 'json' ? 'json' : 'xml';
-        const discoveredFallback: 'json' | 'xml' = discoveredPreferred === 'json' ? 'xml' : 'json';
+        const discoveredPreferred = getPreferredFetchKind(discoveredFeed.type);
+        const discoveredFallback = getFallbackFetchKind(discoveredPreferred);
 
         try {
           const discoveredResult = await tryFetch(discoveredPreferred, discoveredFeed);
@@ -826,12 +1334,7 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
             sourceUrl: discovered.url,
             discoveredFromUrl: feed.url
           };
-          detectedType =
-            discoveredPreferred === 'json'
-              ? 'json'
-              : discoveredFeed.type === 'atom'
-                ? 'atom'
-                : 'rss';
+          detectedType = toDetectedType(discoveredPreferred, discoveredFeed.type);
 
           if (!meta?.notModified && (!items || items.length === 0)) {
             const discoveredAlt = await tryFetch(discoveredFallback, discoveredFeed);
@@ -842,7 +1345,7 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
                 sourceUrl: discovered.url,
                 discoveredFromUrl: feed.url
               };
-              detectedType = discoveredFallback === 'json' ? 'json' : 'rss';
+              detectedType = toDetectedType(discoveredFallback);
             }
           }
         } catch {
@@ -853,7 +1356,7 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
             sourceUrl: discovered.url,
             discoveredFromUrl: feed.url
           };
-          detectedType = discoveredFallback === 'json' ? 'json' : 'rss';
+          detectedType = toDetectedType(discoveredFallback);
         }
       }
     } catch {
@@ -861,26 +1364,7 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
     }
   }
 
-  // Default cleaning options - always strip UTM and decode HTML entities
-  const cleaning = feed.cleaning || { stripUtm: true, decodeEntities: true };
-  const cleaned = items
-    .filter((item) => item.title || item.url)
-    .map((item: FeedItemResult) => {
-      const cleanedTitle = applyCleaning(item.title || '', cleaning);
-      const cleanedDescription = applyCleaning(item.description || '', cleaning);
-      const cleanedContent = applyCleaning(item.content || '', cleaning);
-      const cleanedUrl = cleaning?.stripUtm && item.url ? removeUtm(item.url) : item.url;
-      const cleanedImageUrl =
-        cleaning?.stripUtm && item.imageUrl ? removeUtm(item.imageUrl) : item.imageUrl;
-      return {
-        ...item,
-        title: cleanedTitle || 'Untitled',
-        description: cleanedDescription,
-        content: cleanedContent,
-        url: cleanedUrl,
-        imageUrl: cleanedImageUrl
-      };
-    });
+  const cleaned = cleanFeedItems(items, feed.cleaning);
   const discoveredFromUrl = meta?.discoveredFromUrl || discoveredFromHtmlUrl;
 
   return {
@@ -895,6 +1379,42 @@ const fetchFeedItemsWithMeta = async (feed: FeedConfig): Promise<{ items: FeedIt
   };
 };
 
+/**
+ * Parse a feed document delivered by a WebSub hub, without fetching the feed URL.
+ */
+const parsePushedFeedItems = async (
+  feed: FeedConfig,
+  body: string
+): Promise<{ items: FeedItemResult[]; meta: FetchMeta }> => {
+  const start = Date.now();
+  const text = String(body || '').replace(/^\uFEFF/, '').trim();
+  if (!text) {
+    return { items: [], meta: { sourceUrl: feed.url, durationMs: 0 } };
+  }
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    const itemsPath = (feed.parseConfig?.itemsPath as string) || 'items';
+    const items = extractJsonItemsArray(JSON.parse(text), itemsPath);
+    const mapped = (items as Record<string, unknown>[]).map((item) => mapJsonFeedItem(feed, item));
+    return {
+      items: cleanFeedItems(mapped, feed.cleaning),
+      meta: { detectedType: 'json', sourceUrl: feed.url, durationMs: Date.now() - start }
+    };
+  }
+
+  const data = await parser.parseString(text);
+  const items = await enrichWordPressRssPublishedAt(feed.url, mapRssDocumentItems(feed, data));
+  return {
+    items: cleanFeedItems(items, feed.cleaning),
+    meta: {
+      ...extractWebSubLinks(text, undefined, feed.url),
+      detectedType: feed.type === 'atom' ? 'atom' : 'rss',
+      sourceUrl: feed.url,
+      durationMs: Date.now() - start
+    }
+  };
+};
+
 const fetchFeedItems = async (feed: FeedConfig): Promise<FeedItemResult[]> => {
   try {
     const { items } = await fetchFeedItemsWithMeta(feed);
@@ -908,6 +1428,9 @@ const fetchFeedItems = async (feed: FeedConfig): Promise<FeedItemResult[]> => {
 module.exports = {
   fetchFeedItems,
   fetchFeedItemsWithMeta,
+  parseDateWithFormat,
+  parsePushedFeedItems,
+  extractWebSubLinks,
   removeUtm,
   applyCleaning,
   stripHtml
@@ -0,0 +1,259 @@
+const cheerio = require('cheerio');
+
+type FeedType = 'rss' | 'atom' | 'json' | 'html' | 'sitemap';
+
+type ImportedFeedEntry = {
+  name: string;
+  url: string;
+  folder: string | null;
+  type: FeedType | null;
+  priority?: number;
+  fetch_full_article?: boolean;
+  parse_config?: unknown;
+  cleaning?: unknown;
+  field_mappings?: unknown;
+};
+
+type ExportableFeed = {
+  name?: string | null;
+  url?: string | null;
+  type?: string | null;
+  folder?: string | null;
+  priority?: number | null;
+  fetch_full_article?: boolean | null;
+  parse_config?: unknown;
+  cleaning?: unknown;
+  field_mappings?: unknown;
+};
+
+// Our settings ride along as namespaced outline attributes so other readers ignore them.
+const OPML_NAMESPACE = 'urn:whatsapp-news-bot:opml';
+const OPML_PREFIX = 'newsbot';
+const FOLDER_SEPARATOR = ' / ';
+const MAX_IMPORT_ENTRIES = 500;
+const FEED_TYPES = new Set<FeedType>(['rss', 'atom', 'json', 'html', 'sitemap']);
+
+const toFeedType = (value: unknown): FeedType | null => {
+  const normalized = String(value || '').trim().toLowerCase();
+  return FEED_TYPES.has(normalized as FeedType) ? (normalized as FeedType) : null;
+};
+
+const parseJsonAttribute = (value: string | undefined) => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const detectImportFormat = (content: string): 'opml' | 'csv' => (/^\s*</.test(content) ? 'opml' : 'csv');
+
+// A slash inside one folder name ("AC/DC") is kept; one spaced like the separator is tightened
+// so it cannot read back as nesting.
+const toFolderLabel = (label: string) => label.replace(/\s+\/\s+/g, '/');
+
+/**
+ * Read feed outlines from an OPML document. Outlines without `xmlUrl` are folders;
+ * nested folders are joined with " / ".
+ */
+const parseOpmlFeeds = (xml: string): ImportedFeedEntry[] => {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const body = $('opml > body').first();
+  if (!body.length) {
+    throw new Error('Not an OPML document');
+  }
+
+  const entries: ImportedFeedEntry[] = [];
+  const walk = (parent: unknown, folders: string[]) => {
+    $(parent)
+      .children('outline')
+      .each((_: number, node: unknown) => {
+        const outline = $(node);
+        const url = String(outline.attr('xmlUrl') || outline.attr('xmlurl') || '').trim();
+        const label = String(outline.attr('title') || outline.attr('text') || '').trim();
+        if (!url) {
+          walk(node, label ? [...folders, toFolderLabel(label)] : folders);
+          return;
+        }
+
+        const entry: ImportedFeedEntry = {
+          name: label,
+          url,
+          folder: folders.length ? folders.join(FOLDER_SEPARATOR) : null,
+          type: toFeedType(outline.attr(`${OPML_PREFIX}:type`)) || toFeedType(outline.attr('type'))
+        };
+        const priority = Number(outline.attr(`${OPML_PREFIX}:priority`));
+        if (Number.isInteger(priority)) entry.priority = priority;
+        const fullArticle = outline.attr(`${OPML_PREFIX}:fetchFullArticle`);
+        if (fullArticle === 'true' || fullArticle === 'false') entry.fetch_full_article = fullArticle === 'true';
+        const parseConfig = parseJsonAttribute(outline.attr(`${OPML_PREFIX}:parseConfig`));
+        if (parseConfig !== undefined) entry.parse_config = parseConfig;
+        const cleaning = parseJsonAttribute(outline.attr(`${OPML_PREFIX}:cleaning`));
+        if (cleaning !== undefined) entry.cleaning = cleaning;
+        const fieldMappings = parseJsonAttribute(outline.attr(`${OPML_PREFIX}:fieldMappings`));
+        if (fieldMappings !== undefined) entry.field_mappings = fieldMappings;
+        entries.push(entry);
+      });
+  };
+  walk(body, []);
+  return entries.slice(0, MAX_IMPORT_ENTRIES);
+};
+
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.map((cells) => cells.map((cell) => cell.trim())).filter((cells) => cells.some(Boolean));
+};
+
+/**
+ * Read feeds from CSV. With a header row, the `url`, `name`, `folder` and `type` columns
+ * are used; without one, rows are `url` or `name,url[,folder]`.
+ */
+const parseCsvFeeds = (text: string): ImportedFeedEntry[] => {
+  const rows = parseCsvRows(text);
+  const header = (rows[0] || []).map((cell) => cell.toLowerCase());
+  const hasHeader = header.includes('url') || header.includes('xmlurl');
+  const column = (name: string) => header.indexOf(name);
+  const urlIndex = hasHeader ? (column('url') >= 0 ? column('url') : column('xmlurl')) : -1;
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((cells): ImportedFeedEntry => {
+      if (hasHeader) {
+        const cell = (name: string) => (column(name) >= 0 ? cells[column(name)] || '' : '');
+        return {
+          name: cell('name') || cell('title'),
+          url: cells[urlIndex] || '',
+          folder: cell('folder') || null,
+          type: toFeedType(cell('type'))
+        };
+      }
+      if (cells.length === 1) {
+        return { name: '', url: cells[0] || '', folder: null, type: null };
+      }
+      return { name: cells[0] || '', url: cells[1] || '', folder: cells[2] || null, type: null };
+    })
+    .filter((entry) => entry.url)
+    .slice(0, MAX_IMPORT_ENTRIES);
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '&#10;');
+
+const hasSettings = (value: unknown) =>
+  Boolean(value && typeof value === 'object' && Object.keys(value as Record<string, unknown>).length);
+
+const buildFeedOutline = (feed: ExportableFeed, indent: string) => {
+  const name = String(feed.name || feed.url || '');
+  const attributes: Array<[string, string]> = [
+    ['type', feed.type === 'json' || feed.type === 'html' || feed.type === 'sitemap' ? 'link' : 'rss'],
+    ['text', name],
+    ['title', name],
+    ['xmlUrl', String(feed.url || '')]
+  ];
+  if (feed.type) attributes.push([`${OPML_PREFIX}:type`, feed.type]);
+  if (feed.priority) attributes.push([`${OPML_PREFIX}:priority`, String(feed.priority)]);
+  if (feed.fetch_full_article) attributes.push([`${OPML_PREFIX}:fetchFullArticle`, 'true']);
+  if (hasSettings(feed.parse_config)) {
+    attributes.push([`${OPML_PREFIX}:parseConfig`, JSON.stringify(feed.parse_config)]);
+  }
+  if (hasSettings(feed.cleaning)) attributes.push([`${OPML_PREFIX}:cleaning`, JSON.stringify(feed.cleaning)]);
+  if (Array.isArray(feed.field_mappings) && feed.field_mappings.length) {
+    attributes.push([`${OPML_PREFIX}:fieldMappings`, JSON.stringify(feed.field_mappings)]);
+  }
+  return `${indent}<outline ${attributes.map(([key, value]) => `${key}="${escapeXml(value)}"`).join(' ')}/>`;
+};
+
+type FolderNode = { feeds: ExportableFeed[]; children: Map<string, FolderNode> };
+
+/**
+ * Serialize feeds as OPML 2.0, nesting outlines by folder. Credentials are never exported.
+ */
+const buildOpmlExport = (feeds: ExportableFeed[], title = 'WhatsApp News Bot feeds') => {
+  const root: FolderNode = { feeds: [], children: new Map() };
+  for (const feed of feeds) {
+    let node = root;
+    const folders = String(feed.folder || '')
+      .split(FOLDER_SEPARATOR)
+      .map((part) => part.trim())
+      .filter(Boolean);
+    for (const folder of folders) {
+      if (!node.children.has(folder)) node.children.set(folder, { feeds: [], children: new Map() });
+      node = node.children.get(folder) as FolderNode;
+    }
+    node.feeds.push(feed);
+  }
+
+  const render = (node: FolderNode, depth: number): string[] => {
+    const indent = '  '.repeat(depth);
+    const lines: string[] = [];
+    for (const [folder, child] of node.children) {
+      lines.push(`${indent}<outline text="${escapeXml(folder)}" title="${escapeXml(folder)}">`);
+      lines.push(...render(child, depth + 1));
+      lines.push(`${indent}</outline>`);
+    }
+    for (const feed of node.feeds) {
+      lines.push(buildFeedOutline(feed, indent));
+    }
+    return lines;
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<opml version="2.0" xmlns:${OPML_PREFIX}="${OPML_NAMESPACE}">`,
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...render(root, 2),
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+module.exports = {
+  MAX_IMPORT_ENTRIES,
+  detectImportFormat,
+  parseOpmlFeeds,
+  parseCsvFeeds,
+  buildOpmlExport
+};
+
+export {};
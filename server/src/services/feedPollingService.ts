@@ -0,0 +1,187 @@
+type PublishProfile = {
+  sampleSize: number;
+  medianGapSeconds: number | null;
+  activeHours: number[];
+  learnedAt: string;
+};
+
+type PollOutcome = 'ok' | 'not_modified' | 'error';
+
+type PollPlanInput = {
+  fetchIntervalSeconds?: number | null;
+  outcome: PollOutcome;
+  profile?: PublishProfile | null;
+  consecutiveFailures?: number | null;
+  consecutiveNotModified?: number | null;
+  retryAfter?: string | null;
+  cacheControl?: string | null;
+  pushActive?: boolean;
+  now?: Date;
+};
+
+type PollPlan = {
+  delaySeconds: number;
+  nextPollAt: string;
+  reason: string;
+};
+
+const MIN_POLL_SECONDS = 60;
+const MAX_POLL_SECONDS = 6 * 60 * 60;
+const MAX_RETRY_AFTER_SECONDS = 24 * 60 * 60;
+// Safety-net poll interval while a WebSub hub is delivering updates.
+const PUSH_SAFETY_POLL_SECONDS = 60 * 60;
+const MIN_PROFILE_SAMPLES = 5;
+const PROFILE_LOOKBACK_DAYS = 30;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const getBaseIntervalSeconds = (value?: number | null) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.max(Math.floor(parsed), MIN_POLL_SECONDS) : 300;
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into seconds from `now`.
+ */
+const parseRetryAfter = (value: unknown, now = new Date()): number | null => {
+  const raw = String(value ?? '').trim();
+  if (!raw) return null;
+  if (/^\d+$/.test(raw)) return Math.min(Number(raw), MAX_RETRY_AFTER_SECONDS);
+  const dateMs = Date.parse(raw);
+  if (!Number.isFinite(dateMs)) return null;
+  const seconds = Math.ceil((dateMs - now.getTime()) / 1000);
+  return seconds > 0 ? Math.min(seconds, MAX_RETRY_AFTER_SECONDS) : null;
+};
+
+const parseCacheMaxAge = (value: unknown): number | null => {
+  const raw = String(value ?? '').toLowerCase();
+  if (!raw || /\bno-(?:cache|store)\b/.test(raw)) return null;
+  const match = raw.match(/(?:^|[,\s])s-maxage\s*=\s*"?(\d+)/) || raw.match(/(?:^|[,\s])max-age\s*=\s*"?(\d+)/);
+  if (!match?.[1]) return null;
+  const seconds = Number(match[1]);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+/**
+ * Learn a feed's publishing rhythm from recent item publish dates:
+ * the median gap between posts and the UTC hours in which it usually posts.
+ */
+const learnPublishProfile = (pubDates: Array<string | Date | null | undefined>, now = new Date()): PublishProfile => {
+  const since = now.getTime() - PROFILE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+  const times = pubDates
+    .map((value) => (value ? new Date(value).getTime() : Number.NaN))
+    .filter((time) => Number.isFinite(time) && time >= since && time <= now.getTime() + 60 * 1000)
+    .sort((a, b) => a - b);
+
+  const gaps: number[] = [];
+  for (let index = 1; index < times.length; index += 1) {
+    const gap = ((times[index] as number) - (times[index - 1] as number)) / 1000;
+    if (gap > 0) gaps.push(gap);
+  }
+  gaps.sort((a, b) => a - b);
+  const medianGapSeconds = gaps.length ? (gaps[Math.floor(gaps.length / 2)] as number) : null;
+
+  const hourCounts = new Array<number>(24).fill(0);
+  times.forEach((time) => {
+    const hour = new Date(time).getUTCHours();
+    hourCounts[hour] = (hourCounts[hour] || 0) + 1;
+  });
+  const averagePerHour = times.length / 24;
+  const activeHours =
+    times.length >= MIN_PROFILE_SAMPLES
+      ? hourCounts
+          .map((count, hour) => ({ count, hour }))
+          .filter((entry) => entry.count > 0 && entry.count >= averagePerHour)
+          .map((entry) => entry.hour)
+      : [];
+
+  return {
+    sampleSize: times.length,
+    medianGapSeconds,
+    activeHours,
+    learnedAt: now.toISOString()
+  };
+};
+
+const isActiveHour = (profile: PublishProfile, now: Date) => {
+  const hour = now.getUTCHours();
+  // Poll a little early so the first post of an active hour is picked up quickly.
+  const nextHour = (hour + 1) % 24;
+  return profile.activeHours.includes(hour) || (now.getUTCMinutes() >= 45 && profile.activeHours.includes(nextHour));
+};
+
+const getLearnedInterval = (baseSeconds: number, profile: PublishProfile | null | undefined, now: Date) => {
+  if (!profile || profile.sampleSize < MIN_PROFILE_SAMPLES || !profile.medianGapSeconds) {
+    return { seconds: baseSeconds, reason: 'fixed interval' };
+  }
+  if (isActiveHour(profile, now)) {
+    return {
+      seconds: clamp(Math.round(profile.medianGapSeconds / 4), MIN_POLL_SECONDS, baseSeconds),
+      reason: 'active hours'
+    };
+  }
+  return {
+    seconds: clamp(Math.round(profile.medianGapSeconds / 2), baseSeconds, MAX_POLL_SECONDS),
+    reason: 'quiet hours'
+  };
+};
+
+/**
+ * Decide when a feed should be polled next.
+ * Errors back off exponentially from one minute, repeated 304s stretch the learned interval,
+ * and Retry-After / Cache-Control max-age act as lower bounds.
+ */
+const planNextPoll = (input: PollPlanInput): PollPlan => {
+  const now = input.now || new Date();
+  const baseSeconds = getBaseIntervalSeconds(input.fetchIntervalSeconds);
+  let delaySeconds: number;
+  let reason: string;
+
+  if (input.outcome === 'error') {
+    const failures = Math.max(Number(input.consecutiveFailures || 1), 1);
+    delaySeconds = Math.min(MIN_POLL_SECONDS * 2 ** (failures - 1), MAX_POLL_SECONDS);
+    reason = `error backoff (${failures} consecutive)`;
+  } else {
+    const learned = getLearnedInterval(baseSeconds, input.profile, now);
+    delaySeconds = learned.seconds;
+    reason = learned.reason;
+    const notModified = Math.max(Number(input.consecutiveNotModified || 0), 0);
+    if (input.outcome === 'not_modified' && notModified > 0) {
+      delaySeconds = Math.min(delaySeconds * Math.min(2 ** notModified, 8), MAX_POLL_SECONDS);
+      reason = `${reason}, not modified x${notModified}`;
+    }
+    if (input.pushActive && delaySeconds < PUSH_SAFETY_POLL_SECONDS) {
+      delaySeconds = PUSH_SAFETY_POLL_SECONDS;
+      reason = 'websub push active';
+    }
+  }
+
+  const retryAfterSeconds = parseRetryAfter(input.retryAfter, now);
+  if (retryAfterSeconds && retryAfterSeconds > delaySeconds) {
+    delaySeconds = retryAfterSeconds;
+    reason = 'retry-after';
+  } else if (input.outcome !== 'error') {
+    const maxAgeSeconds = parseCacheMaxAge(input.cacheControl);
+    if (maxAgeSeconds && maxAgeSeconds > delaySeconds) {
+      delaySeconds = Math.min(maxAgeSeconds, MAX_POLL_SECONDS);
+      reason = 'cache max-age';
+    }
+  }
+
+  delaySeconds = Math.max(Math.round(delaySeconds), MIN_POLL_SECONDS);
+  return {
+    delaySeconds,
+    nextPollAt: new Date(now.getTime() + delaySeconds * 1000).toISOString(),
+    reason
+  };
+};
+
+module.exports = {
+  MIN_POLL_SECONDS,
+  parseRetryAfter,
+  parseCacheMaxAge,
+  learnPublishProfile,
+  planNextPoll
+};
+
+export {};
@@ -1,24 +1,39 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 const { getSupabaseClient } = require('../db/supabase');
-const { fetchFeedItemsWithMeta } = require('./feedFetcher');
+const { fetchFeedItemsWithMeta, parsePushedFeedItems } = require('./feedFetcher');
 const { normalizeText, normalizeUrl, hashContent } = require('../utils/normalize');
-const { isDuplicateFeedItem } = require('./dedupeService');
+const { findFeedDuplicate, recordDedupeDecision } = require('./dedupeService');
+const { fetchFullArticle } = require('./articleService');
+const { assignStoryCluster } = require('./storyClusterService');
+const { learnPublishProfile, planNextPoll } = require('./feedPollingService');
+const { ensureWebSubSubscription, isWebSubPushActive } = require('./websubService');
 const { isScheduleRunning } = require('./scheduleState');
 const settingsService = require('./settingsService');
 const { getErrorMessage } = require('../utils/errorUtils');
+const { compileFieldMappings, evaluateFieldMappings } = require('../utils/fieldMapping');
 
 type FeedConfig = {
   id: string;
   url: string;
-  type?: 'rss' | 'atom' | 'json' | 'html';
+  type?: 'rss' | 'atom' | 'json' | 'html' | 'sitemap';
   active?: boolean;
   fetch_interval?: number;
   last_fetched_at?: string | null;
   etag?: string | null;
   last_modified?: string | null;
   consecutive_failures?: number | null;
+  consecutive_not_modified?: number | null;
+  poll_profile?: Record<string, unknown> | null;
+  websub_status?: string | null;
+  websub_lease_expires_at?: string | null;
+  websub_last_push_at?: string | null;
+  websub_subscribed_at?: string | null;
   parseConfig?: Record<string, unknown>;
   parse_config?: Record<string, unknown>;
   cleaning?: { stripUtm?: boolean; decodeEntities?: boolean; removePhrases?: string[] };
+  fetch_full_article?: boolean | null;
+  request_auth_encrypted?: string | null;
+  field_mappings?: Array<{ name: string; expression: string }> | null;
 };
 
 type FeedItemInput = {
@@ -32,6 +47,7 @@ type FeedItemInput = {
   publishedAt?: string | Date;
   categories?: string[];
   raw?: Record<string, unknown>;
+  source?: Record<string, unknown>;
 };
 
 type FeedItemRecord = { id: string } & Record<string, unknown>;
@@ -52,6 +68,53 @@ const extractWordpressNumericId = (value?: string) => {
   return null;
 };
 
+const attachFullArticle = async (supabase: SupabaseClient, feed: FeedConfig, feedItem: FeedItemRecord) => {
+  const link = typeof feedItem.link === 'string' ? feedItem.link : '';
+  if (!link) return feedItem;
+
+  const article = await fetchFullArticle(link, feed);
+  if (!article) return feedItem;
+
+  const articleFields = {
+    article_text: article.text,
+    article_word_count: article.wordCount,
+    article_reading_time: article.readingTimeMinutes,
+    article_lead: article.lead || null
+  };
+  const { error } = await supabase.from('feed_items').update(articleFields).eq('id', feedItem.id);
+  if (error) {
+    console.warn('Failed to store full article for feed item', { feedItemId: feedItem.id, error: getErrorMessage(error) });
+    return feedItem;
+  }
+  return { ...feedItem, ...articleFields };
+};
+
+const learnFeedPublishProfile = async (supabase: SupabaseClient, feedId: string) => {
+  const { data, error } = await supabase
+    .from('feed_items')
+    .select('pub_date')
+    .eq('feed_id', feedId)
+    .not('pub_date', 'is', null)
+    .order('pub_date', { ascending: false })
+    .limit(100);
+  if (error) {
+    console.warn('Failed to load publish history for feed', { feedId, error: getErrorMessage(error) });
+    return null;
+  }
+  return learnPublishProfile((data || []).map((row: { pub_date?: string | null }) => row.pub_date));
+};
+
+const getErrorResponseHeader = (error: unknown, name: string) => {
+  const headers = (error as { response?: { headers?: Record<string, unknown> } })?.response?.headers;
+  const value = headers?.[name];
+  return value == null ? null : String(value);
+};
+
+type FeedProcessOptions = {
+  // Feed document delivered by a WebSub hub; processed instead of fetching the feed URL.
+  pushedBody?: string;
+};
+
 type FeedProcessResult = {
   items: FeedItemRecord[];
   updatedItems: FeedItemRecord[];
@@ -60,6 +123,7 @@ type FeedProcessResult = {
   updatedCount: number;
   duplicateCount: number;
   errorCount: number;
+  nextPollAt?: string;
 };
 
 const emptyResult = (): FeedProcessResult => ({
@@ -99,9 +163,16 @@ const normalizeComparableList = (value: unknown) => {
     .sort();
 };
 
-const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult> => {
+// jsonb does not keep key order, so compare mapped values key by key.
+const normalizeComparableFields = (value: unknown) => {
+  if (!value || typeof value !== 'object') return '';
+  return JSON.stringify(Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+const fetchAndProcessFeed = async (feed: FeedConfig, options?: FeedProcessOptions): Promise<FeedProcessResult> => {
   const supabase = getSupabaseClient();
   if (!supabase || !feed.active) return emptyResult();
+  const pushed = typeof options?.pushedBody === 'string';
 
   try {
     const parsedConfig =
@@ -123,7 +194,9 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
     );
     const processWindowLimit = Number.isFinite(processWindowRaw) ? Math.max(0, Math.floor(processWindowRaw)) : 500;
     const since = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
-    const { items, meta } = await fetchFeedItemsWithMeta(normalizedFeed);
+    const { items, meta } = pushed
+      ? await parsePushedFeedItems(normalizedFeed, options?.pushedBody)
+      : await fetchFeedItemsWithMeta(normalizedFeed);
 
     const byMostRecent = [...items].sort((a: FeedItemInput, b: FeedItemInput) => {
       const aTs = a?.publishedAt ? new Date(a.publishedAt).getTime() : 0;
@@ -133,6 +206,11 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
 
     const isFirstFetch = !feed.last_fetched_at;
 
+    const fieldMappings = compileFieldMappings(feed.field_mappings);
+    if (fieldMappings.errors.length) {
+      console.warn('Skipping invalid field mappings for feed', { feedId: feed.id, errors: fieldMappings.errors });
+    }
+
     const sourceItems = isFirstFetch
       ? [...byMostRecent.slice(0, bootstrapLimit)].reverse()
       : (() => {
@@ -160,6 +238,7 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
     let duplicateCount = 0;
     let errorCount = 0;
     let feedMissing = false;
+    let nextPollAt: string | undefined;
 
     for (const item of sourceItems as FeedItemInput[]) {
       // Generate a unique GUID if not provided
@@ -211,6 +290,13 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
         author: item.author || null,
         categories: normalizedCategories
       };
+      incomingPayload.computed_fields = fieldMappings.mappings.length
+        ? evaluateFieldMappings(
+          fieldMappings.mappings,
+          { ...rawData, ...incomingPayload, url: incomingPayload.link },
+          item.source
+        )
+        : {};
 
       let existingItem: FeedItemRecord | null = null;
       if (guid) {
@@ -238,7 +324,7 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
       }
 
       if (!existingItem) {
-        const duplicate = await isDuplicateFeedItem({
+        const duplicate = await findFeedDuplicate({
           title: item.title,
           url: item.url,
           threshold: settings.dedupeThreshold,
@@ -248,6 +334,12 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
 
         if (duplicate) {
           duplicateCount += 1;
+          await recordDedupeDecision(supabase, {
+            feedId: feed.id,
+            itemKey: item.guid || normalizedUrlValue || contentHash,
+            item: incomingPayload,
+            match: duplicate
+          });
           continue;
         }
       }
@@ -264,7 +356,8 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
           normalizeIso(existingRecord.pub_date as string | Date | null | undefined) !== normalizeIso(normalizedPubDate) ||
           normalizeComparableText(existingRecord.content_hash) !== normalizeComparableText(incomingPayload.content_hash) ||
           normalizeComparableList(existingRecord.categories).join('|') !==
-            normalizeComparableList(incomingPayload.categories).join('|');
+            normalizeComparableList(incomingPayload.categories).join('|') ||
+          normalizeComparableFields(existingRecord.computed_fields) !== normalizeComparableFields(incomingPayload.computed_fields);
 
         if (hasChanges) {
           const { data: updatedItem, error: updateError } = await supabase
@@ -318,7 +411,8 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
         continue;
       }
 
-      newItems.push(feedItem);
+      const storedItem = feed.fetch_full_article ? await attachFullArticle(supabase, feed, feedItem) : feedItem;
+      newItems.push(await assignStoryCluster(supabase, storedItem));
     }
 
     if (!feedMissing) {
@@ -337,10 +431,42 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
       if (meta?.lastModified) {
         feedUpdate.last_modified = meta.lastModified;
       }
+
+
+      if (pushed) {
+        // Pushes arrive outside the polling cycle; leave the poll plan untouched.
+        feedUpdate.websub_last_push_at = nowIso;
+      } else {
+        const consecutiveNotModified = meta?.notModified ? Number(feed.consecutive_not_modified || 0) + 1 : 0;
+        const profile =
+          newItems.length || !feed.poll_profile ? await learnFeedPublishProfile(supabase, feed.id) : feed.poll_profile;
+        const plan = planNextPoll({
+          fetchIntervalSeconds: feed.fetch_interval,
+          outcome: meta?.notModified ? 'not_modified' : 'ok',
+          profile,
+          consecutiveNotModified,
+          retryAfter: meta?.retryAfter,
+          cacheControl: meta?.cacheControl,
+          pushActive: isWebSubPushActive(feed, now),
+          now
+        });
+        feedUpdate.consecutive_not_modified = consecutiveNotModified;
+        feedUpdate.next_poll_at = plan.nextPollAt;
+        feedUpdate.poll_reason = plan.reason;
+        if (profile) {
+          feedUpdate.poll_profile = profile;
+        }
+        nextPollAt = plan.nextPollAt;
+      }
       await supabase.from('feeds').update(feedUpdate).eq('id', feed.id);
+
+      if (!pushed && meta?.hubUrl) {
+        await ensureWebSubSubscription(feed, meta);
+      }
     }
 
     return {
+      ...(nextPollAt ? { nextPollAt } : {}),
       items: newItems,
       updatedItems,
       fetchedCount,
@@ -351,6 +477,10 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
     };
   } catch (error) {
     console.error('Error processing feed:', error);
+    if (pushed) {
+      // A malformed push says nothing about the feed's own health; polling will catch up.
+      return emptyResult();
+    }
     const nowIso = new Date().toISOString();
     let failures = Number(feed.consecutive_failures || 0);
     try {
@@ -363,16 +493,24 @@ const fetchAndProcessFeed = async (feed: FeedConfig): Promise<FeedProcessResult>
     } catch {
       // ignore
     }
+    const plan = planNextPoll({
+      fetchIntervalSeconds: feed.fetch_interval,
+      outcome: 'error',
+      consecutiveFailures: failures + 1,
+      retryAfter: getErrorResponseHeader(error, 'retry-after')
+    });
     // Update feed with error
     await supabase
       .from('feeds')
       .update({
         last_error: getErrorMessage(error),
         last_fetched_at: nowIso,
-        consecutive_failures: failures + 1
+        consecutive_failures: failures + 1,
+        next_poll_at: plan.nextPollAt,
+        poll_reason: plan.reason
       })
       .eq('id', feed.id);
-    return emptyResult();
+    return { ...emptyResult(), nextPollAt: plan.nextPollAt };
   }
 };
 
@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+const crypto = require('crypto');
+const env = require('../config/env');
+
+type ShortLinkContext = {
+  logId?: string | null;
+  feedItemId?: string | null;
+  targetId?: string | null;
+  scheduleId?: string | null;
+};
+
+type ShortLinkRow = {
+  code: string;
+  url: string;
+  message_log_id: string | null;
+  feed_item_id: string | null;
+  target_id: string | null;
+  schedule_id: string | null;
+};
+
+type UserAgentClass = 'mobile' | 'desktop' | 'preview' | 'bot' | 'unknown';
+
+const SHORT_CODE_LENGTH = 10;
+// Clicks from these are link-preview fetches or crawlers, not people opening the story.
+const NON_HUMAN_CLASSES = new Set<UserAgentClass>(['preview', 'bot']);
+const PREVIEW_AGENT_PATTERN =
+  /whatsapp|facebookexternalhit|facebot|telegrambot|slackbot|twitterbot|discordbot|linkedinbot|skypeuripreview|iframely/i;
+const BOT_AGENT_PATTERN = /bot\b|crawler|spider|curl\/|wget\/|python-requests|axios\/|node-fetch|headless/i;
+const MOBILE_AGENT_PATTERN = /mobile|android|iphone|ipad|ipod/i;
+
+const getShortLinkBaseUrl = () =>
+  String(process.env.SHORT_LINK_BASE_URL || env.BASE_URL || '').replace(/\/+$/, '');
+
+const isHttpUrl = (value: string) => {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Stable code for a link in one message: re-rendering the same log (retries, corrections)
+ * yields the same short URL.
+ */
+const createShortCode = (url: string, context: ShortLinkContext) =>
+  crypto
+    .createHash('sha256')
+    .update([context.logId, context.targetId, context.scheduleId, context.feedItemId, url].map((part) => part || '').join('\n'))
+    .digest('base64url')
+    .slice(0, SHORT_CODE_LENGTH);
+
+const classifyUserAgent = (userAgent: unknown): UserAgentClass => {
+  const value = String(userAgent || '').trim();
+  if (!value) return 'unknown';
+  if (PREVIEW_AGENT_PATTERN.test(value)) return 'preview';
+  if (BOT_AGENT_PATTERN.test(value)) return 'bot';
+  return MOBILE_AGENT_PATTERN.test(value) ? 'mobile' : 'desktop';
+};
+
+const isHumanClick = (userAgentClass: unknown) => !NON_HUMAN_CLASSES.has(String(userAgentClass) as UserAgentClass);
+
+/**
+ * Collects the short links handed out while rendering one message so they can be saved
+ * before it is sent. Returns null when tracking is off globally or for the target.
+ */
+const createLinkShortener = (
+  settings: Record<string, unknown>,
+  target: { id?: string | null; short_links_enabled?: boolean | null } | null,
+  context: ShortLinkContext
+) => {
+  const baseUrl = getShortLinkBaseUrl();
+  if (settings?.link_tracking_enabled !== true || target?.short_links_enabled === false || !baseUrl) {
+    return null;
+  }
+
+  const links = new Map<string, ShortLinkRow>();
+  const shortenUrl = (url: string) => {
+    const trimmed = String(url || '').trim();
+    if (!isHttpUrl(trimmed) || trimmed.startsWith(`${baseUrl}/r/`)) return url;
+    const code = createShortCode(trimmed, { ...context, targetId: context.targetId || target?.id || null });
+    links.set(code, {
+      code,
+      url: trimmed,
+      message_log_id: context.logId || null,
+      feed_item_id: context.feedItemId || null,
+      target_id: context.targetId || target?.id || null,
+      schedule_id: context.scheduleId || null
+    });
+    return `${baseUrl}/r/${code}`;
+  };
+
+  const save = async (supabase: SupabaseClient) => {
+    if (!links.size) return;
+    const { error } = await supabase
+      .from('short_links')
+      .upsert(Array.from(links.values()), { onConflict: 'code', ignoreDuplicates: true });
+    if (error) throw error;
+  };
+
+  return { shortenUrl, save };
+};
+
+/**
+ * Record an opened short link and return where it points, or null for unknown codes.
+ */
+const recordLinkClick = async (supabase: SupabaseClient, code: string, userAgent: unknown) => {
+  const { data: link, error } = await supabase
+    .from('short_links')
+    .select('id,url,message_log_id,feed_item_id,target_id,schedule_id')
+    .eq('code', code)
+    .maybeSingle();
+  if (error) throw error;
+  if (!link) return null;
+
+  const { error: clickError } = await supabase.from('link_clicks').insert({
+    short_link_id: link.id,
+    message_log_id: link.message_log_id,
+    feed_item_id: link.feed_item_id,
+    target_id: link.target_id,
+    schedule_id: link.schedule_id,
+    user_agent_class: classifyUserAgent(userAgent)
+  });
+  return { url: String(link.url), clickError };
+};
+
+/**
+ * Human click counts for a page of message logs, keyed by log id.
+ */
+const getClickCountsByLogId = async (supabase: SupabaseClient, logIds: string[]) => {
+  const counts = new Map<string, number>();
+  if (!logIds.length) return counts;
+  const { data, error } = await supabase
+    .from('link_clicks')
+    .select('message_log_id,user_agent_class')
+    .in('message_log_id', logIds);
+  if (error) throw error;
+  for (const row of (data || []) as Array<{ message_log_id: string; user_agent_class: string }>) {
+    if (!isHumanClick(row.user_agent_class)) continue;
+    counts.set(row.message_log_id, (counts.get(row.message_log_id) || 0) + 1);
+  }
+  return counts;
+};
+
+module.exports = {
+  createShortCode,
+  classifyUserAgent,
+  isHumanClick,
+  createLinkShortener,
+  recordLinkClick,
+  getClickCountsByLogId
+};
+
+export {};
@@ -2,21 +2,39 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 const { getSupabaseClient } = require('../db/supabase');
 const { fetchAndProcessFeed } = require('./feedProcessor');
 const settingsService = require('./settingsService');
-const { isCurrentlyShabbos } = require('./shabbosService');
+const { buildTargetShabbosStatus } = require('./shabbosService');
+const { isAnnouncementSchedule, queueDueAnnouncement } = require('./announcementService');
 const cheerio = require('cheerio');
 const sleep = require('../utils/sleep');
 const logger = require('../utils/logger');
 const withTimeout = require('../utils/withTimeout');
 const { getErrorMessage } = require('../utils/errorUtils');
+const { formatReadingTime } = require('./articleService');
+const { resolveStoryClusterDispatch } = require('./storyClusterService');
+const { applyFeedRequestAuth } = require('./feedAuthService');
 const { computeNextRunAt } = require('../utils/cron');
 const { assertSafeOutboundUrl } = require('../utils/outboundUrl');
 const { safeAxiosRequest } = require('../utils/safeAxios');
-const { normalizeMessageText, escapeWhatsAppFormatting } = require('../utils/messageText');
+const { normalizeMessageText } = require('../utils/messageText');
+const { renderTemplate } = require('../utils/templateEngine');
 const { isNewsletterJid, prepareNewsletterImage, prepareNewsletterVideo } = require('../utils/whatsappMedia');
 const { parseManualMessageContent } = require('../utils/manualMeta');
 const { ensureWhatsAppConnected } = require('./whatsappConnection');
 const { isScheduleRunning } = require('./scheduleState');
 const { withScheduleLock } = require('./scheduleLockService');
+const { FILTER_ITEM_COLUMNS, evaluateFilterRules, hasActiveFilterRules } = require('./contentFilterService');
+const { applyTextDirection, applyTemplateVariant, createTemplateResolver } = require('./templateVariantService');
+const { readDigestConfig, renderDigestMessage } = require('./digestService');
+const { resolveDeliveryWindow, getDeliveryWindowStatus } = require('../utils/deliveryWindow');
+const { createLinkShortener } = require('./linkTrackingService');
+const { readLengthLimits, planMessageParts, fitMessageParts } = require('../utils/messageLength');
+const {
+  getMessageDestination,
+  getRichMessageRestriction,
+  readRichMessage,
+  downloadAttachment,
+  buildRichMessageContent
+} = require('../utils/richMessage');
 
 type Target = {
   id?: string;
@@ -24,9 +42,14 @@ type Target = {
   type: 'individual' | 'group' | 'channel' | 'status';
   name?: string;
   active?: boolean;
+  locale?: string | null;
+  short_links_enabled?: boolean | null;
   message_delay_ms_override?: number | null;
   inter_target_delay_sec_override?: number | null;
   intra_target_delay_sec_override?: number | null;
+  delivery_window?: Record<string, unknown> | null;
+  shabbos_location?: Record<string, unknown> | null;
+  shabbos_policy?: 'hold' | 'drop' | 'digest' | null;
 };
 
 type Template = {
@@ -34,6 +57,10 @@ type Template = {
   content: string;
   send_images?: boolean | null;
   send_mode?: 'image' | 'image_only' | 'link_preview' | 'text_only' | null;
+  length_strategy?: 'truncate' | 'split' | null;
+  // Set for locale variants written right to left.
+  text_direction?: 'none' | 'auto' | 'rtl' | 'ltr' | null;
+  current_revision_id?: string | null;
 };
 
 type FeedItem = {
@@ -49,6 +76,13 @@ type FeedItem = {
   image_scrape_error?: string | null;
   pub_date?: string | Date;
   categories?: string[];
+  article_text?: string | null;
+  article_word_count?: number | null;
+  article_reading_time?: number | null;
+  article_lead?: string | null;
+  feed_id?: string | null;
+  story_cluster_id?: string | null;
+  also_reported_by?: string;
 };
 
 type WhatsAppClient = {
@@ -79,7 +113,8 @@ const MAX_POST_SEND_CORRECTION_WINDOW_MINUTES = 15;
 const AUTH_ERROR_HINT = 'WhatsApp auth state corrupted. Clear sender keys or re-scan the QR code, then retry.';
 const MANUAL_POST_PAUSE_ERROR = 'Paused for this post';
 const FEED_PAUSED_ERROR = 'Feed paused';
-const NON_REVIVABLE_SKIP_ERRORS = new Set([MANUAL_POST_PAUSE_ERROR, FEED_PAUSED_ERROR]);
+const SHABBOS_DROP_ERROR = 'Dropped during Shabbos/Yom Tov';
+const NON_REVIVABLE_SKIP_ERRORS = new Set([MANUAL_POST_PAUSE_ERROR, FEED_PAUSED_ERROR, SHABBOS_DROP_ERROR]);
 const SUCCESSFUL_SEND_STATUSES = new Set(['sent', 'delivered', 'read', 'played']);
 
 const isSuccessfulSendStatus = (status: unknown) => SUCCESSFUL_SEND_STATUSES.has(String(status || '').toLowerCase());
@@ -261,13 +296,13 @@ const isAuthStateError = (message: string) => {
   ].some((needle) => normalized.includes(needle));
 };
 
-const applyTemplate = (templateBody: string, data: Record<string, unknown>): string => {
-  const rendered = templateBody.replace(/{{\s*(\w+)\s*}}/g, (_, key) => {
-    const value = data[key];
-    return value != null ? escapeWhatsAppFormatting(value) : '';
-  });
-  return normalizeMessageText(rendered);
-};
+type LinkShortener = NonNullable<ReturnType<typeof createLinkShortener>>;
+
+const applyTemplate = (
+  templateBody: string,
+  data: Record<string, unknown>,
+  options?: { shortenUrl?: (url: string) => string }
+): string => normalizeMessageText(renderTemplate(templateBody, data, options?.shortenUrl ? { shortenUrl: options.shortenUrl } : {}));
 
 const isHttpUrl = (value?: string | null) => {
   if (!value) return false;
@@ -431,16 +466,41 @@ const collectDomImageCandidates = ($: any) => {
   return candidates;
 };
 
-const scrapeImageFromPage = async (pageUrl: string) => {
-  const response = await safeAxiosRequest(pageUrl, {
-    timeout: 12000,
-    maxContentLength: 2 * 1024 * 1024,
-    maxBodyLength: 2 * 1024 * 1024,
-    headers: {
-      'User-Agent': DEFAULT_USER_AGENT,
-      Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-    }
+type FeedRequestScope = { url?: string; request_auth_encrypted?: string | null };
+
+// Article pages on the feed's own origin are fetched with the feed's headers/credentials.
+const loadFeedRequestScope = async (
+  supabase: SupabaseClient | undefined,
+  feedId?: string | null
+): Promise<FeedRequestScope | null> => {
+  if (!supabase || !feedId) return null;
+  const { data, error } = await supabase
+    .from('feeds')
+    .select('url,request_auth_encrypted')
+    .eq('id', feedId)
+    .maybeSingle();
+  if (error) {
+    logger.warn({ feedId, error }, 'Failed to load feed request settings for image scraping');
+    return null;
+  }
+  return (data as FeedRequestScope | null) || null;
+};
+
+const scrapeImageFromPage = async (pageUrl: string, feed?: FeedRequestScope | null) => {
+  const request = applyFeedRequestAuth(feed, pageUrl, {
+    'User-Agent': DEFAULT_USER_AGENT,
+    Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
   });
+  const response = await safeAxiosRequest(
+    request.url,
+    {
+      timeout: 12000,
+      maxContentLength: 2 * 1024 * 1024,
+      maxBodyLength: 2 * 1024 * 1024,
+      headers: request.headers
+    },
+    { sensitiveHeaders: request.sensitiveHeaders }
+  );
 
   const html = String(response.data || '');
   const $ = cheerio.load(html);
@@ -679,7 +739,7 @@ const resolveMediaUrlForFeedItem = async (
   }
 
   try {
-    const scraped = await scrapeImageFromPage(link);
+    const scraped = await scrapeImageFromPage(link, await loadFeedRequestScope(supabase, feedItem.feed_id));
     const nowIso = new Date().toISOString();
       if (scraped) {
         try {
@@ -812,7 +872,13 @@ const buildMessageData = (feedItem: FeedItem) => ({
   contentHash: (feedItem as unknown as { content_hash?: string }).content_hash,
   pub_date: feedItem.pub_date ? new Date(feedItem.pub_date).toISOString() : '',
   publishedAt: feedItem.pub_date ? new Date(feedItem.pub_date).toISOString() : '',
-  categories: Array.isArray(feedItem.categories) ? feedItem.categories.join(', ') : '',
+  categories: Array.isArray(feedItem.categories) ? feedItem.categories : [],
+  article_text: feedItem.article_text || '',
+  reading_time: formatReadingTime(feedItem.article_reading_time),
+  reading_time_minutes: feedItem.article_reading_time ?? '',
+  word_count: feedItem.article_word_count ?? '',
+  lead: feedItem.article_lead || '',
+  also_reported_by: feedItem.also_reported_by || '',
   ...(typeof (feedItem as unknown as { raw_data?: unknown }).raw_data === 'object' &&
     (feedItem as unknown as { raw_data?: Record<string, unknown> }).raw_data
     ? Object.fromEntries(
@@ -828,7 +894,9 @@ const buildMessageData = (feedItem: FeedItem) => ({
         }
       )
     )
-    : {})
+    : {}),
+  // Values of the feed's field mappings, computed at fetch time.
+  ...((feedItem as unknown as { computed_fields?: Record<string, unknown> | null }).computed_fields || {})
 });
 
 const hasHttpUrl = (value: string) => /https?:\/\/[^\s]+/i.test(String(value || ''));
@@ -862,7 +930,8 @@ const getTemplateSendMode = (template: Template): TemplateSendMode => {
 const renderTemplateMessage = (
   template: Template,
   feedItem: FeedItem,
-  overrideText?: string | null
+  overrideText?: string | null,
+  linkShortener?: LinkShortener | null
 ): {
   sendMode: TemplateSendMode;
   renderedText: string;
@@ -870,10 +939,25 @@ const renderTemplateMessage = (
   outboundText: string;
   includeImageCaption: boolean;
   allowTextFallback: boolean;
+  link: string;
 } => {
   const payload = buildMessageData(feedItem);
   const manualOverrideText = normalizeMessageText(String(overrideText || '')).trim();
-  const renderedText = (manualOverrideText || applyTemplate(template.content, payload)).trim();
+  // With click tracking, {{link}} and the shorten filter point at this server's /r/:code redirect.
+  if (linkShortener && !manualOverrideText && feedItem.link) {
+    payload.link = linkShortener.shortenUrl(feedItem.link);
+    payload.url = payload.link;
+  }
+  let renderedText = (
+    manualOverrideText || applyTemplate(template.content, payload, linkShortener ? { shortenUrl: linkShortener.shortenUrl } : {})
+  ).trim();
+  // Cluster "also reported by" links go at the end unless the template places them itself.
+  if (!manualOverrideText && payload.also_reported_by && !String(template.content || '').includes('also_reported_by')) {
+    renderedText = `${renderedText}\n\n${payload.also_reported_by}`.trim();
+  }
+  if (!manualOverrideText) {
+    renderedText = applyTextDirection(renderedText, template.text_direction);
+  }
   if (!renderedText) {
     throw new Error('Template rendered empty message');
   }
@@ -881,7 +965,7 @@ const renderTemplateMessage = (
   const sendMode = getTemplateSendMode(template);
   const includeImageCaption = sendMode !== 'image_only';
   const allowTextFallback = sendMode !== 'image_only';
-  const textWithPreview = ensurePreviewLink(renderedText, feedItem.link);
+  const textWithPreview = ensurePreviewLink(renderedText, payload.link);
   const outboundText =
     sendMode === 'text_only'
       ? renderedText
@@ -897,13 +981,73 @@ const renderTemplateMessage = (
     textWithPreview,
     outboundText,
     includeImageCaption,
-    allowTextFallback
+    allowTextFallback,
+    link: String(payload.link || '').trim()
+  };
+};
+
+type MessagePartKind = 'caption' | 'text';
+
+type MessagePart = {
+  kind: MessagePartKind;
+  text: string;
+  whatsapp_message_id: string | null;
+};
+
+const getLengthStrategy = (template: Template) => (template?.length_strategy === 'split' ? 'split' : 'truncate');
+
+/**
+ * Render a template for a feed item the way a scheduled send would, without sending:
+ * the text or caption that goes out, the media that would be attached and the data keys
+ * the template can use.
+ */
+const previewTemplateMessage = async (
+  supabase: SupabaseClient | undefined,
+  template: Template,
+  feedItem: FeedItem,
+  lengthLimits?: { caption: number; text: number }
+) => {
+  const rendered = renderTemplateMessage(template, feedItem);
+  const wantsMedia = rendered.sendMode === 'image' || rendered.sendMode === 'image_only';
+  const media = await resolveMediaUrlForFeedItem(supabase, feedItem, wantsMedia);
+  // Without media, image mode falls back to text with the link so WhatsApp can preview it.
+  const outboundText =
+    wantsMedia && !media.url
+      ? rendered.sendMode === 'image_only'
+        ? ''
+        : rendered.textWithPreview
+      : rendered.outboundText;
+  const previewUrl =
+    rendered.sendMode === 'text_only' || (wantsMedia && media.url)
+      ? null
+      : (outboundText.match(/https?:\/\/[^\s]+/i)?.[0] ?? null);
+  const partKind: MessagePartKind = wantsMedia && media.url ? 'caption' : 'text';
+  const parts: string[] = outboundText
+    ? planMessageParts(outboundText, {
+      kind: partKind,
+      strategy: getLengthStrategy(template),
+      limits: lengthLimits || readLengthLimits(null),
+      readMoreUrl: rendered.link || null
+    })
+    : [];
+
+  return {
+    sendMode: rendered.sendMode,
+    renderedText: rendered.renderedText,
+    outboundText,
+    parts: parts.map((text, index) => ({ kind: index === 0 ? partKind : 'text', text })),
+    previewUrl,
+    media: { url: media.url, kind: media.kind, source: media.source, error: media.error },
+    dataKeys: Object.keys(buildMessageData(feedItem))
   };
 };
 
 type SendWithMediaResult = {
   response: any;
   text: string;
+  // Every WhatsApp message the send became; more than one when an over-budget text was split.
+  parts: MessagePart[];
+  partsError: string | null;
   media: {
     type: string | null;
     url: string | null;
@@ -912,12 +1056,45 @@ type SendWithMediaResult = {
   };
 };
 
+/**
+ * Send the follow-up texts of a split message. The first part already went out, so a failed
+ * follow-up does not fail the send; it stops the rest and is reported as `partsError`.
+ */
+const sendFollowUpParts = async (
+  first: { kind: MessagePartKind; text: string; response: any },
+  followUps: string[],
+  sendText: (text: string) => Promise<any>
+) => {
+  const toId = (response: any) => (response?.key?.id ? String(response.key.id) : null);
+  const parts: MessagePart[] = [{ kind: first.kind, text: first.text, whatsapp_message_id: toId(first.response) }];
+  for (const text of followUps) {
+    try {
+      const response = await sendText(text);
+      parts.push({ kind: 'text', text, whatsapp_message_id: toId(response) });
+    } catch (error) {
+      logger.warn({ error, sentParts: parts.length }, 'Failed to send follow-up message part');
+      return {
+        parts,
+        partsError: `Sent ${parts.length} of ${followUps.length + 1} message parts: ${getErrorMessage(error)}`
+      };
+    }
+  }
+  return { parts, partsError: null as string | null };
+};
+
 const sendMessageWithTemplate = async (
   whatsappClient: WhatsAppClient,
   target: Target,
   template: Template,
   feedItem: FeedItem,
-  options?: { sendImages?: boolean; supabase?: SupabaseClient; sendTimeoutMs?: number; overrideText?: string | null }
+  options?: {
+    sendImages?: boolean;
+    supabase?: SupabaseClient;
+    sendTimeoutMs?: number;
+    overrideText?: string | null;
+    linkShortener?: LinkShortener | null;
+    lengthLimits?: { caption: number; text: number };
+  }
 ): Promise<SendWithMediaResult> => {
   if (!whatsappClient || whatsappClient.getStatus().status !== 'connected') {
     throw new Error('WhatsApp not connected');
@@ -930,7 +1107,15 @@ const sendMessageWithTemplate = async (
   const jid = normalizeTargetJid(target);
   const allowImages = options?.sendImages !== false;
   const sendTimeoutMs = Math.max(Number(options?.sendTimeoutMs || DEFAULT_SEND_TIMEOUT_MS), 10000);
-  const rendered = renderTemplateMessage(template, feedItem, options?.overrideText);
+  let rendered = renderTemplateMessage(template, feedItem, options?.overrideText, options?.linkShortener);
+  if (options?.linkShortener && options.supabase) {
+    try {
+      await options.linkShortener.save(options.supabase);
+    } catch (error) {
+      logger.warn({ error, feedItemId: feedItem.id }, 'Failed to save short links; sending original links');
+      rendered = renderTemplateMessage(template, feedItem, options.overrideText);
+    }
+  }
   const sendMode = rendered.sendMode;
   const includeImageCaption = rendered.includeImageCaption;
   const allowTextFallback = rendered.allowTextFallback;
@@ -955,24 +1140,44 @@ const sendMessageWithTemplate = async (
     );
   };
 
+  const planText = (text: string, kind: MessagePartKind): string[] =>
+    planMessageParts(text, {
+      kind,
+      strategy: getLengthStrategy(template),
+      limits: options?.lengthLimits || readLengthLimits(null),
+      readMoreUrl: rendered.link || null
+    });
+  // WhatsApp previews the first link of a message, so a split text keeps the article link up front.
+  const planPreviewText = () => {
+    const [first = '', ...rest] = planText(textWithPreview, 'text');
+    return rest.length ? [ensurePreviewLink(first, rendered.link), ...rest] : [first];
+  };
+  const finishSend = async (
+    response: any,
+    kind: MessagePartKind,
+    planned: string[],
+    media: SendWithMediaResult['media']
+  ): Promise<SendWithMediaResult> => {
+    const [first = '', ...followUps] = planned;
+    const { parts, partsError } = await sendFollowUpParts({ kind, text: first, response }, followUps, (text) =>
+      sendText(text, { disableLinkPreview: true })
+    );
+    return { response, text: parts.map((part) => part.text).join('\n\n'), parts, partsError, media };
+  };
+
   if (sendMode === 'text_only') {
-    const response = await sendText(renderedText, { disableLinkPreview: true });
-    return {
-      response,
-      text: renderedText,
-      media: { type: null, url: null, sent: false, error: null }
-    };
+    const planned = planText(renderedText, 'text');
+    const response = await sendText(planned[0] || '', { disableLinkPreview: true });
+    return finishSend(response, 'text', planned, { type: null, url: null, sent: false, error: null });
   }
 
   if (sendMode === 'link_preview') {
-    const response = await sendText(textWithPreview);
-    return {
-      response,
-      text: textWithPreview,
-      media: { type: null, url: null, sent: false, error: null }
-    };
+    const planned = planPreviewText();
+    const response = await sendText(planned[0] || '');
+    return finishSend(response, 'text', planned, { type: null, url: null, sent: false, error: null });
   }
 
+  const captionParts = includeImageCaption ? planText(renderedText, 'caption') : [];
   const resolved = await resolveMediaUrlForFeedItem(options?.supabase, feedItem, allowImages);
   if (sendMode === 'image_only' && !resolved.url) {
     throw new Error('Image-only mode requires an available media (image/video) for this feed item');
@@ -988,12 +1193,9 @@ const sendMessageWithTemplate = async (
       if (!allowTextFallback) {
         throw new Error(`Image-only mode blocked unsafe media URL: ${message}`);
       }
-      const response = await sendText(textWithPreview);
-      return {
-        response,
-        text: textWithPreview,
-        media: { type: resolved.kind || 'image', url: resolved.url, sent: false, error: message }
-      };
+      const planned = planPreviewText();
+      const response = await sendText(planned[0] || '');
+      return finishSend(response, 'text', planned, { type: resolved.kind || 'image', url: resolved.url, sent: false, error: message });
     }
 
     if (resolved.kind === 'video') {
@@ -1019,7 +1221,7 @@ const sendMessageWithTemplate = async (
         }
 
         const content: Record<string, unknown> = includeImageCaption
-          ? { video: sendBuffer, caption: renderedText }
+          ? { video: sendBuffer, caption: captionParts[0] || '' }
           : { video: sendBuffer };
         if (sendMime) {
           content.mimetype = sendMime;
@@ -1041,23 +1243,16 @@ const sendMessageWithTemplate = async (
               'Timed out sending video message'
             );
 
-        return {
-          response,
-          text: includeImageCaption ? renderedText : '',
-          media: { type: 'video', url: safeUrl, sent: true, error: null }
-        };
+        return finishSend(response, 'caption', captionParts, { type: 'video', url: safeUrl, sent: true, error: null });
       } catch (error) {
         const bufferErrorMessage = getErrorMessage(error);
         if (!allowTextFallback) {
           throw new Error(bufferErrorMessage);
         }
         logger.warn({ error, jid, videoUrl: safeUrl }, 'Video send failed; using text fallback');
-        const response = await sendText(textWithPreview);
-        return {
-          response,
-          text: textWithPreview,
-          media: { type: 'video', url: safeUrl, sent: false, error: bufferErrorMessage }
-        };
+        const planned = planPreviewText();
+        const response = await sendText(planned[0] || '');
+        return finishSend(response, 'text', planned, { type: 'video', url: safeUrl, sent: false, error: bufferErrorMessage });
       }
     }
 
@@ -1082,7 +1277,7 @@ const sendMessageWithTemplate = async (
       }
 
       const content: Record<string, unknown> = includeImageCaption
-        ? { image: sendBuffer, caption: renderedText }
+        ? { image: sendBuffer, caption: captionParts[0] || '' }
         : { image: sendBuffer };
       if (sendMime) {
         content.mimetype = sendMime;
@@ -1104,11 +1299,7 @@ const sendMessageWithTemplate = async (
             'Timed out sending image message'
           );
 
-      return {
-        response,
-        text: includeImageCaption ? renderedText : '',
-        media: { type: 'image', url: safeUrl, sent: true, error: null }
-      };
+      return finishSend(response, 'caption', captionParts, { type: 'image', url: safeUrl, sent: true, error: null });
     } catch (error) {
       const bufferErrorMessage = getErrorMessage(error);
       const isUnsupportedImage =
@@ -1129,12 +1320,9 @@ const sendMessageWithTemplate = async (
         logger.warn({ error, jid, imageUrl: safeUrl }, 'Image send failed; using text fallback');
       }
 
-      const response = await sendText(textWithPreview);
-      return {
-        response,
-        text: textWithPreview,
-        media: { type: 'image', url: safeUrl, sent: false, error: bufferErrorMessage }
-      };
+      const planned = planPreviewText();
+      const response = await sendText(planned[0] || '');
+      return finishSend(response, 'text', planned, { type: 'image', url: safeUrl, sent: false, error: bufferErrorMessage });
     }
   }
 
@@ -1142,12 +1330,9 @@ const sendMessageWithTemplate = async (
     throw new Error('Image-only mode could not find a media (image/video) to send');
   }
 
-  const response = await sendText(textWithPreview);
-  return {
-    response,
-    text: textWithPreview,
-    media: { type: null, url: null, sent: false, error: null }
-  };
+  const planned = planPreviewText();
+  const response = await sendText(planned[0] || '');
+  return finishSend(response, 'text', planned, { type: null, url: null, sent: false, error: null });
 };
 
 type ReconcileUpdatedFeedItemsResult = {
@@ -1237,15 +1422,20 @@ const reconcileUpdatedFeedItems = async (
   const settings = await settingsService.getSettings();
   const sendTimeoutMs = Math.max(Number(settings.send_timeout_ms || DEFAULT_SEND_TIMEOUT_MS), 10000);
   const { editWindowMs, correctionWindowMs } = getPostSendWindows(settings);
+  const lengthLimits = readLengthLimits(settings);
   const correctionCutoffIso = new Date(Date.now() - correctionWindowMs).toISOString();
 
   const { data: logRows, error: logsError } = await supabase
     .from('message_logs')
-    .select('id,feed_item_id,target_id,template_id,sent_at,whatsapp_message_id,message_content')
+    .select(
+      'id,schedule_id,feed_item_id,target_id,template_id,template_variant_id,sent_at,whatsapp_message_id,message_content,message_parts,media_type,media_sent'
+    )
     .in('feed_item_id', feedItemIds)
     .in('status', Array.from(SUCCESSFUL_SEND_STATUSES))
     .gte('sent_at', correctionCutoffIso)
-    .not('target_id', 'is', null);
+    .not('target_id', 'is', null)
+    // Digest sends share one message across items; one story's update cannot re-render it.
+    .is('digest_id', null);
 
   if (logsError) {
     logger.warn({ error: logsError }, 'Failed loading sent logs for feed-item reconciliation');
@@ -1254,12 +1444,17 @@ const reconcileUpdatedFeedItems = async (
 
   type SentLogRow = {
     id: string;
+    schedule_id?: string | null;
     feed_item_id?: string | null;
     target_id?: string | null;
     template_id?: string | null;
+    template_variant_id?: string | null;
     sent_at?: string | null;
     whatsapp_message_id?: string | null;
     message_content?: string | null;
+    message_parts?: MessagePart[] | null;
+    media_type?: string | null;
+    media_sent?: boolean | null;
   };
 
   const sentLogs = (logRows || []) as SentLogRow[];
@@ -1282,18 +1477,29 @@ const reconcileUpdatedFeedItems = async (
     )
   );
 
-  const [targetsRes, templatesRes] = await Promise.all([
+  const variantIds = Array.from(
+    new Set(
+      sentLogs
+        .map((row) => String(row.template_variant_id || '').trim())
+        .filter(Boolean)
+    )
+  );
+
+  const [targetsRes, templatesRes, variantsRes] = await Promise.all([
     targetIds.length
       ? supabase.from('targets').select('*').in('id', targetIds)
       : Promise.resolve({ data: [], error: null }),
     templateIds.length
       ? supabase.from('templates').select('*').in('id', templateIds)
+      : Promise.resolve({ data: [], error: null }),
+    variantIds.length
+      ? supabase.from('template_variants').select('id,locale,content').in('id', variantIds)
       : Promise.resolve({ data: [], error: null })
   ]);
 
-  if (targetsRes.error || templatesRes.error) {
+  if (targetsRes.error || templatesRes.error || variantsRes.error) {
     logger.warn(
-      { targetError: targetsRes.error, templateError: templatesRes.error },
+      { targetError: targetsRes.error, templateError: templatesRes.error, variantError: variantsRes.error },
       'Failed loading targets/templates for feed-item reconciliation'
     );
     return { ...result, reason: 'Failed loading targets/templates' };
@@ -1313,6 +1519,11 @@ const reconcileUpdatedFeedItems = async (
     templatesById.set(id, row);
   }
 
+  const variantsById = new Map<string, { locale: string; content: string }>();
+  for (const row of (variantsRes.data || []) as Array<{ id: string; locale: string; content: string }>) {
+    variantsById.set(String(row.id), row);
+  }
+
   for (const log of sentLogs) {
     const feedItemId = String(log.feed_item_id || '').trim();
     const targetId = String(log.target_id || '').trim();
@@ -1320,32 +1531,69 @@ const reconcileUpdatedFeedItems = async (
 
     const feedItem = byFeedItemId.get(feedItemId);
     const target = targetsById.get(targetId);
-    const template = templatesById.get(templateId);
+    const baseTemplate = templatesById.get(templateId);
+    // Re-render with the variant the message was sent with, so corrections keep its language.
+    const variant = log.template_variant_id ? variantsById.get(String(log.template_variant_id)) : undefined;
+    const template = baseTemplate && variant ? applyTemplateVariant(baseTemplate, variant) : baseTemplate;
 
     if (!feedItem || !target || !template || target.active === false) {
       result.skipped += 1;
       continue;
     }
 
+    // Same log, same short codes: the re-render only differs where the story changed.
+    const linkShortener = createLinkShortener(settings, target, {
+      logId: log.id,
+      feedItemId,
+      targetId,
+      scheduleId: log.schedule_id || null
+    });
     let rendered: ReturnType<typeof renderTemplateMessage>;
     try {
-      rendered = renderTemplateMessage(template, feedItem);
+      rendered = renderTemplateMessage(template, feedItem, null, linkShortener);
+      await linkShortener?.save(supabase);
     } catch (error) {
       result.failed += 1;
       logger.warn({ error, feedItemId, targetId, templateId }, 'Failed to render updated template for sent message');
       continue;
     }
 
-    const desiredText = String(rendered.outboundText || '').trim();
-    if (!desiredText) {
+    // Media that went out carries the text as its caption; otherwise it was sent as a text message.
+    const sentAsCaption = log.media_sent === true && (log.media_type === 'image' || log.media_type === 'video');
+    const desiredSource = String(
+      sentAsCaption || rendered.sendMode === 'text_only' ? rendered.outboundText : rendered.textWithPreview
+    ).trim();
+    if (!desiredSource) {
       result.skipped += 1;
       continue;
     }
 
-    const currentComparable = normalizeMessageText(String(log.message_content || '')).trim();
-    const desiredComparable = normalizeMessageText(desiredText).trim();
-    if (currentComparable && currentComparable === desiredComparable) {
+    const partKind: MessagePartKind = sentAsCaption ? 'caption' : 'text';
+    const sentParts: MessagePart[] =
+      Array.isArray(log.message_parts) && log.message_parts.length > 1
+        ? log.message_parts
+        : [{ kind: partKind, text: String(log.message_content || ''), whatsapp_message_id: log.whatsapp_message_id || null }];
+    // Corrections edit the messages already sent, so the new text is fitted to the same number of parts.
+    const desiredParts: string[] = fitMessageParts(
+      desiredSource,
+      { kind: partKind, strategy: getLengthStrategy(template), limits: lengthLimits, readMoreUrl: rendered.link || null },
+      sentParts.length
+    );
+    const comparable = (text: unknown) => normalizeMessageText(String(text || '')).trim();
+    const changedIndexes = desiredParts
+      .map((text, index) => (comparable(sentParts[index]?.text) === comparable(text) ? -1 : index))
+      .filter((index) => index >= 0);
+    if (!changedIndexes.length) {
+      result.skipped += 1;
+      continue;
+    }
+    if (desiredParts.length < sentParts.length) {
+      // Sent parts cannot be removed, only edited.
       result.skipped += 1;
+      logger.debug(
+        { logId: log.id, sentParts: sentParts.length, desiredParts: desiredParts.length },
+        'Skipping correction because the updated message needs fewer parts than were sent'
+      );
       continue;
     }
 
@@ -1371,28 +1619,33 @@ const reconcileUpdatedFeedItems = async (
       target.type !== 'status' &&
       target.type !== 'channel' &&
       sentAgeMs <= editWindowMs &&
-      String(log.whatsapp_message_id || '').trim()
+      changedIndexes.every((index) => String(sentParts[index]?.whatsapp_message_id || '').trim())
     );
 
           if (hasEditCandidate) {
           try {
             await withGlobalSendLock(async () => {
             await waitForDelays(target as Target, settings);
-          await withTimeout(
-            whatsappClient.editMessage!(
-              jid,
-              String(log.whatsapp_message_id || '').trim(),
-              desiredText
-            ),
-            sendTimeoutMs,
-            'Timed out editing message'
-          );
+          for (const index of changedIndexes) {
+            await withTimeout(
+              whatsappClient.editMessage!(
+                jid,
+                String(sentParts[index]?.whatsapp_message_id || '').trim(),
+                desiredParts[index] || ''
+              ),
+              sendTimeoutMs,
+              'Timed out editing message'
+            );
+          }
         });
 
+        const editedParts = sentParts.map((part, index) => ({ ...part, text: desiredParts[index] ?? part.text }));
         await supabase
           .from('message_logs')
           .update({
-            message_content: desiredText,
+            message_content: editedParts.map((part) => part.text).join('\n\n'),
+            message_parts: editedParts.length > 1 ? editedParts : null,
+            template_revision_id: template.current_revision_id || null,
             error_message: null
           })
           .eq('id', log.id);
@@ -1417,6 +1670,7 @@ const reconcileUpdatedFeedItems = async (
         sentAgeMs,
         editWindowMs,
         hasEditMessageId: Boolean(String(log.whatsapp_message_id || '').trim()),
+        changedParts: changedIndexes.length,
         targetType: target.type
       },
       'Skipping correction because in-place edit is not possible and replacement sends are disabled'
@@ -1442,11 +1696,17 @@ type Schedule = {
   created_at?: string | null;
   active?: boolean;
   approval_required?: boolean | null;
+  filter_rules?: Record<string, unknown> | null;
+  cluster_mode?: 'first' | 'best_source' | 'also_reported' | null;
+  target_template_overrides?: Record<string, string> | null;
+  digest_config?: Record<string, unknown> | null;
 };
 
 type SendQueuedOptions = {
   skipFeedRefresh?: boolean;
   allowOverdueBatchDispatch?: boolean;
+  // Send only rows a delivery window held, even outside the batch send window.
+  releaseHeld?: boolean;
 };
 
 const parseBatchTimes = (value: unknown): string[] => {
@@ -1545,18 +1805,32 @@ const computeNextBatchRunAt = (times: string[], timezone?: string | null) => {
   return nextValue;
 };
 
+const getFeedItemColumnsForSchedule = (schedule: Schedule, baseColumns: string) =>
+  hasActiveFilterRules(schedule.filter_rules) ? `${baseColumns},${FILTER_ITEM_COLUMNS}` : baseColumns;
+
+// Filtered items still get a message_logs row so the skip (and the rule behind it) shows up in the queue.
+const resolveDispatchStatusForItem = (
+  schedule: Schedule,
+  item: Record<string, unknown>,
+  queuedStatus: string
+): { status: string; error_message: string | null } => {
+  const result = evaluateFilterRules(schedule.filter_rules, item);
+  if (result.allowed) return { status: queuedStatus, error_message: null };
+  return { status: 'skipped', error_message: result.reason };
+};
+
 const queueSinceLastRunForSchedule = async (
   supabase: SupabaseClient,
   schedule: Schedule,
   targets: Target[]
-): Promise<{ queued: number; feedItemCount: number; cursorAt: string | null }> => {
-  if (!schedule.feed_id) return { queued: 0, feedItemCount: 0, cursorAt: null };
+): Promise<{ queued: number; filtered: number; feedItemCount: number; cursorAt: string | null }> => {
+  if (!schedule.feed_id) return { queued: 0, filtered: 0, feedItemCount: 0, cursorAt: null };
   const sinceIso = schedule.last_queued_at || schedule.last_run_at;
-  if (!sinceIso) return { queued: 0, feedItemCount: 0, cursorAt: null };
-  if (!targets.length) return { queued: 0, feedItemCount: 0, cursorAt: null };
+  if (!sinceIso) return { queued: 0, filtered: 0, feedItemCount: 0, cursorAt: null };
+  if (!targets.length) return { queued: 0, filtered: 0, feedItemCount: 0, cursorAt: null };
 
   const targetIds = targets.map((t) => t.id).filter(Boolean) as string[];
-  if (!targetIds.length) return { queued: 0, feedItemCount: 0, cursorAt: null };
+  if (!targetIds.length) return { queued: 0, filtered: 0, feedItemCount: 0, cursorAt: null };
 
   const queuedStatus = schedule.approval_required === true ? 'awaiting_approval' : 'pending';
 
@@ -1566,6 +1840,7 @@ const queueSinceLastRunForSchedule = async (
   let cursorAt = sinceIso;
   let cursorId: string | null = null;
   let totalQueued = 0;
+  let totalFiltered = 0;
   let totalFeedItems = 0;
 
   // Pre-fetch existing combinations to avoid duplicates in batch
@@ -1617,7 +1892,7 @@ const queueSinceLastRunForSchedule = async (
   while (true) {
     let query = supabase
       .from('feed_items')
-      .select('id, created_at')
+      .select(getFeedItemColumnsForSchedule(schedule, 'id, created_at'))
       .eq('feed_id', schedule.feed_id)
       .order('created_at', { ascending: true })
       .order('id', { ascending: true })
@@ -1635,7 +1910,7 @@ const queueSinceLastRunForSchedule = async (
       break;
     }
 
-    const items = (page || []) as Array<{ id?: string; created_at?: string }>;
+    const items = (page || []) as unknown as Array<{ id?: string; created_at?: string } & Record<string, unknown>>;
     if (!items.length) {
       break;
     }
@@ -1643,28 +1918,39 @@ const queueSinceLastRunForSchedule = async (
     totalFeedItems += items.length;
 
     let batch: Array<Record<string, unknown>> = [];
+    let filteredBatch: Array<Record<string, unknown>> = [];
     for (const item of items) {
       const feedItemId = item?.id ? String(item.id) : null;
       if (!feedItemId) continue;
+      const dispatch = resolveDispatchStatusForItem(schedule, item, queuedStatus);
+      const rows = dispatch.status === 'skipped' ? filteredBatch : batch;
       for (const targetId of targetIds) {
-        batch.push({
+        rows.push({
           feed_item_id: feedItemId,
           target_id: targetId,
           schedule_id: schedule.id,
           template_id: schedule.template_id,
-          status: queuedStatus,
+          status: dispatch.status,
+          error_message: dispatch.error_message,
           approved_at: null,
           approved_by: null
         });
-        if (batch.length >= LOG_BATCH_SIZE) {
-          totalQueued += await flushBatch(batch);
-          batch = [];
-        }
+      }
+      if (batch.length >= LOG_BATCH_SIZE) {
+        totalQueued += await flushBatch(batch);
+        batch = [];
+      }
+      if (filteredBatch.length >= LOG_BATCH_SIZE) {
+        totalFiltered += await flushBatch(filteredBatch);
+        filteredBatch = [];
       }
     }
     if (batch.length) {
       totalQueued += await flushBatch(batch);
     }
+    if (filteredBatch.length) {
+      totalFiltered += await flushBatch(filteredBatch);
+    }
 
     const last = items[items.length - 1];
     if (last?.created_at) {
@@ -1675,7 +1961,11 @@ const queueSinceLastRunForSchedule = async (
     }
   }
 
-  return { queued: totalQueued, feedItemCount: totalFeedItems, cursorAt: cursorAt || null };
+  if (totalFiltered > 0) {
+    logger.info({ scheduleId: schedule.id, filtered: totalFiltered }, 'Skipped feed items excluded by schedule filter rules');
+  }
+
+  return { queued: totalQueued, filtered: totalFiltered, feedItemCount: totalFeedItems, cursorAt: cursorAt || null };
 };
 
 const queueRecentMissingForSchedule = async (
@@ -1693,7 +1983,7 @@ const queueRecentMissingForSchedule = async (
 
   const { data: recentItems, error: itemsError } = await supabase
     .from('feed_items')
-    .select('id')
+    .select(getFeedItemColumnsForSchedule(schedule, 'id'))
     .eq('feed_id', schedule.feed_id)
     .gte('created_at', sinceIso)
     .order('created_at', { ascending: true })
@@ -1712,16 +2002,18 @@ const queueRecentMissingForSchedule = async (
   const queuedStatus = schedule.approval_required === true ? 'awaiting_approval' : 'pending';
 
   const pendingRows: Array<Record<string, unknown>> = [];
-  for (const item of recentItems as Array<{ id?: string }>) {
+  for (const item of recentItems as unknown as Array<{ id?: string } & Record<string, unknown>>) {
     const feedItemId = item?.id ? String(item.id) : null;
     if (!feedItemId) continue;
+    const dispatch = resolveDispatchStatusForItem(schedule, item, queuedStatus);
     for (const targetId of targetIds) {
       pendingRows.push({
         feed_item_id: feedItemId,
         target_id: targetId,
         schedule_id: schedule.id,
         template_id: schedule.template_id,
-        status: queuedStatus,
+        status: dispatch.status,
+        error_message: dispatch.error_message,
         approved_at: null,
         approved_by: null
       });
@@ -1747,6 +2039,7 @@ type QueueLatestResult = {
   inserted: number;
   revived: number;
   skipped: number;
+  filtered?: boolean;
   reason?: string;
   feedItemId?: string;
   feedItemTitle?: string | null;
@@ -1795,7 +2088,7 @@ const queueLatestForSchedule = async (
 
   const { data: latestFeedItem } = await supabase
     .from('feed_items')
-    .select('id, title, created_at')
+    .select(getFeedItemColumnsForSchedule(schedule, 'id, title, created_at'))
     .eq('feed_id', schedule.feed_id)
     .order('created_at', { ascending: false })
     .limit(1)
@@ -1839,6 +2132,39 @@ const queueLatestForSchedule = async (
   const requiresApproval = schedule.approval_required === true;
   const queuedStatus = requiresApproval ? 'awaiting_approval' : 'pending';
 
+  const filterOutcome = resolveDispatchStatusForItem(schedule, latestFeedItem, queuedStatus);
+  if (filterOutcome.status === 'skipped') {
+    const filteredRows = targetIds
+      .filter((targetId) => !existingByTarget.has(targetId))
+      .map((targetId) => ({
+        feed_item_id: latestFeedItem.id,
+        target_id: targetId,
+        schedule_id: schedule.id,
+        template_id: schedule.template_id,
+        status: 'skipped',
+        error_message: filterOutcome.error_message,
+        approved_at: null,
+        approved_by: null
+      }));
+    const insertedFiltered = await upsertPendingDispatchRows(
+      supabase,
+      filteredRows,
+      schedule.id,
+      'Failed to record filtered latest feed item'
+    );
+    return {
+      queued: 0,
+      inserted: 0,
+      revived: 0,
+      skipped: insertedFiltered,
+      filtered: true,
+      reason: filterOutcome.error_message || 'Filtered by schedule rules',
+      feedItemId: latestFeedItem.id,
+      feedItemTitle: latestFeedItem.title || null,
+      cursorAt: latestFeedItem.created_at ? String(latestFeedItem.created_at) : null
+    };
+  }
+
   const toInsert: Array<Record<string, unknown>> = [];
   const toRevivePending: string[] = [];
   const toReviveAwaitingApproval: string[] = [];
@@ -1919,6 +2245,357 @@ const queueLatestForSchedule = async (
   };
 };
 
+type DigestLog = { id: string; feed_item_id?: string | null; retry_count?: number | null };
+
+/**
+ * Send every runnable queued item of a target as one digest message. Items past `max_items`
+ * are folded into the "and N more" line; all rows are linked to the digest and settle together.
+ * Returns how many rows were marked sent.
+ */
+const sendDigestForTarget = async (
+  supabase: SupabaseClient,
+  whatsappClient: WhatsAppClient,
+  context: {
+    schedule: Schedule & { name?: string | null };
+    target: Target;
+    logs: DigestLog[];
+    digestConfig: NonNullable<ReturnType<typeof readDigestConfig>>;
+    settings: Record<string, unknown>;
+  }
+): Promise<number> => {
+  const { schedule, target, digestConfig, settings } = context;
+  const releasePatch = {
+    processing_started_at: null,
+    media_url: null,
+    media_type: null,
+    media_sent: false,
+    media_error: null
+  };
+
+  const { data: claimedRows, error: claimError } = await supabase
+    .from('message_logs')
+    .update({ status: 'processing', processing_started_at: new Date().toISOString() })
+    .in('id', context.logs.map((log) => log.id))
+    .eq('status', 'pending')
+    .select('id');
+  if (claimError) {
+    logger.warn({ scheduleId: schedule.id, targetId: target.id, error: claimError }, 'Failed to claim digest message logs');
+    return 0;
+  }
+  const claimedIds = new Set((claimedRows || []).map((row: { id: string }) => String(row.id)));
+  const claimedLogs = context.logs.filter((log) => claimedIds.has(String(log.id)));
+  if (!claimedLogs.length) return 0;
+
+  const feedItemIds = Array.from(new Set(claimedLogs.map((log) => String(log.feed_item_id || '')).filter(Boolean)));
+  const { data: feedItemRows, error: feedItemsError } = feedItemIds.length
+    ? await supabase.from('feed_items').select('*').in('id', feedItemIds)
+    : { data: [], error: null };
+  if (feedItemsError) {
+    await supabase
+      .from('message_logs')
+      .update({ status: 'pending', ...releasePatch })
+      .in('id', Array.from(claimedIds));
+    throw feedItemsError;
+  }
+  const feedItemsById = new Map<string, FeedItem>(
+    ((feedItemRows || []) as FeedItem[]).map((item) => [String(item.id), item])
+  );
+
+  const entries: Array<{ log: DigestLog; feedItem: FeedItem }> = [];
+  const missingIds: string[] = [];
+  for (const log of claimedLogs) {
+    const feedItem = feedItemsById.get(String(log.feed_item_id || ''));
+    if (!feedItem) {
+      missingIds.push(log.id);
+      continue;
+    }
+    try {
+      const clusterDecision = await resolveStoryClusterDispatch(supabase, {
+        clusterMode: schedule.cluster_mode,
+        targetId: String(target.id),
+        logId: String(log.id),
+        feedItem
+      });
+      if (clusterDecision.skip) {
+        await supabase
+          .from('message_logs')
+          .update({ status: 'skipped', error_message: clusterDecision.reason || 'Skipped by story cluster policy', ...releasePatch })
+          .eq('id', log.id);
+        continue;
+      }
+    } catch (error) {
+      logger.warn({ scheduleId: schedule.id, logId: log.id, error }, 'Failed to apply story cluster policy; sending anyway');
+    }
+    entries.push({ log, feedItem });
+  }
+  if (missingIds.length) {
+    await supabase
+      .from('message_logs')
+      .update({ status: 'failed', error_message: 'Feed item missing', ...releasePatch })
+      .in('id', missingIds);
+  }
+  if (!entries.length) return 0;
+
+  const linkShorteners: Array<LinkShortener | null> = entries.map((entry) =>
+    createLinkShortener(settings, target, {
+      logId: entry.log.id,
+      feedItemId: entry.feedItem.id,
+      targetId: target.id,
+      scheduleId: schedule.id
+    })
+  );
+  const renderDigest = (withShortLinks: boolean) =>
+    renderDigestMessage(
+      digestConfig,
+      entries.map((entry, index) => {
+        const data = buildMessageData(entry.feedItem);
+        const linkShortener = withShortLinks ? linkShorteners[index] : null;
+        if (linkShortener && entry.feedItem.link) {
+          data.link = linkShortener.shortenUrl(entry.feedItem.link);
+          data.url = data.link;
+        }
+        return data;
+      }),
+      { scheduleName: schedule.name || null, timezone: schedule.timezone || null }
+    );
+  let digest = renderDigest(true);
+  try {
+    await Promise.all(linkShorteners.map((linkShortener) => linkShortener?.save(supabase)));
+  } catch (error) {
+    logger.warn({ error, scheduleId: schedule.id, targetId: target.id }, 'Failed to save short links; sending original links');
+    digest = renderDigest(false);
+  }
+  const includedEntries = entries.slice(0, digest.includedCount);
+  const overflowEntries = entries.slice(digest.includedCount);
+  const entryIds = entries.map((entry) => entry.log.id);
+
+  try {
+    const response = await withGlobalSendLock(async () => {
+      await waitForDelays(target, settings);
+      const content: Record<string, unknown> = digestConfig.link_preview
+        ? { text: digest.text }
+        : { text: digest.text, linkPreview: null };
+      const sendTimeoutMs = Number(settings.send_timeout_ms || DEFAULT_SEND_TIMEOUT_MS);
+      const result = await withTimeout(
+        target.type === 'status'
+          ? whatsappClient.sendStatusBroadcast(content)
+          : whatsappClient.sendMessage(normalizeTargetJid(target), content),
+        sendTimeoutMs,
+        'Timed out sending message'
+      );
+      const nowMs = Date.now();
+      globalLastSentAtMs = nowMs;
+      globalLastTargetId = String(target.id);
+      globalLastSentByTargetId.set(String(target.id), nowMs);
+      return result;
+    });
+
+    const messageId = response?.key?.id ? String(response.key.id) : null;
+    if (messageId && whatsappClient.confirmSend) {
+      const confirmation = await whatsappClient.confirmSend(messageId, { upsertTimeoutMs: 5000, ackTimeoutMs: 15000 });
+      if (!confirmation?.ok) {
+        throw new Error('Message send not confirmed (no upsert/ack)');
+      }
+    } else if (messageId && whatsappClient.waitForMessage) {
+      const observed = await whatsappClient.waitForMessage(messageId, 15000);
+      if (!observed) {
+        throw new Error('Message send not confirmed (no local upsert)');
+      }
+    }
+
+    const sentAt = new Date().toISOString();
+    const { data: digestRow, error: digestError } = await supabase
+      .from('message_digests')
+      .insert({
+        schedule_id: schedule.id,
+        target_id: target.id,
+        message_content: digest.text,
+        whatsapp_message_id: messageId,
+        item_count: digest.includedCount,
+        overflow_count: digest.overflowCount,
+        sent_at: sentAt
+      })
+      .select('id')
+      .single();
+    if (digestError) {
+      logger.warn({ scheduleId: schedule.id, targetId: target.id, error: digestError }, 'Failed to record digest send');
+    }
+
+    const digestId = digestRow?.id || null;
+    await supabase
+      .from('message_logs')
+      .update({
+        status: 'sent',
+        sent_at: sentAt,
+        error_message: null,
+        message_content: digest.text,
+        whatsapp_message_id: messageId,
+        digest_id: digestId,
+        ...releasePatch
+      })
+      .in('id', includedEntries.map((entry) => entry.log.id));
+    if (overflowEntries.length) {
+      await supabase
+        .from('message_logs')
+        .update({
+          status: 'skipped',
+          error_message: `Digest overflow: counted in "and ${digest.overflowCount} more"`,
+          digest_id: digestId,
+          ...releasePatch
+        })
+        .in('id', overflowEntries.map((entry) => entry.log.id));
+    }
+
+    const { error: markSentError } = await supabase
+      .from('feed_items')
+      .update({ sent: true, sent_at: sentAt })
+      .in('id', includedEntries.map((entry) => String(entry.feedItem.id)))
+      .eq('sent', false);
+    if (markSentError) {
+      logger.warn({ scheduleId: schedule.id, error: markSentError }, 'Failed to mark digest feed items as sent');
+    }
+    return includedEntries.length;
+  } catch (error) {
+    const rawErrorMessage = getErrorMessage(error);
+    logger.error({ error, scheduleId: schedule.id, targetId: target.id }, 'Failed to send digest');
+    const errorMessage = isAuthStateError(rawErrorMessage)
+      ? `${AUTH_ERROR_HINT} (${rawErrorMessage || 'unknown auth error'})`
+      : rawErrorMessage;
+    const maxRetries = Number(settings.max_retries || 3);
+    const currentRetry = Math.max(...entries.map((entry) => Number(entry.log.retry_count || 0)));
+    // A timed out send may have gone through; retrying could post the digest twice.
+    const retry = !/timed out sending/i.test(rawErrorMessage) && currentRetry < maxRetries;
+    await supabase
+      .from('message_logs')
+      .update(
+        retry
+          ? {
+              status: 'pending',
+              error_message: `Retry ${currentRetry + 1}/${maxRetries}: ${errorMessage}`,
+              retry_count: currentRetry + 1,
+              ...releasePatch
+            }
+          : { status: 'failed', error_message: `Digest send failed: ${errorMessage}`, ...releasePatch }
+      )
+      .in('id', entryIds);
+    return 0;
+  }
+};
+
+type HeldLog = { id: string; held_until?: string | null; hold_reason?: string | null };
+
+type ShabbosGate = {
+  isShabbos: boolean;
+  reason?: string | null;
+  endsAt?: Date | null;
+  policy: 'hold' | 'drop' | 'digest';
+};
+
+type HoldSettings = { delivery_window?: unknown; default_timezone?: unknown; shabbosMode?: unknown };
+
+/**
+ * Hold or drop a target's pending rows while it is Shabbos or Yom Tov at the target's location.
+ * Held rows record havdalah as their release time, like a closed delivery window. With
+ * `holdOnly` (announcements, manual posts) rows are held whatever the policy; gates with no
+ * known end always carry `hold` (see buildTargetShabbosStatus).
+ */
+const applyShabbosPolicy = async (
+  supabase: SupabaseClient,
+  gate: ShabbosGate,
+  logs: HeldLog[],
+  options: { holdOnly?: boolean } = {}
+) => {
+  const ids = logs.map((log) => log.id);
+  if (!gate.isShabbos || !ids.length) return { held: gate.isShabbos, dropped: 0 };
+  const policy = options.holdOnly ? 'hold' : gate.policy;
+
+  if (policy === 'drop') {
+    const { error } = await supabase
+      .from('message_logs')
+      .update({ status: 'skipped', error_message: SHABBOS_DROP_ERROR, held_until: null, hold_reason: null })
+      .in('id', ids)
+      .eq('status', 'pending');
+    if (error) logger.warn({ error, count: ids.length }, 'Failed to drop queue items for Shabbos');
+    return { held: true, dropped: error ? 0 : ids.length };
+  }
+
+  const reason = gate.reason || 'Shabbos/Yom Tov';
+  const { error } = await supabase
+    .from('message_logs')
+    .update({
+      held_until: gate.endsAt ? new Date(gate.endsAt).toISOString() : null,
+      hold_reason: policy === 'digest' ? `${reason}; catch-up digest after havdalah` : reason
+    })
+    .in('id', ids);
+  if (error) logger.warn({ error, count: ids.length }, 'Failed to record Shabbos hold');
+  return { held: true, dropped: 0 };
+};
+
+/**
+ * Keep a target's pending rows queued while it is outside its delivery window, recording when
+ * they will be released so the queue can show it. Rows let through after a hold lose the marker.
+ */
+const applyDeliveryWindow = async (
+  supabase: SupabaseClient,
+  target: { delivery_window?: unknown } | null | undefined,
+  logs: HeldLog[],
+  settings: HoldSettings
+) => {
+  const window = resolveDeliveryWindow(target?.delivery_window, settings.delivery_window, String(settings.default_timezone || 'UTC'));
+  const status = getDeliveryWindowStatus(window);
+  if (!status.open) {
+    const ids = logs.map((log) => log.id);
+    if (ids.length) {
+      const { error } = await supabase
+        .from('message_logs')
+        .update({ held_until: status.opensAt ? status.opensAt.toISOString() : null, hold_reason: status.reason })
+        .in('id', ids);
+      if (error) logger.warn({ error, count: ids.length }, 'Failed to record delivery window hold');
+    }
+    return { held: true, released: false, window, status };
+  }
+
+  const heldIds = logs.filter((log) => log.held_until || log.hold_reason).map((log) => log.id);
+  if (heldIds.length) {
+    await supabase.from('message_logs').update({ held_until: null, hold_reason: null }).in('id', heldIds);
+  }
+  return { held: false, released: heldIds.length > 0, window, status };
+};
+
+/**
+ * The rows whose targets are neither in Shabbos nor outside their delivery window; the rest
+ * are marked held (or dropped, by the target's Shabbos policy).
+ */
+const filterByDeliveryHolds = async <T extends HeldLog & { target_id?: string | null }>(
+  supabase: SupabaseClient,
+  logs: T[],
+  settings: HoldSettings,
+  options: { holdOnly?: boolean } = {}
+): Promise<T[]> => {
+  const logsByTarget = new Map<string, T[]>();
+  for (const log of logs) {
+    const targetId = String(log.target_id || '');
+    logsByTarget.set(targetId, [...(logsByTarget.get(targetId) || []), log]);
+  }
+  const targetIds = Array.from(logsByTarget.keys()).filter(Boolean);
+  const { data: targetRows, error } = targetIds.length
+    ? await supabase.from('targets').select('id,delivery_window,shabbos_location,shabbos_policy').in('id', targetIds)
+    : { data: [], error: null };
+  if (error) throw error;
+  const targetById = new Map(((targetRows || []) as Target[]).map((target) => [target.id, target] as const));
+
+  const allowed: T[] = [];
+  for (const [targetId, targetLogs] of logsByTarget) {
+    const target = targetById.get(targetId);
+    const gate = buildTargetShabbosStatus(settings.shabbosMode || {}, target) as ShabbosGate;
+    const shabbosResult = await applyShabbosPolicy(supabase, gate, targetLogs, options);
+    if (shabbosResult.held) continue;
+    const result = await applyDeliveryWindow(supabase, target, targetLogs, settings);
+    if (!result.held) allowed.push(...targetLogs);
+  }
+  return allowed;
+};
+
 const sendQueuedForSchedule = async (
   scheduleId: string,
   whatsappClient?: WhatsAppClient | null,
@@ -1955,22 +2632,38 @@ const sendQueuedForSchedule = async (
 
     // Check if schedule has feed_id - if not, it's a manual dispatch only
     if (!schedule.feed_id) {
-      const shabbosStatus = await isCurrentlyShabbos();
-      if (shabbosStatus.isShabbos) {
-        logger.info({ scheduleId, reason: shabbosStatus.reason, endsAt: shabbosStatus.endsAt },
-          'Skipping message send - Shabbos/Yom Tov active');
-        return {
-          sent: 0,
-          queued: 0,
-          skipped: true,
-          reason: shabbosStatus.reason,
-          resumeAt: shabbosStatus.endsAt
-        };
+      const isAnnouncement = isAnnouncementSchedule(schedule);
+      let announcementQueued = 0;
+      if (isAnnouncement) {
+        // Queue the due occurrence even when sending is held below; its rows wait as pending.
+        const announcementResult = await queueDueAnnouncement(supabase, schedule);
+        announcementQueued = announcementResult.queued;
+      }
+
+      // Shabbos and delivery windows are checked per target before connecting to WhatsApp.
+      let sendableLogs: Array<HeldLog & { target_id: string }> = [];
+      if (isAnnouncement) {
+        const { data: announcementLogs, error: announcementLogsError } = await supabase
+          .from('message_logs')
+          .select('id,target_id,held_until,hold_reason')
+          .eq('schedule_id', scheduleId)
+          .eq('status', 'pending')
+          .is('feed_item_id', null)
+          .order('created_at', { ascending: true });
+        if (announcementLogsError) throw announcementLogsError;
+
+        const pendingLogs = (announcementLogs || []) as Array<HeldLog & { target_id: string }>;
+        sendableLogs = await filterByDeliveryHolds(supabase, pendingLogs, await settingsService.getSettings(), { holdOnly: true });
+        if (!sendableLogs.length) {
+          return pendingLogs.length
+            ? { sent: 0, queued: announcementQueued, skipped: true, reason: 'Held for Shabbos or a delivery window' }
+            : { sent: 0, queued: announcementQueued };
+        }
       }
 
       if (!whatsappClient) {
         logger.warn({ scheduleId }, 'Skipping send - WhatsApp client not available');
-        return { sent: 0, queued: 0, skipped: true, reason: 'WhatsApp not connected' };
+        return { sent: 0, queued: announcementQueued, skipped: true, reason: 'WhatsApp not connected' };
       }
 
       const connectedForManualDispatch = await ensureWhatsAppConnected(whatsappClient, {
@@ -1984,7 +2677,20 @@ const sendQueuedForSchedule = async (
         const whatsappStatus = whatsappClient.getStatus();
         logger.warn({ scheduleId, whatsappStatus: whatsappStatus?.status || 'unknown' },
           'Skipping send - WhatsApp not connected');
-        return { sent: 0, queued: 0, skipped: true, reason: 'WhatsApp not connected' };
+        return { sent: 0, queued: announcementQueued, skipped: true, reason: 'WhatsApp not connected' };
+      }
+
+      if (isAnnouncement) {
+        let announcementSent = 0;
+        for (const log of sendableLogs) {
+          const sendResult = await sendQueueLogNow(log.id, whatsappClient);
+          if (sendResult?.ok) {
+            announcementSent += 1;
+          } else {
+            logger.warn({ scheduleId, logId: log.id, error: sendResult?.error }, 'Announcement failed to send');
+          }
+        }
+        return { sent: announcementSent, queued: announcementQueued };
       }
 
       logger.warn({ scheduleId }, 'Schedule has no feed_id - manual dispatch only');
@@ -2155,7 +2861,7 @@ const sendQueuedForSchedule = async (
         overdueAgeMs >= 0 &&
         overdueAgeMs <= overdueDispatchGraceMs;
 
-      if (!withinWindow && !isOverdueDispatch) {
+      if (!withinWindow && !isOverdueDispatch && !options?.releaseHeld) {
         const misalignedOverdueCursor =
           allowOverdueBatchDispatch &&
           Number.isFinite(overdueAgeMs) &&
@@ -2211,16 +2917,33 @@ const sendQueuedForSchedule = async (
       }
     }
 
-    const shabbosStatus = await isCurrentlyShabbos();
-    if (shabbosStatus.isShabbos) {
-      logger.info({ scheduleId, reason: shabbosStatus.reason, endsAt: shabbosStatus.endsAt },
+    // Shabbos is evaluated per target, at the target's own location when it has one.
+    const shabbosGates = new Map<string, ShabbosGate>(
+      ((targets || []) as Target[]).map((target) => [String(target.id), buildTargetShabbosStatus(settings.shabbosMode || {}, target)])
+    );
+    const gates = Array.from(shabbosGates.values());
+    if (gates.length && gates.every((gate) => gate.isShabbos)) {
+      // Nothing can go out: record the holds (or drops) without connecting to WhatsApp.
+      const { data: pendingRows, error: pendingRowsError } = await supabase
+        .from('message_logs')
+        .select('id,target_id,held_until,hold_reason')
+        .eq('schedule_id', scheduleId)
+        .eq('status', 'pending');
+      if (pendingRowsError) throw pendingRowsError;
+      await filterByDeliveryHolds(supabase, (pendingRows || []) as Array<HeldLog & { target_id: string }>, settings);
+
+      const resumeAt = gates
+        .map((gate) => (gate.endsAt ? new Date(gate.endsAt).getTime() : Number.NaN))
+        .filter(Number.isFinite)
+        .sort((a, b) => a - b)[0];
+      logger.info({ scheduleId, reason: gates[0]?.reason, resumeAt },
         'Skipping message send - Shabbos/Yom Tov active');
       return {
         sent: 0,
         queued: queuedCount,
         skipped: true,
-        reason: shabbosStatus.reason,
-        resumeAt: shabbosStatus.endsAt
+        reason: gates[0]?.reason,
+        resumeAt: resumeAt == null ? null : new Date(resumeAt)
       };
     }
 
@@ -2259,8 +2982,13 @@ const sendQueuedForSchedule = async (
       throw new Error('Template not found for schedule');
     }
     logger.info({ scheduleId, templateId: template.id }, 'Found template for schedule');
+    const resolveTargetTemplate = createTemplateResolver(supabase, template as Template, schedule.target_template_overrides);
+    const digestConfig = deliveryMode === 'batched' ? readDigestConfig(schedule.digest_config) : null;
 
     let sentCount = 0;
+    let heldCount = 0;
+    let droppedCount = 0;
+    let heldStatus: { reason: string | null; opensAt: Date | null } | null = null;
 
     for (const target of targets || []) {
       // Get pending message logs for this target and schedule
@@ -2279,8 +3007,10 @@ const sendQueuedForSchedule = async (
         continue;
       }
 
+      // Items held for a delivery window are waiting on purpose and do not go stale.
       const staleLogIds = (logs || [])
-        .filter((entry: { id?: string; created_at?: string | null }) => {
+        .filter((entry: { id?: string; created_at?: string | null; held_until?: string | null }) => {
+          if (entry?.held_until) return false;
           const createdAt = entry?.created_at ? new Date(entry.created_at).getTime() : 0;
           return Boolean(entry?.id) && Number.isFinite(createdAt) && createdAt > 0 && createdAt < staleCutoffMs;
         })
@@ -2303,13 +3033,30 @@ const sendQueuedForSchedule = async (
       }
 
       const runnableLogs = (logs || []).filter(
-        (entry: { id?: string }) => Boolean(entry?.id) && !staleLogIds.includes(String(entry.id))
+        (entry: { id?: string; held_until?: string | null }) =>
+          Boolean(entry?.id) && !staleLogIds.includes(String(entry.id)) && (!options?.releaseHeld || Boolean(entry.held_until))
       );
 
       if (!runnableLogs.length) {
         continue;
       }
 
+      const shabbosGate = shabbosGates.get(String(target.id));
+      if (shabbosGate?.isShabbos) {
+        const shabbosResult = await applyShabbosPolicy(supabase, shabbosGate, runnableLogs as HeldLog[]);
+        heldCount += runnableLogs.length - shabbosResult.dropped;
+        droppedCount += shabbosResult.dropped;
+        heldStatus = heldStatus || { reason: shabbosGate.reason || null, opensAt: shabbosGate.endsAt || null };
+        continue;
+      }
+
+      const windowResult = await applyDeliveryWindow(supabase, target, runnableLogs as HeldLog[], settings);
+      if (windowResult.held) {
+        heldCount += runnableLogs.length;
+        heldStatus = heldStatus || windowResult.status;
+        continue;
+      }
+
       const feedItemIds = Array.from(
         new Set(
           (runnableLogs || [])
@@ -2394,6 +3141,23 @@ const sendQueuedForSchedule = async (
         }
       }
 
+      // What piled up during a hold can go out as one catch-up digest (window or Shabbos policy).
+      const releaseDigestConfig =
+        windowResult.released && (windowResult.window?.digest || shabbosGate?.policy === 'digest') && sortedLogs.length > 1
+          ? readDigestConfig({ ...(schedule.digest_config || {}), enabled: true })
+          : null;
+      const targetDigestConfig = digestConfig || releaseDigestConfig;
+      if (targetDigestConfig) {
+        sentCount += await sendDigestForTarget(supabase, whatsappClient, {
+          schedule,
+          target: target as Target,
+          logs: sortedLogs as DigestLog[],
+          digestConfig: targetDigestConfig,
+          settings
+        });
+        continue;
+      }
+
       for (const log of sortedLogs || []) {
         const { data: claimedRows, error: claimError } = await supabase
           .from('message_logs')
@@ -2433,13 +3197,51 @@ const sendQueuedForSchedule = async (
           continue;
         }
 
+        let dispatchItem: FeedItem = feedItem;
+        try {
+          const clusterDecision = await resolveStoryClusterDispatch(supabase, {
+            clusterMode: schedule.cluster_mode,
+            targetId: String(target.id),
+            logId: String(log.id),
+            feedItem
+          });
+          if (clusterDecision.skip) {
+            await supabase
+              .from('message_logs')
+              .update({
+                status: 'skipped',
+                processing_started_at: null,
+                error_message: clusterDecision.reason || 'Skipped by story cluster policy',
+                media_url: null,
+                media_type: null,
+                media_sent: false,
+                media_error: null
+              })
+              .eq('id', log.id);
+            continue;
+          }
+          if (clusterDecision.alsoReportedBy) {
+            dispatchItem = { ...feedItem, also_reported_by: clusterDecision.alsoReportedBy };
+          }
+        } catch (error) {
+          logger.warn({ scheduleId, logId: log.id, error }, 'Failed to apply story cluster policy; sending anyway');
+        }
+
           try {
+            const targetTemplate = await resolveTargetTemplate(target as Target);
             const sendResult = await withGlobalSendLock(async () => {
               await waitForDelays(target as Target, settings);
-              const result = await sendMessageWithTemplate(whatsappClient, target, template, feedItem, {
+              const result = await sendMessageWithTemplate(whatsappClient, target, targetTemplate.template, dispatchItem, {
                 supabase,
                 sendTimeoutMs: Number(settings.send_timeout_ms || DEFAULT_SEND_TIMEOUT_MS),
-                overrideText: typeof log.message_content === 'string' ? log.message_content : null
+                overrideText: typeof log.message_content === 'string' ? log.message_content : null,
+                lengthLimits: readLengthLimits(settings),
+                linkShortener: createLinkShortener(settings, target, {
+                  logId: log.id,
+                  feedItemId: feedItem.id,
+                  targetId: target.id,
+                  scheduleId
+                })
               });
             const nowMs = Date.now();
             globalLastSentAtMs = nowMs;
@@ -2481,9 +3283,14 @@ const sendQueuedForSchedule = async (
               status: 'sent',
               sent_at: new Date().toISOString(),
               processing_started_at: null,
-              error_message: null,
+              error_message: sendResult?.partsError || null,
               message_content: sendResult?.text || null,
+              message_parts: sendResult && sendResult.parts.length > 1 ? sendResult.parts : null,
               whatsapp_message_id: messageId,
+              template_id: targetTemplate.templateId,
+              template_variant_id: targetTemplate.variantId,
+              template_locale: targetTemplate.locale,
+              template_revision_id: targetTemplate.template.current_revision_id || null,
               media_url: sendResult?.media?.url || null,
               media_type: sendResult?.media?.type || null,
               media_sent: Boolean(sendResult?.media?.sent),
@@ -2621,6 +3428,20 @@ const sendQueuedForSchedule = async (
       }
     }
 
+    if (sentCount === 0 && heldCount > 0) {
+      logger.info({ scheduleId, heldCount, droppedCount, opensAt: heldStatus?.opensAt },
+        'Dispatch held by Shabbos or target delivery windows');
+      return {
+        sent: 0,
+        queued: queuedCount,
+        held: heldCount,
+        skipped: true,
+        reason: heldStatus?.reason || 'Outside delivery window',
+        resumeAt: heldStatus?.opensAt ? heldStatus.opensAt.toISOString() : null,
+        reconcile: reconcileResult
+      };
+    }
+
     if (sentCount === 0 && queuedCount === 0) {
       logger.info({ scheduleId }, 'Dispatch finished with no queue entries to send');
       return {
@@ -2632,8 +3453,8 @@ const sendQueuedForSchedule = async (
       };
     }
 
-    logger.info({ scheduleId, sentCount, queuedCount, reconcileResult }, 'Dispatch completed successfully');
-    return { sent: sentCount, queued: queuedCount, reconcile: reconcileResult };
+    logger.info({ scheduleId, sentCount, queuedCount, heldCount, droppedCount, reconcileResult }, 'Dispatch completed successfully');
+    return { sent: sentCount, queued: queuedCount, held: heldCount, reconcile: reconcileResult };
   } catch (error) {
     logger.error({ error, scheduleId }, 'Failed to send queued messages');
     return { sent: 0, queued: 0, error: getErrorMessage(error) };
@@ -2689,6 +3510,7 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
       media_type?: string | null;
       disable_link_preview?: boolean | null;
       include_caption?: boolean | null;
+      message_payload?: Record<string, unknown> | null;
     };
 
     if (isSuccessfulSendStatus(log.status)) {
@@ -2869,7 +3691,7 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
 
     try {
       if (isAutomationBacked) {
-        const scheduleRow = scheduleRes.data as { template_id?: unknown };
+        const scheduleRow = scheduleRes.data as { template_id?: unknown; target_template_overrides?: unknown };
         const templateId = (log.template_id || scheduleRow?.template_id) as string | null;
         if (!templateId) {
           await supabase
@@ -2909,17 +3731,29 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
           return { ok: false, error: 'Template not found' };
         }
 
+        const targetTemplate = await createTemplateResolver(
+          supabase,
+          template as Template,
+          scheduleRow?.target_template_overrides
+        )(targetRow);
         const sendResult = await withGlobalSendLock(async () => {
           await waitForDelays(targetRow, settings);
           const result = await sendMessageWithTemplate(
             activeWhatsappClient,
             targetRow,
-            template as Template,
+            targetTemplate.template,
             feedItemRes.data as FeedItem,
             {
               supabase,
               sendTimeoutMs: Number(settings.send_timeout_ms || DEFAULT_SEND_TIMEOUT_MS),
-              overrideText: typeof log.message_content === 'string' ? log.message_content : null
+              overrideText: typeof log.message_content === 'string' ? log.message_content : null,
+              lengthLimits: readLengthLimits(settings),
+              linkShortener: createLinkShortener(settings, targetRow, {
+                logId: log.id,
+                feedItemId: log.feed_item_id,
+                targetId: targetRow.id,
+                scheduleId: log.schedule_id
+              })
             }
           );
           const nowMs = Date.now();
@@ -2944,9 +3778,14 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
             status: 'sent',
             sent_at: new Date().toISOString(),
             processing_started_at: null,
-            error_message: null,
+            error_message: sendResult?.partsError || null,
             message_content: sendResult?.text || null,
+            message_parts: sendResult && sendResult.parts.length > 1 ? sendResult.parts : null,
             whatsapp_message_id: messageId || null,
+            template_id: targetTemplate.templateId,
+            template_variant_id: targetTemplate.variantId,
+            template_locale: targetTemplate.locale,
+            template_revision_id: targetTemplate.template.current_revision_id || null,
             media_url: sendResult?.media?.url || null,
             media_type: sendResult?.media?.type || null,
             media_sent: Boolean(sendResult?.media?.sent),
@@ -2973,11 +3812,98 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
         throw new Error('Manual message must include message text or a media URL');
       }
 
+      const lengthLimits = readLengthLimits(settings);
+      // Manual posts have no article to point a "read more" link at, so long text is split.
+      const planManualText = (kind: MessagePartKind): string[] =>
+        manualText ? planMessageParts(manualText, { kind, strategy: 'split', limits: lengthLimits }) : [];
+      const captionParts = includeCaption ? planManualText('caption') : [];
+      const textParts = planManualText('text');
+      const withFollowUps = async <M>(response: any, kind: MessagePartKind, planned: string[], media: M) => {
+        const [first = '', ...followUps] = planned;
+        const { parts, partsError } = await sendFollowUpParts({ kind, text: first, response }, followUps, sendTextManual);
+        return { response, media, parts, partsError };
+      };
+
+      // Polls, locations, documents and audio (see utils/richMessage); only documents take a caption.
+      const richMessage = readRichMessage(log.message_payload, { url: manualMediaUrlRaw, type: manualMediaType });
+      if (richMessage) {
+        const restriction = getRichMessageRestriction(richMessage, getMessageDestination(targetRow));
+        if (restriction) {
+          throw new Error(restriction);
+        }
+        const hasFile = richMessage.kind === 'document' || richMessage.kind === 'audio';
+        const richResult = await withGlobalSendLock(async () => {
+          await waitForDelays(targetRow, settings);
+          let file: { buffer: Buffer; mimetype: string } | null = null;
+          if (richMessage.kind === 'document' || richMessage.kind === 'audio') {
+            let safeUrl = richMessage.url;
+            try {
+              safeUrl = (await assertSafeOutboundUrl(richMessage.url)).toString();
+            } catch (error) {
+              throw new Error(`Blocked unsafe media URL: ${getErrorMessage(error)}`);
+            }
+            file = await downloadAttachment(
+              richMessage.kind,
+              safeUrl,
+              richMessage.kind === 'document' ? richMessage.file_name : null
+            );
+          }
+          const content = buildRichMessageContent(richMessage, {
+            file,
+            caption: richMessage.kind === 'document' ? captionParts[0] || null : null
+          });
+          const response =
+            targetRow.type === 'status'
+              ? await withTimeout(
+                activeWhatsappClient.sendStatusBroadcast(content),
+                Number(settings.send_timeout_ms || DEFAULT_SEND_TIMEOUT_MS),
+                `Timed out sending ${richMessage.kind} status message`
+              )
+              : await withTimeout(
+                activeWhatsappClient.sendMessage(jid, content),
+                Number(settings.send_timeout_ms || DEFAULT_SEND_TIMEOUT_MS),
+                `Timed out sending ${richMessage.kind} message`
+              );
+
+          const nowMs = Date.now();
+          globalLastSentAtMs = nowMs;
+          globalLastTargetId = String(targetRow.id);
+          globalLastSentByTargetId.set(String(targetRow.id), nowMs);
+          if (globalLastSentByTargetId.size > 1000) {
+            globalLastSentByTargetId.clear();
+          }
+
+          return richMessage.kind === 'document'
+            ? withFollowUps(response, 'caption', captionParts, null)
+            : { response, media: null, parts: [], partsError: null };
+        });
+
+        const messageId = richResult?.response?.key?.id;
+        await ensureSendConfirmed(messageId || null, hasFile);
+
+        await supabase
+          .from('message_logs')
+          .update({
+            status: 'sent',
+            sent_at: new Date().toISOString(),
+            processing_started_at: null,
+            error_message: richResult?.partsError || null,
+            message_content: manualText || null,
+            message_parts: richResult && richResult.parts.length > 1 ? richResult.parts : null,
+            whatsapp_message_id: messageId || null,
+            media_sent: hasFile,
+            media_error: null
+          })
+          .eq('id', log.id);
+
+        return { ok: true, messageId: messageId || null, mediaSent: hasFile };
+      }
+
       const sendResult = await withGlobalSendLock(async () => {
         await waitForDelays(targetRow, settings);
 
         if (!manualHasMedia) {
-          const response = await sendTextManual(manualText);
+          const response = await sendTextManual(textParts[0] || '');
           const nowMs = Date.now();
           globalLastSentAtMs = nowMs;
           globalLastTargetId = String(targetRow.id);
@@ -2985,7 +3911,7 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
           if (globalLastSentByTargetId.size > 1000) {
             globalLastSentByTargetId.clear();
           }
-          return { response, media: null as null };
+          return withFollowUps(response, 'text', textParts, null);
         }
 
         let safeUrl = manualMediaUrlRaw;
@@ -3034,7 +3960,7 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
 
             const content: Record<string, unknown> =
               includeCaption && manualText
-                ? { video: sendBuffer, caption: manualText }
+                ? { video: sendBuffer, caption: captionParts[0] || '' }
                 : { video: sendBuffer };
             if (sendMime) content.mimetype = sendMime;
             if (newsletterExtras && Object.keys(newsletterExtras).length) {
@@ -3062,15 +3988,15 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
               globalLastSentByTargetId.clear();
             }
 
-            return { response, media: { type: 'video', url: safeUrl, sent: true, error: null } };
+            return withFollowUps(response, 'caption', captionParts, { type: 'video', url: safeUrl, sent: true, error: null });
           } catch (error) {
             const message = getErrorMessage(error);
             if (!manualText) {
               throw error;
             }
             logger.warn({ error, jid, videoUrl: safeUrl }, 'Manual video send failed; using text fallback');
-            const response = await sendTextManual(manualText);
-            return { response, media: { type: 'video', url: safeUrl, sent: false, error: message } };
+            const response = await sendTextManual(textParts[0] || '');
+            return withFollowUps(response, 'text', textParts, { type: 'video', url: safeUrl, sent: false, error: message });
           }
         }
 
@@ -3096,7 +4022,7 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
 
           const content: Record<string, unknown> =
             includeCaption && manualText
-              ? { image: sendBuffer, caption: manualText }
+              ? { image: sendBuffer, caption: captionParts[0] || '' }
               : { image: sendBuffer };
           if (sendMime) content.mimetype = sendMime;
           if (newsletterExtras && Object.keys(newsletterExtras).length) {
@@ -3124,15 +4050,15 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
             globalLastSentByTargetId.clear();
           }
 
-          return { response, media: { type: 'image', url: safeUrl, sent: true, error: null } };
+          return withFollowUps(response, 'caption', captionParts, { type: 'image', url: safeUrl, sent: true, error: null });
         } catch (error) {
           const message = getErrorMessage(error);
           if (!manualText) {
             throw error;
           }
           logger.warn({ error, jid, imageUrl: safeUrl }, 'Manual image send failed; using text fallback');
-          const response = await sendTextManual(manualText);
-          return { response, media: { type: 'image', url: safeUrl, sent: false, error: message } };
+          const response = await sendTextManual(textParts[0] || '');
+          return withFollowUps(response, 'text', textParts, { type: 'image', url: safeUrl, sent: false, error: message });
         }
       });
 
@@ -3146,8 +4072,9 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
           status: 'sent',
           sent_at: new Date().toISOString(),
           processing_started_at: null,
-          error_message: null,
+          error_message: sendResult?.partsError || null,
           message_content: manualText || null,
+          message_parts: sendResult && sendResult.parts.length > 1 ? sendResult.parts : null,
           whatsapp_message_id: messageId || null,
           media_url: sendResult?.media?.url || (manualHasMedia ? manualMediaUrlRaw : null) || null,
           media_type: sendResult?.media?.type || (manualHasMedia ? (manualMediaType || null) : null) || null,
@@ -3164,7 +4091,9 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
         ? `${AUTH_ERROR_HINT} (${rawErrorMessage || 'unknown auth error'})`
         : rawErrorMessage;
 
-      const keepMedia = !isAutomationBacked && Boolean(String(log.media_url || '').trim());
+      // Polls and locations have no media_url, but their media_type says how to retry them.
+      const keepMedia =
+        !isAutomationBacked && (Boolean(String(log.media_url || '').trim()) || Boolean(log.message_payload));
       await supabase
         .from('message_logs')
         .update({
@@ -3186,6 +4115,8 @@ const sendQueueLogNow = async (logId: string, whatsappClient?: WhatsAppClient |
   }
 };
 
+const MAX_DUE_MANUAL_SENDS_PER_PASS = 50;
+
 const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
   const supabase = getSupabaseClient();
   if (!supabase) {
@@ -3253,6 +4184,21 @@ const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
     let totalQueued = 0;
     let skippedBatch = 0;
 
+    // Batched schedules normally wait for their next batch time; rows a delivery window held
+    // go out as soon as the window opens instead.
+    const { data: releasableRows, error: releasableError } = await supabase
+      .from('message_logs')
+      .select('schedule_id')
+      .eq('status', 'pending')
+      .not('held_until', 'is', null)
+      .lte('held_until', new Date().toISOString());
+    if (releasableError) {
+      logger.warn({ error: releasableError }, 'Failed loading held queue items');
+    }
+    const releasableScheduleIds = new Set(
+      ((releasableRows || []) as Array<{ schedule_id?: string | null }>).map((row) => String(row.schedule_id || ''))
+    );
+
     for (const scheduleId of scheduleIds) {
       const schedule = scheduleById.get(scheduleId) as
         | {
@@ -3269,6 +4215,7 @@ const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
       }
 
       const isBatchSchedule = schedule?.delivery_mode === 'batched' || schedule?.delivery_mode === 'batch';
+      let releaseHeld = false;
       if (isBatchSchedule) {
         const overdueDispatchGraceMs = getOverdueBatchDispatchGraceMs();
         let nextRunAtMs = schedule?.next_run_at ? Date.parse(String(schedule.next_run_at)) : Number.NaN;
@@ -3290,7 +4237,8 @@ const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
           overdueAgeMs >= 0 &&
           overdueAgeMs <= overdueDispatchGraceMs;
 
-        if (!shouldAttemptBatchDispatch) {
+        releaseHeld = !shouldAttemptBatchDispatch && releasableScheduleIds.has(scheduleId);
+        if (!shouldAttemptBatchDispatch && !releaseHeld) {
           const staleDueCursor = Number.isFinite(overdueAgeMs) && overdueAgeMs > overdueDispatchGraceMs;
           if (staleDueCursor) {
             const batchTimes = parseBatchTimes(schedule?.batch_times);
@@ -3310,7 +4258,8 @@ const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
         scheduleId,
         async () =>
           sendQueuedForSchedule(scheduleId, whatsappClient, {
-            allowOverdueBatchDispatch: true
+            allowOverdueBatchDispatch: true,
+            releaseHeld
           }),
         { timeoutMs: 300000, skipIfLocked: true }
       );
@@ -3327,6 +4276,39 @@ const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
       }
     }
 
+    // Scheduled manual posts go out once due; unscheduled ones wait for "Send now" as before.
+    // Rows still held by a delivery window are left out so they cannot fill every pass.
+    let manualSent = 0;
+    const dueAt = new Date().toISOString();
+    const { data: dueManualLogs, error: dueManualError } = await supabase
+      .from('message_logs')
+      .select('id,target_id,held_until,hold_reason')
+      .is('schedule_id', null)
+      .eq('status', 'pending')
+      .not('scheduled_for', 'is', null)
+      .lte('scheduled_for', dueAt)
+      .or(`held_until.is.null,held_until.lte.${dueAt}`)
+      .order('scheduled_for', { ascending: true })
+      .limit(MAX_DUE_MANUAL_SENDS_PER_PASS);
+    if (dueManualError) {
+      logger.warn({ error: dueManualError }, 'Failed loading due scheduled manual posts');
+    }
+    const sendableManualLogs = await filterByDeliveryHolds(
+      supabase,
+      (dueManualLogs || []) as Array<HeldLog & { target_id: string }>,
+      await settingsService.getSettings(),
+      { holdOnly: true }
+    );
+    for (const row of sendableManualLogs) {
+      const sent = await sendQueueLogNow(row.id, whatsappClient);
+      if (sent?.ok) {
+        manualSent += 1;
+      } else {
+        logger.warn({ logId: row.id, error: sent?.error }, 'Scheduled manual post failed to send');
+      }
+    }
+    totalSent += manualSent;
+
     // Handle stale pending schedules that no longer exist in schedules table.
     for (const scheduleId of scheduleIds) {
       if (scheduleById.has(scheduleId)) {
@@ -3336,7 +4318,7 @@ const sendPendingForAllSchedules = async (whatsappClient?: WhatsAppClient) => {
     }
 
     logger.info(
-      { scheduleCount: scheduleIds.length, skippedBatch, totalSent, totalQueued },
+      { scheduleCount: scheduleIds.length, skippedBatch, manualSent, totalSent, totalQueued },
       'Processed pending schedules after reconnect'
     );
     return { sent: totalSent, queued: totalQueued, schedules: scheduleIds.length };
@@ -3351,5 +4333,6 @@ module.exports = {
   sendPendingForAllSchedules,
   queueLatestForSchedule,
   sendQueueLogNow,
-  reconcileUpdatedFeedItems
+  reconcileUpdatedFeedItems,
+  previewTemplateMessage
 };
@@ -6,6 +6,8 @@ const { sendQueuedForSchedule, reconcileUpdatedFeedItems, sendPendingForAllSched
 const { computeNextRunAt } = require('../utils/cron');
 const { withScheduleLock, cleanupStaleLocks } = require('./scheduleLockService');
 const { isScheduleRunning } = require('./scheduleState');
+const { isAnnouncementSchedule, computeNextAnnouncementRun } = require('./announcementService');
+const { renewWebSubSubscriptions } = require('./websubService');
 const settingsService = require('./settingsService');
 const logger = require('../utils/logger');
 
@@ -40,6 +42,7 @@ type RunScheduleOptions = {
 const feedIntervals = new Map<string, NodeJS.Timeout>();
 const scheduleJobs = new Map<string, ScheduledTask>();
 let pendingSendCatchupTimer: NodeJS.Timeout | null = null;
+let websubRenewalTimer: NodeJS.Timeout | null = null;
 const feedInFlight = new Map<string, boolean>();
 const scheduleInFlight = new Map<string, boolean>();
 
@@ -111,6 +114,10 @@ const clearAll = () => {
     clearInterval(pendingSendCatchupTimer);
     pendingSendCatchupTimer = null;
   }
+  if (websubRenewalTimer) {
+    clearInterval(websubRenewalTimer);
+    websubRenewalTimer = null;
+  }
   feedInFlight.clear();
   scheduleInFlight.clear();
 };
@@ -417,8 +424,10 @@ const scheduleFeedPolling = async (whatsappClient?: WhatsAppClient) => {
 
         feedInFlight.set(feed.id, true);
         let ok = true;
+        let nextPollAt: string | undefined;
         try {
           const result = await fetchAndProcessFeed(feed);
+          nextPollAt = result.nextPollAt;
           if (Array.isArray(result.updatedItems) && result.updatedItems.length) {
             const reconcile = await reconcileUpdatedFeedItems(result.updatedItems, whatsappClient);
             logger.info(
@@ -437,11 +446,20 @@ const scheduleFeedPolling = async (whatsappClient?: WhatsAppClient) => {
           feedInFlight.set(feed.id, false);
         }
 
-        // If a feed fails, retry sooner (but never faster than 60s)
+        // Prefer the adaptive plan persisted by the feed processor; otherwise fall back to
+        // the fixed interval (retrying sooner after a failure, but never faster than 60s).
+        const plannedMs = nextPollAt ? Date.parse(nextPollAt) - Date.now() : Number.NaN;
         const retryMs = Math.min(intervalMs, 60 * 1000);
-        scheduleNext(ok ? intervalMs : retryMs);
+        scheduleNext(Number.isFinite(plannedMs) ? plannedMs : ok ? intervalMs : retryMs);
       };
 
+      // Respect a pending poll time (backoff, Retry-After) across scheduler restarts.
+      const persistedNextPollMs = feed.next_poll_at ? Date.parse(String(feed.next_poll_at)) - Date.now() : Number.NaN;
+      if (Number.isFinite(persistedNextPollMs) && persistedNextPollMs > 0) {
+        scheduleNext(persistedNextPollMs);
+        continue;
+      }
+
       await handler();
     }
   } catch (error) {
@@ -475,6 +493,39 @@ const scheduleSenders = async (whatsappClient?: WhatsAppClient) => {
     const runningSchedules = (schedules || []).filter((schedule: ScheduleRow) => isScheduleRunning(schedule));
 
     for (const schedule of runningSchedules) {
+      if (isAnnouncementSchedule(schedule)) {
+        // A missed occurrence keeps its overdue cursor so the first tick can skip past it.
+        let nextRunAt = String(schedule.next_run_at || '').trim() || computeNextAnnouncementRun(schedule);
+        if (!nextRunAt) {
+          logger.info({ scheduleId: schedule.id }, 'Announcement recurrence has ended');
+          continue;
+        }
+        if (nextRunAt !== schedule.next_run_at) {
+          await supabase.from('schedules').update({ next_run_at: nextRunAt }).eq('id', schedule.id);
+        }
+        try {
+          const job = cron.schedule(
+            '* * * * *',
+            async () => {
+              const nextRunMs = Date.parse(String(nextRunAt || ''));
+              if (!Number.isFinite(nextRunMs) || nextRunMs > Date.now()) return;
+              await runScheduleOnce(schedule.id, whatsappClient);
+              const { data: refreshed } = await supabase
+                .from('schedules')
+                .select('next_run_at')
+                .eq('id', schedule.id)
+                .maybeSingle();
+              nextRunAt = refreshed?.next_run_at || null;
+            },
+            { timezone: 'UTC' }
+          );
+          scheduleJobs.set(`${schedule.id}:announcement:tick`, job);
+        } catch (cronError) {
+          logger.error({ error: cronError, scheduleId: schedule.id }, 'Invalid announcement dispatch schedule');
+        }
+        continue;
+      }
+
       const mode = getDeliveryMode(schedule);
       const timezone = String(schedule.timezone || 'UTC').trim() || 'UTC';
 
@@ -608,6 +659,31 @@ const startPendingSendCatchup = (whatsappClient?: WhatsAppClient) => {
   }, intervalMs);
 };
 
+const startWebSubRenewal = () => {
+  if (websubRenewalTimer) {
+    clearInterval(websubRenewalTimer);
+    websubRenewalTimer = null;
+  }
+
+  const intervalMs = Math.max(Number(process.env.WEBSUB_RENEWAL_CHECK_MS || 30 * 60 * 1000), 60000);
+  const runRenewalPass = async () => {
+    try {
+      if (await isAppPaused()) return;
+      const renewed = await renewWebSubSubscriptions();
+      if (renewed > 0) {
+        logger.info({ renewed }, 'Renewed WebSub subscriptions');
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed WebSub renewal pass');
+    }
+  };
+
+  void runRenewalPass();
+  websubRenewalTimer = setInterval(() => {
+    void runRenewalPass();
+  }, intervalMs);
+};
+
 const initSchedulers = async (whatsappClient?: WhatsAppClient) => {
   clearAll();
   if (schedulersDisabled()) {
@@ -636,6 +712,7 @@ const initSchedulers = async (whatsappClient?: WhatsAppClient) => {
   await scheduleFeedPolling(whatsappClient);
   await scheduleSenders(whatsappClient);
   startPendingSendCatchup(whatsappClient);
+  startWebSubRenewal();
 };
 
 module.exports = {
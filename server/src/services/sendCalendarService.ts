@@ -0,0 +1,171 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+const { listDailyOccurrences } = require('../utils/zonedTime');
+const { stripManualMeta } = require('../utils/manualMeta');
+const { isScheduleRunning } = require('./scheduleState');
+
+type CalendarEntry = {
+  id: string;
+  kind: 'manual' | 'batch';
+  target_id: string;
+  target_name: string | null;
+  target_type: string | null;
+  scheduled_for: string;
+  timezone: string;
+  title: string;
+  status: string | null;
+  log_id: string | null;
+  schedule_id: string | null;
+  schedule_name: string | null;
+  pending_count: number;
+};
+
+type ScheduleRow = {
+  id: string;
+  name?: string | null;
+  delivery_mode?: string | null;
+  batch_times?: string[] | null;
+  timezone?: string | null;
+  state?: string | null;
+  active?: boolean | null;
+  target_ids?: string[] | null;
+};
+
+const MAX_CALENDAR_DAYS = 42;
+const UPCOMING_MANUAL_STATUSES = ['pending', 'awaiting_approval'];
+
+const readManualTitle = (content: unknown) => {
+  const text = String(stripManualMeta(String(content || '')) || '').trim();
+  return (text.split('\n').find((line) => line.trim()) || '').trim() || 'Manual message';
+};
+
+/**
+ * Upcoming sends per target in [from, to): scheduled manual posts plus every batch time of
+ * running batched schedules. The next batch of each schedule and target carries the number
+ * of messages already waiting for it.
+ */
+const getSendCalendar = async (
+  supabase: SupabaseClient,
+  options: { from: Date; to: Date; targetId?: string | null }
+): Promise<CalendarEntry[]> => {
+  const { from, to } = options;
+  const targetId = String(options.targetId || '').trim();
+
+  let manualQuery = supabase
+    .from('message_logs')
+    .select('id,target_id,status,message_content,scheduled_for,scheduled_timezone')
+    .is('schedule_id', null)
+    .in('status', UPCOMING_MANUAL_STATUSES)
+    .gte('scheduled_for', from.toISOString())
+    .lt('scheduled_for', to.toISOString())
+    .order('scheduled_for', { ascending: true });
+  if (targetId) manualQuery = manualQuery.eq('target_id', targetId);
+
+  const [manualRes, schedulesRes] = await Promise.all([
+    manualQuery,
+    supabase.from('schedules').select('id,name,delivery_mode,batch_times,timezone,state,active,target_ids')
+  ]);
+  if (manualRes.error) throw manualRes.error;
+  if (schedulesRes.error) throw schedulesRes.error;
+
+  const batchSchedules = ((schedulesRes.data || []) as ScheduleRow[]).filter(
+    (schedule) =>
+      isScheduleRunning(schedule) &&
+      (schedule.delivery_mode === 'batch' || schedule.delivery_mode === 'batched') &&
+      Array.isArray(schedule.batch_times) &&
+      schedule.batch_times.length > 0
+  );
+
+  const pendingCounts = new Map<string, number>();
+  if (batchSchedules.length) {
+    const { data: pendingRows, error: pendingError } = await supabase
+      .from('message_logs')
+      .select('schedule_id,target_id')
+      .eq('status', 'pending')
+      .in('schedule_id', batchSchedules.map((schedule) => schedule.id));
+    if (pendingError) throw pendingError;
+    for (const row of (pendingRows || []) as Array<{ schedule_id: string; target_id: string }>) {
+      const key = `${row.schedule_id}:${row.target_id}`;
+      pendingCounts.set(key, (pendingCounts.get(key) || 0) + 1);
+    }
+  }
+
+  const manualRows = (manualRes.data || []) as Array<{
+    id: string;
+    target_id: string;
+    status: string;
+    message_content: string | null;
+    scheduled_for: string;
+    scheduled_timezone: string | null;
+  }>;
+  const targetIds = new Set<string>(manualRows.map((row) => row.target_id));
+  for (const schedule of batchSchedules) {
+    for (const id of schedule.target_ids || []) {
+      if (!targetId || id === targetId) targetIds.add(id);
+    }
+  }
+  const targetById = new Map<string, { name?: string | null; type?: string | null }>();
+  if (targetIds.size) {
+    const { data: targets, error: targetsError } = await supabase
+      .from('targets')
+      .select('id,name,type')
+      .in('id', Array.from(targetIds));
+    if (targetsError) throw targetsError;
+    for (const target of (targets || []) as Array<{ id: string; name?: string | null; type?: string | null }>) {
+      targetById.set(target.id, target);
+    }
+  }
+
+  const entries: CalendarEntry[] = manualRows.map((row) => ({
+    id: row.id,
+    kind: 'manual',
+    target_id: row.target_id,
+    target_name: targetById.get(row.target_id)?.name || null,
+    target_type: targetById.get(row.target_id)?.type || null,
+    scheduled_for: new Date(row.scheduled_for).toISOString(),
+    timezone: row.scheduled_timezone || 'UTC',
+    title: readManualTitle(row.message_content),
+    status: row.status,
+    log_id: row.id,
+    schedule_id: null,
+    schedule_name: null,
+    pending_count: 1
+  }));
+
+  const now = Date.now();
+  for (const schedule of batchSchedules) {
+    const timezone = schedule.timezone || 'UTC';
+    const occurrences = listDailyOccurrences(schedule.batch_times || [], timezone, from, to) as Date[];
+    const nextBatchMs = occurrences.find((occurrence) => occurrence.getTime() >= now)?.getTime();
+    for (const id of schedule.target_ids || []) {
+      if (targetId && id !== targetId) continue;
+      const target = targetById.get(id);
+      if (!target) continue;
+      for (const occurrence of occurrences) {
+        entries.push({
+          id: `${schedule.id}:${id}:${occurrence.toISOString()}`,
+          kind: 'batch',
+          target_id: id,
+          target_name: target.name || null,
+          target_type: target.type || null,
+          scheduled_for: occurrence.toISOString(),
+          timezone,
+          title: schedule.name || 'Batch',
+          status: null,
+          log_id: null,
+          schedule_id: schedule.id,
+          schedule_name: schedule.name || null,
+          pending_count: occurrence.getTime() === nextBatchMs ? pendingCounts.get(`${schedule.id}:${id}`) || 0 : 0
+        });
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for) || a.id.localeCompare(b.id));
+};
+
+module.exports = {
+  MAX_CALENDAR_DAYS,
+  getSendCalendar
+};
+
+export {};
@@ -2,6 +2,8 @@ const { getSupabaseClient } = require('../db/supabase');
 const env = require('../config/env');
 const { serviceUnavailable } = require('../core/errors');
 
+const { WHATSAPP_CAPTION_LIMIT, WHATSAPP_TEXT_LIMIT } = require('../utils/templateLint');
+
 const WHATSAPP_IN_PLACE_EDIT_MAX_MINUTES = 15;
 
 const DEFAULTS = {
@@ -29,7 +31,12 @@ const DEFAULTS = {
   dedupeThreshold: 0.88,
   processingTimeoutMinutes: Number(process.env.PROCESSING_TIMEOUT_MINUTES || 30),
   app_paused: false,
-  whatsapp_paused: false
+  whatsapp_paused: false,
+  link_tracking_enabled: false,
+  caption_max_length: WHATSAPP_CAPTION_LIMIT,
+  text_max_length: WHATSAPP_TEXT_LIMIT,
+  // Global quiet hours for targets without their own window; see utils/deliveryWindow.
+  delivery_window: null as Record<string, unknown> | null
 };
 
 const clampNumber = (value: unknown, fallback: number, min: number, max: number) => {
@@ -96,6 +103,23 @@ const normalizeSettingsPatch = (updates: Record<string, unknown>) => {
     next.whatsapp_paused = next.whatsapp_paused === true;
   }
 
+  if (Object.prototype.hasOwnProperty.call(next, 'link_tracking_enabled')) {
+    next.link_tracking_enabled = next.link_tracking_enabled === true;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(next, 'caption_max_length')) {
+    next.caption_max_length = clampNumber(next.caption_max_length, DEFAULTS.caption_max_length, 100, WHATSAPP_CAPTION_LIMIT);
+  }
+
+  if (Object.prototype.hasOwnProperty.call(next, 'delivery_window')) {
+    const window = next.delivery_window;
+    next.delivery_window = window && typeof window === 'object' && !Array.isArray(window) ? window : null;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(next, 'text_max_length')) {
+    next.text_max_length = clampNumber(next.text_max_length, DEFAULTS.text_max_length, 500, WHATSAPP_TEXT_LIMIT);
+  }
+
   return next;
 };
 
@@ -2,12 +2,14 @@ const axios = require('axios');
 const logger = require('../utils/logger');
 const settingsService = require('./settingsService');
 const { getErrorMessage } = require('../utils/errorUtils');
+const { computeShabbosPeriods, isIsraelLocation, normalizeShabbosLocation } = require('../utils/shabbosCalendar');
 
 type ShabbosLocation = {
   latitude: number;
   longitude: number;
   tzid: string;
   city?: string;
+  israel?: boolean | null;
 };
 
 type ShabbosPeriod = {
@@ -15,20 +17,41 @@ type ShabbosPeriod = {
   end: Date;
   type: 'shabbos' | 'yomtov';
   title: string;
+  location?: string;
 };
 
-// Cache for Shabbos times to avoid repeated API calls
-let shabbosCache: {
-  data: ShabbosPeriod[] | null;
-  fetchedAt: number | null;
-  location: string | null;
-} = {
-  data: null,
-  fetchedAt: null,
-  location: null
+// What happens to a target's stories during Shabbos: held until havdalah, dropped, or held and
+// sent as one catch-up digest after havdalah.
+type ShabbosPolicy = 'hold' | 'drop' | 'digest';
+
+type ShabbosMode = {
+  enabled?: boolean;
+  location?: ShabbosLocation | null;
+  additionalLocations?: ShabbosLocation[] | null;
+  candleLightingMins?: number | null;
+  havdalahMins?: number | null;
+  queueMessages?: boolean;
+  policy?: ShabbosPolicy | null;
+  // Hold sending when times cannot be calculated (the default) instead of carrying on.
+  failClosed?: boolean;
+  hebcalCrossCheck?: boolean;
+};
+
+type CrossCheckResult = {
+  ok: boolean;
+  checkedAt: string;
+  maxDiffMinutes: number | null;
+  mismatches: string[];
 };
 
+// Calculated times per location and settings, refreshed every few hours.
+const periodCache = new Map<string, { periods: ShabbosPeriod[]; computedAt: number }>();
+let crossCheckCache: { key: string; result: CrossCheckResult; fetchedAt: number } | null = null;
+
 const CACHE_DURATION_MS = 6 * 60 * 60 * 1000; // 6 hours
+const LOOKAHEAD_DAYS = 42;
+// HebCal rounds to the minute and uses a finer solar model.
+const CROSS_CHECK_TOLERANCE_MINUTES = 3;
 
 // Default location (New York)
 const DEFAULT_LOCATION: ShabbosLocation = {
@@ -39,7 +62,7 @@ const DEFAULT_LOCATION: ShabbosLocation = {
 };
 
 /**
- * Fetch Shabbos/Yom Tov times from HebCal API
+ * Fetch Shabbos/Yom Tov times from HebCal API (only used to cross-check our own calculation)
  */
 const fetchShabbosTimesFromHebcal = async (
   location: ShabbosLocation = DEFAULT_LOCATION,
@@ -69,11 +92,12 @@ const fetchShabbosTimesFromHebcal = async (
       latitude: String(location.latitude),
       longitude: String(location.longitude),
       tzid: location.tzid,
+      i: isIsraelLocation(location) ? 'on' : 'off',
       start: startDate,
       end: endDate // 2 weeks ahead
     });
 
-    const response = await axios.get(`https://www.hebcal.com/hebcal?${params}`);
+    const response = await axios.get(`https://www.hebcal.com/hebcal?${params}`, { timeout: 10000 });
     return response.data;
   } catch (error) {
     logger.error({ error }, 'Failed to fetch Shabbos times from HebCal');
@@ -100,8 +124,8 @@ const parseShabbosTimesFromHebcal = (data: { items?: Array<{ category?: string;
 
   for (const item of sortedItems) {
     if (item.category === 'candles') {
-      // Start of Shabbos or Yom Tov
-      if (!item.date) continue;
+      // Start of Shabbos or Yom Tov; second-day candles fall inside the period already open.
+      if (!item.date || currentStart) continue;
       currentStart = new Date(item.date);
       const title = String(item.title || '').toLowerCase();
       if (title.includes('shabbos') || title.includes('shabbat')) {
@@ -130,58 +154,85 @@ const parseShabbosTimesFromHebcal = (data: { items?: Array<{ category?: string;
   return periods;
 };
 
+const readShabbosMode = (settings: { shabbosMode?: ShabbosMode | null }): ShabbosMode => settings?.shabbosMode || {};
+
+const readTimesOptions = (mode: ShabbosMode) => ({
+  candleLightingMins: mode.candleLightingMins ?? 18,
+  havdalahMins: mode.havdalahMins ?? 50
+});
+
 /**
- * Get cached or fresh Shabbos times
+ * The primary location followed by any additional ones; invalid entries are dropped.
  */
-const getShabbosTimesWithCache = async (
+const getShabbosLocations = (mode: ShabbosMode): ShabbosLocation[] => {
+  const extra = Array.isArray(mode.additionalLocations) ? mode.additionalLocations : [];
+  return [mode.location || DEFAULT_LOCATION, ...extra]
+    .map((location) => normalizeShabbosLocation(location) as ShabbosLocation | null)
+    .filter((location): location is ShabbosLocation => Boolean(location));
+};
+
+/**
+ * Get cached or freshly calculated Shabbos times. Throws when they cannot be calculated.
+ */
+const getShabbosTimesWithCache = (
   location: ShabbosLocation = DEFAULT_LOCATION,
   candleLightingMins: number = 18,
-  havdalahMins: number = 50
-) => {
-  const cacheKey = `${location.latitude},${location.longitude},${candleLightingMins},${havdalahMins}`;
-  const now = Date.now();
-
-  const fetchedAt = shabbosCache.fetchedAt;
-  if (
-    shabbosCache.data &&
-    shabbosCache.location === cacheKey &&
-    fetchedAt &&
-    (now - fetchedAt) < CACHE_DURATION_MS
-  ) {
-    return shabbosCache.data;
+  havdalahMins: number = 50,
+  now: Date = new Date()
+): ShabbosPeriod[] => {
+  const cacheKey = [
+    location.latitude,
+    location.longitude,
+    location.tzid,
+    isIsraelLocation(location) ? 'il' : 'diaspora',
+    candleLightingMins,
+    havdalahMins
+  ].join(',');
+  const cached = periodCache.get(cacheKey);
+  if (cached && now.getTime() - cached.computedAt < CACHE_DURATION_MS && now.getTime() >= cached.computedAt) {
+    return cached.periods.filter((period) => period.end > now);
   }
 
-  const hebcalData = await fetchShabbosTimesFromHebcal(location, candleLightingMins, havdalahMins);
-  if (hebcalData) {
-    const periods = parseShabbosTimesFromHebcal(hebcalData);
-    shabbosCache = {
-      data: periods,
-      fetchedAt: now,
-      location: cacheKey
-    };
-    return periods;
-  }
+  const periods = computeShabbosPeriods(location, { from: now, days: LOOKAHEAD_DAYS, candleLightingMins, havdalahMins });
+  periodCache.set(cacheKey, { periods, computedAt: now.getTime() });
+  return periods;
+};
 
-  return shabbosCache.data || [];
+// One timeline across locations: overlapping periods merge, so sending waits until every
+// location is out of Shabbos.
+const mergePeriods = (periods: ShabbosPeriod[]) => {
+  const merged: ShabbosPeriod[] = [];
+  for (const period of [...periods].sort((a, b) => a.start.getTime() - b.start.getTime())) {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) last.end = period.end;
+      if (period.type === 'yomtov') last.type = 'yomtov';
+      if (period.location && !String(last.location || '').split(', ').includes(period.location)) {
+        last.location = last.location ? `${last.location}, ${period.location}` : period.location;
+      }
+      continue;
+    }
+    merged.push({ ...period });
+  }
+  return merged;
 };
 
 /**
- * Check if currently Shabbos or Yom Tov
+ * Shabbos status for the given Shabbos mode settings at `now`, calculated locally. When times
+ * cannot be calculated the status is fail-closed (treated as Shabbos) unless turned off.
  */
-const isCurrentlyShabbos = async () => {
-  try {
-    const settings = await settingsService.getSettings();
-    
-    // Check if Shabbos mode is enabled
-    if (!settings.shabbosMode?.enabled) {
-      return { isShabbos: false, reason: 'Shabbos mode disabled' };
-    }
+const buildShabbosStatus = (mode: ShabbosMode, now: Date = new Date()) => {
+  if (!mode.enabled) {
+    return { isShabbos: false, reason: 'Shabbos mode disabled' };
+  }
 
-    const location = settings.shabbosMode?.location || DEFAULT_LOCATION;
-    const candleMins = settings.shabbosMode?.candleLightingMins ?? 18;
-    const havdalahMins = settings.shabbosMode?.havdalahMins ?? 50;
-    const periods = await getShabbosTimesWithCache(location, candleMins, havdalahMins);
-    const now = new Date();
+  try {
+    const locations = getShabbosLocations(mode);
+    if (!locations.length) throw new Error('No valid Shabbos location configured');
+    const { candleLightingMins, havdalahMins } = readTimesOptions(mode);
+    const periods = mergePeriods(
+      locations.flatMap((location) => getShabbosTimesWithCache(location, candleLightingMins, havdalahMins, now))
+    );
 
     for (const period of periods) {
       if (now >= period.start && now <= period.end) {
@@ -203,29 +254,132 @@ const isCurrentlyShabbos = async () => {
       reason: 'Not currently Shabbos/Yom Tov'
     };
   } catch (error) {
-    logger.error({ error: getErrorMessage(error) }, 'Error checking Shabbos status');
-    return { isShabbos: false, reason: 'Error checking status', error: getErrorMessage(error) };
+    const failClosed = mode.failClosed !== false;
+    logger.error({ error: getErrorMessage(error), failClosed }, 'Error calculating Shabbos times');
+    return failClosed
+      ? {
+          isShabbos: true,
+          endsAt: null,
+          reason: 'Shabbos times unavailable; holding messages',
+          error: getErrorMessage(error)
+        }
+      : { isShabbos: false, reason: 'Error checking status', error: getErrorMessage(error) };
+  }
+};
+
+const SHABBOS_POLICIES = new Set<ShabbosPolicy>(['hold', 'drop', 'digest']);
+
+const readShabbosPolicy = (value: unknown): ShabbosPolicy | null =>
+  SHABBOS_POLICIES.has(value as ShabbosPolicy) ? (value as ShabbosPolicy) : null;
+
+/**
+ * The target's own Shabbos policy, else the global one, else hold.
+ */
+const resolveShabbosPolicy = (target: { shabbos_policy?: string | null } | null | undefined, mode: ShabbosMode): ShabbosPolicy =>
+  readShabbosPolicy(target?.shabbos_policy) || readShabbosPolicy(mode.policy) || 'hold';
+
+/**
+ * Shabbos status for one target: at its own location when it has one, otherwise at the global
+ * locations, plus the policy that applies to it. When the end is unknown (the times failed and
+ * the check fails closed) rows are held rather than dropped, since it may not be Shabbos at all.
+ */
+const buildTargetShabbosStatus = (
+  mode: ShabbosMode,
+  target: { shabbos_location?: unknown; shabbos_policy?: string | null } | null | undefined,
+  now: Date = new Date()
+) => {
+  const location = normalizeShabbosLocation(target?.shabbos_location) as ShabbosLocation | null;
+  const status = buildShabbosStatus(location ? { ...mode, location, additionalLocations: [] } : mode, now);
+  const uncertain = status.isShabbos && (!status.endsAt || Boolean(status.error));
+  return { ...status, policy: uncertain ? 'hold' : resolveShabbosPolicy(target, mode) };
+};
+
+/**
+ * Compare the calculated times for the primary location with HebCal's. Cached; never throws.
+ */
+const getHebcalCrossCheck = async (mode: ShabbosMode, now: Date = new Date()): Promise<CrossCheckResult | null> => {
+  const location = getShabbosLocations(mode)[0];
+  if (!location) return null;
+  const { candleLightingMins, havdalahMins } = readTimesOptions(mode);
+  const key = `${location.latitude},${location.longitude},${isIsraelLocation(location)},${candleLightingMins},${havdalahMins}`;
+  if (crossCheckCache && crossCheckCache.key === key && now.getTime() - crossCheckCache.fetchedAt < CACHE_DURATION_MS) {
+    return crossCheckCache.result;
+  }
+
+  const result: CrossCheckResult = { ok: false, checkedAt: now.toISOString(), maxDiffMinutes: null, mismatches: [] };
+  const hebcalData = await fetchShabbosTimesFromHebcal(location, candleLightingMins, havdalahMins);
+  if (!hebcalData) {
+    result.mismatches.push('HebCal unavailable');
+  } else {
+    try {
+      const calculated = getShabbosTimesWithCache(location, candleLightingMins, havdalahMins, now);
+      let maxDiff = 0;
+      for (const period of parseShabbosTimesFromHebcal(hebcalData)) {
+        if (period.end <= now) continue;
+        const match = calculated.find((entry) => Math.abs(entry.start.getTime() - period.start.getTime()) < 6 * 60 * 60 * 1000);
+        if (!match) {
+          result.mismatches.push(`HebCal period starting ${period.start.toISOString()} not calculated`);
+          continue;
+        }
+        const diff = Math.max(
+          Math.abs(match.start.getTime() - period.start.getTime()),
+          Math.abs(match.end.getTime() - period.end.getTime())
+        ) / 60000;
+        maxDiff = Math.max(maxDiff, diff);
+        if (diff > CROSS_CHECK_TOLERANCE_MINUTES) {
+          result.mismatches.push(`${match.title} differs from HebCal by ${Math.round(diff)} min`);
+        }
+      }
+      result.maxDiffMinutes = Math.round(maxDiff * 10) / 10;
+      result.ok = result.mismatches.length === 0;
+    } catch (error) {
+      result.mismatches.push(getErrorMessage(error));
+    }
+  }
+
+  if (!result.ok) {
+    logger.warn({ location: location.city, mismatches: result.mismatches }, 'Shabbos times cross-check against HebCal failed');
   }
+  crossCheckCache = { key, result, fetchedAt: now.getTime() };
+  return result;
+};
+
+/**
+ * Check if currently Shabbos or Yom Tov
+ */
+const isCurrentlyShabbos = async () => {
+  const settings = await settingsService.getSettings();
+  const mode = readShabbosMode(settings);
+  const status: ReturnType<typeof buildShabbosStatus> & { crossCheck?: CrossCheckResult | null } = buildShabbosStatus(mode);
+  if (mode.enabled && mode.hebcalCrossCheck) {
+    status.crossCheck = await getHebcalCrossCheck(mode);
+  }
+  return status;
+};
+
+/**
+ * Upcoming periods per configured location, soonest first, for display. Expired entries and
+ * locations whose times cannot be calculated are left out.
+ */
+const buildUpcomingShabbos = (mode: ShabbosMode, now: Date = new Date(), perLocation = 5): ShabbosPeriod[] => {
+  const { candleLightingMins, havdalahMins } = readTimesOptions(mode);
+  const upcoming: ShabbosPeriod[] = [];
+  for (const location of getShabbosLocations(mode)) {
+    try {
+      upcoming.push(...getShabbosTimesWithCache(location, candleLightingMins, havdalahMins, now).slice(0, perLocation));
+    } catch (error) {
+      logger.warn({ location: location.city, error: getErrorMessage(error) }, 'Could not calculate Shabbos times');
+    }
+  }
+  return upcoming.sort((a, b) => a.start.getTime() - b.start.getTime());
 };
 
 /**
  * Get upcoming Shabbos times for display
  */
 const getUpcomingShabbos = async (): Promise<ShabbosPeriod[]> => {
-  try {
-    const settings = await settingsService.getSettings();
-    const location = settings.shabbosMode?.location || DEFAULT_LOCATION;
-    const candleMins = settings.shabbosMode?.candleLightingMins ?? 18;
-    const havdalahMins = settings.shabbosMode?.havdalahMins ?? 50;
-    const periods = await getShabbosTimesWithCache(location, candleMins, havdalahMins);
-    const now = new Date();
-    
-    // Return upcoming periods
-    return periods.filter(p => p.end > now).slice(0, 5);
-  } catch (error) {
-    logger.error({ error: getErrorMessage(error) }, 'Error getting upcoming Shabbos times');
-    return [];
-  }
+  const settings = await settingsService.getSettings();
+  return buildUpcomingShabbos(readShabbosMode(settings));
 };
 
 /**
@@ -241,9 +395,15 @@ const getTimeUntilShabbosEnds = async (): Promise<number | null> => {
 
 module.exports = {
   isCurrentlyShabbos,
+  buildShabbosStatus,
+  buildTargetShabbosStatus,
+  resolveShabbosPolicy,
+  readShabbosPolicy,
   getUpcomingShabbos,
+  buildUpcomingShabbos,
   getTimeUntilShabbosEnds,
   getShabbosTimesWithCache,
+  getShabbosLocations,
   DEFAULT_LOCATION
 };
 export {};
@@ -0,0 +1,258 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+const { normalizeText } = require('../utils/normalize');
+const { getErrorMessage } = require('../utils/errorUtils');
+
+type StoryText = {
+  title?: string | null | undefined;
+  lead?: string | null | undefined;
+};
+
+type ClusterCandidate = {
+  id: string;
+  feed_id?: string | null;
+  title?: string | null;
+  description?: string | null;
+  article_lead?: string | null;
+  story_cluster_id?: string | null;
+};
+
+type ClusterMatch = {
+  id: string;
+  clusterId: string;
+  score: number;
+};
+
+type ClusterMode = 'first' | 'best_source' | 'also_reported';
+
+type ClusterDispatchDecision = {
+  skip: boolean;
+  reason?: string;
+  alsoReportedBy?: string;
+};
+
+const CLUSTER_MODES = new Set<ClusterMode>(['first', 'best_source', 'also_reported']);
+// Sibling states that still deliver (or delivered) the story; filtered, failed or cancelled ones do not.
+const LIVE_SIBLING_STATUSES = new Set(['pending', 'processing', 'awaiting_approval', 'sent', 'delivered', 'read', 'played']);
+const MAX_CANDIDATES = 500;
+const MAX_LEAD_CHARS = 400;
+const TITLE_WEIGHT = 0.65;
+
+// Short function words carry no signal about which event a headline covers.
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'was', 'were', 'are', 'has', 'have', 'had',
+  'its', 'his', 'her', 'their', 'into', 'over', 'after', 'before', 'about', 'amid', 'says', 'said',
+  'will', 'would', 'could', 'not', 'but', 'new', 'more', 'than', 'out', 'who', 'what', 'when', 'how',
+  'why', 'you', 'our', 'all', 'can', 'been', 'being', 'upon', 'they', 'them', 'she', 'him'
+]);
+
+const getClusterThreshold = () => {
+  const value = Number(process.env.STORY_CLUSTER_THRESHOLD || 0.6);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : 0.6;
+};
+
+const getClusterWindowHours = () => {
+  const value = Number(process.env.STORY_CLUSTER_WINDOW_HOURS || 12);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, 168) : 12;
+};
+
+const stripHtml = (value: string) => value.replace(/<[^>]*>/g, ' ');
+
+const tokenize = (value?: string | null) => {
+  const tokens = normalizeText(stripHtml(String(value || '')).slice(0, MAX_LEAD_CHARS))
+    .split(' ')
+    .filter((token: string) => token && !STOP_WORDS.has(token) && (token.length >= 3 || /^\d+$/.test(token)));
+  return new Set<string>(tokens);
+};
+
+const diceCoefficient = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Similarity of two stories (0..1) from the significant words of their titles,
+ * blended with their leads when both sides have one.
+ */
+const scoreStorySimilarity = (a: StoryText, b: StoryText) => {
+  const titleScore = diceCoefficient(tokenize(a.title), tokenize(b.title));
+  const leadA = tokenize(a.lead);
+  const leadB = tokenize(b.lead);
+  if (!leadA.size || !leadB.size) return titleScore;
+  return TITLE_WEIGHT * titleScore + (1 - TITLE_WEIGHT) * diceCoefficient(leadA, leadB);
+};
+
+const getCandidateLead = (item: Pick<ClusterCandidate, 'article_lead' | 'description'>) =>
+  String(item.article_lead || item.description || '');
+
+/**
+ * Pick the closest story from other feeds that clears the threshold.
+ * Items from the same feed are left to the per-feed dedupe.
+ */
+const findStoryCluster = (
+  item: ClusterCandidate,
+  candidates: ClusterCandidate[],
+  threshold = getClusterThreshold()
+): ClusterMatch | null => {
+  const story = { title: item.title, lead: getCandidateLead(item) };
+  let best: ClusterMatch | null = null;
+  for (const candidate of candidates) {
+    if (!candidate?.id || candidate.id === item.id) continue;
+    if (item.feed_id && candidate.feed_id === item.feed_id) continue;
+    const score = scoreStorySimilarity(story, { title: candidate.title, lead: getCandidateLead(candidate) });
+    if (score < threshold || (best && score <= best.score)) continue;
+    best = { id: candidate.id, clusterId: candidate.story_cluster_id || candidate.id, score };
+  }
+  return best;
+};
+
+/**
+ * Assign a freshly inserted item to the story cluster of a matching item from another feed
+ * within the clustering window, or start a new cluster keyed by its own id.
+ */
+const assignStoryCluster = async <T extends { id: string }>(supabase: SupabaseClient, item: T): Promise<T> => {
+  if (!item?.id) return item;
+  const story = item as unknown as ClusterCandidate;
+  try {
+    const since = new Date(Date.now() - getClusterWindowHours() * 60 * 60 * 1000).toISOString();
+    let query = supabase
+      .from('feed_items')
+      .select('id,feed_id,title,description,article_lead,story_cluster_id')
+      .gte('created_at', since)
+      .neq('id', item.id)
+      .order('created_at', { ascending: false })
+      .limit(MAX_CANDIDATES);
+    if (story.feed_id) {
+      query = query.neq('feed_id', story.feed_id);
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const match = findStoryCluster(story, (data || []) as ClusterCandidate[]);
+    const clusterId = match?.clusterId || item.id;
+    if (match && match.clusterId === match.id) {
+      // The matched item predates clustering; make it the cluster root.
+      await supabase
+        .from('feed_items')
+        .update({ story_cluster_id: clusterId })
+        .eq('id', match.id)
+        .is('story_cluster_id', null);
+    }
+
+    const { error: updateError } = await supabase
+      .from('feed_items')
+      .update({ story_cluster_id: clusterId })
+      .eq('id', item.id);
+    if (updateError) throw updateError;
+    return { ...item, story_cluster_id: clusterId };
+  } catch (error) {
+    console.warn('Failed to assign story cluster', { feedItemId: item.id, error: getErrorMessage(error) });
+    return item;
+  }
+};
+
+const getClusterMode = (value: unknown): ClusterMode | null =>
+  CLUSTER_MODES.has(value as ClusterMode) ? (value as ClusterMode) : null;
+
+const formatAlsoReportedBy = (sources: Array<{ name: string; link?: string | null }>) => {
+  if (!sources.length) return '';
+  const lines = sources.map((source) => (source.link ? `• ${source.name}: ${source.link}` : `• ${source.name}`));
+  return ['Also reported by:', ...lines].join('\n');
+};
+
+/**
+ * Decide whether a queued item may go to a target given the schedule's cluster mode.
+ * - first: the first sibling dispatched to the target wins.
+ * - best_source: like first, but an item yields to a higher-priority feed's sibling queued for the
+ *   target within the clustering window that is still pending, awaiting approval, processing or sent.
+ * - also_reported: like first, and the message lists the other sources of the story.
+ * Siblings queued by any schedule count, since each schedule only covers one feed.
+ */
+const resolveStoryClusterDispatch = async (
+  supabase: SupabaseClient,
+  options: {
+    clusterMode?: string | null;
+    targetId: string;
+    logId: string;
+    feedItem: { id?: string; feed_id?: string | null; story_cluster_id?: string | null };
+  }
+): Promise<ClusterDispatchDecision> => {
+  const mode = getClusterMode(options.clusterMode);
+  const clusterId = options.feedItem?.story_cluster_id;
+  if (!mode || !clusterId || !options.feedItem.id) return { skip: false };
+
+  const { data: siblingRows, error: siblingError } = await supabase
+    .from('feed_items')
+    .select('id,feed_id,link,created_at')
+    .eq('story_cluster_id', clusterId)
+    .neq('id', options.feedItem.id);
+  if (siblingError) throw siblingError;
+
+  const siblings = (siblingRows || []) as Array<{ id: string; feed_id?: string | null; link?: string | null }>;
+  if (!siblings.length) return { skip: false };
+
+  const since = new Date(Date.now() - getClusterWindowHours() * 60 * 60 * 1000).toISOString();
+  const { data: logRows, error: logError } = await supabase
+    .from('message_logs')
+    .select('id,feed_item_id,status')
+    .eq('target_id', options.targetId)
+    .in('feed_item_id', siblings.map((sibling) => sibling.id))
+    .gte('created_at', since)
+    .neq('id', options.logId);
+  if (logError) throw logError;
+
+  const logs = (logRows || []) as Array<{ feed_item_id: string; status: string }>;
+  if (logs.some((log) => log.status === 'sent' || log.status === 'processing')) {
+    return { skip: true, reason: 'Story already sent to this target from another source' };
+  }
+
+  const feedIds = Array.from(
+    new Set([options.feedItem.feed_id, ...siblings.map((sibling) => sibling.feed_id)].filter(Boolean) as string[])
+  );
+  const { data: feedRows } = feedIds.length
+    ? await supabase.from('feeds').select('id,name,priority').in('id', feedIds)
+    : { data: [] };
+  const feedsById = new Map<string, { name?: string | null; priority?: number | null }>(
+    ((feedRows || []) as Array<{ id: string; name?: string | null; priority?: number | null }>).map((feed) => [feed.id, feed])
+  );
+
+  if (mode === 'best_source') {
+    const ownPriority = Number(feedsById.get(String(options.feedItem.feed_id || ''))?.priority || 0);
+    const siblingsById = new Map(siblings.map((sibling) => [sibling.id, sibling]));
+    const better = logs.find((log) => {
+      if (!LIVE_SIBLING_STATUSES.has(log.status)) return false;
+      const feedId = siblingsById.get(log.feed_item_id)?.feed_id;
+      return Number(feedsById.get(String(feedId || ''))?.priority || 0) > ownPriority;
+    });
+    if (better) {
+      return { skip: true, reason: 'Superseded by a higher-priority source for the same story' };
+    }
+  }
+
+  if (mode === 'also_reported') {
+    const seenFeeds = new Set<string>([String(options.feedItem.feed_id || '')]);
+    const sources: Array<{ name: string; link?: string | null }> = [];
+    for (const sibling of siblings) {
+      const feedId = String(sibling.feed_id || '');
+      if (!feedId || seenFeeds.has(feedId)) continue;
+      seenFeeds.add(feedId);
+      sources.push({ name: String(feedsById.get(feedId)?.name || 'Another source'), link: sibling.link || null });
+    }
+    return { skip: false, alsoReportedBy: formatAlsoReportedBy(sources) };
+  }
+
+  return { skip: false };
+};
+
+module.exports = {
+  scoreStorySimilarity,
+  findStoryCluster,
+  assignStoryCluster,
+  resolveStoryClusterDispatch,
+  formatAlsoReportedBy
+};
+
+export {};
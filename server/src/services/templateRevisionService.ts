@@ -0,0 +1,177 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+type RevisionVariant = { locale: string; content: string };
+
+type TemplateSnapshot = {
+  name: string;
+  content: string;
+  description?: string | null;
+  send_mode?: string | null;
+  send_images?: boolean | null;
+  length_strategy?: string | null;
+  text_direction?: string | null;
+  variants?: RevisionVariant[] | null;
+};
+
+type TemplateRevision = TemplateSnapshot & {
+  id: string;
+  template_id: string;
+  revision_number: number;
+  created_by?: string | null;
+  restored_from_revision_id?: string | null;
+  created_at: string;
+};
+
+type DiffLine = { type: 'equal' | 'added' | 'removed'; text: string };
+
+// Above this many line pairs the diff degrades to "all removed, all added".
+const MAX_DIFF_CELLS = 1_000_000;
+const SNAPSHOT_FIELDS = ['name', 'content', 'description', 'send_mode', 'send_images', 'length_strategy', 'text_direction'] as const;
+
+const sortVariants = (variants: RevisionVariant[] | null | undefined) =>
+  (variants || [])
+    .map((variant) => ({ locale: variant.locale, content: variant.content }))
+    .sort((a, b) => a.locale.localeCompare(b.locale));
+
+const toSnapshot = (template: TemplateSnapshot) => ({
+  name: template.name,
+  content: template.content,
+  description: template.description ?? null,
+  send_mode: template.send_mode ?? null,
+  send_images: template.send_images ?? null,
+  length_strategy: template.length_strategy ?? null,
+  text_direction: template.text_direction ?? null,
+  variants: sortVariants(template.variants)
+});
+
+const isSameSnapshot = (a: TemplateSnapshot, b: TemplateSnapshot) =>
+  JSON.stringify(toSnapshot(a)) === JSON.stringify(toSnapshot(b));
+
+/**
+ * Line diff of two texts (longest common subsequence), in reading order.
+ */
+const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = String(before || '').split('\n');
+  const b = String(after || '').split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: 'removed' as const, text })),
+      ...b.map((text) => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    const row = lengths[i] as number[];
+    const next = lengths[i + 1] as number[];
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      row[j] = a[i] === b[j] ? (next[j + 1] as number) + 1 : Math.max(next[j] as number, row[j + 1] as number);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i] as string });
+      i += 1;
+      j += 1;
+    } else if ((lengths[i + 1]?.[j] ?? 0) >= (lengths[i]?.[j + 1] ?? 0)) {
+      lines.push({ type: 'removed', text: a[i] as string });
+      i += 1;
+    } else {
+      lines.push({ type: 'added', text: b[j] as string });
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) lines.push({ type: 'removed', text: a[i] as string });
+  for (; j < b.length; j += 1) lines.push({ type: 'added', text: b[j] as string });
+  return lines;
+};
+
+/**
+ * What changed between two revisions: settings that differ, a line diff of the content and
+ * one per locale variant that was added, removed or edited.
+ */
+const diffTemplateRevisions = (from: TemplateSnapshot, to: TemplateSnapshot) => {
+  const before = toSnapshot(from);
+  const after = toSnapshot(to);
+  const fields = SNAPSHOT_FIELDS.filter((field) => field !== 'content' && before[field] !== after[field]).map(
+    (field) => ({ field, before: before[field], after: after[field] })
+  );
+
+  const beforeVariants = new Map(before.variants.map((variant) => [variant.locale, variant.content]));
+  const afterVariants = new Map(after.variants.map((variant) => [variant.locale, variant.content]));
+  const locales = Array.from(new Set([...beforeVariants.keys(), ...afterVariants.keys()])).sort();
+  const variants = locales
+    .filter((locale) => beforeVariants.get(locale) !== afterVariants.get(locale))
+    .map((locale) => ({
+      locale,
+      change: !beforeVariants.has(locale) ? 'added' : !afterVariants.has(locale) ? 'removed' : 'changed',
+      lines: diffLines(beforeVariants.get(locale) ?? '', afterVariants.get(locale) ?? '')
+    }));
+
+  return {
+    fields,
+    content: diffLines(before.content, after.content),
+    variants,
+    changed: Boolean(fields.length || variants.length || before.content !== after.content)
+  };
+};
+
+/**
+ * Store a revision of the template as saved and make it the current one. Saves that change
+ * nothing (e.g. toggling `active`) keep the current revision.
+ */
+const recordTemplateRevision = async (
+  supabase: SupabaseClient,
+  template: TemplateSnapshot & { id: string; current_revision_id?: string | null },
+  options: { createdBy: string | null; restoredFromRevisionId?: string | null }
+): Promise<TemplateRevision> => {
+  const { data: latest, error: latestError } = await supabase
+    .from('template_revisions')
+    .select('*')
+    .eq('template_id', template.id)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestError) throw latestError;
+
+  if (latest && !options.restoredFromRevisionId && isSameSnapshot(latest, template)) {
+    if (template.current_revision_id !== latest.id) {
+      await supabase.from('templates').update({ current_revision_id: latest.id }).eq('id', template.id);
+    }
+    return latest as TemplateRevision;
+  }
+
+  const snapshot = toSnapshot(template);
+  const { data: revision, error } = await supabase
+    .from('template_revisions')
+    .insert({
+      template_id: template.id,
+      revision_number: Number(latest?.revision_number || 0) + 1,
+      ...snapshot,
+      created_by: options.createdBy,
+      restored_from_revision_id: options.restoredFromRevisionId || null
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { error: updateError } = await supabase
+    .from('templates')
+    .update({ current_revision_id: revision.id })
+    .eq('id', template.id);
+  if (updateError) throw updateError;
+  return revision as TemplateRevision;
+};
+
+module.exports = {
+  diffLines,
+  diffTemplateRevisions,
+  recordTemplateRevision
+};
+
+export {};
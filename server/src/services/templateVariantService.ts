@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+type TemplateVariant = {
+  id: string;
+  template_id: string;
+  locale: string;
+  content: string;
+};
+
+type TextDirection = 'none' | 'auto' | 'rtl' | 'ltr';
+
+type VariantTemplate = {
+  id?: string;
+  content: string;
+  text_direction?: TextDirection | null;
+  [key: string]: unknown;
+};
+
+type ResolvedTemplate<T extends VariantTemplate> = {
+  template: T;
+  templateId: string | null;
+  variantId: string | null;
+  locale: string | null;
+};
+
+// Languages whose chats read right to left.
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'iw', 'ji', 'ps', 'ur', 'yi']);
+const RIGHT_TO_LEFT_MARK = '\u200F';
+const LEFT_TO_RIGHT_MARK = '\u200E';
+const RTL_LETTER = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+const normalizeLocale = (value: unknown) =>
+  String(value ?? '')
+    .trim()
+    .replace(/_/g, '-')
+    .toLowerCase();
+
+const getLanguage = (locale: string) => normalizeLocale(locale).split('-')[0] || '';
+
+const isRtlLocale = (locale: unknown) => RTL_LANGUAGES.has(getLanguage(String(locale ?? '')));
+
+/**
+ * The variant for a target locale: an exact match first, then one for the same language
+ * ("he" serves "he-il"). Targets without a locale get no variant.
+ */
+const pickTemplateVariant = <V extends { locale: string }>(variants: V[], locale: unknown): V | null => {
+  const wanted = normalizeLocale(locale);
+  if (!wanted) return null;
+  const exact = variants.find((variant) => normalizeLocale(variant.locale) === wanted);
+  if (exact) return exact;
+  const language = getLanguage(wanted);
+  return variants.find((variant) => normalizeLocale(variant.locale) === language) || null;
+};
+
+/**
+ * Start each line with a direction mark so WhatsApp aligns it that way even when the line
+ * opens with a number, link or word in the other direction.
+ */
+const applyDirectionMarks = (text: string, direction: 'rtl' | 'ltr') => {
+  const mark = direction === 'rtl' ? RIGHT_TO_LEFT_MARK : LEFT_TO_RIGHT_MARK;
+  return String(text || '')
+    .split('\n')
+    .map((line) => (line.trim() ? `${mark}${line.replace(/^[\u200e\u200f]/, '')}` : line))
+    .join('\n');
+};
+
+const applyRtlMarks = (text: string) => applyDirectionMarks(text, 'rtl');
+
+/**
+ * Direction of most letters in `text`, or null when it has none. Links are ignored: they are
+ * Latin whatever the language of the message.
+ */
+const detectTextDirection = (text: string): 'rtl' | 'ltr' | null => {
+  let rtl = 0;
+  let ltr = 0;
+  for (const char of String(text || '').replace(/https?:\/\/\S+/gi, '')) {
+    if (!/\p{L}/u.test(char)) continue;
+    if (RTL_LETTER.test(char)) rtl += 1;
+    else ltr += 1;
+  }
+  if (!rtl && !ltr) return null;
+  return rtl >= ltr ? 'rtl' : 'ltr';
+};
+
+/**
+ * Direction marks for a template's text_direction. "rtl" and "ltr" mark every line; "auto"
+ * marks right-to-left messages, and left-to-right ones only when they quote right-to-left text.
+ */
+const applyTextDirection = (text: string, mode: TextDirection | null | undefined) => {
+  if (mode === 'rtl' || mode === 'ltr') return applyDirectionMarks(text, mode);
+  if (mode !== 'auto') return text;
+  const direction = detectTextDirection(text);
+  if (direction === 'rtl' || (direction === 'ltr' && RTL_LETTER.test(text))) {
+    return applyDirectionMarks(text, direction);
+  }
+  return text;
+};
+
+// The template as sent with a variant's wording. RTL variants get right-to-left marks; other
+// variants of a right-to-left template fall back to detecting their direction.
+const applyTemplateVariant = <T extends VariantTemplate>(template: T, variant: { locale: string; content: string }): T => ({
+  ...template,
+  content: variant.content,
+  text_direction: isRtlLocale(variant.locale) ? 'rtl' : template.text_direction === 'rtl' ? 'auto' : template.text_direction ?? null
+});
+
+const readOverrides = (value: unknown): Record<string, string> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string' && Boolean(entry[1])
+    )
+  );
+};
+
+/**
+ * Per-schedule resolver for the template each target gets: the schedule's override for the
+ * target (falling back to the schedule template), then that template's variant for the
+ * target locale. Templates and variants are loaded once per schedule run.
+ */
+const createTemplateResolver = <T extends VariantTemplate>(
+  supabase: SupabaseClient,
+  baseTemplate: T,
+  targetTemplateOverrides: unknown
+) => {
+  const overrides = readOverrides(targetTemplateOverrides);
+  const templates = new Map<string, Promise<T | null>>();
+  const variants = new Map<string, Promise<TemplateVariant[]>>();
+  if (baseTemplate.id) templates.set(baseTemplate.id, Promise.resolve(baseTemplate));
+
+  const loadTemplate = (templateId: string) => {
+    if (!templates.has(templateId)) {
+      templates.set(
+        templateId,
+        Promise.resolve(supabase.from('templates').select('*').eq('id', templateId).maybeSingle()).then(
+          ({ data, error }: { data: T | null; error: unknown }) => {
+            if (error) throw error;
+            return data;
+          }
+        )
+      );
+    }
+    return templates.get(templateId) as Promise<T | null>;
+  };
+
+  const loadVariants = (templateId: string) => {
+    if (!variants.has(templateId)) {
+      variants.set(
+        templateId,
+        Promise.resolve(supabase.from('template_variants').select('*').eq('template_id', templateId)).then(
+          ({ data, error }: { data: TemplateVariant[] | null; error: unknown }) => {
+            if (error) throw error;
+            return data || [];
+          }
+        )
+      );
+    }
+    return variants.get(templateId) as Promise<TemplateVariant[]>;
+  };
+
+  return async (target: { id?: string; locale?: string | null }): Promise<ResolvedTemplate<T>> => {
+    const overrideId = target.id ? overrides[target.id] : undefined;
+    // A deleted override template falls back to the schedule template instead of failing the send.
+    const template = (overrideId ? await loadTemplate(overrideId) : null) || baseTemplate;
+    const templateId = template.id || null;
+    const variant =
+      templateId && normalizeLocale(target.locale)
+        ? pickTemplateVariant(await loadVariants(templateId), target.locale)
+        : null;
+    if (!variant) {
+      return { template, templateId, variantId: null, locale: null };
+    }
+    return {
+      template: applyTemplateVariant(template, variant),
+      templateId,
+      variantId: variant.id,
+      locale: normalizeLocale(variant.locale)
+    };
+  };
+};
+
+module.exports = {
+  normalizeLocale,
+  isRtlLocale,
+  pickTemplateVariant,
+  applyRtlMarks,
+  detectTextDirection,
+  applyTextDirection,
+  applyTemplateVariant,
+  createTemplateResolver
+};
+
+export {};
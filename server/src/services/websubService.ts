@@ -0,0 +1,309 @@
+const crypto = require('crypto');
+const { getSupabaseClient } = require('../db/supabase');
+const { safeAxiosRequest } = require('../utils/safeAxios');
+const { getErrorMessage } = require('../utils/errorUtils');
+const env = require('../config/env');
+const logger = require('../utils/logger');
+
+type WebSubFeed = {
+  id: string;
+  url: string;
+  active?: boolean | null;
+  websub_hub_url?: string | null;
+  websub_topic_url?: string | null;
+  websub_secret?: string | null;
+  websub_status?: string | null;
+  websub_requested_at?: string | null;
+  websub_lease_expires_at?: string | null;
+  websub_last_push_at?: string | null;
+  websub_subscribed_at?: string | null;
+};
+
+type WebSubLinks = {
+  hubUrl?: string;
+  selfUrl?: string;
+  sourceUrl?: string;
+};
+
+type VerificationQuery = Record<string, unknown>;
+
+type VerificationResult = {
+  status: number;
+  body: string;
+};
+
+const SIGNATURE_ALGORITHMS = new Set(['sha1', 'sha256', 'sha384', 'sha512']);
+const PENDING_RETRY_MS = 60 * 60 * 1000;
+const DENIED_RETRY_MS = 24 * 60 * 60 * 1000;
+const RENEW_BEFORE_MS = 12 * 60 * 60 * 1000;
+
+const isWebSubEnabled = () => String(process.env.WEBSUB_ENABLED || '').toLowerCase() !== 'false';
+
+const getLeaseSeconds = () => {
+  const value = Number(process.env.WEBSUB_LEASE_SECONDS || 5 * 24 * 60 * 60);
+  return Number.isFinite(value) && value >= 3600 ? Math.floor(value) : 5 * 24 * 60 * 60;
+};
+
+const getQuietWindowMs = () => {
+  const hours = Number(process.env.WEBSUB_QUIET_HOURS || 6);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 6) * 60 * 60 * 1000;
+};
+
+/**
+ * Unguessable callback path segment, derived from the subscription secret so only the hub we
+ * subscribed with knows it. A new hub or topic gets a new secret and so a new callback.
+ */
+const buildCallbackToken = (feedId: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(`websub-callback:${feedId}`).digest('hex').slice(0, 32);
+
+const isValidCallbackToken = (feedId: string, secret: string | null | undefined, token: string) => {
+  if (!secret || !token) return false;
+  const expected = Buffer.from(buildCallbackToken(feedId, secret));
+  const provided = Buffer.from(token);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+};
+
+const buildCallbackUrl = (feedId: string, secret: string) => {
+  const base = String(process.env.WEBSUB_CALLBACK_BASE_URL || env.BASE_URL || '').replace(/\/+$/, '');
+  return `${base}/api/websub/${encodeURIComponent(feedId)}/${buildCallbackToken(feedId, secret)}`;
+};
+
+const toMs = (value?: string | null) => {
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Check an X-Hub-Signature header ("sha256=<hex>") against the subscription secret.
+ */
+const verifyWebSubSignature = (secret: string | null | undefined, body: Buffer | string, header: unknown) => {
+  if (!secret) return false;
+  const match = String(header || '').trim().match(/^(sha1|sha256|sha384|sha512)=([a-f0-9]+)$/i);
+  const algorithm = match?.[1]?.toLowerCase() || '';
+  if (!match?.[2] || !SIGNATURE_ALGORITHMS.has(algorithm)) return false;
+  const expected = crypto.createHmac(algorithm, secret).update(body).digest();
+  const provided = Buffer.from(match[2], 'hex');
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+};
+
+/**
+ * Push is trusted while the lease is valid and the hub has been heard from recently.
+ * Once the hub goes quiet the feed falls back to normal adaptive polling.
+ */
+const isWebSubPushActive = (feed: WebSubFeed, now = new Date()) => {
+  if (feed.websub_status !== 'subscribed') return false;
+  const leaseExpiresMs = toMs(feed.websub_lease_expires_at);
+  if (leaseExpiresMs === null || leaseExpiresMs <= now.getTime()) return false;
+  const lastHeardMs = toMs(feed.websub_last_push_at) ?? toMs(feed.websub_subscribed_at);
+  return lastHeardMs !== null && now.getTime() - lastHeardMs <= getQuietWindowMs();
+};
+
+const sendSubscribeRequest = async (
+  feed: WebSubFeed,
+  hubUrl: string,
+  topicUrl: string,
+  secret: string
+) => {
+  const body = new URLSearchParams({
+    'hub.callback': buildCallbackUrl(feed.id, secret),
+    'hub.mode': 'subscribe',
+    'hub.topic': topicUrl,
+    'hub.lease_seconds': String(getLeaseSeconds()),
+    'hub.secret': secret
+  });
+  const response = await safeAxiosRequest(
+    hubUrl,
+    {
+      method: 'POST',
+      timeout: 15000,
+      data: body.toString(),
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      validateStatus: () => true
+    },
+    { allowPrivate: String(process.env.WEBSUB_ALLOW_PRIVATE_HUB || '').toLowerCase() === 'true' }
+  );
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Hub rejected subscribe request (HTTP ${response.status})`);
+  }
+};
+
+const subscribe = async (feed: WebSubFeed, hubUrl: string, topicUrl: string) => {
+  const supabase = getSupabaseClient();
+  if (!supabase) return false;
+
+  const sameSubscription = feed.websub_hub_url === hubUrl && feed.websub_topic_url === topicUrl;
+  const secret = (sameSubscription && feed.websub_secret) || crypto.randomBytes(32).toString('hex');
+  const nowIso = new Date().toISOString();
+
+  await supabase
+    .from('feeds')
+    .update({
+      websub_hub_url: hubUrl,
+      websub_topic_url: topicUrl,
+      websub_secret: secret,
+      websub_status: sameSubscription && feed.websub_status === 'subscribed' ? 'subscribed' : 'pending',
+      websub_requested_at: nowIso,
+      websub_error: null
+    })
+    .eq('id', feed.id);
+
+  try {
+    await sendSubscribeRequest(feed, hubUrl, topicUrl, secret);
+    logger.info({ feedId: feed.id, hubUrl, topicUrl }, 'Requested WebSub subscription');
+    return true;
+  } catch (error) {
+    logger.warn({ feedId: feed.id, hubUrl, error: getErrorMessage(error) }, 'WebSub subscription request failed');
+    await supabase
+      .from('feeds')
+      .update({ websub_status: 'failed', websub_error: getErrorMessage(error) })
+      .eq('id', feed.id);
+    return false;
+  }
+};
+
+/**
+ * Subscribe (or re-subscribe) when a fetched feed advertises a hub.
+ */
+const ensureWebSubSubscription = async (feed: WebSubFeed, links: WebSubLinks) => {
+  if (!isWebSubEnabled() || !feed?.id || feed.active === false || !links?.hubUrl) return false;
+
+  const hubUrl = links.hubUrl;
+  const topicUrl = links.selfUrl || links.sourceUrl || feed.url;
+  const nowMs = Date.now();
+  const sameSubscription = feed.websub_hub_url === hubUrl && feed.websub_topic_url === topicUrl;
+
+  if (sameSubscription) {
+    const requestedMs = toMs(feed.websub_requested_at) ?? 0;
+    const leaseExpiresMs = toMs(feed.websub_lease_expires_at) ?? 0;
+    if (feed.websub_status === 'subscribed' && leaseExpiresMs - nowMs > RENEW_BEFORE_MS) return false;
+    if (feed.websub_status === 'pending' && nowMs - requestedMs < PENDING_RETRY_MS) return false;
+    if (feed.websub_status === 'denied' && nowMs - requestedMs < DENIED_RETRY_MS) return false;
+  }
+
+  try {
+    return await subscribe(feed, hubUrl, topicUrl);
+  } catch (error) {
+    logger.warn({ feedId: feed.id, error: getErrorMessage(error) }, 'Failed to ensure WebSub subscription');
+    return false;
+  }
+};
+
+/**
+ * Renew leases that expire soon and retry subscriptions the hub never verified.
+ */
+const renewWebSubSubscriptions = async () => {
+  if (!isWebSubEnabled()) return 0;
+  const supabase = getSupabaseClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase
+    .from('feeds')
+    .select('id,url,active,websub_hub_url,websub_topic_url,websub_secret,websub_status,websub_requested_at,websub_lease_expires_at')
+    .eq('active', true)
+    .in('websub_status', ['subscribed', 'pending']);
+  if (error) throw error;
+
+  let renewed = 0;
+  for (const feed of (data || []) as WebSubFeed[]) {
+    if (!feed.websub_hub_url || !feed.websub_topic_url) continue;
+    const requested = await ensureWebSubSubscription(feed, {
+      hubUrl: feed.websub_hub_url,
+      selfUrl: feed.websub_topic_url
+    });
+    if (requested) renewed += 1;
+  }
+  return renewed;
+};
+
+/**
+ * Answer a hub's intent verification (GET callback) for subscribe, unsubscribe or denied.
+ * Only calls on the subscription's own callback path count, and a subscribe is only confirmed
+ * while our request for it is outstanding, so a stray GET cannot extend or revive a lease.
+ */
+const verifyWebSubIntent = async (
+  feedId: string,
+  token: string,
+  query: VerificationQuery
+): Promise<VerificationResult> => {
+  const supabase = getSupabaseClient();
+  if (!supabase) return { status: 503, body: 'Database not available' };
+
+  const mode = String(query['hub.mode'] || '').trim().toLowerCase();
+  const topic = String(query['hub.topic'] || '').trim();
+  const challenge = String(query['hub.challenge'] || '');
+
+  const { data: feed, error } = await supabase
+    .from('feeds')
+    .select('id,active,websub_topic_url,websub_secret,websub_status,websub_requested_at')
+    .eq('id', feedId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!feed || !isValidCallbackToken(feed.id, feed.websub_secret, token)) {
+    return { status: 404, body: 'Unknown subscription' };
+  }
+  if (!topic || topic !== feed.websub_topic_url) return { status: 404, body: 'Topic mismatch' };
+
+  if (mode === 'denied') {
+    await supabase
+      .from('feeds')
+      .update({
+        websub_status: 'denied',
+        websub_error: String(query['hub.reason'] || 'Subscription denied by hub'),
+        // Starts the retry backoff when the hub revokes a subscription it verified earlier.
+        websub_requested_at: feed.websub_requested_at || new Date().toISOString()
+      })
+      .eq('id', feedId);
+    return { status: 200, body: '' };
+  }
+
+  if (!challenge) return { status: 400, body: 'Missing hub.challenge' };
+
+  if (mode === 'subscribe') {
+    const now = new Date();
+    const requestedMs = toMs(feed.websub_requested_at);
+    const outstanding = requestedMs !== null && now.getTime() - requestedMs <= PENDING_RETRY_MS;
+    if (feed.active === false || !outstanding || !['pending', 'subscribed'].includes(String(feed.websub_status || ''))) {
+      return { status: 404, body: 'Subscription not requested' };
+    }
+    // Hubs may grant a shorter lease than we asked for, never a longer one.
+    const leaseSeconds = Number(query['hub.lease_seconds']);
+    const leaseMs = Math.min(Number.isFinite(leaseSeconds) && leaseSeconds > 0 ? leaseSeconds : Infinity, getLeaseSeconds()) * 1000;
+    await supabase
+      .from('feeds')
+      .update({
+        websub_status: 'subscribed',
+        websub_subscribed_at: now.toISOString(),
+        websub_lease_expires_at: new Date(now.getTime() + leaseMs).toISOString(),
+        websub_requested_at: null,
+        websub_error: null
+      })
+      .eq('id', feedId);
+    logger.info({ feedId, topic, leaseSeconds: leaseMs / 1000 }, 'WebSub subscription verified');
+    return { status: 200, body: challenge };
+  }
+
+  if (mode === 'unsubscribe') {
+    // Only confirm unsubscribes we did not ask to keep alive.
+    if (feed.active !== false && feed.websub_status === 'subscribed') {
+      return { status: 404, body: 'Subscription still wanted' };
+    }
+    await supabase
+      .from('feeds')
+      .update({ websub_status: 'unsubscribed', websub_lease_expires_at: null })
+      .eq('id', feedId);
+    return { status: 200, body: challenge };
+  }
+
+  return { status: 400, body: 'Unsupported hub.mode' };
+};
+
+module.exports = {
+  buildCallbackUrl,
+  verifyWebSubSignature,
+  isWebSubPushActive,
+  ensureWebSubSubscription,
+  renewWebSubSubscriptions,
+  verifyWebSubIntent
+};
+
+export {};
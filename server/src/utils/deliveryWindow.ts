@@ -0,0 +1,122 @@
+const { formatZonedDateTime, zonedTimeToUtc } = require('./zonedTime');
+
+type DeliveryWindow = {
+  start: string;
+  end: string;
+  days: number[];
+  timezone: string;
+  digest: boolean;
+};
+
+type DeliveryWindowStatus = {
+  open: boolean;
+  opensAt: Date | null;
+  reason: string | null;
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinuteOfDay = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return (hour || 0) * 60 + (minute || 0);
+};
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * A stored window (a target's column or the global setting) in canonical form, or null when it
+ * is missing, disabled or unusable. Days are weekdays 0-6 from Sunday on which the window opens.
+ */
+const normalizeDeliveryWindow = (value: unknown, fallbackTimezone = 'UTC'): DeliveryWindow | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  if (raw.enabled === false) return null;
+  const start = String(raw.start || '').trim();
+  const end = String(raw.end || '').trim();
+  if (!TIME_OF_DAY.test(start) || !TIME_OF_DAY.test(end)) return null;
+
+  const days = Array.isArray(raw.days)
+    ? Array.from(new Set(raw.days.map(Number).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))).sort()
+    : [];
+  const timezone = String(raw.timezone || '').trim();
+  return {
+    start,
+    end,
+    days: days.length ? days : ALL_DAYS,
+    timezone: timezone && isValidTimezone(timezone) ? timezone : fallbackTimezone,
+    digest: raw.digest === true
+  };
+};
+
+/**
+ * The window that applies to a target: its own when set, else the global default. A target
+ * window with `enabled: false` opts the target out of the default.
+ */
+const resolveDeliveryWindow = (targetValue: unknown, defaultValue: unknown, fallbackTimezone = 'UTC') => {
+  if (targetValue && typeof targetValue === 'object' && !Array.isArray(targetValue)) {
+    return normalizeDeliveryWindow(targetValue, fallbackTimezone);
+  }
+  return normalizeDeliveryWindow(defaultValue, fallbackTimezone);
+};
+
+// Start equal to end means the whole day; an end before the start runs past midnight.
+const isOpenAt = (window: DeliveryWindow, weekday: number, minute: number) => {
+  const start = toMinuteOfDay(window.start);
+  const end = toMinuteOfDay(window.end);
+  const previousDay = (weekday + 6) % 7;
+  if (start === end) return window.days.includes(weekday);
+  if (start < end) return window.days.includes(weekday) && minute >= start && minute < end;
+  return (window.days.includes(weekday) && minute >= start) || (window.days.includes(previousDay) && minute < end);
+};
+
+/**
+ * Whether sending is allowed at `now`, and if not when the window next opens. A null window
+ * is always open.
+ */
+const getDeliveryWindowStatus = (window: DeliveryWindow | null, now: Date = new Date()): DeliveryWindowStatus => {
+  if (!window) return { open: true, opensAt: null, reason: null };
+  const [date = '', time = '00:00'] = String(formatZonedDateTime(now, window.timezone)).split('T');
+  if (isOpenAt(window, weekdayOf(date), toMinuteOfDay(time))) {
+    return { open: true, opensAt: null, reason: null };
+  }
+
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const day = shiftDate(date, offset);
+    const weekday = weekdayOf(day);
+    if (!window.days.includes(weekday)) continue;
+    const opensAt = zonedTimeToUtc(`${day}T${window.start}`, window.timezone) as Date | null;
+    if (opensAt && opensAt.getTime() > now.getTime()) {
+      return {
+        open: false,
+        opensAt,
+        reason: `Outside delivery window; opens ${WEEKDAY_LABELS[weekday]} ${window.start} (${window.timezone})`
+      };
+    }
+  }
+  return { open: false, opensAt: null, reason: 'Outside delivery window' };
+};
+
+module.exports = {
+  normalizeDeliveryWindow,
+  resolveDeliveryWindow,
+  getDeliveryWindowStatus
+};
+
+export {};
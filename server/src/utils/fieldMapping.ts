@@ -0,0 +1,404 @@
+const { getRegexBacktrackingError } = require('./safeRegex');
+
+type FieldMapping = { name: string; expression: string };
+type FieldValue = string | number;
+
+type Expression =
+  | { type: 'literal'; value: FieldValue }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'path'; root: 'item' | 'source'; segments: Array<string | number> }
+  | { type: 'call'; name: string; args: Expression[] };
+
+type CompiledMapping = { name: string; expression: string; ast: Expression };
+
+type Token =
+  | { kind: 'ident'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'regex'; value: RegExp }
+  | { kind: 'punct'; value: string };
+
+const MAX_MAPPINGS = 30;
+const MAX_EXPRESSION_LENGTH = 500;
+// Regexes run against feed content; bound the input so a bad pattern cannot stall a fetch.
+const MAX_INPUT_LENGTH = 20000;
+const MAX_VALUE_LENGTH = 2000;
+const NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Built-in template variables (see buildMessageData); a mapping must not shadow them.
+const RESERVED_NAMES = new Set([
+  'id',
+  'guid',
+  'title',
+  'url',
+  'link',
+  'description',
+  'content',
+  'author',
+  'image_url',
+  'imageUrl',
+  'normalized_url',
+  'normalizedUrl',
+  'content_hash',
+  'contentHash',
+  'pub_date',
+  'publishedAt',
+  'categories',
+  'article_text',
+  'reading_time',
+  'reading_time_minutes',
+  'word_count',
+  'lead',
+  'also_reported_by',
+  'source'
+]);
+
+const toText = (value: unknown): string => {
+  if (value == null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const boundedText = (value: unknown) => toText(value).slice(0, MAX_INPUT_LENGTH);
+
+type FunctionSpec = {
+  min: number;
+  max: number;
+  // Argument position that must be a /regex/ literal.
+  regexArg?: number;
+  run: (args: unknown[]) => FieldValue;
+};
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  host: {
+    min: 1,
+    max: 1,
+    run: ([value]) => {
+      try {
+        return new URL(toText(value).trim()).hostname.replace(/^www\./i, '');
+      } catch {
+        return '';
+      }
+    }
+  },
+  match: {
+    min: 2,
+    max: 3,
+    regexArg: 1,
+    run: ([value, pattern, group]) => {
+      const found = (pattern as RegExp).exec(boundedText(value));
+      if (!found) return '';
+      if (typeof group === 'string' && !/^\d+$/.test(group)) return found.groups?.[group] ?? '';
+      if (group != null && group !== '') return found[Number(group)] ?? '';
+      return found[1] ?? found[0];
+    }
+  },
+  replace: {
+    min: 3,
+    max: 3,
+    regexArg: 1,
+    run: ([value, pattern, replacement]) => boundedText(value).replace(pattern as RegExp, toText(replacement))
+  },
+  lower: { min: 1, max: 1, run: ([value]) => toText(value).toLowerCase() },
+  upper: { min: 1, max: 1, run: ([value]) => toText(value).toUpperCase() },
+  trim: { min: 1, max: 1, run: ([value]) => toText(value).trim() },
+  truncate: {
+    min: 2,
+    max: 2,
+    run: ([value, length]) => {
+      const chars = Array.from(toText(value));
+      const max = Math.max(Math.floor(Number(length) || 0), 1);
+      return chars.length <= max ? chars.join('') : `${chars.slice(0, max - 1).join('').trimEnd()}…`;
+    }
+  },
+  default: {
+    min: 2,
+    max: 10,
+    run: (args) => {
+      const found = args.find((value) => toText(value).trim() !== '');
+      return found == null ? '' : typeof found === 'number' ? found : toText(found);
+    }
+  },
+  concat: { min: 2, max: 10, run: (args) => args.map(toText).join('') },
+  number: {
+    min: 1,
+    max: 1,
+    run: ([value]) => {
+      if (typeof value === 'number') return value;
+      const found = toText(value).replace(/(\d),(?=\d{3}\b)/g, '$1').match(/-?\d+(?:\.\d+)?/);
+      return found ? Number(found[0]) : '';
+    }
+  }
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index] as string;
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if ('(),.[]$'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char });
+      index += 1;
+      continue;
+    }
+    if (/[a-zA-Z_]/.test(char)) {
+      const ident = /^[a-zA-Z_][a-zA-Z0-9_:-]*/.exec(source.slice(index))?.[0] as string;
+      tokens.push({ kind: 'ident', value: ident });
+      index += ident.length;
+      continue;
+    }
+    if (/[-\d]/.test(char)) {
+      const number = /^-?\d+(?:\.\d+)?/.exec(source.slice(index))?.[0];
+      if (!number) throw new Error(`Unexpected "${char}" at position ${index + 1}`);
+      tokens.push({ kind: 'number', value: Number(number) });
+      index += number.length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      while (cursor < source.length && source[cursor] !== char) {
+        if (source[cursor] === '\\' && cursor + 1 < source.length) cursor += 1;
+        value += source[cursor];
+        cursor += 1;
+      }
+      if (cursor >= source.length) throw new Error('Unterminated string');
+      tokens.push({ kind: 'string', value });
+      index = cursor + 1;
+      continue;
+    }
+    if (char === '/') {
+      let cursor = index + 1;
+      let inClass = false;
+      while (cursor < source.length && (source[cursor] !== '/' || inClass)) {
+        if (source[cursor] === '\\') cursor += 1;
+        else if (source[cursor] === '[') inClass = true;
+        else if (source[cursor] === ']') inClass = false;
+        cursor += 1;
+      }
+      if (cursor >= source.length) throw new Error('Unterminated regular expression');
+      const flags = /^[a-z]*/.exec(source.slice(cursor + 1))?.[0] || '';
+      if (/[^gimsu]/.test(flags)) throw new Error(`Unsupported regular expression flags "${flags}"`);
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(source.slice(index + 1, cursor), flags);
+      } catch (error) {
+        throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const backtrackingError = getRegexBacktrackingError(pattern.source, pattern.flags);
+      if (backtrackingError) throw new Error(`Unsafe regular expression: ${backtrackingError}`);
+      tokens.push({ kind: 'regex', value: pattern });
+      index = cursor + 1 + flags.length;
+      continue;
+    }
+    throw new Error(`Unexpected "${char}" at position ${index + 1}`);
+  }
+  return tokens;
+};
+
+const describeToken = (token: Token | undefined) => {
+  if (!token) return 'end of expression';
+  if (token.kind === 'regex') return String(token.value);
+  return `"${token.value}"`;
+};
+
+/**
+ * Parse a field mapping expression: a field path (`title`, `source.offers[0].price`), a JSON
+ * path into the original feed entry (`$.offers[0].price`), a string, number or /regex/
+ * literal, or a function call such as `host(link)` or `match(description, /\$\d+/)`.
+ * Throws with a readable message when the expression is invalid.
+ */
+const parseFieldExpression = (source: string): Expression => {
+  const text = String(source || '').trim();
+  if (!text) throw new Error('Expression is empty');
+  if (text.length > MAX_EXPRESSION_LENGTH) throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (value: string) => {
+    const token = next();
+    if (!token || token.kind !== 'punct' || token.value !== value) {
+      throw new Error(`Expected "${value}" but found ${describeToken(token)}`);
+    }
+  };
+  const isPunct = (value: string) => {
+    const token = peek();
+    return token?.kind === 'punct' && token.value === value;
+  };
+
+  const checkSegment = (segment: string | number) => {
+    if (FORBIDDEN_SEGMENTS.has(String(segment))) throw new Error(`"${segment}" cannot be read`);
+    return segment;
+  };
+
+  const parseSegments = () => {
+    const segments: Array<string | number> = [];
+    while (isPunct('.') || isPunct('[')) {
+      if (next()?.value === '.') {
+        const token = next();
+        if (token?.kind !== 'ident' && token?.kind !== 'number') {
+          throw new Error(`Expected a field name after "." but found ${describeToken(token)}`);
+        }
+        segments.push(checkSegment(token.value));
+      } else {
+        const token = next();
+        if (token?.kind !== 'number' && token?.kind !== 'string') {
+          throw new Error(`Expected an index or quoted key in "[]" but found ${describeToken(token)}`);
+        }
+        segments.push(checkSegment(token.value));
+        expect(']');
+      }
+    }
+    return segments;
+  };
+
+  const parseExpression = (): Expression => {
+    const token = next();
+    if (!token) throw new Error('Unexpected end of expression');
+    if (token.kind === 'number' || token.kind === 'string') return { type: 'literal', value: token.value };
+    if (token.kind === 'regex') return { type: 'regex', pattern: token.value };
+    if (token.kind === 'punct') {
+      if (token.value !== '$') throw new Error(`Unexpected ${describeToken(token)}`);
+      const segments = parseSegments();
+      if (!segments.length) throw new Error('"$" must be followed by a path, e.g. $.price');
+      return { type: 'path', root: 'source', segments };
+    }
+    if (isPunct('(')) {
+      const spec = FUNCTIONS[token.value];
+      if (!spec) throw new Error(`Unknown function "${token.value}"`);
+      next();
+      const args: Expression[] = [];
+      if (!isPunct(')')) {
+        args.push(parseExpression());
+        while (isPunct(',')) {
+          next();
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+      if (args.length < spec.min || args.length > spec.max) {
+        const range = spec.min === spec.max ? String(spec.min) : `${spec.min} to ${spec.max}`;
+        throw new Error(`${token.value}() takes ${range} argument${spec.max === 1 ? '' : 's'}`);
+      }
+      args.forEach((arg, index) => {
+        if ((arg.type === 'regex') !== (index === spec.regexArg)) {
+          throw new Error(
+            index === spec.regexArg
+              ? `Argument ${index + 1} of ${token.value}() must be a /regex/`
+              : `${token.value}() does not take a /regex/ as argument ${index + 1}`
+          );
+        }
+      });
+      return { type: 'call', name: token.value, args };
+    }
+    return { type: 'path', root: 'item', segments: [checkSegment(token.value), ...parseSegments()] };
+  };
+
+  const expression = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected ${describeToken(peek())}`);
+  if (expression.type === 'regex') throw new Error('A /regex/ needs match() or replace()');
+  return expression;
+};
+
+// Own properties only, so a path can never reach Object.prototype.
+const readPath = (root: unknown, segments: Array<string | number>) =>
+  segments.reduce<unknown>((current, segment) => {
+    const key = String(segment);
+    if (current == null || typeof current !== 'object' || FORBIDDEN_SEGMENTS.has(key)) return undefined;
+    return Object.prototype.hasOwnProperty.call(current, key) ? (current as Record<string, unknown>)[key] : undefined;
+  }, root);
+
+const evaluate = (expression: Expression, context: Record<string, unknown>, source: unknown): unknown => {
+  if (expression.type === 'literal') return expression.value;
+  if (expression.type === 'regex') {
+    // Fresh copy per evaluation: global regexes keep lastIndex between exec calls.
+    return new RegExp(expression.pattern.source, expression.pattern.flags);
+  }
+  if (expression.type === 'path') {
+    // Without an original entry (e.g. scraped pages), JSON paths read the stored item.
+    const root = expression.root === 'source' && source && typeof source === 'object' ? source : context;
+    return readPath(root, expression.segments);
+  }
+  const spec = FUNCTIONS[expression.name] as FunctionSpec;
+  return spec.run(expression.args.map((arg) => evaluate(arg, context, source)));
+};
+
+/**
+ * Why `name` cannot be used for a mapped variable, or null when it can.
+ */
+const getFieldMappingNameError = (name: string) => {
+  if (!NAME_PATTERN.test(name)) return 'Variable names use letters, digits and underscores and cannot start with a digit';
+  if (RESERVED_NAMES.has(name)) return `"${name}" is a built-in variable`;
+  return null;
+};
+
+/**
+ * Parse a feed's field mappings once per fetch. Invalid entries are reported and left out.
+ */
+const compileFieldMappings = (mappings: unknown) => {
+  const compiled: CompiledMapping[] = [];
+  const errors: string[] = [];
+  (Array.isArray(mappings) ? mappings : []).slice(0, MAX_MAPPINGS).forEach((entry) => {
+    const name = String((entry as FieldMapping | null)?.name || '').trim();
+    const expression = String((entry as FieldMapping | null)?.expression || '').trim();
+    const nameError = getFieldMappingNameError(name);
+    if (nameError) {
+      errors.push(`${name || '(unnamed)'}: ${nameError}`);
+      return;
+    }
+    try {
+      compiled.push({ name, expression, ast: parseFieldExpression(expression) });
+    } catch (error) {
+      errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return { mappings: compiled, errors };
+};
+
+/**
+ * Values of the compiled mappings for one feed item, in order, so a mapping can use the ones
+ * before it. `context` holds the item's stored fields; `source` is the original feed entry.
+ */
+const evaluateFieldMappings = (
+  mappings: CompiledMapping[],
+  context: Record<string, unknown>,
+  source?: unknown
+): Record<string, FieldValue> => {
+  const values: Record<string, FieldValue> = {};
+  const scope: Record<string, unknown> = { ...context };
+  for (const mapping of mappings) {
+    let value: FieldValue = '';
+    try {
+      const result = evaluate(mapping.ast, scope, source);
+      value = typeof result === 'number' && Number.isFinite(result) ? result : toText(result).trim().slice(0, MAX_VALUE_LENGTH);
+    } catch {
+      value = '';
+    }
+    values[mapping.name] = value;
+    scope[mapping.name] = value;
+  }
+  return values;
+};
+
+module.exports = {
+  MAX_MAPPINGS,
+  parseFieldExpression,
+  getFieldMappingNameError,
+  compileFieldMappings,
+  evaluateFieldMappings
+};
+
+export {};
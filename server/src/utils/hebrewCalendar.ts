@@ -0,0 +1,126 @@
+// Arithmetic Hebrew calendar (molad and dechiyot rules), enough to place Yom Tov on the
+// Gregorian calendar. Months count from Nisan = 1; Adar I is 12 and Adar II 13 in leap years.
+
+type YomTovDay = {
+  date: string;
+  title: string;
+};
+
+const NISAN = 1;
+const SIVAN = 3;
+const TISHREI = 7;
+const HEBREW_EPOCH = -1373428;
+// Rata Die day number of 1970-01-01.
+const UNIX_EPOCH_RD = 719163;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isHebrewLeapYear = (year: number) => (7 * year + 1) % 19 < 7;
+
+const monthsInHebrewYear = (year: number) => (isHebrewLeapYear(year) ? 13 : 12);
+
+// Days from the epoch to Rosh Hashana of `year`, after the postponement rules.
+const elapsedDays = (year: number) => {
+  const previous = year - 1;
+  const monthsElapsed = 235 * Math.floor(previous / 19) + 12 * (previous % 19) + Math.floor((7 * (previous % 19) + 1) / 19);
+  const partsElapsed = 204 + 793 * (monthsElapsed % 1080);
+  const hoursElapsed = 5 + 12 * monthsElapsed + 793 * Math.floor(monthsElapsed / 1080) + Math.floor(partsElapsed / 1080);
+  const parts = (partsElapsed % 1080) + 1080 * (hoursElapsed % 24);
+  let day = 1 + 29 * monthsElapsed + Math.floor(hoursElapsed / 24);
+  if (
+    parts >= 19440 ||
+    (day % 7 === 2 && parts >= 9924 && !isHebrewLeapYear(year)) ||
+    (day % 7 === 1 && parts >= 16789 && isHebrewLeapYear(previous))
+  ) {
+    day += 1;
+  }
+  if (day % 7 === 0 || day % 7 === 3 || day % 7 === 5) {
+    day += 1;
+  }
+  return day;
+};
+
+const daysInHebrewYear = (year: number) => elapsedDays(year + 1) - elapsedDays(year);
+
+const daysInHebrewMonth = (month: number, year: number) => {
+  if (month === 2 || month === 4 || month === 6 || month === 10 || month === 13) return 29;
+  if (month === 12 && !isHebrewLeapYear(year)) return 29;
+  if (month === 8 && daysInHebrewYear(year) % 10 !== 5) return 29;
+  if (month === 9 && daysInHebrewYear(year) % 10 === 3) return 29;
+  return 30;
+};
+
+const hebrewToRataDie = (year: number, month: number, day: number) => {
+  let days = day;
+  if (month < TISHREI) {
+    for (let m = TISHREI; m <= monthsInHebrewYear(year); m += 1) days += daysInHebrewMonth(m, year);
+    for (let m = NISAN; m < month; m += 1) days += daysInHebrewMonth(m, year);
+  } else {
+    for (let m = TISHREI; m < month; m += 1) days += daysInHebrewMonth(m, year);
+  }
+  return HEBREW_EPOCH + elapsedDays(year) + days - 1;
+};
+
+const rataDieToIsoDate = (rd: number) => new Date((rd - UNIX_EPOCH_RD) * DAY_MS).toISOString().slice(0, 10);
+
+const isoDateToRataDie = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS) + UNIX_EPOCH_RD;
+
+/**
+ * Gregorian date ("YYYY-MM-DD") of a Hebrew date.
+ */
+const hebrewToGregorian = (year: number, month: number, day: number) => rataDieToIsoDate(hebrewToRataDie(year, month, day));
+
+/**
+ * Hebrew year, month and day of a Gregorian date ("YYYY-MM-DD").
+ */
+const gregorianToHebrew = (date: string) => {
+  const rd = isoDateToRataDie(date);
+  let year = Number(date.slice(0, 4)) + 3760;
+  while (hebrewToRataDie(year + 1, TISHREI, 1) <= rd) year += 1;
+  while (hebrewToRataDie(year, TISHREI, 1) > rd) year -= 1;
+  let month = rd < hebrewToRataDie(year, NISAN, 1) ? TISHREI : NISAN;
+  while (rd > hebrewToRataDie(year, month, daysInHebrewMonth(month, year))) month += 1;
+  return { year, month, day: rd - hebrewToRataDie(year, month, 1) + 1 };
+};
+
+// Days on which work is forbidden. The second diaspora days fall away in Israel.
+const YOM_TOV: Array<{ month: number; day: number; title: string; diasporaOnly?: boolean }> = [
+  { month: TISHREI, day: 1, title: 'Rosh Hashana I' },
+  { month: TISHREI, day: 2, title: 'Rosh Hashana II' },
+  { month: TISHREI, day: 10, title: 'Yom Kippur' },
+  { month: TISHREI, day: 15, title: 'Sukkot I' },
+  { month: TISHREI, day: 16, title: 'Sukkot II', diasporaOnly: true },
+  { month: TISHREI, day: 22, title: 'Shmini Atzeret' },
+  { month: TISHREI, day: 23, title: 'Simchat Torah', diasporaOnly: true },
+  { month: NISAN, day: 15, title: 'Pesach I' },
+  { month: NISAN, day: 16, title: 'Pesach II', diasporaOnly: true },
+  { month: NISAN, day: 21, title: 'Pesach VII' },
+  { month: NISAN, day: 22, title: 'Pesach VIII', diasporaOnly: true },
+  { month: SIVAN, day: 6, title: 'Shavuot I' },
+  { month: SIVAN, day: 7, title: 'Shavuot II', diasporaOnly: true }
+];
+
+/**
+ * Yom Tov days between two Gregorian dates (inclusive), by the Israel or diaspora calendar.
+ */
+const getYomTovDays = (from: string, to: string, options: { israel?: boolean } = {}): YomTovDay[] => {
+  const firstYear = Number(from.slice(0, 4)) + 3760;
+  const lastYear = Number(to.slice(0, 4)) + 3761;
+  const days: YomTovDay[] = [];
+  for (let year = firstYear; year <= lastYear; year += 1) {
+    for (const entry of YOM_TOV) {
+      if (entry.diasporaOnly && options.israel) continue;
+      const date = hebrewToGregorian(year, entry.month, entry.day);
+      if (date >= from && date <= to) days.push({ date, title: entry.title });
+    }
+  }
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+module.exports = {
+  isHebrewLeapYear,
+  hebrewToGregorian,
+  gregorianToHebrew,
+  getYomTovDays
+};
+
+export {};
@@ -1,3 +1,5 @@
+const { readRichMessageInput, toMessageLogFields, describeRichMessage } = require('./richMessage');
+
 const META_PREFIX = '__WNB_MANUAL_META__=';
 
 type ManualMeta = {
@@ -62,11 +64,63 @@ const parseManualMessageContent = (
 
 const stripManualMeta = (raw: unknown) => parseManualMessageContent(raw).text;
 
+type ManualPostContent = {
+  message?: string | null;
+  imageUrl?: string | null;
+  videoUrl?: string | null;
+  documentUrl?: string | null;
+  documentName?: string | null;
+  audioUrl?: string | null;
+  voiceNote?: boolean;
+  poll?: { question: string; options: string[]; multiSelect?: boolean } | null;
+  location?: { latitude: number; longitude: number; name?: string | null; address?: string | null } | null;
+  disableLinkPreview?: boolean;
+  includeCaption?: boolean;
+};
+
+const buildMediaFields = (content: ManualPostContent) => {
+  const richMessage = readRichMessageInput(content);
+  if (richMessage) {
+    return toMessageLogFields(richMessage);
+  }
+  const imageUrl = String(content.imageUrl || '').trim();
+  const videoUrl = String(content.videoUrl || '').trim();
+  if (videoUrl) {
+    return { media_url: videoUrl, media_type: 'video', message_payload: null };
+  }
+  if (imageUrl) {
+    return { media_url: imageUrl, media_type: 'image', message_payload: null };
+  }
+  return { media_url: null, media_type: null, message_payload: null };
+};
+
+/**
+ * message_logs columns for a manual post or announcement body.
+ */
+const buildManualLogFields = (content: ManualPostContent) => {
+  const richMessage = readRichMessageInput(content);
+  // Polls, audio and pins carry no text; queue and history show a summary instead.
+  const messageRaw =
+    richMessage && richMessage.kind !== 'document'
+      ? describeRichMessage(richMessage)
+      : typeof content.message === 'string'
+        ? content.message
+        : null;
+  return {
+    message_content: encodeManualMessageContent(messageRaw, {
+      disableLinkPreview: content.disableLinkPreview === true,
+      includeCaption: content.includeCaption !== false
+    }),
+    ...buildMediaFields(content)
+  };
+};
+
 module.exports = {
   META_PREFIX,
   encodeManualMessageContent,
   parseManualMessageContent,
-  stripManualMeta
+  stripManualMeta,
+  buildManualLogFields
 };
 
 export {};
@@ -0,0 +1,130 @@
+const { WHATSAPP_CAPTION_LIMIT, WHATSAPP_TEXT_LIMIT } = require('./templateLint');
+
+type LengthStrategy = 'truncate' | 'split';
+type MessagePartKind = 'caption' | 'text';
+type LengthLimits = { caption: number; text: number };
+
+type PlanOptions = {
+  kind: MessagePartKind;
+  strategy: LengthStrategy;
+  limits: LengthLimits;
+  readMoreUrl?: string | null;
+};
+
+// Texts were always allowed up to WhatsApp's hard limit; a shorter budget is an explicit setting.
+const DEFAULT_TEXT_BUDGET = WHATSAPP_TEXT_LIMIT;
+const READ_MORE_LABEL = 'Read more:';
+const ELLIPSIS = '…';
+// Prefer a natural break unless it would throw away more than half of the budget.
+const MIN_BREAK_RATIO = 0.5;
+const SENTENCE_END = /[.!?…。]["'”’)\]]*(?=\s)/g;
+
+// WhatsApp counts characters, not UTF-16 units; never cut an emoji in half.
+const lengthOf = (text: string) => Array.from(text).length;
+const sliceChars = (text: string, count: number) => Array.from(text).slice(0, Math.max(count, 0)).join('');
+
+const clampLimit = (value: unknown, fallback: number, min: number, max: number) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.min(Math.max(Math.floor(parsed), min), max);
+};
+
+const readLengthLimits = (settings?: Record<string, unknown> | null): LengthLimits => ({
+  caption: clampLimit(settings?.caption_max_length, WHATSAPP_CAPTION_LIMIT, 100, WHATSAPP_CAPTION_LIMIT),
+  text: clampLimit(settings?.text_max_length, DEFAULT_TEXT_BUDGET, 500, WHATSAPP_TEXT_LIMIT)
+});
+
+/**
+ * Where to cut `text` so the head fits in `max` characters: a paragraph break, then a sentence
+ * end, then a line break or space. Returns a UTF-16 index into `text`.
+ */
+const findCut = (text: string, max: number) => {
+  const head = sliceChars(text, max);
+  // One extra character so a sentence ending exactly at the limit is still recognized.
+  const probe = sliceChars(text, max + 1);
+  const minIndex = Math.floor(head.length * MIN_BREAK_RATIO);
+
+  const paragraph = head.lastIndexOf('\n\n');
+  if (paragraph >= minIndex && paragraph > 0) return paragraph;
+
+  let sentence = -1;
+  for (const match of probe.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (end <= head.length) sentence = end;
+  }
+  if (sentence >= minIndex && sentence > 0) return sentence;
+
+  const space = Math.max(head.lastIndexOf('\n'), head.lastIndexOf(' '));
+  if (space >= minIndex && space > 0) return space;
+  return head.length;
+};
+
+/**
+ * Shorten `text` to `max` characters at a sentence boundary, ending with a "Read more" link
+ * when one is given.
+ */
+const truncateAtSentence = (text: string, max: number, readMoreUrl?: string | null) => {
+  const source = String(text || '').trim();
+  if (lengthOf(source) <= max) return source;
+  const suffix = readMoreUrl ? `\n\n${READ_MORE_LABEL} ${readMoreUrl}` : '';
+  const budget = max - lengthOf(suffix) - 1;
+  if (budget <= 0) return sliceChars(source, max);
+  const head = source.slice(0, findCut(source, budget)).trimEnd();
+  const endsSentence = /[.!?…。]["'”’)\]]*$/.test(head);
+  return `${head}${endsSentence ? '' : ELLIPSIS}${suffix}`;
+};
+
+/**
+ * Break `text` into messages: the first up to `firstMax` characters (a caption, say), the
+ * rest up to `restMax` each, cutting at paragraphs and sentences where possible.
+ */
+const splitMessageText = (text: string, firstMax: number, restMax: number = firstMax) => {
+  const parts: string[] = [];
+  let rest = String(text || '').trim();
+  let max = firstMax;
+  while (rest && lengthOf(rest) > max) {
+    const cut = findCut(rest, max);
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+    max = restMax;
+  }
+  if (rest) parts.push(rest);
+  return parts;
+};
+
+/**
+ * The messages one logical send becomes. The first part is the caption for media sends;
+ * further parts (split strategy only) follow as plain texts.
+ */
+const planMessageParts = (text: string, options: PlanOptions) => {
+  const source = String(text || '').trim();
+  const firstMax = options.kind === 'caption' ? options.limits.caption : options.limits.text;
+  if (lengthOf(source) <= firstMax) return [source];
+  if (options.strategy === 'split') return splitMessageText(source, firstMax, options.limits.text);
+  return [truncateAtSentence(source, firstMax, options.readMoreUrl)];
+};
+
+/**
+ * Like planMessageParts, for correcting an already sent message: never more parts than were
+ * sent, since corrections can only edit existing messages. Overflow folds into the last part
+ * up to WhatsApp's hard limit.
+ */
+const fitMessageParts = (text: string, options: PlanOptions, count: number) => {
+  const parts = planMessageParts(text, options);
+  if (count < 1 || parts.length <= count) return parts;
+  const lastKind = count === 1 ? options.kind : 'text';
+  const lastMax = lastKind === 'caption' ? WHATSAPP_CAPTION_LIMIT : WHATSAPP_TEXT_LIMIT;
+  const tail = parts.slice(count - 1).join('\n\n');
+  return [...parts.slice(0, count - 1), truncateAtSentence(tail, lastMax, options.readMoreUrl)];
+};
+
+module.exports = {
+  READ_MORE_LABEL,
+  readLengthLimits,
+  truncateAtSentence,
+  splitMessageText,
+  planMessageParts,
+  fitMessageParts
+};
+
+export {};
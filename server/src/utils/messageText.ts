@@ -21,11 +21,18 @@ const escapeWhatsAppFormatting = (value: unknown): string => {
   return text.replace(/([*_~`])(?!\u2060)/g, `$1${WORD_JOINER}`);
 };
 
+// Embedding, override and isolate controls copied from web pages are rarely balanced and flip
+// the direction of everything after them in WhatsApp. Plain LRM/RLM marks are kept.
+const BIDI_CONTROLS = /[\u202a-\u202e\u2066-\u2069]/g;
+
 const normalizeMessageText = (value: unknown): string => {
   let normalized = String(value ?? '')
+    // Composed form, so Hebrew niqqud and accents compare and count the same however they were typed.
+    .normalize('NFC')
     .replace(/\r\n?/g, '\n')
     .replace(/\u00a0/g, ' ')
-    .replace(/[\u200b\u200c\u200d\ufeff]/g, '');
+    .replace(/[\u200b\u200c\u200d\ufeff]/g, '')
+    .replace(BIDI_CONTROLS, '');
 
   for (const [pattern, replacement] of ARROW_REPLACEMENTS) {
     normalized = normalized.replace(pattern, replacement);
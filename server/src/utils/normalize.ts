@@ -14,13 +14,41 @@ const TRACKING_PARAMS = new Set([
   'mc_eid'
 ]);
 
+// Letters that differ only in spelling convention, folded so dedupe sees the same word:
+// Hebrew final forms, Yiddish digraph ligatures, Arabic alef maksura and ta marbuta. The
+// Arabic tatweel only stretches a word and is dropped.
+const LETTER_FOLDS: Record<string, string> = {
+  '\u05da': '\u05db',
+  '\u05dd': '\u05de',
+  '\u05df': '\u05e0',
+  '\u05e3': '\u05e4',
+  '\u05e5': '\u05e6',
+  '\u05f0': '\u05d5\u05d5',
+  '\u05f1': '\u05d5\u05d9',
+  '\u05f2': '\u05d9\u05d9',
+  '\u0649': '\u064a',
+  '\u0629': '\u0647',
+  '\u0640': ''
+};
+const FOLDED_LETTERS = new RegExp(`[${Object.keys(LETTER_FOLDS).join('')}]`, 'g');
+
+/**
+ * Comparable form of a title for dedupe and clustering: lowercase letters and digits of any
+ * script, without accents, niqqud, harakat, punctuation or direction marks.
+ */
 const normalizeText = (value: string = '') => {
   return value
     .toString()
+    // Decomposes accented letters and presentation forms; the marks are dropped below.
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
     .toLowerCase()
+    .replace(FOLDED_LETTERS, (letter) => LETTER_FOLDS[letter] ?? letter)
+    // Arabic-Indic digits, so "٢٠٢٤" and "2024" compare equal.
+    .replace(/[\u0660-\u0669\u06f0-\u06f9]/g, (digit) => String((digit.charCodeAt(0) - 0x0660) % 0x90))
     .replace(/\s+/g, ' ')
     .replace(/[“”"'`]/g, '')
-    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
     .trim();
 };
 
@@ -51,8 +79,19 @@ const normalizeUrl = (value: string = '') => {
   }
 };
 
+// Stored content hashes were computed on this ASCII-only form; keep hashing it so they still
+// match. Unicode-aware comparison goes through normalizeText instead.
+const normalizeHashText = (value: string = '') =>
+  value
+    .toString()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[“”"'`]/g, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .trim();
+
 const hashContent = (title: string, url: string) => {
-  const normalizedTitle = normalizeText(title || '');
+  const normalizedTitle = normalizeHashText(title || '');
   const normalizedUrlValue = normalizeUrl(url || '');
   const input = `${normalizedTitle}|${normalizedUrlValue}`;
   return createHash('sha256').update(input).digest('hex');
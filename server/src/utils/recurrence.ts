@@ -0,0 +1,306 @@
+const { zonedTimeToUtc, resolveZonedTime } = require('./zonedTime');
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  byDay: Array<{ weekday: number; ordinal: number | null }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  byHour: number[];
+  byMinute: number[];
+  count: number | null;
+  until: string | null;
+};
+
+/**
+ * A recurring announcement's timing, in the schedule's timezone. `start` is the first local
+ * "YYYY-MM-DDTHH:mm" (DTSTART); EXDATEs are local date-times, or whole local dates. `until`
+ * and `count` override UNTIL and COUNT in the rule.
+ */
+type Recurrence = {
+  rrule: string;
+  start: string;
+  exdates?: string[] | null;
+  until?: string | null;
+  count?: number | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days are numbered like JS getUTCDay (SU = 0).
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// Enough periods for decades of daily rules; also stops filters that can never match.
+const MAX_PERIODS = 20000;
+const LOCAL_START = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parseIntegerList = (key: string, value: string, min: number, max: number, allowNegative = false) =>
+  value.split(',').map((part) => {
+    const parsed = Number(part.trim());
+    const magnitude = Math.abs(parsed);
+    if (!Number.isInteger(parsed) || (parsed < 0 && !allowNegative) || magnitude < min || magnitude > max) {
+      throw new Error(`Invalid ${key} value "${part}"`);
+    }
+    return parsed;
+  });
+
+// UNTIL=20261231T235959Z is an instant; UNTIL=20261231 or a floating date-time is local.
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i.exec(value);
+  if (!match) throw new Error(`Invalid UNTIL value "${value}"`);
+  const [, year, month, day, hour, minute, , utc] = match;
+  if (!hour) return `${year}-${month}-${day}`;
+  return `${year}-${month}-${day}T${hour}:${minute}${utc ? 'Z' : ''}`;
+};
+
+/**
+ * Parse an iCalendar RRULE ("FREQ=WEEKLY;BYDAY=TH;BYHOUR=18"), with or without the "RRULE:"
+ * prefix. Supports FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, BYHOUR, BYMINUTE, COUNT and
+ * UNTIL; throws on anything else.
+ */
+const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const text = String(value || '').trim().replace(/^RRULE:/i, '');
+  if (!text) throw new Error('RRULE is required');
+  const rule: RecurrenceRule = {
+    freq: 'DAILY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    byHour: [],
+    byMinute: [],
+    count: null,
+    until: null
+  };
+  let hasFreq = false;
+
+  for (const part of text.split(';').filter(Boolean)) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = String(rawKey || '').trim().toUpperCase();
+    const partValue = rawValue.trim().toUpperCase();
+    if (!partValue) throw new Error(`Missing value for ${key}`);
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(partValue as Frequency)) {
+          throw new Error(`Unsupported FREQ "${partValue}" (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+        }
+        rule.freq = partValue as Frequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntegerList(key, partValue, 1, 1000)[0] as number;
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map((entry) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry.trim());
+          if (!match) throw new Error(`Invalid BYDAY value "${entry}"`);
+          const ordinal = match[1] ? Number(match[1]) : null;
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`Invalid BYDAY value "${entry}"`);
+          }
+          return { weekday: WEEKDAYS.indexOf(match[2] as string), ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(key, partValue, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(key, partValue, 1, 12);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntegerList(key, partValue, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntegerList(key, partValue, 0, 59);
+        break;
+      case 'COUNT':
+        rule.count = parseIntegerList(key, partValue, 1, 10000)[0] as number;
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'WKST':
+        if (partValue !== 'MO') throw new Error('Only WKST=MO is supported');
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  if (!hasFreq) throw new Error('RRULE needs FREQ');
+  if (rule.count !== null && rule.until !== null) throw new Error('RRULE cannot have both COUNT and UNTIL');
+  if (rule.byDay.some((day) => day.ordinal !== null) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new Error('Numbered BYDAY values (like 1MO) need FREQ=MONTHLY or YEARLY');
+  }
+  if (rule.freq === 'YEARLY' && rule.byDay.length && !rule.byMonth.length) {
+    throw new Error('FREQ=YEARLY with BYDAY needs BYMONTH');
+  }
+  return rule;
+};
+
+const toDayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+const fromDayNumber = (dayNumber: number) => {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), weekday: date.getUTCDay() };
+};
+const formatDay = (dayNumber: number) => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Days of one month matching BYMONTHDAY/BYDAY, or the start's day of month when neither is set.
+const expandMonth = (rule: RecurrenceRule, year: number, month: number, startDay: number) => {
+  const length = daysInMonth(year, month);
+  const first = toDayNumber(year, month, 1);
+  let days: number[];
+  if (!rule.byMonthDay.length && !rule.byDay.length) {
+    days = startDay <= length ? [first + startDay - 1] : [];
+  } else {
+    const monthDays = rule.byMonthDay.length
+      ? rule.byMonthDay.map((day) => (day > 0 ? day : length + day + 1)).filter((day) => day >= 1 && day <= length)
+      : Array.from({ length }, (_, index) => index + 1);
+    days = monthDays.map((day) => first + day - 1);
+    if (rule.byDay.length) {
+      days = days.filter((dayNumber) => {
+        const { day, weekday } = fromDayNumber(dayNumber);
+        return rule.byDay.some((entry) => {
+          if (entry.weekday !== weekday) return false;
+          if (entry.ordinal === null) return true;
+          if (entry.ordinal > 0) return Math.ceil(day / 7) === entry.ordinal;
+          return Math.ceil((length - day + 1) / 7) === -entry.ordinal;
+        });
+      });
+    }
+  }
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+const matchesFilters = (rule: RecurrenceRule, dayNumber: number) => {
+  const { year, month, day, weekday } = fromDayNumber(dayNumber);
+  if (rule.byMonth.length && !rule.byMonth.includes(month)) return false;
+  if (rule.byMonthDay.length) {
+    const length = daysInMonth(year, month);
+    if (!rule.byMonthDay.some((entry) => (entry > 0 ? entry : length + entry + 1) === day)) return false;
+  }
+  if (rule.byDay.length && !rule.byDay.some((entry) => entry.weekday === weekday)) return false;
+  return true;
+};
+
+const expandPeriod = (rule: RecurrenceRule, startDay: number, period: number): number[] => {
+  const start = fromDayNumber(startDay);
+  const step = period * rule.interval;
+  if (rule.freq === 'DAILY') {
+    const day = startDay + step;
+    return matchesFilters(rule, day) ? [day] : [];
+  }
+  if (rule.freq === 'WEEKLY') {
+    const monday = startDay - ((start.weekday + 6) % 7) + step * 7;
+    const weekdays = rule.byDay.length ? rule.byDay.map((entry) => entry.weekday) : [start.weekday];
+    return Array.from({ length: 7 }, (_, index) => monday + index).filter((day) => {
+      const { month, weekday } = fromDayNumber(day);
+      return weekdays.includes(weekday) && (!rule.byMonth.length || rule.byMonth.includes(month));
+    });
+  }
+  if (rule.freq === 'MONTHLY') {
+    const monthIndex = start.month - 1 + step;
+    const year = start.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    if (rule.byMonth.length && !rule.byMonth.includes(month)) return [];
+    return expandMonth(rule, year, month, start.day);
+  }
+  const year = start.year + step;
+  const months = rule.byMonth.length ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+  return months.flatMap((month) => expandMonth(rule, year, month, start.day));
+};
+
+/**
+ * Why `recurrence` cannot be used, or null when it is valid.
+ */
+const getRecurrenceError = (recurrence: Partial<Recurrence> | null | undefined) => {
+  if (!recurrence) return 'Recurrence is required';
+  try {
+    parseRecurrenceRule(String(recurrence.rrule || ''));
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid RRULE';
+  }
+  if (!LOCAL_START.test(String(recurrence.start || ''))) return 'Start must be a local date and time like "2026-10-22T18:00"';
+  const invalidExdate = (recurrence.exdates || []).find(
+    (value) => !LOCAL_DATE.test(String(value)) && !LOCAL_START.test(String(value))
+  );
+  if (invalidExdate !== undefined) return `Invalid excluded date "${invalidExdate}"`;
+  const until = String(recurrence.until || '');
+  if (until && !LOCAL_DATE.test(until) && !LOCAL_START.test(until)) return 'End date must be a local date like "2027-06-30"';
+  if (recurrence.count != null && (!Number.isInteger(recurrence.count) || recurrence.count < 1)) {
+    return 'Occurrence limit must be a positive whole number';
+  }
+  return null;
+};
+
+/**
+ * Occurrences of `recurrence` in `timezone`, in order: those after `after` (exclusive) and
+ * before `before` (exclusive), at most `limit`. COUNT counts excluded dates too, as in RFC 5545.
+ */
+const listRecurrenceOccurrences = (
+  recurrence: Recurrence,
+  timezone: string,
+  options: { after?: Date | null; before?: Date | null; limit?: number } = {}
+): Date[] => {
+  const rule = parseRecurrenceRule(recurrence.rrule);
+  const startMatch = LOCAL_START.exec(String(recurrence.start || ''));
+  if (!startMatch) return [];
+  const [, year, month, day, hour, minute] = startMatch.map(Number) as [number, number, number, number, number, number];
+  const startDay = toDayNumber(year, month, day);
+  const startLocal = String(recurrence.start);
+
+  const count = recurrence.count ?? rule.count;
+  const untilRaw = recurrence.until ?? rule.until;
+  const until = untilRaw ? resolveZonedTime(LOCAL_DATE.test(untilRaw) ? `${untilRaw}T23:59` : untilRaw, timezone) : null;
+  const exdates = new Set((recurrence.exdates || []).map(String));
+  const hours = rule.byHour.length ? [...rule.byHour].sort((a, b) => a - b) : [hour];
+  const minutes = rule.byMinute.length ? [...rule.byMinute].sort((a, b) => a - b) : [minute];
+  const afterMs = options.after ? options.after.getTime() : Number.NEGATIVE_INFINITY;
+  const beforeMs = options.before ? options.before.getTime() : Number.POSITIVE_INFINITY;
+  const limit = options.limit ?? 100;
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+  for (let period = 0; period < MAX_PERIODS; period += 1) {
+    for (const dayNumber of expandPeriod(rule, startDay, period)) {
+      const date = formatDay(dayNumber);
+      for (const h of hours) {
+        for (const m of minutes) {
+          const local = `${date}T${pad(h)}:${pad(m)}`;
+          if (local < startLocal) continue;
+          const instant = zonedTimeToUtc(local, timezone) as Date | null;
+          if (!instant) continue;
+          if (until && instant.getTime() > until.getTime()) return occurrences;
+          if (count !== null && generated >= count) return occurrences;
+          generated += 1;
+          if (exdates.has(local) || exdates.has(date)) continue;
+          if (instant.getTime() >= beforeMs) return occurrences;
+          if (instant.getTime() <= afterMs) continue;
+          occurrences.push(instant);
+          if (occurrences.length >= limit) return occurrences;
+        }
+      }
+    }
+  }
+  return occurrences;
+};
+
+/**
+ * The first occurrence strictly after `after`, or null once the recurrence has ended.
+ */
+const getNextOccurrence = (recurrence: Recurrence, timezone: string, after: Date): Date | null =>
+  listRecurrenceOccurrences(recurrence, timezone, { after, limit: 1 })[0] || null;
+
+module.exports = {
+  parseRecurrenceRule,
+  getRecurrenceError,
+  listRecurrenceOccurrences,
+  getNextOccurrence
+};
+
+export {};
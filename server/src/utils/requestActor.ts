@@ -0,0 +1,25 @@
+import type { Request } from 'express';
+
+const readBasicAuthUser = (req: Request) => {
+  const header = String(req.headers.authorization || '');
+  if (!header.startsWith('Basic ')) return null;
+  try {
+    const raw = Buffer.from(header.slice(6), 'base64').toString('utf8');
+    const idx = raw.indexOf(':');
+    const user = idx >= 0 ? raw.slice(0, idx) : raw;
+    const cleaned = String(user || '').trim();
+    return cleaned || null;
+  } catch {
+    return null;
+  }
+};
+
+// Who to record in audit columns: the Basic auth user of the request, else the configured one.
+const getRequestActor = (req: Request) => readBasicAuthUser(req) || process.env.BASIC_AUTH_USER || 'unknown';
+
+module.exports = {
+  readBasicAuthUser,
+  getRequestActor
+};
+
+export {};
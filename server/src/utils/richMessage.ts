@@ -0,0 +1,313 @@
+const { safeAxiosRequest } = require('./safeAxios');
+
+type RichMessageKind = 'document' | 'audio' | 'poll' | 'location';
+type MessageDestination = 'chat' | 'channel' | 'status';
+
+type PollPayload = { question: string; options: string[]; multi_select: boolean };
+type LocationPayload = { latitude: number; longitude: number; name: string | null; address: string | null };
+
+type RichMessage =
+  | { kind: 'poll'; poll: PollPayload }
+  | { kind: 'location'; location: LocationPayload }
+  | { kind: 'document'; url: string; file_name: string }
+  | { kind: 'audio'; url: string; voice_note: boolean };
+
+const POLL_MAX_OPTIONS = 12;
+const MAX_DOCUMENT_BYTES = 64 * 1024 * 1024;
+const MAX_AUDIO_BYTES = 16 * 1024 * 1024;
+
+const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg; codecs=opus',
+  opus: 'audio/ogg; codecs=opus'
+};
+
+// What WhatsApp shows per destination: channels take polls with a single answer and voice
+// notes but no files or pins; statuses take voice notes only.
+const DESTINATION_RULES: Record<Exclude<MessageDestination, 'chat'>, { label: string; allowed: RichMessageKind[] }> = {
+  channel: { label: 'channels', allowed: ['poll', 'audio'] },
+  status: { label: 'status updates', allowed: ['audio'] }
+};
+
+const getMessageDestination = (target: { type?: string | null; phone_number?: string | null }): MessageDestination => {
+  const jid = String(target.phone_number || '').trim().toLowerCase();
+  if (target.type === 'status' || jid === 'status@broadcast') return 'status';
+  if (target.type === 'channel' || jid.endsWith('@newsletter')) return 'channel';
+  return 'chat';
+};
+
+/**
+ * Why `message` cannot go to `destination`, or null when it can.
+ */
+const getRichMessageRestriction = (message: RichMessage, destination: MessageDestination) => {
+  if (destination === 'chat') return null;
+  const rule = DESTINATION_RULES[destination];
+  if (!rule.allowed.includes(message.kind)) {
+    return `WhatsApp ${rule.label} do not support ${message.kind === 'audio' ? 'audio' : `${message.kind}s`}`;
+  }
+  if (message.kind === 'poll' && message.poll.multi_select) {
+    return `Polls in WhatsApp ${rule.label} allow a single answer only`;
+  }
+  if (message.kind === 'audio' && !message.voice_note) {
+    return `WhatsApp ${rule.label} only accept audio as a voice note`;
+  }
+  return null;
+};
+
+const readUrlExtension = (value: string) => {
+  try {
+    const pathname = new URL(value).pathname;
+    return (pathname.split('.').pop() || '').toLowerCase();
+  } catch {
+    return (String(value || '').split(/[?#]/)[0]?.split('.').pop() || '').toLowerCase();
+  }
+};
+
+/**
+ * The name a document is shown with: the given one, else the last segment of its URL.
+ */
+const resolveDocumentFileName = (url: string, fileName?: string | null) => {
+  const given = String(fileName || '').trim();
+  if (given) return given;
+  try {
+    const segment = decodeURIComponent(new URL(url).pathname.split('/').pop() || '').trim();
+    if (segment) return segment;
+  } catch {
+    // fall through to the default name
+  }
+  return 'document.pdf';
+};
+
+type RichMessageInput = {
+  documentUrl?: string | null;
+  documentName?: string | null;
+  audioUrl?: string | null;
+  voiceNote?: boolean;
+  poll?: { question: string; options: string[]; multiSelect?: boolean } | null;
+  location?: { latitude: number; longitude: number; name?: string | null; address?: string | null } | null;
+};
+
+/**
+ * The rich message in a manual post or test message request body, if any.
+ */
+const readRichMessageInput = (body: RichMessageInput): RichMessage | null => {
+  if (body.poll) {
+    return {
+      kind: 'poll',
+      poll: {
+        question: String(body.poll.question || '').trim(),
+        options: body.poll.options.map((option) => String(option || '').trim()),
+        multi_select: body.poll.multiSelect === true
+      }
+    };
+  }
+  if (body.location) {
+    return {
+      kind: 'location',
+      location: {
+        latitude: body.location.latitude,
+        longitude: body.location.longitude,
+        name: String(body.location.name || '').trim() || null,
+        address: String(body.location.address || '').trim() || null
+      }
+    };
+  }
+  const documentUrl = String(body.documentUrl || '').trim();
+  if (documentUrl) {
+    return { kind: 'document', url: documentUrl, file_name: resolveDocumentFileName(documentUrl, body.documentName) };
+  }
+  const audioUrl = String(body.audioUrl || '').trim();
+  if (audioUrl) {
+    return { kind: 'audio', url: audioUrl, voice_note: body.voiceNote === true };
+  }
+  return null;
+};
+
+/**
+ * Columns a rich message is queued with: files go in media_url, the rest in message_payload.
+ */
+const toMessageLogFields = (message: RichMessage) => {
+  if (message.kind === 'document') {
+    return { media_url: message.url, media_type: 'document', message_payload: { file_name: message.file_name } };
+  }
+  if (message.kind === 'audio') {
+    return { media_url: message.url, media_type: 'audio', message_payload: { voice_note: message.voice_note } };
+  }
+  return message.kind === 'poll'
+    ? { media_url: null, media_type: 'poll', message_payload: { poll: message.poll } }
+    : { media_url: null, media_type: 'location', message_payload: { location: message.location } };
+};
+
+/**
+ * Stored manual payload (message_logs.message_payload plus media columns) as a rich message,
+ * or null for plain text, image and video posts.
+ */
+const readRichMessage = (
+  payload: unknown,
+  media: { url?: string | null; type?: string | null } = {}
+): RichMessage | null => {
+  const raw = payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Record<string, unknown>) : {};
+  const type = String(media.type || '').trim().toLowerCase();
+  const url = String(media.url || '').trim();
+
+  if (type === 'poll') {
+    const poll = (raw.poll || {}) as Record<string, unknown>;
+    const options = Array.isArray(poll.options) ? poll.options.map((option) => String(option || '').trim()).filter(Boolean) : [];
+    if (!String(poll.question || '').trim() || options.length < 2) return null;
+    return {
+      kind: 'poll',
+      poll: { question: String(poll.question).trim(), options, multi_select: poll.multi_select === true }
+    };
+  }
+  if (type === 'location') {
+    const location = (raw.location || {}) as Record<string, unknown>;
+    const latitude = Number(location.latitude);
+    const longitude = Number(location.longitude);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+    return {
+      kind: 'location',
+      location: {
+        latitude,
+        longitude,
+        name: String(location.name || '').trim() || null,
+        address: String(location.address || '').trim() || null
+      }
+    };
+  }
+  if (type === 'document' && url) {
+    return { kind: 'document', url, file_name: resolveDocumentFileName(url, raw.file_name as string | null) };
+  }
+  if (type === 'audio' && url) {
+    return { kind: 'audio', url, voice_note: raw.voice_note === true };
+  }
+  return null;
+};
+
+const detectFileMimeType = (kind: 'document' | 'audio', buffer: Buffer): string | null => {
+  const ascii = (start: number, end: number) => buffer.slice(start, end).toString('ascii');
+  if (kind === 'document') {
+    if (ascii(0, 4) === '%PDF') return DOCUMENT_MIME_TYPES.pdf as string;
+    if (ascii(0, 2) === 'PK') return DOCUMENT_MIME_TYPES.docx as string;
+    if (buffer.length >= 4 && buffer[0] === 0xd0 && buffer[1] === 0xcf && buffer[2] === 0x11 && buffer[3] === 0xe0) {
+      return DOCUMENT_MIME_TYPES.doc as string;
+    }
+    return null;
+  }
+  if (ascii(0, 4) === 'OggS') return AUDIO_MIME_TYPES.ogg as string;
+  if (ascii(0, 3) === 'ID3' || (buffer.length >= 2 && buffer[0] === 0xff && ((buffer[1] as number) & 0xe0) === 0xe0)) {
+    return AUDIO_MIME_TYPES.mp3 as string;
+  }
+  if (buffer.length >= 12 && ascii(4, 8) === 'ftyp') return AUDIO_MIME_TYPES.m4a as string;
+  return null;
+};
+
+/**
+ * Mime type for an attachment: from its bytes, else its file extension. Throws for formats
+ * WhatsApp would not deliver as a document (PDF, DOC, DOCX) or audio (MP3, M4A, AAC, OGG/Opus).
+ */
+const resolveFileMimeType = (kind: 'document' | 'audio', buffer: Buffer, fileNameOrUrl: string) => {
+  const known = kind === 'document' ? DOCUMENT_MIME_TYPES : AUDIO_MIME_TYPES;
+  const detected = detectFileMimeType(kind, buffer);
+  const byExtension = known[readUrlExtension(fileNameOrUrl)];
+  // DOCX is a zip file; trust a known extension over the generic signature.
+  const mimetype = detected && !(detected === DOCUMENT_MIME_TYPES.docx && byExtension) ? detected : byExtension || detected;
+  if (!mimetype) {
+    throw new Error(
+      kind === 'document' ? 'Unsupported document type (expected PDF, DOC or DOCX)' : 'Unsupported audio type (expected MP3, M4A, AAC or OGG)'
+    );
+  }
+  return mimetype;
+};
+
+const downloadAttachment = async (kind: 'document' | 'audio', url: string, fileName?: string | null) => {
+  const maxBytes = kind === 'document' ? MAX_DOCUMENT_BYTES : MAX_AUDIO_BYTES;
+  const response = await safeAxiosRequest(url, {
+    timeout: 30000,
+    responseType: 'arraybuffer',
+    maxContentLength: maxBytes,
+    maxBodyLength: maxBytes
+  });
+  const buffer = Buffer.isBuffer(response.data) ? response.data : Buffer.from(response.data);
+  if (!buffer.length) {
+    throw new Error(`${kind === 'document' ? 'Document' : 'Audio'} download returned empty body`);
+  }
+  return { buffer, mimetype: resolveFileMimeType(kind, buffer, fileName || url) };
+};
+
+/**
+ * WhatsApp message content for a rich message. Documents and audio need the downloaded file.
+ */
+const buildRichMessageContent = (
+  message: RichMessage,
+  options: { file?: { buffer: Buffer; mimetype: string } | null; caption?: string | null } = {}
+): Record<string, unknown> => {
+  if (message.kind === 'poll') {
+    return {
+      poll: {
+        name: message.poll.question,
+        values: message.poll.options,
+        selectableCount: message.poll.multi_select ? message.poll.options.length : 1
+      }
+    };
+  }
+  if (message.kind === 'location') {
+    return {
+      location: {
+        degreesLatitude: message.location.latitude,
+        degreesLongitude: message.location.longitude,
+        ...(message.location.name ? { name: message.location.name } : {}),
+        ...(message.location.address ? { address: message.location.address } : {})
+      }
+    };
+  }
+  if (!options.file) {
+    throw new Error(`Missing downloaded file for ${message.kind} message`);
+  }
+  if (message.kind === 'document') {
+    const caption = String(options.caption || '').trim();
+    return {
+      document: options.file.buffer,
+      mimetype: options.file.mimetype,
+      fileName: message.file_name,
+      ...(caption ? { caption } : {})
+    };
+  }
+  return { audio: options.file.buffer, mimetype: options.file.mimetype, ptt: message.voice_note };
+};
+
+/**
+ * Text shown for a rich message in logs and the queue.
+ */
+const describeRichMessage = (message: RichMessage) => {
+  if (message.kind === 'poll') {
+    return [`📊 ${message.poll.question}`, ...message.poll.options.map((option) => `• ${option}`)].join('\n');
+  }
+  if (message.kind === 'location') {
+    const label = [message.location.name, message.location.address].filter(Boolean).join(', ');
+    return `📍 ${label || `${message.location.latitude}, ${message.location.longitude}`}`;
+  }
+  return message.kind === 'document' ? `📄 ${message.file_name}` : message.voice_note ? '🎤 Voice note' : '🎵 Audio';
+};
+
+module.exports = {
+  POLL_MAX_OPTIONS,
+  getMessageDestination,
+  getRichMessageRestriction,
+  resolveDocumentFileName,
+  readRichMessageInput,
+  toMessageLogFields,
+  readRichMessage,
+  resolveFileMimeType,
+  downloadAttachment,
+  buildRichMessageContent,
+  describeRichMessage
+};
+
+export {};
@@ -6,8 +6,12 @@ const { assertSafeOutboundUrl } = require('./outboundUrl');
 type SafeRedirectOptions = {
   maxRedirects?: number;
   allowPrivate?: boolean;
+  // Extra headers (beyond Authorization/Cookie) that must not follow a redirect to another origin.
+  sensitiveHeaders?: string[];
 };
 
+const ALWAYS_SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
 const DEFAULT_MAX_REDIRECTS = 5;
 
 const isRedirectStatus = (status: number) => status >= 300 && status < 400;
@@ -17,11 +21,25 @@ const resolveRedirectUrl = (location: string, baseUrl: string) => {
   return new URL(location, baseUrl).toString();
 };
 
+// Keep the axios error shape so callers can read e.g. Retry-After from `error.response.headers`.
+const statusError = (response: AxiosResponse) =>
+  Object.assign(new Error(`Request failed with status ${response.status}`), {
+    response: { status: response.status, headers: response.headers || {} }
+  });
+
+const withoutHeaders = (headers: NonNullable<AxiosRequestConfig['headers']>, names: string[]) => {
+  const blocked = new Set(names.map((name) => name.toLowerCase()));
+  return Object.fromEntries(
+    Object.entries(headers as Record<string, unknown>).filter(([name]) => !blocked.has(name.toLowerCase()))
+  ) as NonNullable<AxiosRequestConfig['headers']>;
+};
+
 /**
  * axios wrapper that:
  * - validates each hop with assertSafeOutboundUrl
  * - follows redirects manually (so we can re-validate redirect targets)
  * - disables axios auto-follow to avoid SSRF via redirect-to-private-IP tricks
+ * - drops credentials when a redirect leaves the original origin
  */
 const safeAxiosRequest = async (
   rawUrl: string,
@@ -34,14 +52,23 @@ const safeAxiosRequest = async (
   if (!currentUrl) {
     throw new Error('URL is required');
   }
+  let requestConfig = config;
+  let originalOrigin: string | null = null;
 
   for (let attempt = 0; attempt <= maxRedirects; attempt += 1) {
     // Validate each hop before requesting it.
     const safeUrl: URL = await assertSafeOutboundUrl(currentUrl, { allowPrivate: options?.allowPrivate === true });
+    originalOrigin = originalOrigin ?? safeUrl.origin;
+    if (safeUrl.origin !== originalOrigin && requestConfig.headers) {
+      requestConfig = {
+        ...requestConfig,
+        headers: withoutHeaders(requestConfig.headers, [...ALWAYS_SENSITIVE_HEADERS, ...(options?.sensitiveHeaders || [])])
+      };
+    }
 
     // Ensure axios never auto-follows redirects; we handle them ourselves.
     const response: AxiosResponse = await axios.request({
-      ...config,
+      ...requestConfig,
       url: safeUrl.toString(),
       maxRedirects: 0,
       // Avoid axios throwing on non-2xx so we can handle redirects consistently.
@@ -64,12 +91,12 @@ const safeAxiosRequest = async (
 
     // Apply caller-provided status validation after redirects are resolved.
     if (typeof config.validateStatus === 'function' && !config.validateStatus(response.status)) {
-      throw new Error(`Request failed with status ${response.status}`);
+      throw statusError(response);
     }
 
     // Default success criteria: 2xx.
     if (typeof config.validateStatus !== 'function' && (response.status < 200 || response.status >= 300)) {
-      throw new Error(`Request failed with status ${response.status}`);
+      throw statusError(response);
     }
 
     return response;
@@ -0,0 +1,155 @@
+type CharSet = Set<string>;
+
+type Frame = {
+  repeats: boolean;
+  alternates: boolean;
+  lookaround: boolean;
+  // Sample characters any atom in the group can match.
+  chars: CharSet;
+  // Characters a repeat just before the current position can still absorb.
+  pending: CharSet;
+  entryPending: CharSet;
+  branchEnds: CharSet[];
+};
+
+const GROUP_PREFIX = /^\((?:\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>))?/;
+const LOOKAROUND_PREFIX = /^\(\?(?:=|!|<=|<!)/;
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,(\d*))?\})\??/;
+const NESTED_REPEAT_ERROR = 'a repeated group must not contain another repeat, e.g. use (a+) instead of (a+)+';
+const REPEATED_ALTERNATION_ERROR = 'a repeated group must not contain alternatives, e.g. use [ab]+ instead of (a|b)+';
+const ADJACENT_REPEAT_ERROR = 'repeats next to each other must not match the same characters, e.g. use [^,]*,.* instead of .*,.*';
+const ESCAPE = /^\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|[pP]\{[^}]*\}|c[A-Za-z]|[\s\S])/;
+
+// Enough of each script and class to tell whether two atoms can match the same character.
+const SAMPLE_CHARS = [
+  ...Array.from({ length: 95 }, (_, offset) => String.fromCharCode(32 + offset)),
+  '\t',
+  '\n',
+  '\r',
+  '\u00a0',
+  '\u2028',
+  'é',
+  'ß',
+  'я',
+  'א',
+  'ش',
+  '٣',
+  '中'
+];
+
+const union = (...sets: CharSet[]) => new Set(sets.flatMap((set) => Array.from(set)));
+const overlaps = (left: CharSet, right: CharSet) => Array.from(left).some((char) => right.has(char));
+
+const matchingSamples = (source: string, flags: string): CharSet => {
+  try {
+    const atom = new RegExp(`^(?:${source})$`, flags.replace(/[gy]/g, ''));
+    return new Set(SAMPLE_CHARS.filter((char) => atom.test(char)));
+  } catch {
+    return new Set(SAMPLE_CHARS);
+  }
+};
+
+const newFrame = (pending: CharSet, lookaround = false): Frame => ({
+  repeats: false,
+  alternates: false,
+  lookaround,
+  chars: new Set(),
+  pending: new Set(pending),
+  entryPending: new Set(pending),
+  branchEnds: []
+});
+
+/**
+ * Why `pattern` could backtrack for seconds on a long input, or null when it cannot. JavaScript
+ * regexes backtrack, so a repeated group that itself repeats or has alternatives (`(a+)+`,
+ * `(a|ab)*`) is exponential, and repeats that can take turns over the same characters
+ * (`a*a*b`, `.*x.*`) are polynomial; back-references cannot be bounded at all.
+ */
+const getRegexBacktrackingError = (pattern: string, flags: string = '') => {
+  const frames: Frame[] = [newFrame(new Set())];
+  const top = () => frames[frames.length - 1] as Frame;
+  let index = 0;
+  while (index < pattern.length) {
+    const char = pattern[index] as string;
+    const frame = top();
+    if (char === '(') {
+      const prefix = GROUP_PREFIX.exec(pattern.slice(index))?.[0] as string;
+      frames.push(newFrame(frame.pending, LOOKAROUND_PREFIX.test(prefix)));
+      index += prefix.length;
+      continue;
+    }
+    if (char === '|') {
+      frame.alternates = true;
+      frame.branchEnds.push(frame.pending);
+      frame.pending = new Set(frame.entryPending);
+      index += 1;
+      continue;
+    }
+    if (char === '^' || char === '$') {
+      index += 1;
+      continue;
+    }
+
+    let group: Frame | null = null;
+    let source = char;
+    if (char === ')') {
+      if (frames.length > 1) group = frames.pop() as Frame;
+      index += 1;
+    } else if (char === '\\') {
+      source = ESCAPE.exec(pattern.slice(index))?.[0] || char;
+      if (/^\\(?:[1-9]|k<)/.test(source)) return 'back-references are not supported';
+      index += source.length;
+      if (source === '\\b' || source === '\\B') continue;
+    } else if (char === '[') {
+      let end = index + 1;
+      if (pattern[end] === '^') end += 1;
+      if (pattern[end] === ']') end += 1;
+      while (end < pattern.length && pattern[end] !== ']') end += pattern[end] === '\\' ? 2 : 1;
+      source = pattern.slice(index, end + 1);
+      index = end + 1;
+    } else {
+      index += 1;
+    }
+
+    const quantifier = QUANTIFIER.exec(pattern.slice(index))?.[0] || '';
+    index += quantifier.length;
+    // `?` and `{n}` match at most once per position; `*`, `+`, `{n,}` and `{n,m}` repeat.
+    const repeating = quantifier !== '' && quantifier[0] !== '?' && (!quantifier.startsWith('{') || quantifier.includes(','));
+    const optional = quantifier[0] === '?' || quantifier[0] === '*' || /^\{0[,}]/.test(quantifier);
+    const current = top();
+
+    if (group) {
+      if (group.lookaround) continue;
+      if (repeating && group.repeats) return NESTED_REPEAT_ERROR;
+      if (repeating && group.alternates) return REPEATED_ALTERNATION_ERROR;
+      current.repeats = current.repeats || group.repeats || repeating;
+      current.chars = union(current.chars, group.chars);
+      if (repeating) {
+        if (overlaps(group.chars, group.entryPending)) return ADJACENT_REPEAT_ERROR;
+        current.pending = optional ? union(group.entryPending, group.chars) : new Set(group.chars);
+      } else {
+        const ends = union(group.pending, ...group.branchEnds);
+        current.pending = optional ? union(group.entryPending, ends) : ends;
+      }
+      continue;
+    }
+
+    const chars = matchingSamples(source, flags);
+    current.chars = union(current.chars, chars);
+    if (repeating) {
+      if (overlaps(chars, current.pending)) return ADJACENT_REPEAT_ERROR;
+      current.repeats = true;
+      current.pending = optional ? union(current.pending, chars) : chars;
+    } else if (!optional && !overlaps(chars, current.pending)) {
+      // A character the repeat before cannot take ends its run.
+      current.pending = new Set();
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  getRegexBacktrackingError
+};
+
+export {};
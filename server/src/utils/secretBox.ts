@@ -0,0 +1,46 @@
+const crypto = require('crypto');
+
+// Versioned so the key derivation or cipher can change without breaking stored values.
+const PREFIX = 'v1';
+const IV_BYTES = 12;
+
+const getKey = (): Buffer => {
+  const secret = String(process.env.FEED_CREDENTIALS_KEY || '').trim();
+  if (!secret) {
+    throw new Error('FEED_CREDENTIALS_KEY must be set to store feed credentials');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+const isSecretBoxConfigured = () => Boolean(String(process.env.FEED_CREDENTIALS_KEY || '').trim());
+
+/**
+ * Encrypt a JSON-serialisable value with AES-256-GCM ("v1:<iv>:<tag>:<ciphertext>", base64 parts).
+ */
+const sealSecret = (value: unknown): string => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [PREFIX, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+const openSecret = <T = unknown>(sealed: string | null | undefined): T | null => {
+  if (!sealed) return null;
+  const [prefix, iv, tag, ciphertext] = String(sealed).split(':');
+  if (prefix !== PREFIX || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported encrypted value');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+  return JSON.parse(plaintext.toString('utf8')) as T;
+};
+
+module.exports = {
+  isSecretBoxConfigured,
+  sealSecret,
+  openSecret
+};
+
+export {};
@@ -0,0 +1,141 @@
+const { formatZonedDateTime } = require('./zonedTime');
+const { getYomTovDays } = require('./hebrewCalendar');
+const { getSunset, getTzeit } = require('./zmanim');
+
+type ShabbosLocation = {
+  latitude: number;
+  longitude: number;
+  tzid: string;
+  city?: string;
+  // Israel keeps one day of Yom Tov; unset means "decide from the timezone".
+  israel?: boolean | null;
+};
+
+type ShabbosPeriod = {
+  start: Date;
+  end: Date;
+  type: 'shabbos' | 'yomtov';
+  title: string;
+  location?: string;
+};
+
+type ShabbosTimesOptions = {
+  from?: Date;
+  days?: number;
+  candleLightingMins?: number;
+  // Minutes after sunset; 0 uses nightfall at 8.5 degrees instead.
+  havdalahMins?: number;
+};
+
+const ISRAEL_TIMEZONES = new Set(['Asia/Jerusalem', 'Asia/Tel_Aviv']);
+
+const isIsraelLocation = (location: ShabbosLocation) =>
+  typeof location.israel === 'boolean' ? location.israel : ISRAEL_TIMEZONES.has(location.tzid);
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+// Published times are whole minutes; round outward so the period never shrinks.
+const floorToMinute = (date: Date) => new Date(Math.floor(date.getTime() / 60000) * 60000);
+const ceilToMinute = (date: Date) => new Date(Math.ceil(date.getTime() / 60000) * 60000);
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A usable location from stored or submitted settings, or null.
+ */
+const normalizeShabbosLocation = (value: unknown): ShabbosLocation | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const latitude = Number(raw.latitude);
+  const longitude = Number(raw.longitude);
+  const tzid = String(raw.tzid || '').trim();
+  if (raw.latitude == null || !Number.isFinite(latitude) || Math.abs(latitude) > 90) return null;
+  if (raw.longitude == null || !Number.isFinite(longitude) || Math.abs(longitude) > 180) return null;
+  if (!tzid || !isValidTimezone(tzid)) return null;
+  const city = String(raw.city || '').trim();
+  return {
+    latitude,
+    longitude,
+    tzid,
+    ...(city ? { city } : {}),
+    ...(typeof raw.israel === 'boolean' ? { israel: raw.israel } : {})
+  };
+};
+
+/**
+ * Shabbos and Yom Tov periods at a location, from candle lighting on the eve to havdalah, for
+ * `days` days from `from`. Adjacent days (Yom Tov next to Shabbos, two-day Yom Tov) form one
+ * period. Throws when a time cannot be calculated, e.g. where the sun does not set.
+ */
+const computeShabbosPeriods = (location: ShabbosLocation, options: ShabbosTimesOptions = {}): ShabbosPeriod[] => {
+  const valid = normalizeShabbosLocation(location);
+  if (!valid) throw new Error('Invalid Shabbos location');
+  const from = options.from || new Date();
+  const candleLightingMins = Math.max(0, Number(options.candleLightingMins ?? 18));
+  const havdalahMins = Math.max(0, Number(options.havdalahMins ?? 50));
+
+  // Start a day early so a period already under way is included.
+  const firstDate = shiftDate(String(formatZonedDateTime(from, valid.tzid)).slice(0, 10), -1);
+  const lastDate = shiftDate(firstDate, Math.max(1, options.days ?? 21));
+
+  const yomTovByDate = new Map<string, string>();
+  for (const day of getYomTovDays(firstDate, lastDate, { israel: isIsraelLocation(valid) }) as Array<{ date: string; title: string }>) {
+    yomTovByDate.set(day.date, day.title);
+  }
+
+  const groups: Array<Array<{ date: string; yomTov: string | null }>> = [];
+  for (let date = firstDate; date <= lastDate; date = shiftDate(date, 1)) {
+    const yomTov = yomTovByDate.get(date) || null;
+    if (!yomTov && new Date(`${date}T00:00:00Z`).getUTCDay() !== 6) continue;
+    const previous = groups[groups.length - 1];
+    const last = previous?.[previous.length - 1];
+    if (previous && last && shiftDate(last.date, 1) === date) {
+      previous.push({ date, yomTov });
+    } else {
+      groups.push([{ date, yomTov }]);
+    }
+  }
+
+  const periods: ShabbosPeriod[] = [];
+  for (const group of groups) {
+    const firstDay = group[0]?.date as string;
+    const lastDay = group[group.length - 1]?.date as string;
+    const eveSunset = getSunset(shiftDate(firstDay, -1), valid.latitude, valid.longitude) as Date | null;
+    const lastSunset = getSunset(lastDay, valid.latitude, valid.longitude) as Date | null;
+    const end = havdalahMins > 0
+      ? lastSunset && new Date(lastSunset.getTime() + havdalahMins * 60000)
+      : (getTzeit(lastDay, valid.latitude, valid.longitude) as Date | null);
+    if (!eveSunset || !end) {
+      throw new Error(`No sunset at ${valid.city || `${valid.latitude},${valid.longitude}`} around ${firstDay}`);
+    }
+
+    periods.push({
+      start: floorToMinute(new Date(eveSunset.getTime() - candleLightingMins * 60000)),
+      end: ceilToMinute(end),
+      type: group.some((day) => day.yomTov) ? 'yomtov' : 'shabbos',
+      title: group.map((day) => day.yomTov || 'Shabbos').join(' / '),
+      ...(valid.city ? { location: valid.city } : {})
+    });
+  }
+
+  return periods.filter((period) => period.end.getTime() > from.getTime());
+};
+
+module.exports = {
+  isIsraelLocation,
+  normalizeShabbosLocation,
+  computeShabbosPeriods
+};
+
+export {};
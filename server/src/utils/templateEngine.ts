@@ -0,0 +1,523 @@
+const { escapeWhatsAppFormatting } = require('./messageText');
+
+/**
+ * Small sandboxed template language for message templates.
+ *
+ *   {{title}}                          variable (WhatsApp formatting in values is escaped)
+ *   {{description | truncate:200}}     filters, chained with |
+ *   {{pub_date | date:"HH:mm" tz:"America/New_York"}}
+ *   {{#if author}}By {{author}}{{else}}Staff{{/if}}   also {{#unless}}
+ *   {{#each categories}}#{{this}} {{/each}}           with @index, @first, @last
+ *   {{! comment }}
+ *
+ * Templates only read values from the data passed in; there is no code execution.
+ */
+
+type TemplateFilter = {
+  name: string;
+  args: Array<string | number>;
+  options: Record<string, string | number>;
+};
+
+type TemplateExpression = {
+  path: string[];
+  filters: TemplateFilter[];
+};
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: TemplateExpression }
+  | { type: 'if'; negate: boolean; expression: TemplateExpression; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; expression: TemplateExpression; body: TemplateNode[]; alternate: TemplateNode[] };
+
+type TemplateRenderOptions = {
+  // Default timezone for the date filter.
+  timezone?: string;
+  // Resolves the shorten filter; links are left as-is without one.
+  shortenUrl?: (url: string) => string;
+};
+
+type TemplateSyntaxIssue = {
+  message: string;
+  line: number;
+  column: number;
+};
+
+class TemplateSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'TemplateSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const MAX_EACH_ITEMS = 100;
+const MAX_OUTPUT_CHARS = 65536;
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+const PATH_PATTERN = /^(?:this|@index|@first|@last|[A-Za-z_]\w*)(?:\.[A-Za-z_]\w*)*$/;
+const DATE_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g;
+
+const FILTER_NAMES = new Set(['upper', 'lower', 'trim', 'truncate', 'default', 'date', 'shorten', 'join']);
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getPosition = (source: string, offset: number) => {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return { line, column };
+};
+
+// Split on a separator character outside quoted strings.
+const splitOutsideQuotes = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (quote) throw new Error('Unterminated string');
+  parts.push(current);
+  return parts;
+};
+
+const parseLiteral = (raw: string): string | number => {
+  const value = raw.trim();
+  if (/^(["']).*\1$/s.test(value)) return value.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^[\w\-/+:.]+$/.test(value)) return value;
+  throw new Error(`Invalid filter argument ${value}`);
+};
+
+// `name`, `name:arg` or `name:arg key:value ...`
+const parseFilter = (segment: string): TemplateFilter => {
+  const match = segment.trim().match(/^([a-z_]+)(?::(.*))?$/s);
+  if (!match) throw new Error(`Invalid filter "${segment.trim()}"`);
+  const name = match[1] as string;
+  if (!FILTER_NAMES.has(name)) throw new Error(`Unknown filter "${name}"`);
+
+  const filter: TemplateFilter = { name, args: [], options: {} };
+  const rest = match[2];
+  if (rest !== undefined) {
+    const tokenPattern = /(?:[A-Za-z_]\w*:)?(?:"[^"]*"|'[^']*'|[^\s"']+)/g;
+    const tokens = rest.match(tokenPattern) || [];
+    if (rest.replace(tokenPattern, '').trim()) {
+      throw new Error(`Invalid arguments for filter "${name}"`);
+    }
+    tokens.forEach((token, index) => {
+      const option = index > 0 ? token.match(/^([A-Za-z_]\w*):(.+)$/s) : null;
+      if (option) {
+        filter.options[option[1] as string] = parseLiteral(option[2] as string);
+      } else if (index === 0) {
+        filter.args.push(parseLiteral(token));
+      } else {
+        throw new Error(`Unexpected argument ${token} for filter "${name}"`);
+      }
+    });
+  }
+
+  if (name === 'truncate' && filter.args.length && !(Number.isInteger(filter.args[0]) && Number(filter.args[0]) > 0)) {
+    throw new Error('truncate needs a positive whole number, e.g. truncate:200');
+  }
+  if (name === 'date' && filter.options.tz !== undefined && !isValidTimezone(String(filter.options.tz))) {
+    throw new Error(`Unknown timezone "${filter.options.tz}"`);
+  }
+  return filter;
+};
+
+const parseExpression = (source: string): TemplateExpression => {
+  const [head = '', ...filterSegments] = splitOutsideQuotes(source, '|');
+  const path = head.trim();
+  if (!path) throw new Error('Missing variable name');
+  if (!PATH_PATTERN.test(path)) throw new Error(`Invalid variable name "${path}"`);
+  const segments = path.split('.');
+  if (segments.some((segment) => FORBIDDEN_SEGMENTS.has(segment))) {
+    throw new Error(`Invalid variable name "${path}"`);
+  }
+  return { path: segments, filters: filterSegments.map(parseFilter) };
+};
+
+type OpenBlock = {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  keyword: 'if' | 'unless' | 'each';
+  inElse: boolean;
+  line: number;
+  column: number;
+};
+
+/**
+ * Parse a template into a syntax tree. Throws TemplateSyntaxError with the line and column
+ * of the offending tag.
+ */
+const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const currentBody = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.alternate : top.node.body;
+  };
+
+  let cursor = 0;
+  while (cursor < source.length) {
+    const open = source.indexOf('{{', cursor);
+    if (open === -1) {
+      currentBody().push({ type: 'text', value: source.slice(cursor) });
+      break;
+    }
+    if (open > cursor) {
+      currentBody().push({ type: 'text', value: source.slice(cursor, open) });
+    }
+
+    const { line, column } = getPosition(source, open);
+    let close = -1;
+    let quote: string | null = null;
+    for (let index = open + 2; index < source.length; index += 1) {
+      const char = source[index];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '}' && source[index + 1] === '}') {
+        close = index;
+        break;
+      }
+    }
+    if (close === -1) {
+      throw new TemplateSyntaxError('Missing closing "}}"', line, column);
+    }
+
+    const tag = source.slice(open + 2, close).trim();
+    cursor = close + 2;
+
+    try {
+      if (tag.startsWith('!')) continue;
+
+      const blockOpen = tag.match(/^#(if|unless|each)\b\s*(.*)$/s);
+      if (blockOpen) {
+        const keyword = blockOpen[1] as OpenBlock['keyword'];
+        const expression = parseExpression(blockOpen[2] || '');
+        const node: OpenBlock['node'] =
+          keyword === 'each'
+            ? { type: 'each', expression, body: [], alternate: [] }
+            : { type: 'if', negate: keyword === 'unless', expression, body: [], alternate: [] };
+        currentBody().push(node);
+        stack.push({ node, keyword, inElse: false, line, column });
+        continue;
+      }
+
+      if (tag === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top) throw new Error('{{else}} outside of a block');
+        if (top.inElse) throw new Error(`Duplicate {{else}} in {{#${top.keyword}}}`);
+        top.inElse = true;
+        continue;
+      }
+
+      const blockClose = tag.match(/^\/(\w+)$/);
+      if (blockClose) {
+        const top = stack.pop();
+        if (!top) throw new Error(`{{/${blockClose[1]}}} has no matching opening tag`);
+        if (top.keyword !== blockClose[1]) {
+          throw new Error(`{{/${blockClose[1]}}} closes {{#${top.keyword}}} opened at line ${top.line}, column ${top.column}`);
+        }
+        continue;
+      }
+
+      if (tag.startsWith('#') || tag.startsWith('/')) {
+        throw new Error(`Unknown block "${tag.split(/\s/)[0]}"`);
+      }
+
+      currentBody().push({ type: 'output', expression: parseExpression(tag) });
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) throw error;
+      throw new TemplateSyntaxError(error instanceof Error ? error.message : String(error), line, column);
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`Unclosed {{#${unclosed.keyword}}}`, unclosed.line, unclosed.column);
+  }
+  return root;
+};
+
+const validateTemplate = (source: string): TemplateSyntaxIssue[] => {
+  try {
+    parseTemplate(String(source ?? ''));
+    return [];
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return [{ message: error.message.replace(/^Line \d+, column \d+: /, ''), line: error.line, column: error.column }];
+    }
+    throw error;
+  }
+};
+
+/**
+ * Top-level variable names a template reads, e.g. `title` for `{{title | upper}}`.
+ */
+const listTemplateVariables = (source: string) => {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[], loopDepth: number) => {
+    for (const node of nodes) {
+      if (node.type === 'text') continue;
+      const [head] = node.expression.path;
+      if (head && head !== 'this' && !head.startsWith('@') && loopDepth === 0) names.add(head);
+      if (node.type === 'if' || node.type === 'each') {
+        visit(node.body, loopDepth + (node.type === 'each' ? 1 : 0));
+        visit(node.alternate, loopDepth);
+      }
+    }
+  };
+  visit(parseTemplate(String(source ?? '')), 0);
+  return Array.from(names);
+};
+
+type Scope = { value: unknown; meta?: Record<string, unknown> };
+
+const readOwn = (value: unknown, key: string) =>
+  value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+
+const resolvePath = (path: string[], scopes: Scope[]) => {
+  const [head, ...rest] = path;
+  if (!head) return undefined;
+  let value: unknown;
+  const current = scopes[scopes.length - 1];
+  if (head === 'this') {
+    value = current?.value;
+  } else if (head.startsWith('@')) {
+    value = current?.meta?.[head.slice(1)];
+  } else {
+    // Inside loops, fields of the current item shadow the outer data.
+    for (let index = scopes.length - 1; index >= 0; index -= 1) {
+      const scopeValue = scopes[index]?.value;
+      if (scopeValue && typeof scopeValue === 'object' && Object.prototype.hasOwnProperty.call(scopeValue, head)) {
+        value = (scopeValue as Record<string, unknown>)[head];
+        break;
+      }
+    }
+  }
+  for (const segment of rest) {
+    value = readOwn(value, segment);
+  }
+  return value;
+};
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (text.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(text);
+        if (Array.isArray(parsed)) return parsed;
+      } catch {
+        // Fall through to a single-item list.
+      }
+    }
+    return text ? [text] : [];
+  }
+  return value == null || value === false ? [] : [value];
+};
+
+const isTruthy = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return Boolean(value);
+};
+
+const toText = (value: unknown): string => {
+  if (value == null) return '';
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return '';
+    }
+  }
+  return String(value);
+};
+
+const pad = (value: number | string, length = 2) => String(value).padStart(length, '0');
+
+const formatDate = (value: unknown, format: string, timezone: string) => {
+  const date = value instanceof Date ? value : new Date(String(value ?? ''));
+  if (!toText(value) || !Number.isFinite(date.getTime())) return toText(value);
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'long',
+      hourCycle: 'h23'
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  ) as Record<string, string>;
+  const monthName = new Intl.DateTimeFormat('en-US', { timeZone: timezone, month: 'long' }).format(date);
+  const hour = Number(parts.hour) % 24;
+  const hour12 = hour % 12 || 12;
+
+  const tokens: Record<string, string> = {
+    YYYY: String(parts.year),
+    YY: String(parts.year).slice(-2),
+    MMMM: monthName,
+    MMM: monthName.slice(0, 3),
+    MM: pad(String(parts.month)),
+    M: String(parts.month),
+    DD: pad(String(parts.day)),
+    D: String(parts.day),
+    dddd: String(parts.weekday),
+    ddd: String(parts.weekday).slice(0, 3),
+    HH: pad(hour),
+    H: String(hour),
+    hh: pad(hour12),
+    h: String(hour12),
+    mm: pad(String(parts.minute)),
+    ss: pad(String(parts.second)),
+    A: hour < 12 ? 'AM' : 'PM'
+  };
+  return format.replace(DATE_TOKEN_PATTERN, (token: string, literal?: string) =>
+    literal !== undefined ? literal : (tokens[token] ?? token)
+  );
+};
+
+const truncateText = (value: string, limit: number) => {
+  const chars = Array.from(value);
+  if (chars.length <= limit) return value;
+  return `${chars.slice(0, Math.max(limit - 1, 0)).join('').trimEnd()}…`;
+};
+
+const applyFilter = (value: unknown, filter: TemplateFilter, options: TemplateRenderOptions): unknown => {
+  const [arg] = filter.args;
+  switch (filter.name) {
+    case 'upper':
+      return toText(value).toUpperCase();
+    case 'lower':
+      return toText(value).toLowerCase();
+    case 'trim':
+      return toText(value).trim();
+    case 'truncate':
+      return truncateText(toText(value), Number(arg ?? 100));
+    case 'default':
+      return isTruthy(value) ? value : (arg ?? '');
+    case 'join':
+      return toList(value).map(toText).filter(Boolean).join(arg === undefined ? ', ' : String(arg));
+    case 'date': {
+      const timezone = String(filter.options.tz ?? options.timezone ?? 'UTC');
+      return formatDate(value, arg === undefined ? 'YYYY-MM-DD HH:mm' : String(arg), isValidTimezone(timezone) ? timezone : 'UTC');
+    }
+    case 'shorten': {
+      const url = toText(value).trim();
+      return url && options.shortenUrl ? options.shortenUrl(url) : url;
+    }
+    default:
+      return value;
+  }
+};
+
+const evaluate = (expression: TemplateExpression, scopes: Scope[], options: TemplateRenderOptions) =>
+  expression.filters.reduce(
+    (value, filter) => applyFilter(value, filter, options),
+    resolvePath(expression.path, scopes)
+  );
+
+const renderNodes = (nodes: TemplateNode[], scopes: Scope[], options: TemplateRenderOptions): string => {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'output') {
+      output += escapeWhatsAppFormatting(toText(evaluate(node.expression, scopes, options)));
+    } else if (node.type === 'if') {
+      const passes = isTruthy(evaluate(node.expression, scopes, options)) !== node.negate;
+      output += renderNodes(passes ? node.body : node.alternate, scopes, options);
+    } else {
+      const items = toList(evaluate(node.expression, scopes, options)).slice(0, MAX_EACH_ITEMS);
+      if (!items.length) {
+        output += renderNodes(node.alternate, scopes, options);
+        continue;
+      }
+      items.forEach((item, index) => {
+        const meta = { index, first: index === 0, last: index === items.length - 1 };
+        output += renderNodes(node.body, [...scopes, { value: item, meta }], options);
+      });
+    }
+    if (output.length > MAX_OUTPUT_CHARS) {
+      return output.slice(0, MAX_OUTPUT_CHARS);
+    }
+  }
+  return output;
+};
+
+/**
+ * The substitution-only renderer templates used before the template language: `{{name}}` is
+ * replaced by the escaped value and any other braces are left as written.
+ */
+const renderLegacyTemplate = (source: string, data: Record<string, unknown>) =>
+  source.replace(/{{\s*(\w+)\s*}}/g, (_match, key: string) => {
+    const value = readOwn(data || {}, key);
+    if (value == null) return '';
+    return escapeWhatsAppFormatting(Array.isArray(value) ? value.join(', ') : value);
+  });
+
+/**
+ * Render a template against message data. Values are escaped for WhatsApp formatting;
+ * the template's own markup (*bold*, _italic_) is kept. Stored templates from before the
+ * template language that it cannot parse (e.g. a stray "{{") render with the legacy
+ * substitution instead of failing their sends; saving one again reports the syntax error.
+ */
+const renderTemplate = (source: string, data: Record<string, unknown>, options: TemplateRenderOptions = {}) => {
+  if (!source) return '';
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    return renderLegacyTemplate(source, data);
+  }
+  return renderNodes(nodes, [{ value: data || {} }], options);
+};
+
+module.exports = {
+  TemplateSyntaxError,
+  parseTemplate,
+  validateTemplate,
+  listTemplateVariables,
+  renderTemplate,
+  renderLegacyTemplate
+};
+
+export {};
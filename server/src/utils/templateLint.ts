@@ -0,0 +1,84 @@
+const { listTemplateVariables } = require('./templateEngine');
+
+// WhatsApp truncates media captions past this length.
+const WHATSAPP_CAPTION_LIMIT = 1024;
+const WHATSAPP_TEXT_LIMIT = 65536;
+
+type TemplateLintWarning = {
+  code: 'unknown_variable' | 'unbalanced_marker' | 'caption_too_long' | 'text_too_long' | 'missing_media';
+  message: string;
+};
+
+const MARKER_NAMES: Record<string, string> = { '*': 'bold', _: 'italic', '~': 'strikethrough' };
+
+/**
+ * Formatting markers that WhatsApp would pair up, ignoring escaped ones, markers inside URLs
+ * and intra-word characters such as snake_case.
+ */
+const findUnbalancedMarkers = (text: string) => {
+  const withoutUrls = String(text || '').replace(/https?:\/\/\S+/gi, ' ');
+  const counts = new Map<string, number>();
+  const chars = Array.from(withoutUrls);
+  chars.forEach((char, index) => {
+    if (!MARKER_NAMES[char] || chars[index + 1] === '\u2060') return;
+    const before = chars[index - 1] || ' ';
+    const after = chars[index + 1] || ' ';
+    if (/[\p{L}\p{N}]/u.test(before) && /[\p{L}\p{N}]/u.test(after)) return;
+    counts.set(char, (counts.get(char) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .filter(([, count]) => count % 2 === 1)
+    .map(([marker]) => marker);
+};
+
+/**
+ * Warnings for a rendered template: variables the feed does not provide, formatting markers
+ * left open, and text WhatsApp would cut or refuse for the chosen send mode.
+ */
+const lintTemplateMessage = (input: {
+  content: string;
+  outboundText: string;
+  sendMode: string;
+  hasMedia: boolean;
+  knownVariables: string[];
+}): TemplateLintWarning[] => {
+  const warnings: TemplateLintWarning[] = [];
+  const known = new Set(input.knownVariables);
+  for (const name of listTemplateVariables(input.content)) {
+    if (!known.has(name)) {
+      warnings.push({ code: 'unknown_variable', message: `{{${name}}} is not provided by this feed and renders empty` });
+    }
+  }
+
+  for (const marker of findUnbalancedMarkers(input.outboundText)) {
+    warnings.push({
+      code: 'unbalanced_marker',
+      message: `Unbalanced ${MARKER_NAMES[marker]} marker "${marker}"; WhatsApp will show it as a literal character`
+    });
+  }
+
+  const length = Array.from(input.outboundText || '').length;
+  const isCaption = (input.sendMode === 'image' || input.sendMode === 'image_only') && input.hasMedia;
+  if (isCaption && length > WHATSAPP_CAPTION_LIMIT) {
+    warnings.push({
+      code: 'caption_too_long',
+      message: `Caption is ${length} characters; WhatsApp shows at most ${WHATSAPP_CAPTION_LIMIT} under an image`
+    });
+  } else if (length > WHATSAPP_TEXT_LIMIT) {
+    warnings.push({ code: 'text_too_long', message: `Message is ${length} characters; the limit is ${WHATSAPP_TEXT_LIMIT}` });
+  }
+
+  if (input.sendMode === 'image_only' && !input.hasMedia) {
+    warnings.push({ code: 'missing_media', message: 'Image-only mode has no image or video for this item, so the send would fail' });
+  }
+  return warnings;
+};
+
+module.exports = {
+  WHATSAPP_CAPTION_LIMIT,
+  WHATSAPP_TEXT_LIMIT,
+  findUnbalancedMarkers,
+  lintTemplateMessage
+};
+
+export {};
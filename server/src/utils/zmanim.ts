@@ -0,0 +1,57 @@
+// Solar times from the sunrise equation (NOAA approximation, within about a minute at
+// inhabited latitudes). Dates are civil dates at the location, as "YYYY-MM-DD".
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J2000 = 2451545;
+const UNIX_EPOCH_JULIAN_DAY = 2440587.5;
+// Geometric sunset: refraction plus the sun's radius.
+const SUNSET_ALTITUDE = -0.833;
+// Three medium stars, the common havdalah/tzeit opinion.
+const TZEIT_DEPRESSION_DEGREES = 8.5;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * The evening instant on `date` at which the sun sinks to `altitude` degrees, or null when it
+ * does not that day (polar summer or winter).
+ */
+const getEveningTimeAtAltitude = (date: string, latitude: number, longitude: number, altitude: number): Date | null => {
+  const noonUtc = Date.parse(`${date}T12:00:00Z`);
+  if (!Number.isFinite(noonUtc) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+  const daysSinceJ2000 = Math.round(noonUtc / DAY_MS + UNIX_EPOCH_JULIAN_DAY - J2000 + 0.0008);
+  const meanSolarNoon = daysSinceJ2000 - longitude / 360;
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+  const anomalyRad = toRadians(meanAnomaly);
+  const center = 1.9148 * Math.sin(anomalyRad) + 0.02 * Math.sin(2 * anomalyRad) + 0.0003 * Math.sin(3 * anomalyRad);
+  const eclipticLongitude = toRadians((meanAnomaly + center + 180 + 102.9372) % 360);
+  const transit = J2000 + meanSolarNoon + 0.0053 * Math.sin(anomalyRad) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRadians(23.4397)));
+
+  const latitudeRad = toRadians(latitude);
+  const cosHourAngle =
+    (Math.sin(toRadians(altitude)) - Math.sin(latitudeRad) * Math.sin(declination)) /
+    (Math.cos(latitudeRad) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+  const setting = transit + toDegrees(Math.acos(cosHourAngle)) / 360;
+  return new Date(Math.round((setting - UNIX_EPOCH_JULIAN_DAY) * DAY_MS));
+};
+
+const getSunset = (date: string, latitude: number, longitude: number) =>
+  getEveningTimeAtAltitude(date, latitude, longitude, SUNSET_ALTITUDE);
+
+/**
+ * Nightfall: the sun `degrees` below the horizon (8.5 by default).
+ */
+const getTzeit = (date: string, latitude: number, longitude: number, degrees = TZEIT_DEPRESSION_DEGREES) =>
+  getEveningTimeAtAltitude(date, latitude, longitude, -Math.abs(degrees));
+
+module.exports = {
+  getSunset,
+  getTzeit,
+  TZEIT_DEPRESSION_DEGREES
+};
+
+export {};
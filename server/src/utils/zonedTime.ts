@@ -0,0 +1,122 @@
+type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const EXPLICIT_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (date: Date, timezone: string): ZonedParts => {
+  const parts = getFormatter(timezone).formatToParts(date);
+  const read = (type: string) => Number(parts.find((part) => part.type === type)?.value || '0');
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second')
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Wall-clock `date` in `timezone` as "YYYY-MM-DDTHH:mm".
+ */
+const formatZonedDateTime = (date: Date, timezone: string) => {
+  const parts = getZonedParts(date, timezone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+};
+
+const getOffsetMs = (date: Date, timezone: string) => {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+/**
+ * The instant a wall-clock time ("YYYY-MM-DDTHH:mm") in `timezone` refers to. Times skipped by
+ * a DST change move forward by the gap; repeated times resolve to their first occurrence.
+ */
+const zonedTimeToUtc = (local: string, timezone: string): Date | null => {
+  const match = LOCAL_DATE_TIME.exec(String(local || '').trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number) as [number, number, number, number, number, number, number];
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  if (!Number.isFinite(guess)) return null;
+  try {
+    const first = guess - getOffsetMs(new Date(guess), timezone);
+    const secondOffset = getOffsetMs(new Date(first), timezone);
+    const adjusted = guess - secondOffset;
+    if (adjusted !== first && formatZonedDateTime(new Date(adjusted), timezone) === formatZonedDateTime(new Date(guess), 'UTC')) {
+      return new Date(adjusted);
+    }
+    return new Date(first);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A requested send time: an ISO instant with an offset is taken as is, a bare local time is
+ * read in `timezone`. Null when it cannot be parsed.
+ */
+const resolveZonedTime = (value: unknown, timezone?: string | null): Date | null => {
+  const raw = String(value || '').trim();
+  if (!raw) return null;
+  if (EXPLICIT_OFFSET.test(raw)) {
+    const parsed = Date.parse(raw);
+    return Number.isFinite(parsed) ? new Date(parsed) : null;
+  }
+  return zonedTimeToUtc(raw, timezone || 'UTC');
+};
+
+/**
+ * Every daily "HH:MM" time in `timezone` that falls within [from, to), in order.
+ */
+const listDailyOccurrences = (times: string[], timezone: string, from: Date, to: Date) => {
+  const occurrences: Date[] = [];
+  const start = getZonedParts(from, timezone);
+  const endMs = to.getTime();
+  // One day of slack on both ends covers zones far from UTC.
+  for (let offset = -1; ; offset += 1) {
+    const dayMs = Date.UTC(start.year, start.month - 1, start.day + offset);
+    if (dayMs - 2 * DAY_MS > endMs) break;
+    const day = new Date(dayMs).toISOString().slice(0, 10);
+    for (const time of times) {
+      const occurrence = zonedTimeToUtc(`${day}T${time}`, timezone);
+      if (occurrence && occurrence.getTime() >= from.getTime() && occurrence.getTime() < endMs) {
+        occurrences.push(occurrence);
+      }
+    }
+  }
+  return occurrences.sort((a, b) => a.getTime() - b.getTime());
+};
+
+module.exports = {
+  formatZonedDateTime,
+  zonedTimeToUtc,
+  resolveZonedTime,
+  listDailyOccurrences
+};
+
+export {};
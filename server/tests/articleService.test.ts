@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { extractArticleFromHtml, formatReadingTime } = require('../src/services/articleService');
+
+const paragraph = (words: number, seed: string) => Array.from({ length: words }, (_, i) => `${seed}${i}`).join(' ');
+
+describe('articleService', () => {
+    it('extracts the main article body and skips navigation and sidebars', () => {
+        const html = `
+            <html><body>
+                <nav><p>Home, World, Politics, Sports, Business and more navigation links here</p></nav>
+                <article class="story-body">
+                    <p>The city council approved the new transit plan on Tuesday, ending months of debate over funding.</p>
+                    <p>${paragraph(300, 'body')}</p>
+                </article>
+                <aside class="sidebar"><p>Subscribe to our newsletter for the latest updates, offers and news.</p></aside>
+            </body></html>`;
+
+        const article = extractArticleFromHtml(html);
+        expect(article).not.toBeNull();
+        expect(article.lead).toBe('The city council approved the new transit plan on Tuesday, ending months of debate over funding.');
+        expect(article.text).not.toContain('navigation');
+        expect(article.text).not.toContain('newsletter');
+        expect(article.wordCount).toBe(316);
+        expect(article.readingTimeMinutes).toBe(2);
+    });
+
+    it('returns null when the page has no readable paragraphs', () => {
+        expect(extractArticleFromHtml('<html><body><div>Short</div></body></html>')).toBeNull();
+        expect(extractArticleFromHtml('')).toBeNull();
+    });
+
+    it('formats reading time for templates', () => {
+        expect(formatReadingTime(4)).toBe('4 min read');
+        expect(formatReadingTime(null)).toBe('');
+    });
+});
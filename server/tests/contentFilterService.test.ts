@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { evaluateFilterRules, isFilterSkipReason } = require('../src/services/contentFilterService');
+const { schemas } = require('../src/middleware/validation');
+
+const item = {
+    title: 'Election results announced',
+    description: 'Live coverage from the capital',
+    link: 'https://example.com/news/election',
+    author: 'Jane Reporter',
+    categories: ['Politics', 'World']
+};
+
+describe('contentFilterService', () => {
+    it('allows everything when no rules are configured', () => {
+        expect(evaluateFilterRules(null, item).allowed).toBe(true);
+        expect(evaluateFilterRules({ operator: 'and', groups: [] }, item).allowed).toBe(true);
+    });
+
+    it('skips items matching an exclude keyword and reports the rule', () => {
+        const rules = {
+            operator: 'and',
+            groups: [{ operator: 'and', rules: [{ action: 'exclude', type: 'keyword', value: 'election', field: 'title' }] }]
+        };
+        const result = evaluateFilterRules(rules, item);
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toBe('Filtered: matched exclude keyword "election" in title');
+        expect(isFilterSkipReason(result.reason)).toBe(true);
+    });
+
+    it('combines OR groups of categories and authors', () => {
+        const rules = {
+            operator: 'or',
+            groups: [
+                { operator: 'and', rules: [{ action: 'include', type: 'category', value: 'sports' }] },
+                { operator: 'or', rules: [{ action: 'include', type: 'author', value: 'jane' }] }
+            ]
+        };
+        expect(evaluateFilterRules(rules, item).allowed).toBe(true);
+        expect(evaluateFilterRules(rules, { ...item, author: 'Someone Else' }).allowed).toBe(false);
+    });
+
+    it('evaluates regex rules and ignores disabled rule sets', () => {
+        const rules = {
+            operator: 'and',
+            groups: [{ operator: 'and', rules: [{ action: 'include', type: 'regex', value: '^live\\b', field: 'description' }] }]
+        };
+        expect(evaluateFilterRules(rules, item).allowed).toBe(true);
+        expect(evaluateFilterRules(rules, { ...item, description: 'Recorded earlier' }).allowed).toBe(false);
+        expect(evaluateFilterRules({ ...rules, enabled: false }, { ...item, description: 'Recorded earlier' }).allowed).toBe(true);
+    });
+
+    it('rejects regex rules that backtrack catastrophically and never runs stored ones', () => {
+        const ruleSet = (value: string) => ({
+            operator: 'and',
+            groups: [{ operator: 'and', rules: [{ action: 'exclude', type: 'regex', value, field: 'title' }] }]
+        });
+        for (const value of ['(a+)+$', 'a*a*a*b']) {
+            const parsed = schemas.scheduleFilterRules.safeParse(ruleSet(value));
+            expect(parsed.success).toBe(false);
+            expect(parsed.error.issues[0]).toMatchObject({ path: ['groups', 0, 'rules', 0, 'value'] });
+            expect(parsed.error.issues[0].message).toMatch(/^Unsafe regular expression/);
+        }
+        expect(schemas.scheduleFilterRules.safeParse(ruleSet('^live\\b')).success).toBe(true);
+
+        const started = Date.now();
+        expect(evaluateFilterRules(ruleSet('(a+)+$'), { ...item, title: `${'a'.repeat(5000)}!` }).allowed).toBe(true);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { createHash } = require('crypto');
+const { findBestTitleMatch } = require('../src/services/dedupeService');
+const { normalizeText, hashContent } = require('../src/utils/normalize');
+
+describe('dedupeService', () => {
+    it('normalizes Hebrew, Yiddish, Arabic and Cyrillic titles instead of emptying them', () => {
+        // Niqqud, final letters and the maqaf/geresh punctuation fold away.
+        expect(normalizeText('שָׁלוֹם עֲלֵיכֶם')).toBe('שלומ עליכמ');
+        expect(normalizeText('צה״ל: בית־ספר נסגר')).toBe('צהל ביתספר נסגר');
+        expect(normalizeText('װאַסער')).toBe('וואסער');
+        // Harakat, tatweel, hamza and Arabic-Indic digits.
+        expect(normalizeText('أخبـــارُ اليوم ٢٠٢٤')).toBe('اخبار اليوم 2024');
+        expect(normalizeText('Ёлка НОВОСТИ')).toBe('елка новости');
+        expect(normalizeText('\u202bשלום\u202c \u200fעולם')).toBe('שלומ עולמ');
+        // Plain ASCII titles keep their previous form.
+        expect(normalizeText('Breaking: "Markets" rally, 5% up!')).toBe('breaking markets rally 5 up');
+    });
+
+    it('keeps content hashes on the previous ASCII form so stored hashes still match', () => {
+        const sha256 = (input: string) => createHash('sha256').update(input).digest('hex');
+        expect(hashContent('Café déjà vu', 'https://example.com/a')).toBe(sha256('caf dj vu|example.com/a'));
+        expect(hashContent('שלום עולם', 'https://example.com/a')).toBe(sha256('|example.com/a'));
+    });
+
+    it('matches rewritten titles in right-to-left and Cyrillic scripts', () => {
+        const candidates = [
+            { id: 'he', title: 'ראש הממשלה נפגש עם נשיא ארה"ב בוושינגטון' },
+            { id: 'ar', title: 'رئيس الوزراء يلتقي الرئيس الأمريكي في واشنطن' },
+            { id: 'ru', title: 'Премьер-министр встретился с президентом США в Вашингтоне' }
+        ];
+        const threshold = 0.88;
+        const best = (title: string) => findBestTitleMatch(normalizeText(title), candidates, threshold)?.matchedFeedItemId;
+
+        expect(best('רֹאשׁ הַמֶּמְשָׁלָה נִפְגַּשׁ עִם נְשִׂיא אַרְהַ"ב בְּוָשִׁינְגְטוֹן')).toBe('he');
+        expect(best('رئيسُ الوزراءِ يلتقي الرئيسَ الأمريكيَّ في واشنطن')).toBe('ar');
+        expect(best('ПРЕМЬЕР-МИНИСТР встретился с президентом США в Вашингтоне!')).toBe('ru');
+        expect(best('מזג האוויר: גשם כבד צפוי מחר בצפון')).toBeUndefined();
+        expect(best('Погода: завтра на севере ожидается сильный дождь')).toBeUndefined();
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+
+const {
+    normalizeDeliveryWindow,
+    resolveDeliveryWindow,
+    getDeliveryWindowStatus
+} = require('../src/utils/deliveryWindow');
+
+describe('deliveryWindow', () => {
+    it('normalizes stored windows and resolves target overrides', () => {
+        expect(normalizeDeliveryWindow({ start: '07:00', end: '23:00', days: [5, 1, 1, 9] }, 'Asia/Jerusalem')).toEqual({
+            start: '07:00',
+            end: '23:00',
+            days: [1, 5],
+            timezone: 'Asia/Jerusalem',
+            digest: false
+        });
+        expect(normalizeDeliveryWindow({ start: '7am', end: '23:00' })).toBeNull();
+        expect(normalizeDeliveryWindow({ enabled: false, start: '07:00', end: '23:00' })).toBeNull();
+
+        const globalDefault = { start: '07:00', end: '23:00', timezone: 'UTC' };
+        expect(resolveDeliveryWindow(null, globalDefault)).toMatchObject({ start: '07:00', end: '23:00' });
+        expect(resolveDeliveryWindow({ enabled: false }, globalDefault)).toBeNull();
+        expect(resolveDeliveryWindow({ start: '09:00', end: '17:00' }, globalDefault)).toMatchObject({ start: '09:00' });
+    });
+
+    it('holds quiet hours until the window opens in its timezone', () => {
+        const window = normalizeDeliveryWindow({ start: '07:00', end: '23:00', timezone: 'Asia/Jerusalem' });
+        // 20:00 UTC is 23:00 in Jerusalem (UTC+3 in October).
+        const late = getDeliveryWindowStatus(window, new Date('2026-10-19T20:30:00Z'));
+        expect(late.open).toBe(false);
+        expect(late.opensAt.toISOString()).toBe('2026-10-20T04:00:00.000Z');
+        expect(late.reason).toBe('Outside delivery window; opens Tue 07:00 (Asia/Jerusalem)');
+        expect(getDeliveryWindowStatus(window, new Date('2026-10-20T04:00:00Z')).open).toBe(true);
+        expect(getDeliveryWindowStatus(null).open).toBe(true);
+    });
+
+    it('mutes whole days and handles windows past midnight', () => {
+        const weekdays = normalizeDeliveryWindow({ start: '00:00', end: '00:00', days: [1, 2, 3, 4, 5], timezone: 'UTC' });
+        const saturday = getDeliveryWindowStatus(weekdays, new Date('2026-10-24T12:00:00Z'));
+        expect(saturday.open).toBe(false);
+        expect(saturday.opensAt.toISOString()).toBe('2026-10-26T00:00:00.000Z');
+        expect(getDeliveryWindowStatus(weekdays, new Date('2026-10-23T23:59:00Z')).open).toBe(true);
+
+        const evenings = normalizeDeliveryWindow({ start: '18:00', end: '02:00', days: [5], timezone: 'UTC' });
+        expect(getDeliveryWindowStatus(evenings, new Date('2026-10-24T01:00:00Z')).open).toBe(true);
+        expect(getDeliveryWindowStatus(evenings, new Date('2026-10-24T03:00:00Z')).open).toBe(false);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { readDigestConfig, renderDigestMessage, validateDigestConfig } = require('../src/services/digestService');
+
+describe('digestService', () => {
+    const items = [
+        { title: 'First', link: 'https://example.com/1' },
+        { title: 'Second', link: 'https://example.com/2' },
+        { title: 'Third', link: 'https://example.com/3' }
+    ];
+
+    it('only reads enabled configs and fills in defaults', () => {
+        expect(readDigestConfig(null)).toBeNull();
+        expect(readDigestConfig({ enabled: false, max_items: 3 })).toBeNull();
+        const config = readDigestConfig({ enabled: true, max_items: 500, item_template: '  ' });
+        expect(config.max_items).toBe(50);
+        expect(config.item_template).toBe('• {{title}}\n{{link}}');
+    });
+
+    it('renders header, items, overflow line and footer', () => {
+        const config = readDigestConfig({
+            enabled: true,
+            header: '*{{schedule_name}}* ({{total}})',
+            item_template: '{{index}}. {{title}}',
+            footer: 'Bye',
+            overflow_url: 'https://example.com/all',
+            max_items: 2
+        });
+        const digest = renderDigestMessage(config, items, { scheduleName: 'Morning' });
+        expect(digest.text).toBe('*Morning* (3)\n\n1. First\n2. Second\n\n…and 1 more: https://example.com/all\n\nBye');
+        expect(digest.includedCount).toBe(2);
+        expect(digest.overflowCount).toBe(1);
+    });
+
+    it('reports template syntax errors per part', () => {
+        const errors = validateDigestConfig({ header: 'ok', footer: '{{#if x}}' });
+        expect(errors.length).toBeGreaterThan(0);
+        expect(errors[0].field).toBe('footer');
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+
+const {
+    mergeFeedRequestAuth,
+    mergeFeedRequestAuthForUrl,
+    sealFeedRequestAuth,
+    readFeedRequestAuth,
+    describeFeedRequestAuth,
+    applyFeedRequestAuth
+} = require('../src/services/feedAuthService');
+
+describe('feedAuthService', () => {
+    const stored = {
+        headers: [{ name: 'X-Api-Token', value: 'secret-header' }],
+        basic: { username: 'reader', password: 'hunter2' },
+        api_key: { param: 'key', value: 'abc123' }
+    };
+
+    it('keeps stored secrets when fields are left blank', () => {
+        const merged = mergeFeedRequestAuth(stored, {
+            headers: [{ name: 'X-Api-Token', value: '' }],
+            basic: { username: 'reader', password: '' },
+            api_key: { param: 'key' }
+        });
+        expect(merged).toEqual(stored);
+        expect(mergeFeedRequestAuth(stored, undefined)).toBe(stored);
+        expect(mergeFeedRequestAuth(stored, null)).toBeNull();
+    });
+
+    it('masks secret values in the summary', () => {
+        const summary = describeFeedRequestAuth(stored);
+        expect(summary).toEqual({
+            headers: [{ name: 'X-Api-Token', has_value: true }],
+            basic: { username: 'reader', has_password: true },
+            has_bearer_token: false,
+            api_key: { param: 'key', has_value: true },
+            has_cookies: false
+        });
+        expect(JSON.stringify(summary)).not.toMatch(/secret-header|hunter2|abc123/);
+    });
+
+    it('applies credentials only to the feed origin', () => {
+        const feed = { url: 'https://news.example.com/feed.xml', requestAuth: stored };
+        const applied = applyFeedRequestAuth(feed, 'https://news.example.com/article/1', { 'User-Agent': 'bot' });
+        expect(applied.url).toBe('https://news.example.com/article/1?key=abc123');
+        expect(applied.headers).toEqual({
+            'User-Agent': 'bot',
+            'X-Api-Token': 'secret-header',
+            Authorization: `Basic ${Buffer.from('reader:hunter2').toString('base64')}`
+        });
+        expect(applied.sensitiveHeaders).toEqual(['X-Api-Token']);
+
+        const elsewhere = applyFeedRequestAuth(feed, 'https://cdn.example.org/image.jpg', { 'User-Agent': 'bot' });
+        expect(elsewhere).toEqual({ url: 'https://cdn.example.org/image.jpg', headers: { 'User-Agent': 'bot' }, sensitiveHeaders: [] });
+    });
+
+    it('keeps stored secrets away from another origin', () => {
+        const savedFeed = { url: 'https://news.example.com/feed.xml', requestAuth: stored };
+        const blankSecrets = {
+            headers: [{ name: 'X-Api-Token', value: '' }],
+            basic: { username: 'reader', password: '' },
+            api_key: { param: 'key' }
+        };
+
+        expect(mergeFeedRequestAuthForUrl(savedFeed, 'https://news.example.com/other.xml', blankSecrets)).toEqual(stored);
+
+        const foreign = 'https://attacker.example.net/collect';
+        expect(() => mergeFeedRequestAuthForUrl(savedFeed, foreign, undefined)).toThrow(/enter them again/);
+        expect(() => mergeFeedRequestAuthForUrl(savedFeed, foreign, blankSecrets)).toThrow(/enter them again/);
+        expect(mergeFeedRequestAuthForUrl(savedFeed, foreign, null)).toBeNull();
+
+        // Credentials typed again for the new origin are used as given.
+        const retyped = mergeFeedRequestAuthForUrl(savedFeed, foreign, {
+            headers: [],
+            basic: null,
+            bearer_token: 'new-token',
+            api_key: null,
+            cookies: ''
+        });
+        expect(retyped).toEqual({ bearer_token: 'new-token' });
+        const applied = applyFeedRequestAuth({ url: foreign, requestAuth: retyped }, foreign);
+        expect(JSON.stringify(applied)).not.toMatch(/secret-header|hunter2|abc123/);
+    });
+
+    it('round-trips sealed settings', () => {
+        const previousKey = process.env.FEED_CREDENTIALS_KEY;
+        process.env.FEED_CREDENTIALS_KEY = 'test-key';
+        try {
+            const sealed = sealFeedRequestAuth(stored);
+            expect(sealed).not.toContain('hunter2');
+            expect(readFeedRequestAuth({ request_auth_encrypted: sealed })).toEqual(stored);
+        } finally {
+            if (previousKey === undefined) delete process.env.FEED_CREDENTIALS_KEY;
+            else process.env.FEED_CREDENTIALS_KEY = previousKey;
+        }
+    });
+});
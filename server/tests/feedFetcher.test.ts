@@ -0,0 +1,156 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+// Serve fixtures instead of the network; DNS checks are covered by outboundUrl itself.
+jest.mock('axios', () => ({ request: jest.fn() }));
+jest.mock('../src/utils/outboundUrl', () => ({
+    assertSafeOutboundUrl: async (value: string) => new URL(value)
+}));
+
+const axios = require('axios');
+const { fetchFeedItemsWithMeta, parseDateWithFormat } = require('../src/services/feedFetcher');
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name));
+
+type FakeResponse = { status?: number; headers?: Record<string, string>; body: string | Buffer };
+
+const serve = (routes: Record<string, FakeResponse>) => {
+    const requested: string[] = [];
+    axios.request.mockImplementation(async (config: { url: string; responseType?: string }) => {
+        requested.push(config.url);
+        const route = routes[config.url];
+        if (!route) return { status: 404, headers: {}, data: '' };
+        const body = Buffer.isBuffer(route.body) ? route.body : Buffer.from(route.body);
+        return {
+            status: route.status ?? 200,
+            headers: route.headers || {},
+            data: config.responseType === 'arraybuffer' ? body : body.toString('utf8')
+        };
+    });
+    return requested;
+};
+
+describe('feedFetcher sitemaps', () => {
+    beforeEach(() => {
+        axios.request.mockReset();
+    });
+
+    it('reads Google News sitemap entries newest first', async () => {
+        serve({ 'https://news.example.com/news-sitemap.xml': { body: fixture('sitemaps/news-sitemap.xml') } });
+
+        const { items, meta } = await fetchFeedItemsWithMeta({ url: 'https://news.example.com/news-sitemap.xml', type: 'sitemap' });
+
+        expect(meta.detectedType).toBe('sitemap');
+        expect(items.map((item: { url: string }) => item.url)).toEqual([
+            'https://news.example.com/sport/local-team-wins-cup',
+            'https://news.example.com/politics/budget-passes',
+            'https://news.example.com/weather/2026'
+        ]);
+        expect(items[0].title).toBe('Local team wins cup');
+        expect(items[1]).toMatchObject({
+            title: 'Budget passes after late-night vote',
+            author: 'Example News',
+            imageUrl: 'https://news.example.com/images/budget.jpg',
+            categories: ['budget', 'parliament']
+        });
+        expect(new Date(items[1].publishedAt).toISOString()).toBe('2026-10-18T08:30:00.000Z');
+        expect(items[1].raw).toMatchObject({ news_publication: 'Example News', sitemap_lastmod: '2026-10-18T09:00:00Z' });
+    });
+
+    it('follows sitemap indexes into plain and gzipped child sitemaps', async () => {
+        const requested = serve({
+            'https://news.example.com/sitemap.xml': { body: fixture('sitemaps/sitemap-index.xml') },
+            'https://news.example.com/sitemaps/2026-10.xml.gz': { body: zlib.gzipSync(fixture('sitemaps/news-sitemap.xml')) },
+            'https://news.example.com/sitemaps/2026-08.xml': {
+                body: '<urlset><url><loc>https://news.example.com/archive/summer-recap</loc><lastmod>2026-08-30</lastmod></url></urlset>'
+            }
+        });
+
+        const { items } = await fetchFeedItemsWithMeta({ url: 'https://news.example.com/sitemap.xml', type: 'sitemap' });
+
+        // The most recently modified child is fetched first.
+        expect(requested.slice(1)).toEqual([
+            'https://news.example.com/sitemaps/2026-10.xml.gz',
+            'https://news.example.com/sitemaps/2026-08.xml'
+        ]);
+        expect(items).toHaveLength(4);
+        expect(items[items.length - 1]).toMatchObject({ title: 'Summer recap', url: 'https://news.example.com/archive/summer-recap' });
+    });
+
+    it('discovers sitemaps from robots.txt when a page advertises no feed', async () => {
+        serve({
+            'https://news.example.com/': { body: '<html><head><title>Example News</title></head><body>Front page</body></html>' },
+            'https://news.example.com/robots.txt': { body: fixture('sitemaps/robots.txt') },
+            'https://news.example.com/news-sitemap.xml': { body: fixture('sitemaps/news-sitemap.xml') }
+        });
+
+        const { items, meta } = await fetchFeedItemsWithMeta({ url: 'https://news.example.com/', type: 'html' });
+
+        // Both sitemaps are listed; the news sitemap wins.
+        expect(meta).toMatchObject({
+            detectedType: 'sitemap',
+            sourceUrl: 'https://news.example.com/news-sitemap.xml',
+            discoveredFromUrl: 'https://news.example.com/'
+        });
+        expect(items).toHaveLength(3);
+    });
+});
+
+describe('feedFetcher HTML selectors', () => {
+    beforeEach(() => {
+        axios.request.mockReset();
+    });
+
+    it('parses dates with a format, keeping bracketed text literal', () => {
+        expect(parseDateWithFormat('18/10/2026 21:05', 'DD/MM/YYYY HH:mm')).toBe('2026-10-18T21:05:00.000Z');
+        expect(parseDateWithFormat('Published October 18, 2026 at 9:05 pm', '[Published] MMMM D, YYYY [at] h:mm a'))
+            .toBe('2026-10-18T21:05:00.000Z');
+        expect(parseDateWithFormat('Oct 3 2026 [12:00]', 'MMM D YYYY [[]HH:mm]')).toBe('2026-10-03T12:00:00.000Z');
+        expect(parseDateWithFormat('yesterday', 'DD/MM/YYYY')).toBeUndefined();
+        expect(parseDateWithFormat('Foo 3 2026', 'MMM D YYYY')).toBeUndefined();
+    });
+
+    it('scrapes items with selectors from a listing page', async () => {
+        serve({ 'https://news.example.com/latest': { body: fixture('listing.html') } });
+
+        const { items, meta } = await fetchFeedItemsWithMeta({
+            url: 'https://news.example.com/latest',
+            type: 'html',
+            parseConfig: {
+                itemSelector: 'li.story',
+                titleSelector: '.headline',
+                linkSelector: 'a.headline@href',
+                dateSelector: '.byline',
+                dateFormat: 'MMMM D, YYYY [at] h:mm a'
+            }
+        });
+
+        expect(meta).toMatchObject({ detectedType: 'html', sourceUrl: 'https://news.example.com/latest' });
+        expect(items).toHaveLength(2);
+        expect(items[0]).toMatchObject({
+            title: 'Summit opens in Geneva',
+            url: 'https://news.example.com/world/summit-opens',
+            imageUrl: 'https://news.example.com/img/summit.jpg',
+            publishedAt: '2026-10-18T21:05:00.000Z'
+        });
+        expect(items[0].raw).toMatchObject({ published_input: 'Published October 18, 2026 at 9:05 pm' });
+        expect(items[1]).toMatchObject({ title: 'New chip announced', publishedAt: '2026-10-17T06:00:00.000Z' });
+    });
+
+    it('reads attribute dates without a format', async () => {
+        serve({ 'https://news.example.com/latest': { body: fixture('listing.html') } });
+
+        const { items } = await fetchFeedItemsWithMeta({
+            url: 'https://news.example.com/latest',
+            type: 'html',
+            parseConfig: { itemSelector: 'li.story', dateSelector: 'time' }
+        });
+
+        expect(items.map((item: { title: string }) => item.title)).toEqual(['Summit opens in Geneva', 'New chip announced']);
+        expect(items[0].publishedAt).toBeUndefined();
+        expect(new Date(items[1].publishedAt).toISOString()).toBe('2026-10-17T06:00:00.000Z');
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { detectImportFormat, parseOpmlFeeds, parseCsvFeeds, buildOpmlExport } = require('../src/services/feedImportService');
+
+describe('feedImportService', () => {
+    it('reads nested OPML folders and our namespaced settings', () => {
+        const opml = `<?xml version="1.0"?>
+<opml version="2.0" xmlns:newsbot="urn:whatsapp-news-bot:opml">
+  <body>
+    <outline text="World">
+      <outline text="Europe">
+        <outline text="Wire" xmlUrl="https://wire.example.com/rss" newsbot:priority="5"
+          newsbot:cleaning="{&quot;stripUtm&quot;:false}"/>
+      </outline>
+    </outline>
+    <outline title="Blog" xmlUrl="https://blog.example.com/feed" type="rss"/>
+  </body>
+</opml>`;
+        expect(detectImportFormat(opml)).toBe('opml');
+        expect(parseOpmlFeeds(opml)).toEqual([
+            {
+                name: 'Wire',
+                url: 'https://wire.example.com/rss',
+                folder: 'World / Europe',
+                type: null,
+                priority: 5,
+                cleaning: { stripUtm: false }
+            },
+            { name: 'Blog', url: 'https://blog.example.com/feed', folder: null, type: 'rss' }
+        ]);
+        expect(() => parseOpmlFeeds('<rss></rss>')).toThrow('Not an OPML document');
+    });
+
+    it('reads CSV with or without a header row', () => {
+        expect(parseCsvFeeds('name,url,folder\n"Wire, Inc",https://wire.example.com/rss,News\n')).toEqual([
+            { name: 'Wire, Inc', url: 'https://wire.example.com/rss', folder: 'News', type: null }
+        ]);
+        expect(detectImportFormat('https://a.example.com/feed')).toBe('csv');
+        expect(parseCsvFeeds('https://a.example.com/feed\r\nBlog,https://b.example.com/rss')).toEqual([
+            { name: '', url: 'https://a.example.com/feed', folder: null, type: null },
+            { name: 'Blog', url: 'https://b.example.com/rss', folder: null, type: null }
+        ]);
+    });
+
+    it('round-trips names, folders and settings through export', () => {
+        const feeds = [
+            {
+                name: 'Wire & Co',
+                url: 'https://wire.example.com/api?x=1&y=2',
+                type: 'json',
+                folder: 'World / Europe',
+                priority: 3,
+                fetch_full_article: true,
+                parse_config: { titlePath: 'title.rendered' },
+                cleaning: { removePhrases: ['Read "more"'] }
+            },
+            { name: 'Blog', url: 'https://blog.example.com/feed', type: 'rss', folder: null, parse_config: null }
+        ];
+        expect(parseOpmlFeeds(buildOpmlExport(feeds))).toEqual([
+            {
+                name: 'Wire & Co',
+                url: 'https://wire.example.com/api?x=1&y=2',
+                type: 'json',
+                folder: 'World / Europe',
+                priority: 3,
+                fetch_full_article: true,
+                parse_config: { titlePath: 'title.rendered' },
+                cleaning: { removePhrases: ['Read "more"'] }
+            },
+            { name: 'Blog', url: 'https://blog.example.com/feed', type: 'rss', folder: null }
+        ]);
+    });
+
+    it('keeps slashes inside folder names through an import and export round trip', () => {
+        const opml = `<?xml version="1.0"?>
+<opml version="2.0"><body>
+  <outline text="Music">
+    <outline text="AC/DC"><outline text="Fan site" xmlUrl="https://acdc.example.com/rss"/></outline>
+    <outline text="Arts / Culture"><outline text="Review" xmlUrl="https://review.example.com/rss"/></outline>
+  </outline>
+</body></opml>`;
+        const imported = parseOpmlFeeds(opml);
+        expect(imported.map((entry: { folder: string }) => entry.folder)).toEqual(['Music / AC/DC', 'Music / Arts/Culture']);
+
+        const exported = buildOpmlExport(imported);
+        expect(exported).toContain('<outline text="AC/DC" title="AC/DC">');
+        expect(exported).not.toContain('text="DC"');
+        expect(parseOpmlFeeds(exported).map((entry: { folder: string }) => entry.folder)).toEqual([
+            'Music / AC/DC',
+            'Music / Arts/Culture'
+        ]);
+    });
+});
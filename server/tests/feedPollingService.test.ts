@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { parseRetryAfter, parseCacheMaxAge, learnPublishProfile, planNextPoll } = require('../src/services/feedPollingService');
+
+const now = new Date('2026-03-10T12:10:00Z');
+
+// A feed that posts every 20 minutes between 09:00 and 17:00 UTC on weekdays.
+const busyDaytimeDates = () => {
+    const dates: string[] = [];
+    for (let day = 1; day <= 5; day += 1) {
+        for (let minute = 9 * 60; minute < 17 * 60; minute += 20) {
+            dates.push(new Date(Date.UTC(2026, 2, 4 + day, 0, minute)).toISOString());
+        }
+    }
+    return dates;
+};
+
+describe('feedPollingService', () => {
+    it('parses Retry-After and Cache-Control headers', () => {
+        expect(parseRetryAfter('120', now)).toBe(120);
+        expect(parseRetryAfter('Tue, 10 Mar 2026 12:15:00 GMT', now)).toBe(300);
+        expect(parseRetryAfter('garbage', now)).toBeNull();
+        expect(parseCacheMaxAge('public, max-age=900')).toBe(900);
+        expect(parseCacheMaxAge('max-age=600, s-maxage=1200')).toBe(1200);
+        expect(parseCacheMaxAge('no-cache, max-age=900')).toBeNull();
+    });
+
+    it('learns the publishing rhythm and tightens polling during active hours', () => {
+        const profile = learnPublishProfile(busyDaytimeDates(), now);
+        expect(profile.medianGapSeconds).toBe(1200);
+        expect(profile.activeHours).toContain(12);
+        expect(profile.activeHours).not.toContain(3);
+
+        const active = planNextPoll({ fetchIntervalSeconds: 900, outcome: 'ok', profile, now });
+        expect(active.delaySeconds).toBe(300);
+        expect(active.reason).toBe('active hours');
+
+        const quiet = planNextPoll({ fetchIntervalSeconds: 900, outcome: 'ok', profile, now: new Date('2026-03-10T03:00:00Z') });
+        expect(quiet.delaySeconds).toBe(900);
+        expect(quiet.reason).toBe('quiet hours');
+    });
+
+    it('backs off exponentially on errors and repeated 304s', () => {
+        expect(planNextPoll({ fetchIntervalSeconds: 900, outcome: 'error', consecutiveFailures: 1, now }).delaySeconds).toBe(60);
+        expect(planNextPoll({ fetchIntervalSeconds: 900, outcome: 'error', consecutiveFailures: 4, now }).delaySeconds).toBe(480);
+        expect(planNextPoll({ fetchIntervalSeconds: 900, outcome: 'error', consecutiveFailures: 20, now }).delaySeconds).toBe(21600);
+        expect(planNextPoll({ fetchIntervalSeconds: 900, outcome: 'not_modified', consecutiveNotModified: 2, now }).delaySeconds).toBe(3600);
+    });
+
+    it('honours Retry-After and Cache-Control max-age as lower bounds', () => {
+        const retry = planNextPoll({ fetchIntervalSeconds: 300, outcome: 'error', consecutiveFailures: 1, retryAfter: '1800', now });
+        expect(retry.delaySeconds).toBe(1800);
+        expect(retry.reason).toBe('retry-after');
+        expect(retry.nextPollAt).toBe('2026-03-10T12:40:00.000Z');
+
+        const cached = planNextPoll({ fetchIntervalSeconds: 300, outcome: 'ok', cacheControl: 'max-age=1200', now });
+        expect(cached.delaySeconds).toBe(1200);
+        expect(cached.reason).toBe('cache max-age');
+
+        const pushed = planNextPoll({ fetchIntervalSeconds: 300, outcome: 'ok', pushActive: true, now });
+        expect(pushed.delaySeconds).toBe(3600);
+        expect(pushed.reason).toBe('websub push active');
+    });
+});
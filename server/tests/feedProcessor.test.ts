@@ -0,0 +1,103 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('axios', () => ({ request: jest.fn() }));
+jest.mock('../src/utils/outboundUrl', () => ({
+    assertSafeOutboundUrl: async (value: string) => new URL(value)
+}));
+jest.mock('../src/services/settingsService', () => ({ getSettings: async () => ({}) }));
+
+// Minimal supabase stand-in: lookups return `stored[table]`, everything else resolves empty,
+// and writes are recorded.
+const updates: Array<{ table: string; values: Record<string, unknown> }> = [];
+const inserts: Array<{ table: string; values: Record<string, unknown> }> = [];
+const stored: Record<string, Record<string, unknown>> = {};
+jest.mock('../src/db/supabase', () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const query: Record<string, unknown> = {};
+            for (const method of ['select', 'eq', 'in', 'not', 'order', 'limit']) {
+                query[method] = () => query;
+            }
+            query.update = (values: Record<string, unknown>) => {
+                updates.push({ table, values });
+                return query;
+            };
+            query.insert = (values: Record<string, unknown>) => {
+                inserts.push({ table, values });
+                return query;
+            };
+            query.single = async () => ({ data: null, error: null });
+            query.maybeSingle = async () => ({ data: stored[table] ?? null, error: null });
+            query.then = (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null });
+            return query;
+        }
+    })
+}));
+
+const axios = require('axios');
+const { fetchAndProcessFeed } = require('../src/services/feedProcessor');
+
+describe('feedProcessor', () => {
+    it('waits for Retry-After when the feed answers 429', async () => {
+        axios.request.mockImplementation(async () => ({
+            status: 429,
+            headers: { 'retry-after': '7200' },
+            data: 'Too Many Requests'
+        }));
+        const before = Date.now();
+
+        const result = await fetchAndProcessFeed({
+            id: 'feed-1',
+            url: 'https://news.example.com/rss.xml',
+            type: 'rss',
+            active: true,
+            fetch_interval: 300,
+            last_fetched_at: '2026-10-18T00:00:00Z'
+        });
+
+        const feedUpdate = updates.find((entry) => entry.table === 'feeds')?.values;
+        expect(feedUpdate).toMatchObject({
+            last_error: 'Request failed with status 429',
+            consecutive_failures: 1,
+            poll_reason: 'retry-after'
+        });
+        const delaySeconds = (Date.parse(String(feedUpdate?.next_poll_at)) - before) / 1000;
+        expect(delaySeconds).toBeGreaterThanOrEqual(7199);
+        expect(delaySeconds).toBeLessThan(7260);
+        expect(result.nextPollAt).toBe(feedUpdate?.next_poll_at);
+    });
+
+    it('updates a stored item when only its mapped fields change', async () => {
+        const rss = `<?xml version="1.0"?><rss version="2.0"><channel><title>Deals</title>
+            <item><title>Widget sale</title><link>https://shop.example.com/widget</link><guid>widget-1</guid>
+            <description>Now $12</description><pubDate>Sat, 17 Oct 2026 08:00:00 GMT</pubDate></item>
+            </channel></rss>`;
+        axios.request.mockImplementation(async (config: { responseType?: string }) => ({
+            status: 200,
+            headers: { 'content-type': 'application/rss+xml' },
+            data: config.responseType === 'arraybuffer' ? Buffer.from(rss) : rss
+        }));
+        const feed = {
+            id: 'feed-2',
+            url: 'https://shop.example.com/rss.xml',
+            type: 'rss',
+            active: true,
+            last_fetched_at: '2026-10-18T00:00:00Z',
+            field_mappings: [{ name: 'price', expression: 'match(description, /\\$\\d+/)' }]
+        };
+
+        await fetchAndProcessFeed(feed);
+        const inserted = inserts.find((entry) => entry.table === 'feed_items')?.values;
+        expect(inserted?.computed_fields).toEqual({ price: '$12' });
+
+        // Same entry, unchanged mapping: nothing to write.
+        updates.length = 0;
+        stored.feed_items = { id: 'item-1', ...inserted };
+        await fetchAndProcessFeed(feed);
+        expect(updates.filter((entry) => entry.table === 'feed_items')).toEqual([]);
+
+        // Same entry, edited mapping: the stored values are refreshed.
+        await fetchAndProcessFeed({ ...feed, field_mappings: [{ name: 'price', expression: 'upper(description)' }] });
+        expect(updates.find((entry) => entry.table === 'feed_items')?.values.computed_fields).toEqual({ price: 'NOW $12' });
+    });
+});
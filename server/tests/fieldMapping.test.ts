@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { parseFieldExpression, compileFieldMappings, evaluateFieldMappings } = require('../src/utils/fieldMapping');
+
+describe('fieldMapping', () => {
+    const item = {
+        title: 'Sale: Widget',
+        link: 'https://www.example.com/deals/widget?utm_source=x',
+        description: 'Now only $1,299.50 (was $1,500)',
+        categories: ['Deals', 'Tools']
+    };
+
+    it('computes variables with paths, regex captures and functions', () => {
+        const { mappings, errors } = compileFieldMappings([
+            { name: 'source_name', expression: 'host(link)' },
+            { name: 'price', expression: 'match(description, /\\$[\\d,.]+/)' },
+            { name: 'price_value', expression: 'number(price)' },
+            { name: 'was', expression: "match(description, /was (?<old>\\$[\\d,]+)/, 'old')" },
+            { name: 'label', expression: 'upper(concat(source_name, " / ", default(author, "staff")))' },
+            { name: 'sku', expression: '$.offers[0].sku' },
+            { name: 'first_category', expression: 'categories[0]' }
+        ]);
+        expect(errors).toEqual([]);
+        expect(evaluateFieldMappings(mappings, item, { offers: [{ sku: 'W-1' }] })).toEqual({
+            source_name: 'example.com',
+            price: '$1,299.50',
+            price_value: 1299.5,
+            was: '$1,500',
+            label: 'EXAMPLE.COM / STAFF',
+            sku: 'W-1',
+            first_category: 'Deals'
+        });
+    });
+
+    it('reports invalid mappings and leaves them out', () => {
+        const { mappings, errors } = compileFieldMappings([
+            { name: 'title', expression: 'lower(title)' },
+            { name: 'bad', expression: 'shout(title)' },
+            { name: 'needs_regex', expression: 'match(title, "Sale")' },
+            { name: 'ok', expression: 'replace(title, /sale:\\s*/i, "")' }
+        ]);
+        expect(errors).toEqual([
+            'title: "title" is a built-in variable',
+            'bad: Unknown function "shout"',
+            'needs_regex: Argument 2 of match() must be a /regex/'
+        ]);
+        expect(evaluateFieldMappings(mappings, item)).toEqual({ ok: 'Widget' });
+        expect(() => parseFieldExpression('host(link')).toThrow('Expected ")" but found end of expression');
+    });
+
+    it('rejects regexes that backtrack catastrophically', () => {
+        expect(() => parseFieldExpression('match(title, /^(a+)+$/)')).toThrow('Unsafe regular expression');
+        expect(() => parseFieldExpression('replace(title, /(\\w+\\s?)*$/, "")')).toThrow('Unsafe regular expression');
+        expect(() => parseFieldExpression('match(title, /(a|ab)*c/)')).toThrow('must not contain alternatives');
+        expect(() => parseFieldExpression('match(title, /(.)\\1/)')).toThrow('back-references are not supported');
+        // Adjacent repeats over the same characters are polynomial: seconds on a few thousand characters.
+        expect(() => parseFieldExpression('match(description, /a*a*a*b/)')).toThrow('must not match the same characters');
+        expect(() => parseFieldExpression('match(description, /a*a*a*a*a*a*b/)')).toThrow('must not match the same characters');
+        expect(() => parseFieldExpression('match(title, /^(.*) - (.*)$/)')).toThrow('must not match the same characters');
+        expect(() => parseFieldExpression('match(title, /^([^-]*) - (.*)$/)')).not.toThrow();
+        expect(() => parseFieldExpression('number(match(description, /\\d+(?:\\.\\d+)?/))')).not.toThrow();
+        expect(() => parseFieldExpression('match(title, /(?:ab){2}-([a-z]+)?(\\d+)/)')).not.toThrow();
+    });
+
+    it('reads own properties only', () => {
+        expect(() => parseFieldExpression('title.constructor')).toThrow('"constructor" cannot be read');
+        expect(() => parseFieldExpression('$["__proto__"].polluted')).toThrow('"__proto__" cannot be read');
+        const { mappings, errors } = compileFieldMappings([
+            { name: 'inherited', expression: 'title.length' },
+            { name: 'to_string', expression: '$.toString' },
+            { name: 'own', expression: 'categories[1]' }
+        ]);
+        expect(errors).toEqual([]);
+        expect(evaluateFieldMappings(mappings, item, {})).toEqual({ inherited: '', to_string: '', own: 'Tools' });
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { hebrewToGregorian, gregorianToHebrew, getYomTovDays, isHebrewLeapYear } = require('../src/utils/hebrewCalendar');
+const { getSunset, getTzeit } = require('../src/utils/zmanim');
+
+const minutesBetween = (actual: Date, expectedIso: string) => Math.abs(actual.getTime() - Date.parse(expectedIso)) / 60000;
+
+describe('hebrewCalendar', () => {
+    it('converts between the Hebrew and Gregorian calendars', () => {
+        expect(hebrewToGregorian(5786, 7, 1)).toBe('2025-09-23');
+        expect(hebrewToGregorian(5787, 7, 1)).toBe('2026-09-12');
+        expect(hebrewToGregorian(5786, 1, 15)).toBe('2026-04-02');
+        expect(hebrewToGregorian(5787, 1, 15)).toBe('2027-04-22');
+        expect(gregorianToHebrew('2026-03-03')).toEqual({ year: 5786, month: 12, day: 14 });
+        expect(gregorianToHebrew('2026-10-19')).toEqual({ year: 5787, month: 8, day: 8 });
+        expect(isHebrewLeapYear(5787)).toBe(true);
+        expect(isHebrewLeapYear(5786)).toBe(false);
+    });
+
+    it('lists second-day Yom Tov only outside Israel', () => {
+        const diaspora = getYomTovDays('2026-05-01', '2026-10-31');
+        expect(diaspora.map((day: { date: string }) => day.date)).toEqual([
+            '2026-05-22', '2026-05-23',
+            '2026-09-12', '2026-09-13', '2026-09-21',
+            '2026-09-26', '2026-09-27', '2026-10-03', '2026-10-04'
+        ]);
+        const israel = getYomTovDays('2026-05-01', '2026-10-31', { israel: true });
+        expect(israel.map((day: { title: string }) => day.title)).toEqual([
+            'Shavuot I', 'Rosh Hashana I', 'Rosh Hashana II', 'Yom Kippur', 'Sukkot I', 'Shmini Atzeret'
+        ]);
+    });
+
+    it('calculates sunset and nightfall from coordinates', () => {
+        expect(minutesBetween(getSunset('2026-06-21', 40.7128, -74.006), '2026-06-22T00:31:00Z')).toBeLessThan(2);
+        expect(minutesBetween(getSunset('2026-12-21', 31.7683, 35.2137), '2026-12-21T14:39:00Z')).toBeLessThan(2);
+        expect(minutesBetween(getSunset('2026-12-21', 51.5074, -0.1278), '2026-12-21T15:53:00Z')).toBeLessThan(2);
+        expect(getTzeit('2026-10-23', 40.7128, -74.006).getTime()).toBeGreaterThan(getSunset('2026-10-23', 40.7128, -74.006).getTime());
+        // No sunset in the Arctic summer.
+        expect(getSunset('2026-06-21', 69.65, 18.95)).toBeNull();
+    });
+});
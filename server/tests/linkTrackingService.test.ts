@@ -0,0 +1,31 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { classifyUserAgent, createLinkShortener, createShortCode } = require('../src/services/linkTrackingService');
+
+describe('linkTrackingService', () => {
+    const context = { logId: 'log-1', feedItemId: 'item-1', targetId: 'target-1', scheduleId: 'schedule-1' };
+
+    it('gives the same link in the same message the same code', () => {
+        const code = createShortCode('https://example.com/story', context);
+        expect(code).toHaveLength(10);
+        expect(createShortCode('https://example.com/story', context)).toBe(code);
+        expect(createShortCode('https://example.com/story', { ...context, logId: 'log-2' })).not.toBe(code);
+    });
+
+    it('only shortens when tracking is on for the target', () => {
+        expect(createLinkShortener({}, { id: 'target-1' }, context)).toBeNull();
+        expect(createLinkShortener({ link_tracking_enabled: true }, { id: 'target-1', short_links_enabled: false }, context)).toBeNull();
+        const shortener = createLinkShortener({ link_tracking_enabled: true }, { id: 'target-1' }, context);
+        expect(shortener.shortenUrl('https://example.com/story')).toMatch(/\/r\/[A-Za-z0-9_-]{10}$/);
+        expect(shortener.shortenUrl('mailto:news@example.com')).toBe('mailto:news@example.com');
+    });
+
+    it('tells link previews and crawlers apart from readers', () => {
+        expect(classifyUserAgent('WhatsApp/2.23.20.0 A')).toBe('preview');
+        expect(classifyUserAgent('facebookexternalhit/1.1')).toBe('preview');
+        expect(classifyUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)')).toBe('bot');
+        expect(classifyUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')).toBe('mobile');
+        expect(classifyUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0')).toBe('desktop');
+        expect(classifyUserAgent('')).toBe('unknown');
+    });
+});
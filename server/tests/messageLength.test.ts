@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { truncateAtSentence, splitMessageText, planMessageParts, fitMessageParts, readLengthLimits } = require('../src/utils/messageLength');
+
+describe('messageLength', () => {
+    const story = 'First sentence here. Second sentence follows. Third one is longer than the others.';
+
+    it('truncates at a sentence boundary with a read more link', () => {
+        const text = truncateAtSentence(story, 60, 'https://x.io/a');
+        expect(text).toBe('First sentence here.\n\nRead more: https://x.io/a');
+        expect(truncateAtSentence(story, 200, 'https://x.io/a')).toBe(story);
+        expect(Array.from(truncateAtSentence(story, 30)).length).toBeLessThanOrEqual(30);
+    });
+
+    it('splits into a caption and follow-up texts at paragraph breaks', () => {
+        const text = `${'a'.repeat(40)}\n\n${'b'.repeat(40)}\n\n${'c'.repeat(40)}`;
+        expect(splitMessageText(text, 50, 90)).toEqual(['a'.repeat(40), `${'b'.repeat(40)}\n\n${'c'.repeat(40)}`]);
+        const parts = planMessageParts(text, { kind: 'caption', strategy: 'split', limits: { caption: 50, text: 90 } });
+        expect(parts).toHaveLength(2);
+    });
+
+    it('does not cut emoji in half', () => {
+        const text = '\u{1F4F0}'.repeat(30);
+        const [first] = splitMessageText(text, 10);
+        expect(Array.from(first)).toHaveLength(10);
+        expect(first).toBe('\u{1F4F0}'.repeat(10));
+    });
+
+    it('never plans more parts than were sent when correcting', () => {
+        const text = `${'a'.repeat(40)}\n\n${'b'.repeat(40)}\n\n${'c'.repeat(40)}`;
+        const options = { kind: 'text', strategy: 'split', limits: { caption: 1024, text: 50 } };
+        expect(planMessageParts(text, options)).toHaveLength(3);
+        const parts = fitMessageParts(text, options, 2);
+        expect(parts).toEqual(['a'.repeat(40), `${'b'.repeat(40)}\n\n${'c'.repeat(40)}`]);
+    });
+
+    it('keeps the full WhatsApp text limit unless a shorter one is configured', () => {
+        expect(readLengthLimits(null)).toEqual({ caption: 1024, text: 65536 });
+        expect(readLengthLimits({ text_max_length: 4096 }).text).toBe(4096);
+        const long = 'Sentence. '.repeat(1000);
+        expect(planMessageParts(long, { kind: 'text', strategy: 'truncate', limits: readLengthLimits(null) })).toEqual([long.trim()]);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+
+const {
+    parseRecurrenceRule,
+    getRecurrenceError,
+    listRecurrenceOccurrences,
+    getNextOccurrence
+} = require('../src/utils/recurrence');
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('recurrence', () => {
+    it('parses supported RRULE parts and rejects the rest', () => {
+        const rule = parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;BYHOUR=9;BYMINUTE=30');
+        expect(rule).toMatchObject({ freq: 'MONTHLY', interval: 2, byDay: [{ weekday: 5, ordinal: -1 }], byHour: [9], byMinute: [30] });
+        expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow('Unsupported FREQ');
+        expect(() => parseRecurrenceRule('FREQ=DAILY;BYSETPOS=1')).toThrow('Unsupported RRULE part');
+        expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow('Numbered BYDAY');
+        expect(getRecurrenceError({ rrule: 'FREQ=DAILY', start: 'tomorrow' })).toMatch(/Start must be/);
+        expect(getRecurrenceError({ rrule: 'FREQ=DAILY', start: '2026-10-22T18:00', exdates: ['2026-10-23'] })).toBeNull();
+    });
+
+    it('expands weekly rules in local time with exdates and count', () => {
+        const recurrence = {
+            rrule: 'FREQ=WEEKLY;BYDAY=TH',
+            start: '2026-10-22T18:00',
+            exdates: ['2026-10-29'],
+            count: 4
+        };
+        // Thursdays at 18:00 New York time, across the November DST change; COUNT includes the skipped date.
+        expect(iso(listRecurrenceOccurrences(recurrence, 'America/New_York'))).toEqual([
+            '2026-10-22T22:00:00.000Z',
+            '2026-11-05T23:00:00.000Z',
+            '2026-11-12T23:00:00.000Z'
+        ]);
+        expect(getNextOccurrence(recurrence, 'America/New_York', new Date('2026-11-06T00:00:00Z')).toISOString()).toBe(
+            '2026-11-12T23:00:00.000Z'
+        );
+        expect(getNextOccurrence(recurrence, 'America/New_York', new Date('2026-11-13T00:00:00Z'))).toBeNull();
+    });
+
+    it('handles monthly ordinals, month days and until', () => {
+        const lastFriday = { rrule: 'FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20270131', start: '2026-11-01T09:00' };
+        expect(iso(listRecurrenceOccurrences(lastFriday, 'UTC'))).toEqual([
+            '2026-11-27T09:00:00.000Z',
+            '2026-12-25T09:00:00.000Z',
+            '2027-01-29T09:00:00.000Z'
+        ]);
+        const thirtyFirst = { rrule: 'FREQ=MONTHLY;BYMONTHDAY=31', start: '2026-10-01T07:00', count: 3 };
+        expect(iso(listRecurrenceOccurrences(thirtyFirst, 'Asia/Jerusalem'))).toEqual([
+            '2026-10-31T05:00:00.000Z',
+            '2026-12-31T05:00:00.000Z',
+            '2027-01-31T05:00:00.000Z'
+        ]);
+        const daily = { rrule: 'FREQ=DAILY;BYHOUR=7,19', start: '2026-10-20T12:00' };
+        expect(
+            iso(listRecurrenceOccurrences(daily, 'UTC', { after: new Date('2026-10-20T00:00:00Z'), before: new Date('2026-10-22T00:00:00Z') }))
+        ).toEqual(['2026-10-20T19:00:00.000Z', '2026-10-21T07:00:00.000Z', '2026-10-21T19:00:00.000Z']);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+
+const {
+    getMessageDestination,
+    getRichMessageRestriction,
+    readRichMessageInput,
+    toMessageLogFields,
+    readRichMessage,
+    resolveFileMimeType,
+    buildRichMessageContent
+} = require('../src/utils/richMessage');
+
+describe('richMessage', () => {
+    const poll = { kind: 'poll', poll: { question: 'Lunch?', options: ['Pizza', 'Falafel'], multi_select: true } };
+
+    it('builds poll and location payloads', () => {
+        expect(buildRichMessageContent(poll)).toEqual({
+            poll: { name: 'Lunch?', values: ['Pizza', 'Falafel'], selectableCount: 2 }
+        });
+        const pin = readRichMessageInput({ location: { latitude: 31.77, longitude: 35.21, name: ' Office ' } });
+        expect(buildRichMessageContent(pin)).toEqual({
+            location: { degreesLatitude: 31.77, degreesLongitude: 35.21, name: 'Office' }
+        });
+    });
+
+    it('round-trips queued messages through message_logs fields', () => {
+        const document = readRichMessageInput({ documentUrl: 'https://example.com/files/Bulletin%2012.pdf' });
+        expect(document.file_name).toBe('Bulletin 12.pdf');
+        const fields = toMessageLogFields(document);
+        expect(fields.media_type).toBe('document');
+        expect(readRichMessage(fields.message_payload, { url: fields.media_url, type: fields.media_type })).toEqual(document);
+
+        const pollFields = toMessageLogFields(poll);
+        expect(readRichMessage(pollFields.message_payload, { url: null, type: 'poll' })).toEqual(poll);
+        expect(readRichMessage(null, { url: 'https://example.com/a.jpg', type: 'image' })).toBeNull();
+    });
+
+    it('enforces channel and status restrictions', () => {
+        const channel = getMessageDestination({ phone_number: '123@newsletter' });
+        expect(channel).toBe('channel');
+        expect(getRichMessageRestriction(poll, channel)).toMatch(/single answer/);
+        expect(getRichMessageRestriction({ ...poll, poll: { ...poll.poll, multi_select: false } }, channel)).toBeNull();
+        expect(getRichMessageRestriction({ kind: 'document', url: 'x', file_name: 'a.pdf' }, channel)).toMatch(/documents/);
+        expect(getRichMessageRestriction(poll, getMessageDestination({ type: 'status' }))).toMatch(/status updates/);
+        expect(getRichMessageRestriction(poll, getMessageDestination({ type: 'group', phone_number: '1-2@g.us' }))).toBeNull();
+    });
+
+    it('detects document and audio types', () => {
+        expect(resolveFileMimeType('document', Buffer.from('%PDF-1.7'), 'https://x.io/file')).toBe('application/pdf');
+        expect(resolveFileMimeType('document', Buffer.from('PK\u0003\u0004'), 'report.docx')).toMatch(/wordprocessingml/);
+        expect(resolveFileMimeType('audio', Buffer.from('OggS\u0000'), 'note')).toBe('audio/ogg; codecs=opus');
+        expect(() => resolveFileMimeType('document', Buffer.from('hello'), 'notes.txt')).toThrow(/Unsupported document/);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { buildUpcomingShabbos, buildShabbosStatus, buildTargetShabbosStatus } = require('../src/services/shabbosService');
+
+const NEW_YORK = { city: 'New York', latitude: 40.7128, longitude: -74.006, tzid: 'America/New_York' };
+const JERUSALEM = { city: 'Jerusalem', latitude: 31.7683, longitude: 35.2137, tzid: 'Asia/Jerusalem' };
+
+const minutesBetween = (actual: Date, expectedIso: string) => Math.abs(actual.getTime() - Date.parse(expectedIso)) / 60000;
+
+describe('shabbosService', () => {
+    it('lists upcoming Shabbos and Yom Tov with calculated times', () => {
+        const upcoming = buildUpcomingShabbos({ enabled: true, location: NEW_YORK }, new Date('2026-09-10T12:00:00Z'));
+        expect(upcoming.map((period: { title: string }) => period.title)).toEqual([
+            'Rosh Hashana I / Rosh Hashana II',
+            'Shabbos',
+            'Yom Kippur',
+            'Sukkot I / Sukkot II',
+            'Shmini Atzeret / Simchat Torah'
+        ]);
+        // Candle lighting 18 minutes before the 19:13 sunset on erev Rosh Hashana; havdalah 50
+        // minutes after the 19:09 sunset on the second day.
+        expect(minutesBetween(upcoming[0].start, '2026-09-11T22:55:00Z')).toBeLessThanOrEqual(2);
+        expect(minutesBetween(upcoming[0].end, '2026-09-13T23:59:00Z')).toBeLessThanOrEqual(2);
+        expect(upcoming[0]).toMatchObject({ type: 'yomtov', location: 'New York' });
+        expect(upcoming[1]).toMatchObject({ type: 'shabbos' });
+        expect(upcoming[0].start.getUTCSeconds()).toBe(0);
+    });
+
+    it('keeps one-day Yom Tov in Israel alongside diaspora locations', () => {
+        const upcoming = buildUpcomingShabbos(
+            { enabled: true, location: NEW_YORK, additionalLocations: [JERUSALEM], havdalahMins: 0 },
+            new Date('2026-09-24T12:00:00Z'),
+            1
+        );
+        expect(upcoming.map((period: { location: string; title: string }) => `${period.location}: ${period.title}`)).toEqual([
+            'Jerusalem: Sukkot I',
+            'New York: Sukkot I / Sukkot II'
+        ]);
+        expect(upcoming[0].end.toISOString().slice(0, 10)).toBe('2026-09-26');
+        expect(upcoming[1].end.toISOString().slice(0, 10)).toBe('2026-09-27');
+    });
+
+    it('reports the status across locations and fails closed', () => {
+        const mode = { enabled: true, location: NEW_YORK, additionalLocations: [JERUSALEM] };
+        // Friday afternoon in New York is already Shabbos in Jerusalem.
+        const friday = buildShabbosStatus(mode, new Date('2026-10-23T17:00:00Z'));
+        expect(friday).toMatchObject({ isShabbos: true, type: 'shabbos' });
+        expect(friday.endsAt.toISOString().slice(0, 10)).toBe('2026-10-24');
+        expect(minutesBetween(friday.endsAt, '2026-10-24T22:53:00Z')).toBeLessThanOrEqual(2);
+        expect(buildShabbosStatus(mode, new Date('2026-10-21T12:00:00Z')).isShabbos).toBe(false);
+        expect(buildShabbosStatus({ enabled: false }, new Date('2026-10-24T12:00:00Z')).isShabbos).toBe(false);
+
+        const arctic = { enabled: true, location: { latitude: 69.65, longitude: 18.95, tzid: 'Europe/Oslo' } };
+        expect(buildShabbosStatus(arctic, new Date('2026-06-10T12:00:00Z'))).toMatchObject({ isShabbos: true, endsAt: null });
+        expect(buildShabbosStatus({ ...arctic, failClosed: false }, new Date('2026-06-10T12:00:00Z')).isShabbos).toBe(false);
+    });
+
+    it('evaluates Shabbos per target with its own location and policy', () => {
+        const mode = { enabled: true, location: NEW_YORK, policy: 'digest' };
+        // Friday 17:00 UTC: Shabbos in Jerusalem, still Friday afternoon in New York.
+        const friday = new Date('2026-10-23T17:00:00Z');
+        const jerusalemTarget = { shabbos_location: JERUSALEM, shabbos_policy: 'drop' };
+        expect(buildTargetShabbosStatus(mode, jerusalemTarget, friday)).toMatchObject({ isShabbos: true, policy: 'drop' });
+        expect(buildTargetShabbosStatus(mode, { shabbos_policy: null }, friday)).toMatchObject({ isShabbos: false, policy: 'digest' });
+        expect(buildTargetShabbosStatus({ enabled: true, location: JERUSALEM }, null, friday).policy).toBe('hold');
+
+        // Simchat Torah is Yom Tov in New York but a weekday in Jerusalem.
+        const simchatTorah = new Date('2026-10-04T12:00:00Z');
+        expect(buildTargetShabbosStatus(mode, null, simchatTorah).isShabbos).toBe(true);
+        expect(buildTargetShabbosStatus(mode, jerusalemTarget, simchatTorah).isShabbos).toBe(false);
+    });
+
+    it('holds instead of dropping when the end of Shabbos is unknown', () => {
+        // An invalid location makes the times fail; the check fails closed with no end time.
+        const mode = { enabled: true, location: { ...NEW_YORK, latitude: 95 }, policy: 'drop' };
+        const status = buildTargetShabbosStatus(mode, { shabbos_policy: 'drop' }, new Date('2026-10-21T12:00:00Z'));
+        expect(status).toMatchObject({ isShabbos: true, endsAt: null, policy: 'hold' });
+        expect(status.error).toBeTruthy();
+    });
+});
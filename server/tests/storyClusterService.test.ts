@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+
+const {
+    scoreStorySimilarity,
+    findStoryCluster,
+    formatAlsoReportedBy,
+    resolveStoryClusterDispatch
+} = require('../src/services/storyClusterService');
+
+type Row = Record<string, unknown>;
+
+// Read-only supabase stand-in that applies the filters resolveStoryClusterDispatch uses.
+const fakeSupabase = (tables: Record<string, Row[]>) => ({
+    from: (table: string) => {
+        let rows = [...(tables[table] || [])];
+        const query = {
+            select: () => query,
+            eq: (column: string, value: unknown) => ((rows = rows.filter((row) => row[column] === value)), query),
+            neq: (column: string, value: unknown) => ((rows = rows.filter((row) => row[column] !== value)), query),
+            in: (column: string, values: unknown[]) => ((rows = rows.filter((row) => values.includes(row[column]))), query),
+            gte: (column: string, value: string) => ((rows = rows.filter((row) => String(row[column]) >= value)), query),
+            then: (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null })
+        };
+        return query;
+    }
+});
+
+describe('storyClusterService', () => {
+    it('scores the same event from different outlets above unrelated stories', () => {
+        const same = scoreStorySimilarity(
+            { title: 'Earthquake of magnitude 6.1 strikes northern Japan, tsunami warning issued' },
+            { title: 'Tsunami warning issued after magnitude 6.1 earthquake strikes northern Japan' }
+        );
+        const unrelated = scoreStorySimilarity(
+            { title: 'Earthquake of magnitude 6.1 strikes northern Japan, tsunami warning issued' },
+            { title: 'Central bank holds interest rates steady for third month' }
+        );
+        expect(same).toBeGreaterThan(0.8);
+        expect(unrelated).toBeLessThan(0.1);
+    });
+
+    it('joins the best matching cluster from another feed only', () => {
+        const item = { id: 'new', feed_id: 'feed-a', title: 'City council approves new light rail line downtown' };
+        const candidates = [
+            { id: 'same-feed', feed_id: 'feed-a', title: 'City council approves new light rail line downtown' },
+            { id: 'root', feed_id: 'feed-b', title: 'Council approves downtown light rail line', story_cluster_id: 'cluster-1' },
+            { id: 'other', feed_id: 'feed-c', title: 'Local bakery wins national award' }
+        ];
+        expect(findStoryCluster(item, candidates, 0.6)).toEqual(
+            expect.objectContaining({ id: 'root', clusterId: 'cluster-1' })
+        );
+        expect(findStoryCluster(item, candidates.slice(2), 0.6)).toBeNull();
+    });
+
+    it('yields only to a higher-priority source still being delivered within the window', async () => {
+        const recent = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+        const stale = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
+        const tables = (siblingStatus: string, createdAt = recent) => ({
+            feed_items: [
+                { id: 'wire-item', feed_id: 'wire', story_cluster_id: 'story-1' },
+                { id: 'blog-item', feed_id: 'blog', story_cluster_id: 'story-1' }
+            ],
+            feeds: [
+                { id: 'wire', name: 'Wire', priority: 10 },
+                { id: 'blog', name: 'Blog', priority: 1 }
+            ],
+            message_logs: [
+                { id: 'log-wire', feed_item_id: 'wire-item', target_id: 'target-1', status: siblingStatus, created_at: createdAt }
+            ]
+        });
+        const resolve = (siblingStatus: string, createdAt?: string) =>
+            resolveStoryClusterDispatch(fakeSupabase(tables(siblingStatus, createdAt)), {
+                clusterMode: 'best_source',
+                targetId: 'target-1',
+                logId: 'log-blog',
+                feedItem: { id: 'blog-item', feed_id: 'blog', story_cluster_id: 'story-1' }
+            });
+
+        for (const status of ['pending', 'awaiting_approval']) {
+            expect(await resolve(status)).toEqual({
+                skip: true,
+                reason: 'Superseded by a higher-priority source for the same story'
+            });
+        }
+        expect((await resolve('sent')).reason).toBe('Story already sent to this target from another source');
+        for (const status of ['skipped', 'failed']) {
+            expect(await resolve(status)).toEqual({ skip: false });
+        }
+        expect(await resolve('pending', stale)).toEqual({ skip: false });
+    });
+
+    it('formats the also reported by block', () => {
+        expect(formatAlsoReportedBy([])).toBe('');
+        expect(formatAlsoReportedBy([{ name: 'Daily Post', link: 'https://example.com/a' }, { name: 'Wire' }])).toBe(
+            'Also reported by:\n• Daily Post: https://example.com/a\n• Wire'
+        );
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { renderTemplate, validateTemplate, listTemplateVariables } = require('../src/utils/templateEngine');
+
+describe('templateEngine', () => {
+    it('renders conditionals and loops', () => {
+        const template = '*{{title}}*{{#if author}}\nBy {{author}}{{else}}\nStaff{{/if}}\n{{#each categories}}#{{this}}{{#unless @last}} {{/unless}}{{/each}}';
+        expect(renderTemplate(template, { title: 'Hello', author: 'Ann', categories: ['a', 'b'] })).toBe('*Hello*\nBy Ann\n#a #b');
+        expect(renderTemplate(template, { title: 'Hello', author: '', categories: [] })).toBe('*Hello*\nStaff\n');
+    });
+
+    it('applies filters and escapes WhatsApp formatting in values', () => {
+        expect(renderTemplate('{{title | upper}}', { title: 'snake_case' })).toBe('SNAKE_⁠CASE');
+        expect(renderTemplate('{{description | truncate:10}}', { description: 'A fairly long description' })).toBe('A fairly…');
+        expect(renderTemplate('{{author | default:"Staff writer"}}', {})).toBe('Staff writer');
+        expect(
+            renderTemplate('{{pub_date | date:"ddd HH:mm" tz:"America/New_York"}}', { pub_date: '2024-01-15T17:30:00.000Z' })
+        ).toBe('Mon 12:30');
+        expect(
+            renderTemplate('{{link | shorten}}', { link: 'https://example.com/a' }, { shortenUrl: () => 'https://s.example/x' })
+        ).toBe('https://s.example/x');
+    });
+
+    it('does not read inherited properties', () => {
+        expect(renderTemplate('[{{title.length}}][{{toString}}]', { title: 'abc' })).toBe('[][]');
+        expect(validateTemplate('{{title.constructor}}')[0].message).toBe('Invalid variable name "title.constructor"');
+    });
+
+    it('reports syntax errors with positions', () => {
+        expect(validateTemplate('Hi\n  {{#if author}}x')).toEqual([{ message: 'Unclosed {{#if}}', line: 2, column: 3 }]);
+        expect(validateTemplate('{{#each tags}}{{/if}}')[0]).toEqual(
+            expect.objectContaining({ line: 1, column: 15 })
+        );
+        expect(validateTemplate('{{title | shout}}')[0].message).toBe('Unknown filter "shout"');
+        expect(validateTemplate('{{title')[0].message).toBe('Missing closing "}}"');
+        expect(validateTemplate('{{title | truncate:200}} {{#if a}}{{else}}{{/if}}')).toEqual([]);
+    });
+
+    it('renders stored templates the parser rejects with the legacy substitution', () => {
+        const legacy = 'Hot {{ take }} {{title}} {{#hashtags}} {{categories}}';
+        expect(validateTemplate(legacy)).not.toEqual([]);
+        expect(renderTemplate(legacy, { title: '*Big* news', categories: ['a', 'b'] })).toBe(
+            'Hot  *\u2060Big*\u2060 news {{#hashtags}} a, b'
+        );
+    });
+
+    it('lists top-level variables', () => {
+        expect(listTemplateVariables('{{title | upper}}{{#each categories}}{{name}}{{/each}}{{#if author}}{{/if}}')).toEqual([
+            'title',
+            'categories',
+            'author'
+        ]);
+    });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { findUnbalancedMarkers, lintTemplateMessage } = require('../src/utils/templateLint');
+
+describe('templateLint', () => {
+    it('finds open formatting markers but ignores escaped, URL and intra-word ones', () => {
+        expect(findUnbalancedMarkers('*Breaking* news')).toEqual([]);
+        expect(findUnbalancedMarkers('*Breaking news')).toEqual(['*']);
+        expect(findUnbalancedMarkers('snake_case https://example.com/a_b *\u2060x')).toEqual([]);
+    });
+
+    it('warns about unknown variables, long captions and missing media', () => {
+        const warnings = lintTemplateMessage({
+            content: '{{title}} {{subtitle}}',
+            outboundText: 'x'.repeat(1100),
+            sendMode: 'image',
+            hasMedia: true,
+            knownVariables: ['title']
+        });
+        expect(warnings.map((warning: { code: string }) => warning.code)).toEqual(['unknown_variable', 'caption_too_long']);
+
+        expect(
+            lintTemplateMessage({ content: '{{title}}', outboundText: '', sendMode: 'image_only', hasMedia: false, knownVariables: ['title'] })
+        ).toEqual([expect.objectContaining({ code: 'missing_media' })]);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { diffLines, diffTemplateRevisions } = require('../src/services/templateRevisionService');
+
+describe('templateRevisionService', () => {
+    it('diffs lines in reading order', () => {
+        expect(diffLines('*{{title}}*\n{{link}}', '*{{title}}*\n{{description}}\n{{link}}')).toEqual([
+            { type: 'equal', text: '*{{title}}*' },
+            { type: 'added', text: '{{description}}' },
+            { type: 'equal', text: '{{link}}' }
+        ]);
+        expect(diffLines('a\nb', 'a\nc')).toEqual([
+            { type: 'equal', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'c' }
+        ]);
+    });
+
+    it('reports changed settings and variants between revisions', () => {
+        const diff = diffTemplateRevisions(
+            { name: 'News', content: '{{title}}', send_mode: 'image', variants: [{ locale: 'he', content: 'א' }] },
+            { name: 'News', content: '{{title}}', send_mode: 'link_preview', variants: [{ locale: 'yi', content: 'ב' }] }
+        );
+        expect(diff.changed).toBe(true);
+        expect(diff.fields).toEqual([{ field: 'send_mode', before: 'image', after: 'link_preview' }]);
+        expect(diff.variants.map((variant: { locale: string; change: string }) => [variant.locale, variant.change])).toEqual([
+            ['he', 'removed'],
+            ['yi', 'added']
+        ]);
+        expect(diffTemplateRevisions({ name: 'a', content: 'x' }, { name: 'a', content: 'x', variants: [] }).changed).toBe(false);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+
+const {
+    pickTemplateVariant,
+    applyRtlMarks,
+    isRtlLocale,
+    detectTextDirection,
+    applyTextDirection,
+    applyTemplateVariant
+} = require('../src/services/templateVariantService');
+
+describe('templateVariantService', () => {
+    const variants = [
+        { id: 'he', locale: 'he' },
+        { id: 'en-gb', locale: 'en-gb' },
+        { id: 'yi', locale: 'yi' }
+    ];
+
+    it('picks the exact locale first, then the language', () => {
+        expect(pickTemplateVariant(variants, 'en_GB')?.id).toBe('en-gb');
+        expect(pickTemplateVariant(variants, 'he-IL')?.id).toBe('he');
+        expect(pickTemplateVariant(variants, 'en-US')).toBeNull();
+        expect(pickTemplateVariant(variants, null)).toBeNull();
+    });
+
+    it('marks non-empty lines right to left for RTL locales', () => {
+        expect(isRtlLocale('yi')).toBe(true);
+        expect(isRtlLocale('en-gb')).toBe(false);
+        expect(applyRtlMarks('123 שלום\n\nhttps://example.com')).toBe('\u200F123 שלום\n\n\u200Fhttps://example.com');
+        expect(applyRtlMarks('\u200Fשלום')).toBe('\u200Fשלום');
+    });
+
+    it('inserts direction marks for the template text direction', () => {
+        const mixed = 'Breaking news\nשלום עולם\nhttps://example.com';
+        expect(detectTextDirection('חדשות: https://example.com/a-long-english-looking-path')).toBe('rtl');
+        expect(detectTextDirection('123 456')).toBeNull();
+        expect(applyTextDirection(mixed, 'none')).toBe(mixed);
+        expect(applyTextDirection('\u200Fhello', 'ltr')).toBe('\u200Ehello');
+        expect(applyTextDirection('Plain English only', 'auto')).toBe('Plain English only');
+        expect(applyTextDirection('5 שלום\nhttps://example.com', 'auto')).toBe('\u200F5 שלום\n\u200Fhttps://example.com');
+        expect(applyTextDirection('Headline in English: שלום', 'auto')).toBe('\u200EHeadline in English: שלום');
+        expect(applyTemplateVariant({ content: 'x', text_direction: 'rtl' }, { locale: 'en', content: 'y' }).text_direction).toBe('auto');
+        expect(applyTemplateVariant({ content: 'x' }, { locale: 'yi', content: 'y' }).text_direction).toBe('rtl');
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Minimal supabase stand-in: the feed lookup returns `storedFeed` and updates are recorded.
+let storedFeed: Record<string, unknown> | null = null;
+const updates: Array<Record<string, unknown>> = [];
+jest.mock('../src/db/supabase', () => ({
+    getSupabaseClient: () => ({
+        from: () => {
+            const query: Record<string, unknown> = {};
+            for (const method of ['select', 'eq']) {
+                query[method] = () => query;
+            }
+            query.update = (values: Record<string, unknown>) => {
+                updates.push(values);
+                return query;
+            };
+            query.maybeSingle = async () => ({ data: storedFeed, error: null });
+            query.then = (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null });
+            return query;
+        }
+    })
+}));
+
+const crypto = require('crypto');
+const { verifyWebSubSignature, isWebSubPushActive, buildCallbackUrl, verifyWebSubIntent } = require('../src/services/websubService');
+const { extractWebSubLinks } = require('../src/services/feedFetcher');
+
+describe('websubService', () => {
+    it('verifies hub HMAC signatures', () => {
+        const body = Buffer.from('<feed><entry/></feed>');
+        const signature = crypto.createHmac('sha256', 'topsecret').update(body).digest('hex');
+        expect(verifyWebSubSignature('topsecret', body, `sha256=${signature}`)).toBe(true);
+        expect(verifyWebSubSignature('othersecret', body, `sha256=${signature}`)).toBe(false);
+        expect(verifyWebSubSignature('topsecret', body, 'md5=abc')).toBe(false);
+        expect(verifyWebSubSignature(null, body, `sha256=${signature}`)).toBe(false);
+    });
+
+    it('treats push as active only while the lease is valid and the hub is not quiet', () => {
+        const now = new Date('2026-03-10T12:00:00Z');
+        const feed = {
+            id: 'feed-1',
+            url: 'https://example.com/feed',
+            websub_status: 'subscribed',
+            websub_lease_expires_at: '2026-03-12T00:00:00Z',
+            websub_subscribed_at: '2026-03-09T00:00:00Z',
+            websub_last_push_at: '2026-03-10T10:00:00Z'
+        };
+        expect(isWebSubPushActive(feed, now)).toBe(true);
+        expect(isWebSubPushActive({ ...feed, websub_last_push_at: '2026-03-10T01:00:00Z' }, now)).toBe(false);
+        expect(isWebSubPushActive({ ...feed, websub_lease_expires_at: '2026-03-10T11:00:00Z' }, now)).toBe(false);
+        expect(isWebSubPushActive({ ...feed, websub_status: 'pending' }, now)).toBe(false);
+    });
+
+    it('finds hub and self links in feed documents and Link headers', () => {
+        const xml = `<?xml version="1.0"?>
+            <rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel>
+                <atom:link rel="hub" href="https://hub.example.com/" />
+                <atom:link rel="self" href="/feed.xml" type="application/rss+xml" />
+            </channel></rss>`;
+        expect(extractWebSubLinks(xml, undefined, 'https://news.example.com/feed')).toEqual({
+            hubUrl: 'https://hub.example.com/',
+            selfUrl: 'https://news.example.com/feed.xml'
+        });
+        expect(
+            extractWebSubLinks('', '<https://hub.example.org/>; rel="hub", <https://news.example.org/atom>; rel="self"')
+        ).toEqual({ hubUrl: 'https://hub.example.org/', selfUrl: 'https://news.example.org/atom' });
+    });
+
+    describe('intent verification', () => {
+        const topic = 'https://news.example.com/feed.xml';
+        const callbackToken = (secret: string) => String(buildCallbackUrl('feed-1', secret).split('/').pop());
+        const subscribeQuery = { 'hub.mode': 'subscribe', 'hub.topic': topic, 'hub.challenge': 'c-1', 'hub.lease_seconds': '315360000' };
+        const feed = {
+            id: 'feed-1',
+            active: true,
+            websub_topic_url: topic,
+            websub_secret: 'topsecret',
+            websub_status: 'pending',
+            websub_requested_at: new Date(Date.now() - 5 * 60 * 1000).toISOString()
+        };
+
+        beforeEach(() => {
+            updates.length = 0;
+        });
+
+        it('confirms our own outstanding request and caps the lease at the one we asked for', async () => {
+            storedFeed = feed;
+            const before = Date.now();
+            const result = await verifyWebSubIntent('feed-1', callbackToken('topsecret'), subscribeQuery);
+
+            expect(result).toEqual({ status: 200, body: 'c-1' });
+            expect(updates).toHaveLength(1);
+            expect(updates[0]).toMatchObject({ websub_status: 'subscribed', websub_requested_at: null });
+            const leaseSeconds = (Date.parse(String(updates[0]?.websub_lease_expires_at)) - before) / 1000;
+            expect(leaseSeconds).toBeGreaterThanOrEqual(5 * 24 * 60 * 60 - 1);
+            expect(leaseSeconds).toBeLessThan(5 * 24 * 60 * 60 + 60);
+        });
+
+        it('ignores spoofed calls without the callback token', async () => {
+            storedFeed = feed;
+            for (const token of ['', callbackToken('othersecret')]) {
+                expect(await verifyWebSubIntent('feed-1', token, subscribeQuery)).toEqual({ status: 404, body: 'Unknown subscription' });
+                expect(await verifyWebSubIntent('feed-1', token, { 'hub.mode': 'denied', 'hub.topic': topic }))
+                    .toEqual({ status: 404, body: 'Unknown subscription' });
+            }
+            expect(updates).toEqual([]);
+        });
+
+        it('does not extend a lease when no subscribe request is outstanding', async () => {
+            storedFeed = { ...feed, websub_status: 'subscribed', websub_requested_at: null };
+            expect(await verifyWebSubIntent('feed-1', callbackToken('topsecret'), subscribeQuery))
+                .toEqual({ status: 404, body: 'Subscription not requested' });
+
+            storedFeed = { ...feed, websub_requested_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() };
+            expect(await verifyWebSubIntent('feed-1', callbackToken('topsecret'), subscribeQuery))
+                .toEqual({ status: 404, body: 'Subscription not requested' });
+            expect(updates).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+
+const { zonedTimeToUtc, resolveZonedTime, formatZonedDateTime, listDailyOccurrences } = require('../src/utils/zonedTime');
+
+describe('zonedTime', () => {
+    it('reads wall-clock times in a timezone across DST changes', () => {
+        expect(zonedTimeToUtc('2026-10-22T18:00', 'America/New_York').toISOString()).toBe('2026-10-22T22:00:00.000Z');
+        expect(zonedTimeToUtc('2026-12-03T18:00', 'America/New_York').toISOString()).toBe('2026-12-03T23:00:00.000Z');
+        expect(zonedTimeToUtc('2026-10-22T18:00', 'Asia/Jerusalem').toISOString()).toBe('2026-10-22T15:00:00.000Z');
+        // 02:30 does not exist on the spring-forward night; it moves to 03:30 EDT.
+        expect(zonedTimeToUtc('2026-03-08T02:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+        // 01:30 happens twice on the fall-back night; the first (EDT) one wins.
+        expect(zonedTimeToUtc('2026-11-01T01:30', 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+        expect(zonedTimeToUtc('tomorrow', 'UTC')).toBeNull();
+    });
+
+    it('keeps explicit offsets and formats instants back to local time', () => {
+        expect(resolveZonedTime('2026-10-22T18:00:00Z', 'America/New_York').toISOString()).toBe('2026-10-22T18:00:00.000Z');
+        expect(resolveZonedTime('2026-10-22T18:00', 'America/New_York').toISOString()).toBe('2026-10-22T22:00:00.000Z');
+        expect(resolveZonedTime('', 'UTC')).toBeNull();
+        expect(formatZonedDateTime(new Date('2026-10-22T22:00:00Z'), 'America/New_York')).toBe('2026-10-22T18:00');
+    });
+
+    it('lists daily batch times inside a range', () => {
+        const occurrences = listDailyOccurrences(
+            ['07:00', '22:00'],
+            'Asia/Jerusalem',
+            new Date('2026-10-20T00:00:00Z'),
+            new Date('2026-10-21T12:00:00Z')
+        );
+        expect(occurrences.map((date: Date) => date.toISOString())).toEqual([
+            '2026-10-20T04:00:00.000Z',
+            '2026-10-20T19:00:00.000Z',
+            '2026-10-21T04:00:00.000Z'
+        ]);
+    });
+});